@@ -1,7 +1,12 @@
 import React from 'react';
 import { useEffect, useState } from 'react';
-import { Users, Building2, Package, FileText, Truck, UserCheck, BarChart3, LogOut, ChevronRight } from 'lucide-react';
+import { Users, Building2, Package, FileText, Truck, UserCheck, BarChart3, LogOut, ChevronRight, Receipt } from 'lucide-react';
+import { Link, Navigate, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from './lib/supabase';
+import { routes } from './lib/routes';
+import { loadChauffeur, loadClient, loadDeliveryNote, loadDevis, loadFacture, loadFournisseur, loadProduct, loadPurchaseOrder } from './lib/loaders';
+import { CurrentUserContext, loadCurrentProfile, UserProfile } from './lib/currentUser';
+import { hasPermission, Permission, ROLE_LABELS } from './lib/permissions';
 import Login from './components/Login';
 import ClientsList from './components/ClientsList';
 import ClientAdd from './components/ClientAdd';
@@ -12,6 +17,9 @@ import FournisseurEdit from './components/FournisseurEdit';
 import ProductsList from './components/ProductsList';
 import ProductAdd from './components/ProductAdd';
 import ProductEdit from './components/ProductEdit';
+import DevisList from './components/DevisList';
+import DevisAdd from './components/DevisAdd';
+import DevisEdit from './components/DevisEdit';
 import PurchaseOrdersList from './components/PurchaseOrdersList';
 import PurchaseOrderAdd from './components/PurchaseOrderAdd';
 import PurchaseOrderEdit from './components/PurchaseOrderEdit';
@@ -21,6 +29,9 @@ import ChauffeurEdit from './components/ChauffeurEdit';
 import DeliveryNotesList from './components/DeliveryNotesList';
 import DeliveryNoteAdd from './components/DeliveryNoteAdd';
 import DeliveryNoteEdit from './components/DeliveryNoteEdit';
+import FacturesList from './components/FacturesList';
+import FactureAdd from './components/FactureAdd';
+import FactureEdit from './components/FactureEdit';
 import ClientDetails from './components/ClientDetails';
 import FournisseurDetails from './components/FournisseurDetails';
 import ChauffeurDetails from './components/ChauffeurDetails';
@@ -28,103 +39,23 @@ import Dashboard from './components/Dashboard';
 import SupplierReports from './components/SupplierReports';
 import ClientReports from './components/ClientReports';
 import ChauffeurReports from './components/ChauffeurReports';
+import ReceivablesAging from './components/ReceivablesAging';
+import PayablesAging from './components/PayablesAging';
+import PaymentPlanning from './components/PaymentPlanning';
 import PaymentsList from './components/PaymentsList';
 import PasswordChange from './components/PasswordChange';
-import { DollarSign, Lock } from 'lucide-react';
-
-interface Client {
-  id: string;
-  numero_client: string;
-  nom: string;
-  prenom: string;
-  societe: string;
-  ice: string;
-  email: string;
-  telephone: string;
-  total_margin: number;
-}
-
-interface Fournisseur {
-  id: string;
-  numero_fournisseur: string;
-  nom: string;
-  prenom: string;
-  societe: string;
-  ice: string;
-  email: string;
-  telephone: string;
-  available_credit: number;
-}
-
-interface Product {
-  id: string;
-  nom_produit: string;
-  prix_achat: number;
-  prix_vente: number;
-}
-
-interface PurchaseOrder {
-  id: string;
-  numero_commande: string;
-  date_commande: string;
-  statut: string;
-  total_ht: number;
-  notes: string;
-  fournisseur: {
-    nom: string;
-    prenom: string;
-    societe: string;
-    numero_fournisseur: string;
-  };
-}
-
-interface Chauffeur {
-  id: string;
-  numero_chauffeur: string;
-  nom: string;
-  prenom: string;
-  telephone: string;
-  immatricule: string;
-  type_chauffeur: string;
-}
-
-interface DeliveryNote {
-  id: string;
-  numero_livraison: string;
-  date_livraison: string;
-  statut: string;
-  total_ht: number;
-  notes: string;
-  client: {
-    nom: string;
-    prenom: string;
-    societe: string;
-  };
-  chauffeur: {
-    nom: string;
-    prenom: string;
-  };
-  bon_commande: {
-    numero_commande: string;
-  };
-}
+import UsersList from './components/UsersList';
+import RouteEntity from './components/RouteEntity';
+import GlobalSearch from './components/GlobalSearch';
+import { DollarSign, FileSignature, Lock, UserCog } from 'lucide-react';
 
 function App() {
+  const navigate = useNavigate();
+  const location = useLocation();
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
-  const [currentPage, setCurrentPage] = React.useState('clients-list');
-  const [activeMenuItem, setActiveMenuItem] = React.useState('Clients');
-  const [activeSubmenu, setActiveSubmenu] = React.useState<string | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profileLoaded, setProfileLoaded] = useState(false);
   const [expandedMenu, setExpandedMenu] = React.useState<string | null>(null);
-  const [selectedClient, setSelectedClient] = React.useState<Client | null>(null);
-  const [selectedFournisseur, setSelectedFournisseur] = React.useState<Fournisseur | null>(null);
-  const [selectedProduct, setSelectedProduct] = React.useState<Product | null>(null);
-  const [selectedPurchaseOrder, setSelectedPurchaseOrder] = React.useState<PurchaseOrder | null>(null);
-  const [selectedChauffeur, setSelectedChauffeur] = React.useState<Chauffeur | null>(null);
-  const [selectedDeliveryNote, setSelectedDeliveryNote] = React.useState<DeliveryNote | null>(null);
-  const [clientForDetails, setClientForDetails] = React.useState<Client | null>(null);
-  const [preSelectedPurchaseOrder, setPreSelectedPurchaseOrder] = React.useState<PurchaseOrder | null>(null);
-  const [fournisseurForDetails, setFournisseurForDetails] = React.useState<Fournisseur | null>(null);
-  const [chauffeurForDetails, setChauffeurForDetails] = React.useState<Chauffeur | null>(null);
 
   useEffect(() => {
     // Check initial auth state
@@ -142,6 +73,24 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setProfile(null);
+      setProfileLoaded(false);
+      return;
+    }
+
+    loadCurrentProfile()
+      .then(setProfile)
+      .catch(error => {
+        console.error('Error loading user profile:', error);
+        setProfile(null);
+      })
+      .finally(() => setProfileLoaded(true));
+  }, [isAuthenticated]);
+
+  const can = (permission: Permission) => profile?.actif === true && hasPermission(profile.role, permission);
+
   const handleLogin = () => {
     setIsAuthenticated(true);
   };
@@ -151,336 +100,398 @@ function App() {
     setIsAuthenticated(false);
   };
 
-  const sidebarItems = [
-    { name: 'Tableau de bord', icon: BarChart3 },
-    { name: 'Clients', icon: Users },
-    { name: 'Fournisseurs', icon: Building2 }, 
-    { name: 'Produits', icon: Package },
-    { name: 'Bon de commande', icon: FileText },
-    { name: 'Paiements', icon: DollarSign },
-    { name: 'Bon de livraison', icon: Truck },
-    { name: 'Chauffeurs', icon: UserCheck },
+  const allSidebarItems: Array<{
+    name: string;
+    icon: typeof Users;
+    path: string;
+    permission?: Permission;
+    submenu?: Array<{ name: string; path: string }>;
+  }> = [
+    { name: 'Tableau de bord', icon: BarChart3, path: routes.dashboard, permission: 'dashboard' },
+    { name: 'Clients', icon: Users, path: routes.clients, permission: 'clients' },
+    { name: 'Fournisseurs', icon: Building2, path: routes.fournisseurs, permission: 'fournisseurs' }, 
+    { name: 'Produits', icon: Package, path: routes.produits, permission: 'produits.voir' },
+    { name: 'Devis', icon: FileSignature, path: routes.devis, permission: 'devis' },
+    { name: 'Bon de commande', icon: FileText, path: routes.bonsDeCommande, permission: 'bonsDeCommande' },
+    { name: 'Paiements', icon: DollarSign, path: routes.paiements, permission: 'paiements.voir' },
+    { name: 'Bon de livraison', icon: Truck, path: routes.bonsDeLivraison, permission: 'bonsDeLivraison.voir' },
+    { name: 'Factures', icon: Receipt, path: routes.factures, permission: 'factures' },
+    { name: 'Chauffeurs', icon: UserCheck, path: routes.chauffeurs, permission: 'chauffeurs' },
     { 
       name: 'Rapports', 
       icon: BarChart3,
+      path: '/rapports',
+      permission: 'rapports',
       submenu: [
-        { name: 'Fournisseurs', path: 'supplier-reports' },
-        { name: 'Clients', path: 'client-reports' },
-        { name: 'Chauffeurs', path: 'chauffeur-reports' }
+        { name: 'Fournisseurs', path: routes.rapportsFournisseurs },
+        { name: 'Clients', path: routes.rapportsClients },
+        { name: 'Chauffeurs', path: routes.rapportsChauffeurs },
+        { name: 'Balance âgée clients', path: routes.rapportsBalanceAgeeClients },
+        { name: 'Balance âgée fournisseurs', path: routes.rapportsBalanceAgeeFournisseurs }
       ]
     },
-    { name: 'Paramètres', icon: Lock }
+    { name: 'Paramètres', icon: Lock, path: routes.parametres },
+    { name: 'Utilisateurs', icon: UserCog, path: routes.utilisateurs, permission: 'utilisateurs' }
   ];
 
+  const sidebarItems = allSidebarItems.filter(item => !item.permission || can(item.permission));
+
+  // First page the current role is allowed to open
+  const homePath = sidebarItems.find(item => !item.submenu)?.path || routes.parametres;
+
+  const isPathActive = (path: string) =>
+    location.pathname === path || location.pathname.startsWith(`${path}/`);
+
   const handleMenuClick = (itemName: string) => {
-    const menuItem = sidebarItems.find(item => item.name === itemName);
-    
-    if (menuItem?.submenu) {
-      // Toggle submenu
-      if (expandedMenu === itemName) {
-        setExpandedMenu(null);
-      } else {
-        setExpandedMenu(itemName);
-      }
-    } else {
-      // Regular menu item
-      setActiveMenuItem(itemName);
-      setActiveSubmenu(null);
+    // Toggle submenu
+    if (expandedMenu === itemName) {
       setExpandedMenu(null);
-      
-      if (itemName === 'Tableau de bord') {
-        setCurrentPage('dashboard');
-      } else if (itemName === 'Clients') {
-        setCurrentPage('clients-list');
-      } else if (itemName === 'Fournisseurs') {
-        setCurrentPage('fournisseurs-list');
-      } else if (itemName === 'Produits') {
-        setCurrentPage('products-list');
-      } else if (itemName === 'Bon de commande') {
-        setCurrentPage('purchase-orders-list');
-      } else if (itemName === 'Paiements') {
-        setCurrentPage('payments-list');
-      } else if (itemName === 'Chauffeurs') {
-        setCurrentPage('chauffeurs-list');
-      } else if (itemName === 'Bon de livraison') {
-        setCurrentPage('delivery-notes-list');
-      } else if (itemName === 'Paramètres') {
-        setCurrentPage('password-change');
-      } else {
-        setCurrentPage('default');
-      }
+    } else {
+      setExpandedMenu(itemName);
     }
   };
 
-  const handleSubmenuClick = (parentName: string, submenuPath: string, submenuName: string) => {
-    setActiveMenuItem(parentName);
-    setActiveSubmenu(submenuName);
-    setExpandedMenu(null);
-    setCurrentPage(submenuPath);
+  // Go back to wherever the user came from (keeping list filters and
+  // pagination), or to the section list when the page was opened directly.
+  const navigateBackTo = (fallback: string) => () => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate(fallback);
+    }
   };
+
   const handleNavigateToAddClient = () => {
-    setCurrentPage('clients-add');
+    navigate(routes.clientAdd);
   };
 
-  const handleNavigateToEditClient = (client: Client) => {
-    setSelectedClient(client);
-    setCurrentPage('clients-edit');
+  const handleNavigateToEditClient = (client: { id: string }) => {
+    navigate(routes.clientEdit(client.id));
   };
 
-  const handleNavigateToClientDetails = (client: Client) => {
-    setClientForDetails(client);
-    setCurrentPage('clients-details');
+  const handleNavigateToClientDetails = (client: { id: string }) => {
+    navigate(routes.clientDetails(client.id));
   };
 
-  const handleNavigateToFournisseurDetails = (fournisseur: Fournisseur) => {
-    setFournisseurForDetails(fournisseur);
-    setCurrentPage('fournisseurs-details');
+  const handleNavigateToFournisseurDetails = (fournisseur: { id: string }) => {
+    navigate(routes.fournisseurDetails(fournisseur.id));
   };
 
-  const handleNavigateFromClientDetailsToDelivery = (note: DeliveryNote) => {
-    setSelectedDeliveryNote(note);
-    setCurrentPage('delivery-notes-edit');
+  const handleNavigateToAddFournisseur = () => {
+    navigate(routes.fournisseurAdd);
   };
 
-  const handleNavigateBackToList = () => {
-    if (activeSubmenu) {
-      // If we're in a submenu, go back to the submenu page
-      if (activeMenuItem === 'Rapports' && activeSubmenu === 'Fournisseurs') {
-        setCurrentPage('supplier-reports');
-      } else if (activeMenuItem === 'Rapports' && activeSubmenu === 'Clients') {
-        setCurrentPage('client-reports');
-      } else if (activeMenuItem === 'Rapports' && activeSubmenu === 'Chauffeurs') {
-        setCurrentPage('chauffeur-reports');
-      }
-    } else {
-      // Regular menu navigation
-      if (activeMenuItem === 'Tableau de bord') {
-        setCurrentPage('dashboard');
-      } else if (activeMenuItem === 'Clients') {
-        setCurrentPage('clients-list');
-      } else if (activeMenuItem === 'Fournisseurs') {
-        setCurrentPage('fournisseurs-list');
-      } else if (activeMenuItem === 'Produits') {
-        setCurrentPage('products-list');
-      } else if (activeMenuItem === 'Bon de commande') {
-        setCurrentPage('purchase-orders-list');
-      } else if (activeMenuItem === 'Paiements') {
-        setCurrentPage('payments-list');
-      } else if (activeMenuItem === 'Chauffeurs') {
-        setCurrentPage('chauffeurs-list');
-      } else if (activeMenuItem === 'Bon de livraison') {
-        setCurrentPage('delivery-notes-list');
-      } else if (activeMenuItem === 'Paramètres') {
-        setCurrentPage('password-change');
-      }
-    }
-    setSelectedClient(null);
-    setSelectedFournisseur(null);
-    setSelectedProduct(null);
-    setSelectedPurchaseOrder(null);
-    setSelectedChauffeur(null);
-    setSelectedDeliveryNote(null);
-    setClientForDetails(null);
-    setPreSelectedPurchaseOrder(null);
-    setFournisseurForDetails(null);
-    setChauffeurForDetails(null);
-    // Trigger a re-render to refresh the client list
-    window.location.hash = Math.random().toString();
+  const handleNavigateToEditFournisseur = (fournisseur: { id: string }) => {
+    navigate(routes.fournisseurEdit(fournisseur.id));
   };
 
-  const handleNavigateToAddFournisseur = () => {
-    setCurrentPage('fournisseurs-add');
+  const handleNavigateToPaymentPlanning = () => {
+    navigate(routes.fournisseursPlanification);
   };
 
-  const handleNavigateToEditFournisseur = (fournisseur: Fournisseur) => {
-    setSelectedFournisseur(fournisseur);
-    setCurrentPage('fournisseurs-edit');
+  const handleNavigateToAddProduct = () => {
+    navigate(routes.produitAdd);
   };
 
-  const handleNavigateToAddProduct = () => {
-    setCurrentPage('products-add');
+  const handleNavigateToEditProduct = (product: { id: string }) => {
+    navigate(routes.produitEdit(product.id));
+  };
+
+  const handleNavigateToAddDevis = () => {
+    navigate(routes.devisAdd);
+  };
+
+  const handleNavigateToEditDevis = (devis: { id: string }) => {
+    navigate(routes.devisEdit(devis.id));
   };
 
-  const handleNavigateToEditProduct = (product: Product) => {
-    setSelectedProduct(product);
-    setCurrentPage('products-edit');
+  const handleConvertDevisToPurchaseOrder = (devis: { id: string }) => {
+    navigate(routes.bonDeCommandeAdd(devis.id));
   };
 
   const handleNavigateToAddPurchaseOrder = () => {
-    setCurrentPage('purchase-orders-add');
+    navigate(routes.bonDeCommandeAdd());
   };
 
-  const handleNavigateToEditPurchaseOrder = (order: PurchaseOrder) => {
-    setSelectedPurchaseOrder(order);
-    setCurrentPage('purchase-orders-edit');
+  const handleNavigateToEditPurchaseOrder = (order: { id: string }) => {
+    navigate(routes.bonDeCommandeEdit(order.id));
   };
 
   const handleNavigateToAddChauffeur = () => {
-    setCurrentPage('chauffeurs-add');
+    navigate(routes.chauffeurAdd);
+  };
+
+  const handleNavigateToEditChauffeur = (chauffeur: { id: string }) => {
+    navigate(routes.chauffeurEdit(chauffeur.id));
   };
 
-  const handleNavigateToEditChauffeur = (chauffeur: Chauffeur) => {
-    setSelectedChauffeur(chauffeur);
-    setCurrentPage('chauffeurs-edit');
+  const handleNavigateToChauffeurDetails = (chauffeur: { id: string }) => {
+    navigate(routes.chauffeurDetails(chauffeur.id));
   };
 
   const handleNavigateToAddDeliveryNote = () => {
-    setCurrentPage('delivery-notes-add');
-    setPreSelectedPurchaseOrder(null); // Clear any pre-selected order for manual creation
+    navigate(routes.bonDeLivraisonAdd());
   };
 
-  const handleNavigateToEditDeliveryNote = (note: DeliveryNote) => {
-    setSelectedDeliveryNote(note);
-    setCurrentPage('delivery-notes-edit');
+  const handleNavigateToEditDeliveryNote = (note: { id: string }) => {
+    navigate(routes.bonDeLivraisonEdit(note.id));
   };
 
-  const handleConvertPurchaseOrderToDelivery = (order: PurchaseOrder) => {
-    setPreSelectedPurchaseOrder(order);
-    setCurrentPage('delivery-notes-add');
+  const handleNavigateToAddFacture = () => {
+    navigate(routes.factureAdd());
   };
 
-  const handleNavigateToChauffeurDetails = (chauffeur: Chauffeur) => {
-    setChauffeurForDetails(chauffeur);
-    setCurrentPage('chauffeurs-details');
+  const handleNavigateToEditFacture = (facture: { id: string }) => {
+    navigate(routes.factureEdit(facture.id));
+  };
+
+  const handleInvoiceDeliveryNote = (note: { id: string }) => {
+    navigate(routes.factureAdd(note.id));
+  };
+
+  const handleConvertPurchaseOrderToDelivery = (order: { id: string }) => {
+    navigate(routes.bonDeLivraisonAdd(order.id));
+  };
+
+  // Permission needed by the current URL. Checked on the path so that a page
+  // reached through a bookmark or a shared link is refused as well.
+  const requiredPermission = (): Permission | undefined => {
+    if (location.pathname.startsWith(`${routes.produits}/`)) return 'produits.gerer';
+    if (location.pathname === routes.bonDeLivraisonAdd()) return 'bonsDeLivraison.gerer';
+    return allSidebarItems.find(item => isPathActive(item.path))?.permission;
   };
 
   const renderMainContent = () => {
-    switch (currentPage) {
-      case 'dashboard':
-        return <Dashboard />;
-      case 'supplier-reports':
-        return <SupplierReports />;
-      case 'client-reports':
-        return <ClientReports />;
-      case 'chauffeur-reports':
-        return <ChauffeurReports />;
-      case 'clients-list':
-        return <ClientsList onNavigateToAdd={handleNavigateToAddClient} onNavigateToEdit={handleNavigateToEditClient} onNavigateToDetails={handleNavigateToClientDetails} />;
-      case 'password-change':
-        return <PasswordChange onNavigateBack={handleNavigateBackToList} />;
-      case 'clients-add':
-        return <ClientAdd onNavigateBack={handleNavigateBackToList} />;
-      case 'clients-edit':
-        return selectedClient ? (
-          <ClientEdit client={selectedClient} onNavigateBack={handleNavigateBackToList} />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Client introuvable</p>
-          </div>
-        );
-      case 'clients-details':
-        return clientForDetails ? (
-          <ClientDetails 
-            client={clientForDetails} 
-            onNavigateBack={handleNavigateBackToList}
-            onNavigateToDelivery={handleNavigateFromClientDetailsToDelivery}
-          />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Client introuvable</p>
-          </div>
-        );
-      case 'fournisseurs-details':
-        return fournisseurForDetails ? (
-          <FournisseurDetails 
-            fournisseur={fournisseurForDetails} 
-            onNavigateBack={handleNavigateBackToList}
-            onNavigateToPurchaseOrder={handleNavigateToEditPurchaseOrder}
-          />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Fournisseur introuvable</p>
-          </div>
-        );
-      case 'fournisseurs-list':
-        return <FournisseursList onNavigateToAdd={handleNavigateToAddFournisseur} onNavigateToEdit={handleNavigateToEditFournisseur} onNavigateToDetails={handleNavigateToFournisseurDetails} />;
-      case 'fournisseurs-add':
-        return <FournisseurAdd onNavigateBack={handleNavigateBackToList} />;
-      case 'fournisseurs-edit':
-        return selectedFournisseur ? (
-          <FournisseurEdit fournisseur={selectedFournisseur} onNavigateBack={handleNavigateBackToList} />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Fournisseur introuvable</p>
-          </div>
-        );
-      case 'products-list':
-        return <ProductsList onNavigateToAdd={handleNavigateToAddProduct} onNavigateToEdit={handleNavigateToEditProduct} />;
-      case 'products-add':
-        return <ProductAdd onNavigateBack={handleNavigateBackToList} />;
-      case 'products-edit':
-        return selectedProduct ? (
-          <ProductEdit product={selectedProduct} onNavigateBack={handleNavigateBackToList} />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Produit introuvable</p>
-          </div>
-        );
-      case 'purchase-orders-list':
-        return <PurchaseOrdersList onNavigateToAdd={handleNavigateToAddPurchaseOrder} onNavigateToEdit={handleNavigateToEditPurchaseOrder} onConvertToDelivery={handleConvertPurchaseOrderToDelivery} />;
-      case 'purchase-orders-add':
-        return <PurchaseOrderAdd onNavigateBack={handleNavigateBackToList} />;
-      case 'purchase-orders-edit':
-        return selectedPurchaseOrder ? (
-          <PurchaseOrderEdit order={selectedPurchaseOrder} onNavigateBack={handleNavigateBackToList} />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Bon de commande introuvable</p>
-          </div>
-        );
-      case 'payments-list':
-        return <PaymentsList />;
-      case 'chauffeurs-list':
-        return <ChauffeursList onNavigateToAdd={handleNavigateToAddChauffeur} onNavigateToEdit={handleNavigateToEditChauffeur} onNavigateToDetails={handleNavigateToChauffeurDetails} />;
-      case 'chauffeurs-add':
-        return <ChauffeurAdd onNavigateBack={handleNavigateBackToList} />;
-      case 'chauffeurs-edit':
-        return selectedChauffeur ? (
-          <ChauffeurEdit chauffeur={selectedChauffeur} onNavigateBack={handleNavigateBackToList} />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Chauffeur introuvable</p>
-          </div>
-        );
-      case 'chauffeurs-details':
-        return chauffeurForDetails ? (
-          <ChauffeurDetails 
-            chauffeur={chauffeurForDetails} 
-            onNavigateBack={handleNavigateBackToList}
-          />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Chauffeur introuvable</p>
-          </div>
-        );
-      case 'delivery-notes-list':
-        return <DeliveryNotesList onNavigateToAdd={handleNavigateToAddDeliveryNote} onNavigateToEdit={handleNavigateToEditDeliveryNote} />;
-      case 'delivery-notes-add':
-        return <DeliveryNoteAdd onNavigateBack={handleNavigateBackToList} preSelectedPurchaseOrder={preSelectedPurchaseOrder} />;
-      case 'delivery-notes-edit':
-        return selectedDeliveryNote ? (
-          <DeliveryNoteEdit note={selectedDeliveryNote} onNavigateBack={handleNavigateBackToList} />
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">Bon de livraison introuvable</p>
-          </div>
-        );
-      default:
-        return (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-gray-500 text-lg">
-              {(activeMenuItem === 'Tableau de bord' || activeMenuItem === 'Clients' || activeMenuItem === 'Fournisseurs' || activeMenuItem === 'Produits' || activeMenuItem === 'Bon de commande' || activeMenuItem === 'Chauffeurs')
-                ? `Loading ${activeMenuItem.toLowerCase()}...` 
-                : `Page ${activeMenuItem} en cours de développement`
-              }
-            </p>
-          </div>
-        );
+    if (!profile || !profile.actif) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <p className="text-gray-500 text-lg">
+            {profile
+              ? 'Votre compte a été désactivé, contactez un administrateur'
+              : 'Aucun rôle n\'est attribué à votre compte, contactez un administrateur'}
+          </p>
+        </div>
+      );
     }
+
+    const permission = requiredPermission();
+    if (permission && !can(permission)) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <p className="text-gray-500 text-lg">Vous n'avez pas accès à cette page</p>
+        </div>
+      );
+    }
+
+    return renderRoutes();
   };
 
-  // Show loading state while checking authentication
-  if (isAuthenticated === null) {
+  const renderRoutes = () => (
+    <Routes>
+      <Route path="/" element={<Navigate to={homePath} replace />} />
+      <Route path={routes.dashboard} element={<Dashboard />} />
+
+      <Route path={routes.rapportsFournisseurs} element={<SupplierReports />} />
+      <Route path={routes.rapportsClients} element={<ClientReports />} />
+      <Route path={routes.rapportsChauffeurs} element={<ChauffeurReports />} />
+      <Route path={routes.rapportsBalanceAgeeClients} element={<ReceivablesAging onNavigateToClient={handleNavigateToClientDetails} />} />
+      <Route path={routes.rapportsBalanceAgeeFournisseurs} element={<PayablesAging onNavigateToFournisseur={handleNavigateToFournisseurDetails} />} />
+
+      <Route
+        path={routes.clients}
+        element={<ClientsList onNavigateToAdd={handleNavigateToAddClient} onNavigateToEdit={handleNavigateToEditClient} onNavigateToDetails={handleNavigateToClientDetails} />}
+      />
+      <Route path={routes.clientAdd} element={<ClientAdd onNavigateBack={navigateBackTo(routes.clients)} />} />
+      <Route
+        path={routes.clientDetails(':id')}
+        element={
+          <RouteEntity load={loadClient} notFoundMessage="Client introuvable">
+            {(client) => (
+              <ClientDetails 
+                client={client} 
+                onNavigateBack={navigateBackTo(routes.clients)}
+                onNavigateToDelivery={handleNavigateToEditDeliveryNote}
+              />
+            )}
+          </RouteEntity>
+        }
+      />
+      <Route
+        path={routes.clientEdit(':id')}
+        element={
+          <RouteEntity load={loadClient} notFoundMessage="Client introuvable">
+            {(client) => <ClientEdit client={client} onNavigateBack={navigateBackTo(routes.clients)} />}
+          </RouteEntity>
+        }
+      />
+
+      <Route
+        path={routes.fournisseurs}
+        element={<FournisseursList onNavigateToAdd={handleNavigateToAddFournisseur} onNavigateToEdit={handleNavigateToEditFournisseur} onNavigateToDetails={handleNavigateToFournisseurDetails} onNavigateToPaymentPlanning={handleNavigateToPaymentPlanning} />}
+      />
+      <Route path={routes.fournisseurAdd} element={<FournisseurAdd onNavigateBack={navigateBackTo(routes.fournisseurs)} />} />
+      <Route path={routes.fournisseursPlanification} element={<PaymentPlanning onNavigateBack={navigateBackTo(routes.fournisseurs)} />} />
+      <Route
+        path={routes.fournisseurDetails(':id')}
+        element={
+          <RouteEntity load={loadFournisseur} notFoundMessage="Fournisseur introuvable">
+            {(fournisseur) => (
+              <FournisseurDetails 
+                fournisseur={fournisseur} 
+                onNavigateBack={navigateBackTo(routes.fournisseurs)}
+                onNavigateToPurchaseOrder={handleNavigateToEditPurchaseOrder}
+              />
+            )}
+          </RouteEntity>
+        }
+      />
+      <Route
+        path={routes.fournisseurEdit(':id')}
+        element={
+          <RouteEntity load={loadFournisseur} notFoundMessage="Fournisseur introuvable">
+            {(fournisseur) => <FournisseurEdit fournisseur={fournisseur} onNavigateBack={navigateBackTo(routes.fournisseurs)} />}
+          </RouteEntity>
+        }
+      />
+
+      <Route
+        path={routes.produits}
+        element={<ProductsList onNavigateToAdd={handleNavigateToAddProduct} onNavigateToEdit={handleNavigateToEditProduct} />}
+      />
+      <Route path={routes.produitAdd} element={<ProductAdd onNavigateBack={navigateBackTo(routes.produits)} />} />
+      <Route
+        path={routes.produitEdit(':id')}
+        element={
+          <RouteEntity load={loadProduct} notFoundMessage="Produit introuvable">
+            {(product) => <ProductEdit product={product} onNavigateBack={navigateBackTo(routes.produits)} />}
+          </RouteEntity>
+        }
+      />
+
+      <Route
+        path={routes.devis}
+        element={<DevisList onNavigateToAdd={handleNavigateToAddDevis} onNavigateToEdit={handleNavigateToEditDevis} onConvertToPurchaseOrder={handleConvertDevisToPurchaseOrder} />}
+      />
+      <Route path={routes.devisAdd} element={<DevisAdd onNavigateBack={navigateBackTo(routes.devis)} />} />
+      <Route
+        path={routes.devisEdit(':id')}
+        element={
+          <RouteEntity load={loadDevis} notFoundMessage="Devis introuvable">
+            {(devis) => (
+              <DevisEdit
+                devis={devis}
+                onNavigateBack={navigateBackTo(routes.devis)}
+                onConvertToPurchaseOrder={handleConvertDevisToPurchaseOrder}
+                onConvertToDelivery={handleConvertPurchaseOrderToDelivery}
+              />
+            )}
+          </RouteEntity>
+        }
+      />
+
+      <Route
+        path={routes.bonsDeCommande}
+        element={<PurchaseOrdersList onNavigateToAdd={handleNavigateToAddPurchaseOrder} onNavigateToEdit={handleNavigateToEditPurchaseOrder} onConvertToDelivery={handleConvertPurchaseOrderToDelivery} />}
+      />
+      <Route path={routes.bonDeCommandeAdd()} element={<PurchaseOrderAdd onNavigateBack={navigateBackTo(routes.bonsDeCommande)} />} />
+      <Route
+        path={routes.bonDeCommandeEdit(':id')}
+        element={
+          <RouteEntity load={loadPurchaseOrder} notFoundMessage="Bon de commande introuvable">
+            {(order) => <PurchaseOrderEdit order={order} onNavigateBack={navigateBackTo(routes.bonsDeCommande)} />}
+          </RouteEntity>
+        }
+      />
+
+      <Route path={routes.paiements} element={<PaymentsList />} />
+
+      <Route
+        path={routes.chauffeurs}
+        element={<ChauffeursList onNavigateToAdd={handleNavigateToAddChauffeur} onNavigateToEdit={handleNavigateToEditChauffeur} onNavigateToDetails={handleNavigateToChauffeurDetails} />}
+      />
+      <Route path={routes.chauffeurAdd} element={<ChauffeurAdd onNavigateBack={navigateBackTo(routes.chauffeurs)} />} />
+      <Route
+        path={routes.chauffeurDetails(':id')}
+        element={
+          <RouteEntity load={loadChauffeur} notFoundMessage="Chauffeur introuvable">
+            {(chauffeur) => (
+              <ChauffeurDetails 
+                chauffeur={chauffeur} 
+                onNavigateBack={navigateBackTo(routes.chauffeurs)}
+              />
+            )}
+          </RouteEntity>
+        }
+      />
+      <Route
+        path={routes.chauffeurEdit(':id')}
+        element={
+          <RouteEntity load={loadChauffeur} notFoundMessage="Chauffeur introuvable">
+            {(chauffeur) => <ChauffeurEdit chauffeur={chauffeur} onNavigateBack={navigateBackTo(routes.chauffeurs)} />}
+          </RouteEntity>
+        }
+      />
+
+      <Route
+        path={routes.bonsDeLivraison}
+        element={<DeliveryNotesList onNavigateToAdd={handleNavigateToAddDeliveryNote} onNavigateToEdit={handleNavigateToEditDeliveryNote} />}
+      />
+      <Route
+        path={routes.bonDeLivraisonAdd()}
+        element={<DeliveryNoteAdd onNavigateBack={navigateBackTo(routes.bonsDeLivraison)} />}
+      />
+      <Route
+        path={routes.bonDeLivraisonEdit(':id')}
+        element={
+          <RouteEntity load={loadDeliveryNote} notFoundMessage="Bon de livraison introuvable">
+            {(note) => (
+              <DeliveryNoteEdit
+                note={note}
+                onNavigateBack={navigateBackTo(routes.bonsDeLivraison)}
+                onNavigateToInvoice={handleNavigateToEditFacture}
+                onCreateInvoice={handleInvoiceDeliveryNote}
+              />
+            )}
+          </RouteEntity>
+        }
+      />
+
+      <Route
+        path={routes.factures}
+        element={<FacturesList onNavigateToAdd={handleNavigateToAddFacture} onNavigateToEdit={handleNavigateToEditFacture} />}
+      />
+      <Route path={routes.factureAdd()} element={<FactureAdd onNavigateBack={navigateBackTo(routes.factures)} />} />
+      <Route
+        path={routes.factureEdit(':id')}
+        element={
+          <RouteEntity load={loadFacture} notFoundMessage="Facture introuvable">
+            {(facture) => (
+              <FactureEdit
+                facture={facture}
+                onNavigateBack={navigateBackTo(routes.factures)}
+                onNavigateToDelivery={handleNavigateToEditDeliveryNote}
+              />
+            )}
+          </RouteEntity>
+        }
+      />
+
+      <Route path={routes.parametres} element={<PasswordChange onNavigateBack={navigateBackTo(homePath)} />} />
+      <Route path={routes.utilisateurs} element={<UsersList />} />
+
+      <Route
+        path="*"
+        element={
+          <div className="h-full flex items-center justify-center">
+            <p className="text-gray-500 text-lg">Page introuvable</p>
+          </div>
+        }
+      />
+    </Routes>
+  );
+
+  // Show loading state while checking authentication and loading the role
+  if (isAuthenticated === null || (isAuthenticated && !profileLoaded)) {
     return (
       <div className="h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
@@ -511,13 +522,22 @@ function App() {
             alt="ANTURGOOD Logo" 
             className="h-8"
           />
-          <button
-            onClick={handleLogout}
-            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200 text-sm font-medium"
-          >
-            <LogOut className="w-4 h-4" />
-            Se déconnecter
-          </button>
+          {profile?.actif && <GlobalSearch can={can} />}
+          <div className="flex items-center gap-4">
+            {profile && (
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">{profile.nom_complet || profile.email}</p>
+                <p className="text-xs text-gray-500">{ROLE_LABELS[profile.role]}</p>
+              </div>
+            )}
+            <button
+              onClick={handleLogout}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200 text-sm font-medium"
+            >
+              <LogOut className="w-4 h-4" />
+              Se déconnecter
+            </button>
+          </div>
         </div>
       </nav>
 
@@ -531,44 +551,57 @@ function App() {
                 const IconComponent = item.icon;
                 const hasSubmenu = item.submenu && item.submenu.length > 0;
                 const isExpanded = expandedMenu === item.name;
-                const isActive = activeMenuItem === item.name;
+                const isActive = isPathActive(item.path);
+                const itemClassName = `w-full text-left flex items-center justify-between px-4 py-3 rounded-lg transition-colors duration-200 font-medium ${
+                  isActive && !hasSubmenu
+                    ? 'bg-blue-50 text-blue-700 border-r-2 border-blue-700'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`;
                 
                 return (
                   <li key={index}>
                     <div>
-                      <button
-                        onClick={() => handleMenuClick(item.name)}
-                        className={`w-full text-left flex items-center justify-between px-4 py-3 rounded-lg transition-colors duration-200 font-medium ${
-                          isActive && !activeSubmenu
-                            ? 'bg-blue-50 text-blue-700 border-r-2 border-blue-700'
-                            : 'text-gray-700 hover:bg-gray-100'
-                        }`}
-                      >
-                        <div className="flex items-center">
-                          <IconComponent className="w-5 h-5 mr-3" />
-                          {item.name}
-                        </div>
-                        {hasSubmenu && (
+                      {hasSubmenu ? (
+                        <button
+                          onClick={() => handleMenuClick(item.name)}
+                          className={itemClassName}
+                        >
+                          <div className="flex items-center">
+                            <IconComponent className="w-5 h-5 mr-3" />
+                            {item.name}
+                          </div>
                           <ChevronRight className={`w-4 h-4 transition-transform duration-200 ${
                             isExpanded ? 'transform rotate-90' : ''
                           }`} />
-                        )}
-                      </button>
+                        </button>
+                      ) : (
+                        <Link
+                          to={item.path}
+                          onClick={() => setExpandedMenu(null)}
+                          className={itemClassName}
+                        >
+                          <div className="flex items-center">
+                            <IconComponent className="w-5 h-5 mr-3" />
+                            {item.name}
+                          </div>
+                        </Link>
+                      )}
                       
                       {hasSubmenu && isExpanded && (
                         <ul className="mt-2 ml-8 space-y-1">
-                          {item.submenu.map((subItem, subIndex) => (
+                          {item.submenu?.map((subItem, subIndex) => (
                             <li key={subIndex}>
-                              <button
-                                onClick={() => handleSubmenuClick(item.name, subItem.path, subItem.name)}
-                                className={`w-full text-left px-4 py-2 text-sm rounded-lg transition-colors duration-200 ${
-                                  isActive && activeSubmenu === subItem.name
+                              <Link
+                                to={subItem.path}
+                                onClick={() => setExpandedMenu(null)}
+                                className={`block w-full text-left px-4 py-2 text-sm rounded-lg transition-colors duration-200 ${
+                                  isPathActive(subItem.path)
                                     ? 'bg-blue-100 text-blue-700'
                                     : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
                                 }`}
                               >
                                 {subItem.name}
-                              </button>
+                              </Link>
                             </li>
                           ))}
                         </ul>
@@ -583,7 +616,9 @@ function App() {
 
         {/* Main Content Area */}
         <main className="flex-1 bg-gray-50 p-8 overflow-auto">
-          {renderMainContent()}
+          <CurrentUserContext.Provider value={profile}>
+            {renderMainContent()}
+          </CurrentUserContext.Provider>
         </main>
       </div>
     </div>
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Truck, Calendar, MapPin, TrendingUp, ShoppingBag, Search, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { ArrowLeft, Truck, Calendar, MapPin, TrendingUp, ShoppingBag, Search, ChevronLeft, ChevronRight, X, Wallet, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useCurrentUser } from '../lib/currentUser';
+import HistoryPanel from './HistoryPanel';
 
 interface Chauffeur {
   id: string;
@@ -10,17 +12,20 @@ interface Chauffeur {
   telephone: string;
   immatricule: string;
   type_chauffeur: string;
+  tarif_voyage?: number;
+  salaire_mensuel?: number;
   created_at: string;
 }
 
 interface DeliveryNote {
   id: string;
-  numero_livraision: string;
+  numero_livraison: string;
   date_livraison: string;
   statut: string;
   total_ht: number;
   notes: string | null;
   immatricule_utilise: string;
+  montant_chauffeur: number | null;
   client: {
     nom: string;
     prenom: string;
@@ -38,6 +43,32 @@ interface DeliveryNote {
   };
 }
 
+interface DriverPayment {
+  id: string;
+  numero_paiement: string | null;
+  montant: number;
+  mode_paiement: string;
+  reference: string | null;
+  date_paiement: string;
+  notes: string | null;
+}
+
+interface DriverSalary {
+  id: string;
+  periode: string;
+  montant: number;
+  notes: string | null;
+}
+
+interface StatementLine {
+  key: string;
+  date: string;
+  libelle: string;
+  du: number;
+  paye: number;
+  solde: number;
+}
+
 interface ChauffeurStats {
   totalDeliveries: number;
   deliveredCount: number;
@@ -51,7 +82,10 @@ interface ChauffeurDetailsProps {
 }
 
 const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNavigateBack }) => {
+  const { can } = useCurrentUser();
   const [deliveryNotes, setDeliveryNotes] = useState<DeliveryNote[]>([]);
+  const [payments, setPayments] = useState<DriverPayment[]>([]);
+  const [salaries, setSalaries] = useState<DriverSalary[]>([]);
   const [stats, setStats] = useState<ChauffeurStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -59,6 +93,28 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
   // Pagination states
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 15;
+  const [statementPage, setStatementPage] = useState(1);
+  const statementPerPage = 10;
+
+  // Payment and salary modals
+  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [paymentForm, setPaymentForm] = useState({
+    montant: '',
+    mode_paiement: 'cash',
+    reference: '',
+    issuer: '',
+    date_paiement: new Date().toISOString().split('T')[0],
+    notes: ''
+  });
+  const [isSubmittingPayment, setIsSubmittingPayment] = useState(false);
+  const [showSalaryModal, setShowSalaryModal] = useState(false);
+  const [salaryForm, setSalaryForm] = useState({
+    periode: new Date().toISOString().slice(0, 7),
+    montant: '',
+    notes: ''
+  });
+  const [isSubmittingSalary, setIsSubmittingSalary] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
   
   // Filter states
   const [searchTerm, setSearchTerm] = useState('');
@@ -97,6 +153,30 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
 
       setDeliveryNotes(deliveries || []);
 
+      // Fetch payments and salaries for the driver account
+      const [paymentsResult, salariesResult] = await Promise.all([
+        supabase
+          .from('paiements_chauffeurs')
+          .select('id, numero_paiement, montant, mode_paiement, reference, date_paiement, notes')
+          .eq('chauffeur_id', chauffeur.id)
+          .order('date_paiement', { ascending: false }),
+        supabase
+          .from('salaires_chauffeurs')
+          .select('id, periode, montant, notes')
+          .eq('chauffeur_id', chauffeur.id)
+          .order('periode', { ascending: false })
+      ]);
+
+      if (paymentsResult.error) {
+        throw paymentsResult.error;
+      }
+      if (salariesResult.error) {
+        throw salariesResult.error;
+      }
+
+      setPayments(paymentsResult.data || []);
+      setSalaries(salariesResult.data || []);
+
       // Calculate statistics
       const deliveriesData = deliveries || [];
       
@@ -120,6 +200,128 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
     }
   };
 
+  const handlePaymentInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setPaymentForm(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSalaryInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setSalaryForm(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const openSalaryModal = () => {
+    setSalaryForm({
+      periode: new Date().toISOString().slice(0, 7),
+      montant: chauffeur.salaire_mensuel ? String(chauffeur.salaire_mensuel) : '',
+      notes: ''
+    });
+    setFormError(null);
+    setShowSalaryModal(true);
+  };
+
+  const handleAddPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!paymentForm.montant || Number(paymentForm.montant) <= 0) {
+      setFormError('Le montant doit être supérieur à 0');
+      return;
+    }
+
+    setIsSubmittingPayment(true);
+    setFormError(null);
+
+    try {
+      const { error } = await supabase
+        .from('paiements_chauffeurs')
+        .insert([
+          {
+            chauffeur_id: chauffeur.id,
+            montant: Number(paymentForm.montant),
+            mode_paiement: paymentForm.mode_paiement,
+            reference: paymentForm.reference.trim() || null,
+            issuer: paymentForm.issuer.trim() || null,
+            date_paiement: paymentForm.date_paiement,
+            notes: paymentForm.notes.trim() || null
+          }
+        ]);
+
+      if (error) {
+        throw error;
+      }
+
+      setPaymentForm({
+        montant: '',
+        mode_paiement: 'cash',
+        reference: '',
+        issuer: '',
+        date_paiement: new Date().toISOString().split('T')[0],
+        notes: ''
+      });
+
+      setShowPaymentModal(false);
+      setStatementPage(1);
+      await fetchChauffeurData();
+    } catch (err) {
+      console.error('Error adding driver payment:', err);
+      setFormError('Erreur lors de l\'ajout du paiement. Veuillez réessayer.');
+    } finally {
+      setIsSubmittingPayment(false);
+    }
+  };
+
+  const handleAddSalary = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!salaryForm.periode) {
+      setFormError('Le mois est requis');
+      return;
+    }
+    if (!salaryForm.montant || Number(salaryForm.montant) <= 0) {
+      setFormError('Le montant doit être supérieur à 0');
+      return;
+    }
+
+    setIsSubmittingSalary(true);
+    setFormError(null);
+
+    try {
+      const { error } = await supabase
+        .from('salaires_chauffeurs')
+        .insert([
+          {
+            chauffeur_id: chauffeur.id,
+            periode: `${salaryForm.periode}-01`,
+            montant: Number(salaryForm.montant),
+            notes: salaryForm.notes.trim() || null
+          }
+        ]);
+
+      if (error) {
+        throw error;
+      }
+
+      setShowSalaryModal(false);
+      setStatementPage(1);
+      await fetchChauffeurData();
+    } catch (err) {
+      console.error('Error adding driver salary:', err);
+      if ((err as { code?: string }).code === '23505') {
+        setFormError('Le salaire de ce mois a déjà été généré pour ce chauffeur');
+      } else {
+        setFormError('Erreur lors de l\'enregistrement du salaire. Veuillez réessayer.');
+      }
+    } finally {
+      setIsSubmittingSalary(false);
+    }
+  };
+
   const handleDateFilterChange = (field: 'dateFrom' | 'dateTo', value: string) => {
     setDateFilters(prev => ({
       ...prev,
@@ -211,6 +413,65 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
     }).format(price) + ' DH';
   };
 
+  const getModeLabel = (mode: string) => {
+    return mode === 'cash' ? 'Espèces' :
+      mode === 'cheque' ? 'Chèque' :
+      mode === 'effet' ? 'Effet' :
+      mode === 'virement' ? 'Virement' :
+      mode;
+  };
+
+  // Driver account: trips (externe) and salaries (interne) owed, payments made
+  const isExterne = chauffeur.type_chauffeur !== 'interne';
+  const unratedDeliveries = isExterne
+    ? deliveryNotes.filter(delivery => delivery.montant_chauffeur === null).length
+    : 0;
+
+  const buildStatement = (): StatementLine[] => {
+    const entries = [
+      ...deliveryNotes
+        .filter(delivery => (delivery.montant_chauffeur || 0) > 0)
+        .map(delivery => ({
+          key: `bl-${delivery.id}`,
+          date: delivery.date_livraison,
+          libelle: `Voyage ${delivery.numero_livraison}`,
+          du: delivery.montant_chauffeur || 0,
+          paye: 0
+        })),
+      ...salaries.map(salary => ({
+        key: `salaire-${salary.id}`,
+        date: salary.periode,
+        libelle: `Salaire ${new Date(salary.periode).toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })}`,
+        du: salary.montant,
+        paye: 0
+      })),
+      ...payments.map(payment => ({
+        key: `paiement-${payment.id}`,
+        date: payment.date_paiement,
+        libelle: `${payment.numero_paiement ? `Paiement ${payment.numero_paiement}` : 'Paiement'} (${getModeLabel(payment.mode_paiement)})`,
+        du: 0,
+        paye: payment.montant
+      }))
+    ].sort((a, b) => a.date.localeCompare(b.date) || b.du - a.du);
+
+    let solde = 0;
+    return entries
+      .map(entry => {
+        solde += entry.du - entry.paye;
+        return { ...entry, solde };
+      })
+      .reverse();
+  };
+
+  const statement = buildStatement();
+  const totalDu = statement.reduce((sum, line) => sum + line.du, 0);
+  const totalPaye = statement.reduce((sum, line) => sum + line.paye, 0);
+  const soldeDu = totalDu - totalPaye;
+
+  const statementTotalPages = Math.ceil(statement.length / statementPerPage);
+  const statementStart = (statementPage - 1) * statementPerPage;
+  const currentStatement = statement.slice(statementStart, statementStart + statementPerPage);
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       en_preparation: 'bg-yellow-100 text-yellow-800',
@@ -369,6 +630,82 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
         </div>
       )}
 
+      {/* Driver Account */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Total dû</p>
+              <p className="text-2xl font-bold text-gray-900">{formatPrice(totalDu)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {isExterne
+                  ? `Tarif: ${formatPrice(chauffeur.tarif_voyage || 0)} / voyage`
+                  : `Salaire: ${formatPrice(chauffeur.salaire_mensuel || 0)} / mois`}
+              </p>
+            </div>
+            <div className="flex flex-col items-center">
+              <Wallet className="w-8 h-8 text-blue-600" />
+              {!isExterne && can('chauffeurs.paie') && (
+                <button
+                  onClick={openSalaryModal}
+                  className="mt-2 text-xs bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded transition-colors duration-200"
+                >
+                  + Salaire
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Total payé</p>
+              <p className="text-2xl font-bold text-green-600">{formatPrice(totalPaye)}</p>
+              <p className="text-xs text-gray-500 mt-1">{payments.length} paiement(s)</p>
+            </div>
+            <div className="flex flex-col items-center">
+              <TrendingUp className="w-8 h-8 text-green-600" />
+              {can('paiements.creer') && (
+                <button
+                  onClick={() => {
+                    setFormError(null);
+                    setShowPaymentModal(true);
+                  }}
+                  className="mt-2 text-xs bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded transition-colors duration-200"
+                >
+                  + Paiement
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Solde</p>
+              <p className={`text-2xl font-bold ${soldeDu > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatPrice(Math.abs(soldeDu))}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {soldeDu > 0 ? 'Reste à payer au chauffeur' : soldeDu < 0 ? 'Avance versée au chauffeur' : 'Compte soldé'}
+              </p>
+            </div>
+            <Wallet className={`w-8 h-8 ${soldeDu > 0 ? 'text-red-600' : 'text-green-600'}`} />
+          </div>
+        </div>
+      </div>
+
+      {unratedDeliveries > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-600" />
+          <p className="text-sm text-yellow-800">
+            {unratedDeliveries} livraison(s) sans montant chauffeur: renseignez le tarif par voyage du chauffeur pour les valoriser.
+          </p>
+        </div>
+      )}
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
         <div className="flex items-center justify-between mb-4">
@@ -489,6 +826,9 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
                 <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Total
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Montant chauffeur
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -532,11 +872,18 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
                     <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
                       {formatPrice(delivery.total_ht)}
                     </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {delivery.montant_chauffeur === null ? (
+                        <span className="text-yellow-700">Sans tarif</span>
+                      ) : (
+                        formatPrice(delivery.montant_chauffeur)
+                      )}
+                    </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={9} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <Truck className="w-8 h-8 text-gray-300 mb-2" />
                       <p>
@@ -601,6 +948,323 @@ const ChauffeurDetails: React.FC<ChauffeurDetailsProps> = ({ chauffeur, onNaviga
           </div>
         </div>
       )}
+
+      {/* Driver Statement */}
+      <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Relevé du compte chauffeur</h2>
+            <span className="text-sm text-gray-600">{statement.length} opération(s)</span>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Libellé
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Dû
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Payé
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Solde
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {currentStatement.length > 0 ? (
+                currentStatement.map((line) => (
+                  <tr key={line.key} className="hover:bg-gray-50 transition-colors duration-150">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(line.date).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {line.libelle}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                      {line.du > 0 ? formatPrice(line.du) : '-'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-green-600">
+                      {line.paye > 0 ? formatPrice(line.paye) : '-'}
+                    </td>
+                    <td className={`px-4 py-3 whitespace-nowrap text-sm text-right font-medium ${
+                      line.solde > 0 ? 'text-red-600' : 'text-gray-900'
+                    }`}>
+                      {formatPrice(line.solde)}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    <div className="flex flex-col items-center">
+                      <Wallet className="w-8 h-8 text-gray-300 mb-2" />
+                      <p>Aucune opération sur le compte de ce chauffeur</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {statementTotalPages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              Page {statementPage} sur {statementTotalPages}
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setStatementPage(statementPage - 1)}
+                disabled={statementPage === 1}
+                className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setStatementPage(statementPage + 1)}
+                disabled={statementPage === statementTotalPages}
+                className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {can('historique') && <HistoryPanel recordId={chauffeur.id} className="mt-8" />}
+
+      {/* Payment Modal */}
+      {showPaymentModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Ajouter un paiement</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Chauffeur: {chauffeur.prenom} {chauffeur.nom} - Solde: {formatPrice(soldeDu)}
+              </p>
+            </div>
+            <form onSubmit={handleAddPayment} className="p-6">
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="montant" className="block text-sm font-medium text-gray-700 mb-1">
+                    Montant (DH) <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    id="montant"
+                    name="montant"
+                    step="0.01"
+                    min="0.01"
+                    value={paymentForm.montant}
+                    onChange={handlePaymentInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="mode_paiement" className="block text-sm font-medium text-gray-700 mb-1">
+                    Mode de paiement <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="mode_paiement"
+                    name="mode_paiement"
+                    value={paymentForm.mode_paiement}
+                    onChange={handlePaymentInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="cash">Espèces</option>
+                    <option value="cheque">Chèque</option>
+                    <option value="effet">Effet</option>
+                    <option value="virement">Virement bancaire</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="reference" className="block text-sm font-medium text-gray-700 mb-1">
+                    Référence
+                  </label>
+                  <input
+                    type="text"
+                    id="reference"
+                    name="reference"
+                    value={paymentForm.reference}
+                    onChange={handlePaymentInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="N° chèque, effet, virement..."
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="issuer" className="block text-sm font-medium text-gray-700 mb-1">
+                    Émetteur
+                  </label>
+                  <input
+                    type="text"
+                    id="issuer"
+                    name="issuer"
+                    value={paymentForm.issuer}
+                    onChange={handlePaymentInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Nom de la banque, émetteur..."
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="date_paiement" className="block text-sm font-medium text-gray-700 mb-1">
+                    Date de paiement <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    id="date_paiement"
+                    name="date_paiement"
+                    value={paymentForm.date_paiement}
+                    onChange={handlePaymentInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes
+                  </label>
+                  <textarea
+                    id="notes"
+                    name="notes"
+                    rows={3}
+                    value={paymentForm.notes}
+                    onChange={handlePaymentInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Notes optionnelles..."
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                  <p className="text-red-700 text-sm">{formError}</p>
+                </div>
+              )}
+
+              <div className="flex gap-4 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setShowPaymentModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmittingPayment}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+                >
+                  {isSubmittingPayment ? 'Ajout...' : 'Ajouter'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Salary Modal */}
+      {showSalaryModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Générer le salaire</h3>
+              <p className="text-sm text-gray-600 mt-1">Chauffeur: {chauffeur.prenom} {chauffeur.nom}</p>
+            </div>
+            <form onSubmit={handleAddSalary} className="p-6">
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="periode" className="block text-sm font-medium text-gray-700 mb-1">
+                    Mois <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="month"
+                    id="periode"
+                    name="periode"
+                    value={salaryForm.periode}
+                    onChange={handleSalaryInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="salaire_montant" className="block text-sm font-medium text-gray-700 mb-1">
+                    Montant (DH) <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    id="salaire_montant"
+                    name="montant"
+                    step="0.01"
+                    min="0.01"
+                    value={salaryForm.montant}
+                    onChange={handleSalaryInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Salaire mensuel du chauffeur par défaut, ajustable pour ce mois (primes, absences...).
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="salaire_notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes
+                  </label>
+                  <textarea
+                    id="salaire_notes"
+                    name="notes"
+                    rows={3}
+                    value={salaryForm.notes}
+                    onChange={handleSalaryInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Notes optionnelles..."
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                  <p className="text-red-700 text-sm">{formError}</p>
+                </div>
+              )}
+
+              <div className="flex gap-4 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setShowSalaryModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmittingSalary}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+                >
+                  {isSubmittingSalary ? 'Enregistrement...' : 'Enregistrer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
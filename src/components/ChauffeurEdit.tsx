@@ -9,6 +9,8 @@ interface Chauffeur {
   prenom: string;
   telephone: string;
   immatricule: string;
+  tarif_voyage?: number;
+  salaire_mensuel?: number;
 }
 
 interface ChauffeurEditProps {
@@ -22,7 +24,9 @@ const ChauffeurEdit: React.FC<ChauffeurEditProps> = ({ onNavigateBack, chauffeur
     prenom: chauffeur.prenom,
     telephone: chauffeur.telephone,
     immatricule: chauffeur.immatricule,
-    type_chauffeur: (chauffeur as any).type_chauffeur || 'externe'
+    type_chauffeur: (chauffeur as any).type_chauffeur || 'externe',
+    tarif_voyage: chauffeur.tarif_voyage ? String(chauffeur.tarif_voyage) : '',
+    salaire_mensuel: chauffeur.salaire_mensuel ? String(chauffeur.salaire_mensuel) : ''
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -69,6 +73,14 @@ const ChauffeurEdit: React.FC<ChauffeurEditProps> = ({ onNavigateBack, chauffeur
       newErrors.immatricule = 'Format d\'immatricule invalide (ex: 123456 A 12 ou 12345|أ|67)';
     }
 
+    if (Number(formData.tarif_voyage) < 0) {
+      newErrors.tarif_voyage = 'Le tarif ne peut pas être négatif';
+    }
+
+    if (Number(formData.salaire_mensuel) < 0) {
+      newErrors.salaire_mensuel = 'Le salaire ne peut pas être négatif';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -91,7 +103,9 @@ const ChauffeurEdit: React.FC<ChauffeurEditProps> = ({ onNavigateBack, chauffeur
           prenom: formData.prenom.trim(),
           telephone: formData.telephone.trim(),
           immatricule: formData.immatricule.trim(),
-          type_chauffeur: formData.type_chauffeur
+          type_chauffeur: formData.type_chauffeur,
+          tarif_voyage: Number(formData.tarif_voyage) || 0,
+          salaire_mensuel: Number(formData.salaire_mensuel) || 0
         })
         .eq('id', chauffeur.id)
         .select();
@@ -271,6 +285,59 @@ const ChauffeurEdit: React.FC<ChauffeurEditProps> = ({ onNavigateBack, chauffeur
               </p>
             </div>
 
+            {/* Driver Pay */}
+            {formData.type_chauffeur === 'externe' ? (
+              <div>
+                <label htmlFor="tarif_voyage" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Tarif par voyage (DH)
+                </label>
+                <input
+                  type="number"
+                  id="tarif_voyage"
+                  name="tarif_voyage"
+                  step="0.01"
+                  min="0"
+                  value={formData.tarif_voyage}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                    errors.tarif_voyage ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="0.00"
+                />
+                {errors.tarif_voyage && (
+                  <p className="text-red-500 text-xs mt-1">{errors.tarif_voyage}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Montant dû au chauffeur pour chaque bon de livraison, figé à l'affectation du BL.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="salaire_mensuel" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Salaire mensuel (DH)
+                </label>
+                <input
+                  type="number"
+                  id="salaire_mensuel"
+                  name="salaire_mensuel"
+                  step="0.01"
+                  min="0"
+                  value={formData.salaire_mensuel}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                    errors.salaire_mensuel ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="0.00"
+                />
+                {errors.salaire_mensuel && (
+                  <p className="text-red-500 text-xs mt-1">{errors.salaire_mensuel}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Montant proposé lors de la génération des salaires du mois.
+                </p>
+              </div>
+            )}
+
             {/* Submit Button */}
             <div className="pt-6 border-t border-gray-200">
               <div className="flex justify-end gap-4">
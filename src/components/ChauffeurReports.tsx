@@ -14,6 +14,7 @@ import {
   Building2
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useQueryState, useQueryStates } from '../lib/useQueryState';
 
 interface Chauffeur {
   id: string;
@@ -33,6 +34,7 @@ interface DeliveryReport {
   total_ht: number;
   notes: string | null;
   immatricule_utilise: string;
+  montant_chauffeur: number | null;
   client: {
     nom: string;
     prenom: string;
@@ -57,19 +59,27 @@ interface Payment {
   date_paiement: string;
 }
 
+interface Salary {
+  id: string;
+  periode: string;
+  montant: number;
+}
+
 const ChauffeurReports: React.FC = () => {
   const [chauffeurs, setChauffeurs] = useState<Chauffeur[]>([]);
-  const [selectedChauffeur, setSelectedChauffeur] = useState<Chauffeur | null>(null);
+  const [selectedChauffeurId, setSelectedChauffeurId] = useQueryState('chauffeur');
+  const selectedChauffeur = chauffeurs.find(item => item.id === selectedChauffeurId) || null;
   const [deliveries, setDeliveries] = useState<DeliveryReport[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [salaries, setSalaries] = useState<Salary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
 
   // Local state for date inputs to prevent immediate re-renders
   const [localDateFilters, setLocalDateFilters] = useState({
@@ -156,6 +166,22 @@ const ChauffeurReports: React.FC = () => {
 
       const { data: paymentsData } = await paymentsQuery;
       setPayments(paymentsData || []);
+
+      // Salaries of the months in the selected period
+      let salariesQuery = supabase
+        .from('salaires_chauffeurs')
+        .select('id, periode, montant')
+        .eq('chauffeur_id', selectedChauffeur.id);
+
+      if (dateFilters.dateFrom) {
+        salariesQuery = salariesQuery.gte('periode', `${dateFilters.dateFrom.slice(0, 7)}-01`);
+      }
+      if (dateFilters.dateTo) {
+        salariesQuery = salariesQuery.lte('periode', dateFilters.dateTo);
+      }
+
+      const { data: salariesData } = await salariesQuery;
+      setSalaries(salariesData || []);
     } catch (err: any) {
       console.error('Error fetching chauffeur deliveries:', err);
       setError('Erreur lors du chargement des livraisons');
@@ -165,7 +191,7 @@ const ChauffeurReports: React.FC = () => {
   };
 
   const handleChauffeurSelect = (chauffeur: Chauffeur) => {
-    setSelectedChauffeur(chauffeur);
+    setSelectedChauffeurId(chauffeur.id);
     setSearchTerm('');
   };
 
@@ -208,25 +234,28 @@ const ChauffeurReports: React.FC = () => {
       'BL number', 
       'Supplier',
       'Client',
-      'Total'
+      'Total',
+      'Transport'
     ];
 
     const csvData = deliveries.map(delivery => [
       new Date(delivery.date_livraison).toLocaleDateString('fr-FR'),
       delivery.numero_livraison,
-      delivery.numero_livraison,
       delivery.bon_commande?.fournisseur?.societe || 
         `${delivery.bon_commande?.fournisseur?.prenom || ''} ${delivery.bon_commande?.fournisseur?.nom || ''}`.trim() || 'Non spécifié',
       delivery.client?.societe || `${delivery.client?.prenom || ''} ${delivery.client?.nom || ''}`.trim() || 'Non spécifié',
-      delivery.total_ht.toFixed(2)
+      delivery.total_ht.toFixed(2),
+      (delivery.montant_chauffeur || 0).toFixed(2)
     ]);
 
     // Add totals row
     csvData.push([
-      '', // Client
-      '',
+      '', // Date
+      '', // BL number
+      '', // Supplier
       `TOTAUX (${deliveries.length} livraisons)`,
-      totals.totalDeliveries.toFixed(2)
+      totals.totalDeliveries.toFixed(2),
+      totals.totalTransport.toFixed(2)
     ]);
 
     const csvContent = [csvHeaders, ...csvData]
@@ -289,12 +318,18 @@ const ChauffeurReports: React.FC = () => {
     const totalPaymentsAmount = payments.reduce((sum, payment) => sum + payment.montant, 0);
     const deliveriesCount = deliveries.length;
     const completedDeliveries = deliveries.filter(d => d.statut === 'livree').length;
+    // Owed to the driver: transport cost of the BLs and salaries of the period
+    const totalTransport = deliveries.reduce((sum, delivery) => sum + (delivery.montant_chauffeur || 0), 0);
+    const totalSalaries = salaries.reduce((sum, salary) => sum + salary.montant, 0);
     
     return {
       totalDeliveries,
       totalPayments: totalPaymentsAmount,
       deliveriesCount,
-      completedDeliveries
+      completedDeliveries,
+      totalTransport,
+      totalSalaries,
+      balance: totalTransport + totalSalaries - totalPaymentsAmount
     };
   };
 
@@ -419,7 +454,7 @@ const ChauffeurReports: React.FC = () => {
       <div className="flex items-center justify-between mb-8 print:hidden">
         <div className="flex items-center gap-4">
           <button
-            onClick={() => setSelectedChauffeur(null)}
+            onClick={() => setSelectedChauffeurId('')}
             className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
           >
             <ArrowLeft className="w-5 h-5" />
@@ -518,7 +553,7 @@ const ChauffeurReports: React.FC = () => {
       </div>
 
       {/* Summary Cards - Hidden in print */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8 print:hidden">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 print:hidden">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
@@ -552,12 +587,41 @@ const ChauffeurReports: React.FC = () => {
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Paiements Reçus</p>
+              <p className="text-sm text-gray-600">Dû au chauffeur</p>
+              <p className="text-2xl font-bold text-gray-900">{formatPrice(totals.totalTransport + totals.totalSalaries)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Transport {formatPrice(totals.totalTransport)}
+                {totals.totalSalaries > 0 && ` + salaires ${formatPrice(totals.totalSalaries)}`}
+              </p>
+            </div>
+            <Truck className="w-8 h-8 text-gray-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Payé au chauffeur</p>
               <p className="text-2xl font-bold text-green-600">{formatPrice(totals.totalPayments)}</p>
             </div>
             <DollarSign className="w-8 h-8 text-green-600" />
           </div>
         </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Solde de la période</p>
+              <p className={`text-2xl font-bold ${totals.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatPrice(totals.balance)}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {totals.balance > 0 ? 'Reste à payer' : totals.balance < 0 ? 'Avance versée' : 'Soldé'}
+              </p>
+            </div>
+            <DollarSign className={`w-8 h-8 ${totals.balance > 0 ? 'text-red-600' : 'text-green-600'}`} />
+          </div>
+        </div>
       </div>
 
       {/* Deliveries Table */}
@@ -590,6 +654,9 @@ const ChauffeurReports: React.FC = () => {
                 <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Total
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Transport
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -614,11 +681,14 @@ const ChauffeurReports: React.FC = () => {
                     <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
                       {formatPrice(delivery.total_ht)}
                     </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {delivery.montant_chauffeur === null ? '-' : formatPrice(delivery.montant_chauffeur)}
+                    </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <FileText className="w-8 h-8 text-gray-300 mb-2" />
                       <p>Aucune livraison pour la période sélectionnée</p>
@@ -638,6 +708,9 @@ const ChauffeurReports: React.FC = () => {
                   <td className="px-4 py-4 text-sm font-bold text-blue-600">
                     {formatPrice(totals.totalDeliveries)}
                   </td>
+                  <td className="px-4 py-4 text-sm font-bold text-gray-900">
+                    {formatPrice(totals.totalTransport)}
+                  </td>
                 </tr>
               </tfoot>
             )}
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
-import { ChevronLeft, ChevronRight, Plus, Search, Truck, Eye } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, Search, Truck, Eye, Wallet } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useCurrentUser } from '../lib/currentUser';
+import { useQueryNumber, useQueryState } from '../lib/useQueryState';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import TransportRates from './TransportRates';
+import Highlight from './Highlight';
 
 interface Chauffeur {
   id: string;
@@ -10,6 +15,8 @@ interface Chauffeur {
   telephone: string;
   immatricule: string;
   type_chauffeur: string;
+  current_debt: number;
+  available_credit: number;
 }
 
 interface ChauffeursListProps {
@@ -23,10 +30,18 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [view, setView] = useQueryState('vue');
   const itemsPerPage = 10;
 
+  const { can } = useCurrentUser();
+  const [showSalaryRunModal, setShowSalaryRunModal] = useState(false);
+  const [salaryRunPeriode, setSalaryRunPeriode] = useState(new Date().toISOString().slice(0, 7));
+  const [isRunningSalaries, setIsRunningSalaries] = useState(false);
+  const [salaryRunError, setSalaryRunError] = useState<string | null>(null);
+  const [salaryRunMessage, setSalaryRunMessage] = useState<string | null>(null);
+
   // Fetch chauffeurs from Supabase
   const fetchChauffeurs = async () => {
     try {
@@ -43,6 +58,8 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
           telephone,
           immatricule,
           type_chauffeur,
+          current_debt,
+          available_credit,
           created_at
         `)
         .order('created_at', { ascending: false });
@@ -65,14 +82,8 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
     fetchChauffeurs();
   }, []);
 
-  // Filter chauffeurs based on search term
-  const filteredChauffeurs = chauffeurs.filter(chauffeur =>
-    chauffeur.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    chauffeur.prenom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    chauffeur.numero_chauffeur.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    chauffeur.telephone.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    chauffeur.immatricule.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Filter chauffeurs based on search term, most relevant first
+  const filteredChauffeurs = useRankedSearch('chauffeurs', chauffeurs, searchTerm);
 
   // Calculate pagination
   const totalPages = Math.ceil(filteredChauffeurs.length / itemsPerPage);
@@ -80,6 +91,13 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
   const endIndex = startIndex + itemsPerPage;
   const currentChauffeurs = filteredChauffeurs.slice(startIndex, endIndex);
 
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
   };
@@ -96,6 +114,39 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
     }
   };
 
+  // Salary of the month for every interne driver, already generated months are kept
+  const handleSalaryRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsRunningSalaries(true);
+    setSalaryRunError(null);
+
+    try {
+      const { data, error: runError } = await supabase.rpc('generate_salary_run', {
+        p_periode: `${salaryRunPeriode}-01`
+      });
+
+      if (runError) {
+        throw new Error(runError.message);
+      }
+
+      const periodeLabel = new Date(`${salaryRunPeriode}-01`).toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+      setSalaryRunMessage(
+        data > 0
+          ? `${data} salaire(s) généré(s) pour ${periodeLabel}`
+          : `Aucun nouveau salaire pour ${periodeLabel}: les salaires sont déjà générés ou aucun chauffeur interne n'a de salaire mensuel`
+      );
+      setShowSalaryRunModal(false);
+      // The new salaries change the balance of the drivers
+      fetchChauffeurs();
+    } catch (err) {
+      console.error('Error generating salary run:', err);
+      setSalaryRunError(err instanceof Error ? err.message : 'Erreur lors de la génération des salaires');
+    } finally {
+      setIsRunningSalaries(false);
+    }
+  };
+
   const handleChauffeurClick = (chauffeur: Chauffeur) => {
     onNavigateToEdit(chauffeur);
   };
@@ -127,22 +178,137 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
     );
   }
 
-  return (
-    <div className="h-full flex flex-col">
+  const renderHeader = () => (
+    <>
       {/* Header */}
       <div className="flex items-center justify-between mb-8">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Chauffeurs</h1>
           <p className="text-gray-600 mt-1">Gérez vos chauffeurs et leurs véhicules assignés</p>
         </div>
-        <button
-          onClick={onNavigateToAdd}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200 shadow-sm"
-        >
-          <Plus className="w-5 h-5" />
-          Ajouter un chauffeur
-        </button>
+        <div className="flex items-center gap-3">
+          {can('chauffeurs.paie') && (
+            <button
+              onClick={() => {
+                setSalaryRunError(null);
+                setShowSalaryRunModal(true);
+              }}
+              className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
+            >
+              <Wallet className="w-5 h-5" />
+              Salaires du mois
+            </button>
+          )}
+          <button
+            onClick={onNavigateToAdd}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200 shadow-sm"
+          >
+            <Plus className="w-5 h-5" />
+            Ajouter un chauffeur
+          </button>
+        </div>
+      </div>
+
+      {salaryRunMessage && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+          <p className="text-sm text-green-800">{salaryRunMessage}</p>
+          <button
+            onClick={() => setSalaryRunMessage(null)}
+            className="text-green-700 hover:text-green-800 text-sm"
+          >
+            Fermer
+          </button>
+        </div>
+      )}
+
+      {/* Views */}
+      <div className="flex gap-2 border-b border-gray-200 mb-8">
+        {[
+          { id: '', label: 'Chauffeurs' },
+          { id: 'tarifs', label: 'Grille tarifaire transport' }
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setView(tab.id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors duration-200 ${
+              view === tab.id
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+
+  const renderSalaryRunModal = () => (
+    showSalaryRunModal && (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Générer les salaires du mois</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Crée le salaire mensuel de chaque chauffeur interne. Les salaires déjà générés pour ce mois sont conservés.
+            </p>
+          </div>
+          <form onSubmit={handleSalaryRun} className="p-6">
+            <div>
+              <label htmlFor="salary-run-periode" className="block text-sm font-medium text-gray-700 mb-1">
+                Mois <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="month"
+                id="salary-run-periode"
+                value={salaryRunPeriode}
+                onChange={(e) => setSalaryRunPeriode(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+
+            {salaryRunError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                <p className="text-red-700 text-sm">{salaryRunError}</p>
+              </div>
+            )}
+
+            <div className="flex gap-4 mt-6">
+              <button
+                type="button"
+                onClick={() => setShowSalaryRunModal(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Annuler
+              </button>
+              <button
+                type="submit"
+                disabled={isRunningSalaries || !salaryRunPeriode}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+              >
+                {isRunningSalaries ? 'Génération...' : 'Générer'}
+              </button>
+            </div>
+          </form>
+        </div>
       </div>
+    )
+  );
+
+  if (view === 'tarifs') {
+    return (
+      <div className="h-full flex flex-col">
+        {renderHeader()}
+        <TransportRates chauffeurs={chauffeurs} />
+        {renderSalaryRunModal()}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {renderHeader()}
 
       {/* Search Bar */}
       <div className="mb-6">
@@ -179,6 +345,9 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                  Type
                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Solde
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Actions
                 </th>
@@ -193,7 +362,7 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
                     className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
                   >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
-                      {chauffeur.numero_chauffeur}
+                      <Highlight text={chauffeur.numero_chauffeur} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
@@ -204,18 +373,18 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
                         </div>
                         <div className="ml-4">
                           <div className="text-sm font-medium text-gray-900">
-                            {chauffeur.prenom} {chauffeur.nom}
+                            <Highlight text={`${chauffeur.prenom} ${chauffeur.nom}`} search={searchTerm} />
                           </div>
                         </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {chauffeur.telephone}
+                      <Highlight text={chauffeur.telephone} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <div className="text-sm font-medium text-gray-900 bg-gray-100 px-3 py-1 rounded-full font-mono">
-                          {chauffeur.immatricule}
+                          <Highlight text={chauffeur.immatricule} search={searchTerm} />
                         </div>
                       </div>
                     </td>
@@ -228,6 +397,15 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
                         {chauffeur.type_chauffeur === 'interne' ? 'Interne' : 'Externe'}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {chauffeur.current_debt > 0 ? (
+                        <div className="text-sm font-bold text-red-600">{formatPrice(chauffeur.current_debt)}</div>
+                      ) : chauffeur.available_credit > 0 ? (
+                        <div className="text-sm font-bold text-purple-600">Avance {formatPrice(chauffeur.available_credit)}</div>
+                      ) : (
+                        <div className="text-sm text-gray-500">Soldé</div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex items-center gap-2">
                         <button
@@ -255,7 +433,7 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
                 ))
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <Truck className="w-8 h-8 text-gray-300 mb-2" />
                       <p>{searchTerm ? 'Aucun chauffeur trouvé' : 'Aucun chauffeur disponible'}</p>
@@ -315,6 +493,8 @@ const ChauffeursList: React.FC<ChauffeursListProps> = ({ onNavigateToAdd, onNavi
           </div>
         </div>
       )}
+
+      {renderSalaryRunModal()}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ArrowLeft, Save } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { RepositoryError, errorMessage } from '../lib/dbErrors';
+import { createClient, getNextClientNumber } from '../lib/clientsRepo';
 
 interface ClientAddProps {
   onNavigateBack: () => void;
@@ -14,6 +15,9 @@ const ClientAdd: React.FC<ClientAddProps> = ({ onNavigateBack }) => {
     ice: '',
     email: '',
     telephone: '',
+    zone: '',
+    plafond_credit: '',
+    delai_paiement: '',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -24,26 +28,7 @@ const ClientAdd: React.FC<ClientAddProps> = ({ onNavigateBack }) => {
   // Generate next client number from database
   const generateClientNumber = async () => {
     try {
-      const { data, error } = await supabase
-        .from('clients')
-        .select('numero_client')
-        ;
-
-      if (error) throw error;
-
-      let nextNumber = 1;
-      if (data && data.length > 0) {
-        // Extract all numeric parts and find the maximum
-        const numbers = data
-          .map(item => parseInt(item.numero_client.replace('CLT-', '')))
-          .filter(num => !isNaN(num));
-        
-        if (numbers.length > 0) {
-          nextNumber = Math.max(...numbers) + 1;
-        }
-      }
-
-      return `CLT-${String(nextNumber).padStart(3, '0')}`;
+      return await getNextClientNumber();
     } catch (error) {
       console.error('Error generating client number:', error);
       return `CLT-001`;
@@ -97,6 +82,14 @@ const ClientAdd: React.FC<ClientAddProps> = ({ onNavigateBack }) => {
       newErrors.telephone = 'Format de téléphone marocain invalide';
     }
 
+    if (formData.plafond_credit !== '' && Number(formData.plafond_credit) < 0) {
+      newErrors.plafond_credit = 'Le plafond de crédit ne peut pas être négatif';
+    }
+
+    if (formData.delai_paiement !== '' && (!Number.isInteger(Number(formData.delai_paiement)) || Number(formData.delai_paiement) < 0)) {
+      newErrors.delai_paiement = 'Le délai de paiement doit être un nombre de jours';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -111,25 +104,18 @@ const ClientAdd: React.FC<ClientAddProps> = ({ onNavigateBack }) => {
     setIsSubmitting(true);
 
     try {
-      // Save to Supabase
-      const { data, error } = await supabase
-        .from('clients')
-        .insert([
-          {
-            numero_client: nextClientNumber,
-            nom: formData.nom.trim(),
-            prenom: formData.prenom.trim(),
-            societe: formData.societe.trim(),
-            ice: formData.ice.trim(),
-            email: formData.email.trim(),
-            telephone: formData.telephone.trim(),
-          }
-        ])
-        .select();
-
-      if (error) {
-        throw error;
-      }
+      const data = await createClient({
+        numero_client: nextClientNumber,
+        nom: formData.nom.trim(),
+        prenom: formData.prenom.trim(),
+        societe: formData.societe.trim(),
+        ice: formData.ice.trim(),
+        email: formData.email.trim(),
+        telephone: formData.telephone.trim(),
+        zone: formData.zone.trim() || null,
+        plafond_credit: formData.plafond_credit === '' ? null : Number(formData.plafond_credit),
+        delai_paiement: formData.delai_paiement === '' ? null : Number(formData.delai_paiement),
+      });
 
       console.log('Client saved successfully:', data);
       
@@ -141,24 +127,19 @@ const ClientAdd: React.FC<ClientAddProps> = ({ onNavigateBack }) => {
         ice: '',
         email: '',
         telephone: '',
+        zone: '',
+        plafond_credit: '',
+        delai_paiement: '',
       });
 
       onNavigateBack();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving client:', error);
       
-      // Handle specific database errors
-      if (error.code === '23505') {
-        if (error.details?.includes('numero_client')) {
-          setErrors({ general: 'Ce numéro client existe déjà' });
-        } else if (error.details?.includes('ice')) {
-          setErrors({ ice: 'Ce numéro ICE est déjà utilisé' });
-        } else {
-          setErrors({ general: 'Ces informations existent déjà' });
-        }
-      } else {
-        setErrors({ general: 'Erreur lors de l\'enregistrement. Veuillez réessayer.' });
-      }
+      // A duplicate ICE is shown on its field
+      setErrors(error instanceof RepositoryError && error.field === 'ice'
+        ? { ice: error.message }
+        : { general: errorMessage(error, 'Erreur lors de l\'enregistrement. Veuillez réessayer.') });
     } finally {
       setIsSubmitting(false);
     }
@@ -337,6 +318,71 @@ const ClientAdd: React.FC<ClientAddProps> = ({ onNavigateBack }) => {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="zone" className="block text-sm font-semibold text-gray-900 mb-2">
+                Ville / zone de livraison
+              </label>
+              <input
+                type="text"
+                id="zone"
+                name="zone"
+                value={formData.zone}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200"
+                placeholder="Casablanca, Rabat..."
+              />
+              <p className="text-xs text-gray-500 mt-1">Utilisée par la grille tarifaire pour calculer le coût de transport des livraisons.</p>
+            </div>
+
+            {/* Credit */}
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="plafond_credit" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Plafond de crédit (DH)
+                </label>
+                <input
+                  type="number"
+                  id="plafond_credit"
+                  name="plafond_credit"
+                  step="0.01"
+                  min="0"
+                  value={formData.plafond_credit}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                    errors.plafond_credit ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Aucun plafond"
+                />
+                {errors.plafond_credit && (
+                  <p className="text-red-500 text-xs mt-1">{errors.plafond_credit}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Montant maximum que le client peut devoir. Vide : pas de plafond.</p>
+              </div>
+
+              <div>
+                <label htmlFor="delai_paiement" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Délai de paiement (jours)
+                </label>
+                <input
+                  type="number"
+                  id="delai_paiement"
+                  name="delai_paiement"
+                  step="1"
+                  min="0"
+                  value={formData.delai_paiement}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                    errors.delai_paiement ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Aucun délai"
+                />
+                {errors.delai_paiement && (
+                  <p className="text-red-500 text-xs mt-1">{errors.delai_paiement}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Un BL non payé après ce délai est en retard.</p>
+              </div>
+            </div>
+
             {/* Submit Button */}
             <div className="pt-6 border-t border-gray-200">
               <div className="flex justify-end gap-4">
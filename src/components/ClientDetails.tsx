@@ -1,54 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Users, Truck, ShoppingBag, TrendingUp, Calendar, MapPin, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Users, Truck, ShoppingBag, TrendingUp, Calendar, MapPin, ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-
-interface Client {
-  id: string;
-  numero_client: string;
-  nom: string;
-  prenom: string;
-  societe: string;
-  ice: string;
-  email: string;
-  telephone: string;
-  credit_initial: number;
-  chiffre_affaires: number;
-  total_paiements: number;
-  current_debt: number;
-  available_credit: number;
-  created_at: string;
-  total_margin: number;
-}
-
-interface DeliveryNote {
-  id: string;
-  numero_livraison: string;
-  date_livraison: string;
-  statut: string;
-  notes: string | null;
-  client: {
-    nom: string;
-    prenom: string;
-    societe: string;
-  };
-  chauffeur: {
-    nom: string;
-    prenom: string;
-  };
-  bon_commande: {
-    numero_commande: string;
-  };
-  items: DeliveryItem[];
-}
-
-interface DeliveryItem {
+import { useCurrentUser } from '../lib/currentUser';
+import HistoryPanel from './HistoryPanel';
+import PaymentAllocationModal from './PaymentAllocationModal';
+import { PAYMENT_STATUS_LABELS, PAYMENT_STATUS_STYLES } from '../lib/paymentStatus';
+import { INSTRUMENT_STATUS_LABELS, INSTRUMENT_STATUS_STYLES, isPaymentInstrument } from '../lib/paymentInstruments';
+import { ORDER_CLIENT_COLUMNS, OrderClientLine, formatQuantity } from '../lib/orderClients';
+import { Client, ClientDeliveryNote as DeliveryNote, ClientPayment as Payment } from '../lib/domain';
+import { errorMessage } from '../lib/dbErrors';
+import { getClient, getClientMargin } from '../lib/clientsRepo';
+import { listClientDeliveryNotes } from '../lib/deliveryNotesRepo';
+import { createClientPayment, listClientPayments } from '../lib/paymentsRepo';
+
+interface CreditNote {
   id: string;
-  quantite_livree: number;
-  prix_unitaire: number;
-  total_ligne: number;
-  produit: {
-    nom_produit: string;
-  };
+  numero_avoir: string;
+  date_avoir: string;
+  motif: string;
+  total_ht: number;
+  total_ttc: number;
+  livraison: {
+    numero_livraison: string;
+  } | null;
 }
 
 interface ClientStats {
@@ -56,16 +30,6 @@ interface ClientStats {
   pendingCount: number;
 }
 
-interface Payment {
-  id: string;
-  montant: number;
-  mode_paiement: string;
-  reference: string | null;
-  issuer: string | null;
-  date_paiement: string;
-  notes: string | null;
-}
-
 interface ClientDetailsProps {
   client: Client;
   onNavigateBack: () => void;
@@ -73,13 +37,19 @@ interface ClientDetailsProps {
 }
 
 const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, onNavigateBack, onNavigateToDelivery }) => {
+  const { can } = useCurrentUser();
   const [client, setClient] = useState<Client>(initialClient);
   const [deliveryNotes, setDeliveryNotes] = useState<DeliveryNote[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
   const [stats, setStats] = useState<ClientStats | null>(null);
+  const [margin, setMargin] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [allocatedByPayment, setAllocatedByPayment] = useState<Record<string, number>>({});
+  const [orderBreakdown, setOrderBreakdown] = useState<OrderClientLine[]>([]);
+  const [allocationPayment, setAllocationPayment] = useState<Payment | null>(null);
   
   // Pagination states
   const [deliveriesCurrentPage, setDeliveriesCurrentPage] = useState(1);
@@ -98,6 +68,8 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
     mode_paiement: 'cash',
     reference: '',
     issuer: '',
+    banque: '',
+    date_echeance: '',
     date_paiement: new Date().toISOString().split('T')[0],
     notes: ''
   });
@@ -114,33 +86,10 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
 
   const fetchUpdatedClientData = async () => {
     try {
-      const { data: updatedClient, error } = await supabase
-        .from('clients')
-        .select(`
-          id,
-          numero_client,
-          nom,
-          prenom,
-          societe,
-          ice,
-          email,
-          telephone,
-          credit_initial,
-          chiffre_affaires,
-          total_paiements,
-          current_debt,
-          available_credit,
-          total_margin,
-          created_at
-        `)
-        .eq('id', client.id)
-        .single();
-
-      if (error) {
-        throw error;
+      const updatedClient = await getClient(client.id);
+      if (updatedClient) {
+        setClient(updatedClient);
       }
-
-      setClient(updatedClient);
     } catch (error) {
       console.error('Error fetching updated client data:', error);
     }
@@ -152,43 +101,73 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
       setError(null);
 
       // Fetch delivery notes for this client
-      const { data: deliveries, error: deliveryError } = await supabase
-        .from('bon_de_livraison')
-        .select(`
-          *,
-          client:clients(nom, prenom, societe),
-          chauffeur:chauffeurs(nom, prenom),
-          bon_commande:bon_de_commande(numero_commande, total_ht),
-          items:bon_de_livraison_items(
-            id,
-            quantite_livree,
-            prix_unitaire,
-            total_ligne,
-            produit:produits(nom_produit, prix_achat, prix_vente)
-          )
-        `)
+      const deliveries = await listClientDeliveryNotes(client.id);
+      setDeliveryNotes(deliveries);
+
+      // Fetch payments for this client
+      const paymentsData = await listClientPayments(client.id);
+      setPayments(paymentsData);
+
+      // Margin of the client, only served to the roles that may see it
+      if (can('prixAchat')) {
+        setMargin(await getClientMargin(client.id));
+      }
+
+      // Credit notes of the goods returned by this client
+      const { data: creditNotesData, error: creditNotesError } = await supabase
+        .from('avoirs')
+        .select('id, numero_avoir, date_avoir, motif, total_ht, total_ttc, livraison:bon_de_livraison(numero_livraison)')
         .eq('client_id', client.id)
-        .neq('statut', 'annulee') // Exclude cancelled delivery notes
-        .order('date_livraison', { ascending: false });
+        .order('date_avoir', { ascending: false });
 
-      if (deliveryError) {
-        throw deliveryError;
+      if (creditNotesError) {
+        throw creditNotesError;
       }
 
-      setDeliveryNotes(deliveries || []);
+      setCreditNotes((creditNotesData || []) as unknown as CreditNote[]);
 
-      // Fetch payments for this client
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('paiements_clients')
-        .select('*')
-        .eq('client_id', client.id)
-        .order('date_paiement', { ascending: false });
+      // Allocated amount of each payment (lettrage)
+      const { data: allocationsData, error: allocationsError } = await supabase
+        .from('paiement_affectations')
+        .select('paiement_id, montant, paiement:paiements_clients!inner(client_id)')
+        .eq('paiement.client_id', client.id);
+
+      if (allocationsError) {
+        throw allocationsError;
+      }
+
+      const allocated: Record<string, number> = {};
+      (allocationsData || []).forEach(a => {
+        allocated[a.paiement_id] = (allocated[a.paiement_id] || 0) + Number(a.montant);
+      });
+      setAllocatedByPayment(allocated);
+
+      // BCs delivered to this client, with the quantities of the other clients
+      const { data: clientOrderLines, error: clientOrderLinesError } = await supabase
+        .from('bon_de_commande_clients')
+        .select('commande_id')
+        .eq('client_id', client.id);
 
-      if (paymentsError) {
-        throw paymentsError;
+      if (clientOrderLinesError) {
+        throw clientOrderLinesError;
       }
 
-      setPayments(paymentsData || []);
+      const orderIds = [...new Set((clientOrderLines || []).map(line => line.commande_id))];
+      if (orderIds.length > 0) {
+        const { data: orderLines, error: orderLinesError } = await supabase
+          .from('bon_de_commande_clients')
+          .select(ORDER_CLIENT_COLUMNS)
+          .in('commande_id', orderIds)
+          .order('numero_commande', { ascending: false });
+
+        if (orderLinesError) {
+          throw orderLinesError;
+        }
+
+        setOrderBreakdown((orderLines || []) as OrderClientLine[]);
+      } else {
+        setOrderBreakdown([]);
+      }
 
       // Calculate statistics
       const deliveriesData = deliveries || [];
@@ -225,28 +204,26 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
       return;
     }
 
+    if (paymentForm.mode_paiement === 'effet' && !paymentForm.date_echeance) {
+      setError('La date d\'échéance est obligatoire pour un effet');
+      return;
+    }
+
     setIsSubmittingPayment(true);
     setError(null);
 
     try {
-      const { data, error } = await supabase
-        .from('paiements_clients')
-        .insert([
-          {
-            client_id: client.id,
-            montant: Number(paymentForm.montant),
-            mode_paiement: paymentForm.mode_paiement,
-            reference: paymentForm.reference.trim() || null,
-            issuer: paymentForm.issuer.trim() || null,
-            date_paiement: paymentForm.date_paiement,
-            notes: paymentForm.notes.trim() || null
-          }
-        ])
-        .select();
-
-      if (error) {
-        throw error;
-      }
+      const data = await createClientPayment({
+        client_id: client.id,
+        montant: Number(paymentForm.montant),
+        mode_paiement: paymentForm.mode_paiement,
+        reference: paymentForm.reference.trim() || null,
+        issuer: paymentForm.issuer.trim() || null,
+        banque: paymentForm.banque.trim() || null,
+        date_echeance: paymentForm.date_echeance || null,
+        date_paiement: paymentForm.date_paiement,
+        notes: paymentForm.notes.trim() || null
+      });
 
       console.log('Payment added successfully:', data);
       
@@ -256,6 +233,8 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
         mode_paiement: 'cash',
         reference: '',
         issuer: '',
+        banque: '',
+        date_echeance: '',
         date_paiement: new Date().toISOString().split('T')[0],
         notes: ''
       });
@@ -269,9 +248,9 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
       await fetchUpdatedClientData();
       await fetchClientData();
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error adding payment:', error);
-      setError('Erreur lors de l\'ajout du paiement. Veuillez réessayer.');
+      setError(errorMessage(error, 'Erreur lors de l\'ajout du paiement. Veuillez réessayer.'));
     } finally {
       setIsSubmittingPayment(false);
     }
@@ -368,6 +347,14 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
   const paymentsEndIndex = paymentsStartIndex + paymentsPerPage;
   const currentPayments = filteredPayments.slice(paymentsStartIndex, paymentsEndIndex);
 
+  // One row per BC line received by this client
+  const orderLineShares = Object.values(
+    orderBreakdown.reduce<Record<string, OrderClientLine[]>>((acc, line) => {
+      (acc[line.commande_item_id] = acc[line.commande_item_id] || []).push(line);
+      return acc;
+    }, {})
+  ).filter(lines => lines.some(line => line.client_id === client.id));
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('fr-MA', {
       minimumFractionDigits: 2,
@@ -491,7 +478,9 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
               <div>
                 <p className="text-sm text-gray-600">Chiffre d'Affaires</p>
                 <p className="text-2xl font-bold text-gray-900">{formatPrice(client.chiffre_affaires)}</p>
-                <p className="text-xs text-gray-500">Hors annulées</p>
+                <p className="text-xs text-gray-500">
+                  Hors annulées{(client.total_avoirs || 0) > 0 && `, avoirs déduits (${formatPrice(client.total_avoirs || 0)})`}
+                </p>
               </div>
               <TrendingUp className="w-8 h-8 text-green-600" />
             </div>
@@ -504,7 +493,11 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                 <p className={`text-2xl font-bold ${client.current_debt > 0 ? 'text-red-600' : 'text-green-600'}`}>
                   {formatPrice(client.current_debt)}
                 </p>
-                <p className="text-xs text-gray-500">Dû par le client</p>
+                <p className="text-xs text-gray-500">
+                  Dû par le client
+                  {client.plafond_credit != null && ` · plafond ${formatPrice(client.plafond_credit)}`}
+                  {client.delai_paiement != null && ` · ${client.delai_paiement} j`}
+                </p>
               </div>
               <div className="flex flex-col items-center">
                 <ShoppingBag className={`w-8 h-8 ${client.current_debt > 0 ? 'text-red-600' : 'text-green-600'}`} />
@@ -518,18 +511,20 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
             </div>
           </div>
 
-          <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Marge</p>
-                <p className={`text-2xl font-bold ${client.total_margin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {formatPrice(client.total_margin)}
-                </p>
-                <p className="text-xs text-gray-500">Sur livraisons terminées</p>
+          {margin !== null && (
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-600">Marge</p>
+                  <p className={`text-2xl font-bold ${margin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatPrice(margin)}
+                  </p>
+                  <p className="text-xs text-gray-500">Sur livraisons terminées</p>
+                </div>
+                <TrendingUp className={`w-8 h-8 ${margin >= 0 ? 'text-green-600' : 'text-red-600'}`} />
               </div>
-              <TrendingUp className={`w-8 h-8 ${client.total_margin >= 0 ? 'text-green-600' : 'text-red-600'}`} />
             </div>
-          </div>
+          )}
         </div>
       )}
 
@@ -670,6 +665,9 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Statut
                 </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Paiement
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Nb Produits
                 </th>
@@ -703,6 +701,18 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(note.statut)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        PAYMENT_STATUS_STYLES[note.statut_paiement] || PAYMENT_STATUS_STYLES.impaye
+                      }`}>
+                        {PAYMENT_STATUS_LABELS[note.statut_paiement] || note.statut_paiement}
+                      </span>
+                      {note.statut_paiement !== 'paye' && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Reste: {formatPrice((note.total_ttc || 0) - (note.montant_paye || 0))}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {note.items.length} produit{note.items.length > 1 ? 's' : ''}
                     </td>
@@ -713,7 +723,7 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                 ))
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <Truck className="w-8 h-8 text-gray-300 mb-2" />
                       <p>Aucune livraison pour ce client</p>
@@ -766,6 +776,102 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
         </div>
       )}
 
+      {/* Customer Returns */}
+      {creditNotes.length > 0 && (
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <RotateCcw className="w-5 h-5" />
+              Retours et avoirs
+            </h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">N° Avoir</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">BL</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Motif</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Total HT</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Total TTC</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {creditNotes.map(creditNote => (
+                  <tr key={creditNote.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">{creditNote.numero_avoir}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(creditNote.date_avoir).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
+                      {creditNote.livraison?.numero_livraison || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{creditNote.motif}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">-{formatPrice(creditNote.total_ht)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">-{formatPrice(creditNote.total_ttc)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Orders Breakdown */}
+      {orderLineShares.length > 0 && (
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Répartition des bons de commande</h2>
+            <p className="text-sm text-gray-600 mt-1">Quantités reçues par ce client et par les autres clients sur chaque commande</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">N° BC</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Produit</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Commandé</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Reçu par ce client</th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Autres clients</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {orderLineShares.map(lines => {
+                  const own = lines.find(line => line.client_id === client.id)!;
+                  const others = lines.filter(line => line.client_id !== client.id);
+
+                  return (
+                    <tr key={own.commande_item_id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">{own.numero_commande}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{own.nom_produit}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatQuantity(own.quantite_commandee, own.unite)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{formatQuantity(own.quantite_livree, own.unite)}</div>
+                        <div className="text-xs text-gray-500">{formatPrice(Number(own.montant_ht))}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {others.length > 0 ? (
+                          others.map(line => (
+                            <div key={line.client_id}>
+                              {line.client_societe || `${line.client_prenom} ${line.client_nom}`}: {formatQuantity(line.quantite_livree, line.unite)}
+                            </div>
+                          ))
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Payments Table */}
       <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -794,6 +900,9 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Notes
                 </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Affectation
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -819,6 +928,18 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                          payment.mode_paiement === 'virement' ? 'Virement' :
                          payment.mode_paiement}
                       </span>
+                      {payment.statut_instrument && (
+                        <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          INSTRUMENT_STATUS_STYLES[payment.statut_instrument]
+                        }`}>
+                          {INSTRUMENT_STATUS_LABELS[payment.statut_instrument]}
+                        </span>
+                      )}
+                      {payment.date_echeance && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Échéance: {new Date(payment.date_echeance).toLocaleDateString('fr-FR')}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
                       {payment.reference || '-'}
@@ -829,11 +950,30 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                     <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
                       {payment.notes || '-'}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {payment.statut_instrument === 'impaye' ? (
+                        <span className="text-red-700">Non compté (impayé)</span>
+                      ) : (allocatedByPayment[payment.id] || 0) >= payment.montant ? (
+                        <span className="text-green-700">Affecté</span>
+                      ) : (
+                        <span className="text-orange-700">
+                          Non affecté: {formatPrice(payment.montant - (allocatedByPayment[payment.id] || 0))}
+                        </span>
+                      )}
+                      {can('paiements.affecter') && payment.statut_instrument !== 'impaye' && (
+                        <button
+                          onClick={() => setAllocationPayment(payment)}
+                          className="block mt-1 text-blue-600 hover:text-blue-800 text-xs"
+                        >
+                          Modifier l'affectation
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <ShoppingBag className="w-8 h-8 text-gray-300 mb-2" />
                       <p>Aucun paiement enregistré pour ce client</p>
@@ -891,6 +1031,21 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
           </div>
         </div>
       )}
+
+      {can('historique') && <HistoryPanel recordId={client.id} className="mt-8" />}
+
+      {/* Payment Allocation Modal */}
+      {allocationPayment && (
+        <PaymentAllocationModal
+          payment={allocationPayment}
+          clientId={client.id}
+          onClose={() => setAllocationPayment(null)}
+          onSaved={() => {
+            setAllocationPayment(null);
+            fetchClientData();
+          }}
+        />
+      )}
       
       {/* Payment Modal */}
       {showPaymentModal && (
@@ -967,6 +1122,38 @@ const ClientDetails: React.FC<ClientDetailsProps> = ({ client: initialClient, on
                   />
                 </div>
 
+                {isPaymentInstrument(paymentForm.mode_paiement) && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="banque" className="block text-sm font-medium text-gray-700 mb-1">
+                        Banque
+                      </label>
+                      <input
+                        type="text"
+                        id="banque"
+                        name="banque"
+                        value={paymentForm.banque}
+                        onChange={handlePaymentInputChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="date_echeance" className="block text-sm font-medium text-gray-700 mb-1">
+                        Échéance {paymentForm.mode_paiement === 'effet' && <span className="text-red-500">*</span>}
+                      </label>
+                      <input
+                        type="date"
+                        id="date_echeance"
+                        name="date_echeance"
+                        value={paymentForm.date_echeance}
+                        onChange={handlePaymentInputChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        required={paymentForm.mode_paiement === 'effet'}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label htmlFor="date_paiement" className="block text-sm font-medium text-gray-700 mb-1">
                     Date de paiement <span className="text-red-500">*</span>
@@ -1,17 +1,8 @@
 import React, { useState } from 'react';
 import { ArrowLeft, Save } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface Client {
-  id: string;
-  numero_client: string;
-  nom: string;
-  prenom: string;
-  societe: string;
-  ice: string;
-  email: string;
-  telephone: string;
-}
+import { Client } from '../lib/domain';
+import { RepositoryError, errorMessage } from '../lib/dbErrors';
+import { updateClient } from '../lib/clientsRepo';
 
 interface ClientEditProps {
   onNavigateBack: () => void;
@@ -26,6 +17,9 @@ const ClientEdit: React.FC<ClientEditProps> = ({ onNavigateBack, client }) => {
     ice: client.ice,
     email: client.email,
     telephone: client.telephone,
+    zone: client.zone || '',
+    plafond_credit: client.plafond_credit == null ? '' : String(client.plafond_credit),
+    delai_paiement: client.delai_paiement == null ? '' : String(client.delai_paiement),
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -76,6 +70,14 @@ const ClientEdit: React.FC<ClientEditProps> = ({ onNavigateBack, client }) => {
       newErrors.telephone = 'Format de téléphone marocain invalide';
     }
 
+    if (formData.plafond_credit !== '' && Number(formData.plafond_credit) < 0) {
+      newErrors.plafond_credit = 'Le plafond de crédit ne peut pas être négatif';
+    }
+
+    if (formData.delai_paiement !== '' && (!Number.isInteger(Number(formData.delai_paiement)) || Number(formData.delai_paiement) < 0)) {
+      newErrors.delai_paiement = 'Le délai de paiement doit être un nombre de jours';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -90,42 +92,30 @@ const ClientEdit: React.FC<ClientEditProps> = ({ onNavigateBack, client }) => {
     setIsSubmitting(true);
 
     try {
-      // Update in Supabase
-      const { data, error } = await supabase
-        .from('clients')
-        .update({
-          nom: formData.nom.trim(),
-          prenom: formData.prenom.trim(),
-          societe: formData.societe.trim(),
-          ice: formData.ice.trim(),
-          email: formData.email.trim(),
-          telephone: formData.telephone.trim(),
-        })
-        .eq('id', client.id)
-        .select();
-
-      if (error) {
-        throw error;
-      }
+      const data = await updateClient(client.id, {
+        nom: formData.nom.trim(),
+        prenom: formData.prenom.trim(),
+        societe: formData.societe.trim(),
+        ice: formData.ice.trim(),
+        email: formData.email.trim(),
+        telephone: formData.telephone.trim(),
+        zone: formData.zone.trim() || null,
+        plafond_credit: formData.plafond_credit === '' ? null : Number(formData.plafond_credit),
+        delai_paiement: formData.delai_paiement === '' ? null : Number(formData.delai_paiement),
+      });
 
       console.log('Client updated successfully:', data);
       
       // Success feedback
       alert('Client modifié avec succès!');
       onNavigateBack();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating client:', error);
       
-      // Handle specific database errors
-      if (error.code === '23505') {
-        if (error.details?.includes('ice')) {
-          setErrors({ ice: 'Ce numéro ICE est déjà utilisé par un autre client' });
-        } else {
-          setErrors({ general: 'Ces informations existent déjà' });
-        }
-      } else {
-        setErrors({ general: 'Erreur lors de la modification. Veuillez réessayer.' });
-      }
+      // A duplicate ICE is shown on its field
+      setErrors(error instanceof RepositoryError && error.field === 'ice'
+        ? { ice: error.message }
+        : { general: errorMessage(error, 'Erreur lors de la modification. Veuillez réessayer.') });
     } finally {
       setIsSubmitting(false);
     }
@@ -295,6 +285,71 @@ const ClientEdit: React.FC<ClientEditProps> = ({ onNavigateBack, client }) => {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="zone" className="block text-sm font-semibold text-gray-900 mb-2">
+                Ville / zone de livraison
+              </label>
+              <input
+                type="text"
+                id="zone"
+                name="zone"
+                value={formData.zone}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200"
+                placeholder="Casablanca, Rabat..."
+              />
+              <p className="text-xs text-gray-500 mt-1">Utilisée par la grille tarifaire pour calculer le coût de transport des livraisons.</p>
+            </div>
+
+            {/* Credit */}
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="plafond_credit" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Plafond de crédit (DH)
+                </label>
+                <input
+                  type="number"
+                  id="plafond_credit"
+                  name="plafond_credit"
+                  step="0.01"
+                  min="0"
+                  value={formData.plafond_credit}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                    errors.plafond_credit ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Aucun plafond"
+                />
+                {errors.plafond_credit && (
+                  <p className="text-red-500 text-xs mt-1">{errors.plafond_credit}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Montant maximum que le client peut devoir. Vide : pas de plafond.</p>
+              </div>
+
+              <div>
+                <label htmlFor="delai_paiement" className="block text-sm font-semibold text-gray-900 mb-2">
+                  Délai de paiement (jours)
+                </label>
+                <input
+                  type="number"
+                  id="delai_paiement"
+                  name="delai_paiement"
+                  step="1"
+                  min="0"
+                  value={formData.delai_paiement}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                    errors.delai_paiement ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Aucun délai"
+                />
+                {errors.delai_paiement && (
+                  <p className="text-red-500 text-xs mt-1">{errors.delai_paiement}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Un BL non payé après ce délai est en retard.</p>
+              </div>
+            </div>
+
             {/* Submit Button */}
             <div className="pt-6 border-t border-gray-200">
               <div className="flex justify-end gap-4">
@@ -9,9 +9,12 @@ import {
   Search,
   ArrowLeft,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  RotateCcw
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { CLIENT_COLUMNS } from '../lib/clientsRepo';
+import { useQueryState, useQueryStates } from '../lib/useQueryState';
 
 interface Client {
   id: string;
@@ -21,6 +24,18 @@ interface Client {
   societe: string;
   email: string;
   telephone: string;
+  total_avoirs?: number;
+}
+
+interface CreditNoteReport {
+  id: string;
+  numero_avoir: string;
+  date_avoir: string;
+  motif: string;
+  total_ht: number;
+  livraison: {
+    numero_livraison: string;
+  } | null;
 }
 
 interface DeliveryReport {
@@ -39,7 +54,6 @@ interface DeliveryReport {
     total_ligne: number;
     produit: {
       nom_produit: string;
-      prix_achat: number;
       unite: string;
     };
   }>;
@@ -55,18 +69,20 @@ interface DeliveryReport {
 
 const ClientReports: React.FC = () => {
   const [clients, setClients] = useState<Client[]>([]);
-  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [selectedClientId, setSelectedClientId] = useQueryState('client');
+  const selectedClient = clients.find(item => item.id === selectedClientId) || null;
   const [deliveries, setDeliveries] = useState<DeliveryReport[]>([]);
   const [payments, setPayments] = useState<any[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNoteReport[]>([]);
   const [totalPayments, setTotalPayments] = useState<number>(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
 
   // Local state for date inputs to prevent immediate re-renders
   const [localDateFilters, setLocalDateFilters] = useState({
@@ -119,7 +135,7 @@ const ClientReports: React.FC = () => {
 
       const { data: clientsData, error: clientsError } = await supabase
         .from('clients')
-        .select('*')
+        .select(CLIENT_COLUMNS)
         .order('societe', { ascending: true });
 
       if (clientsError) throw clientsError;
@@ -164,7 +180,7 @@ const ClientReports: React.FC = () => {
             quantite_livree,
             prix_unitaire,
             total_ligne,
-            produit:produits(nom_produit, prix_achat, unite)
+            produit:produits(nom_produit, unite)
           ),
           bon_commande:bon_de_commande(
             numero_commande,
@@ -205,6 +221,25 @@ const ClientReports: React.FC = () => {
 
       const totalPaidAmount = (paymentsData || []).reduce((sum, p) => sum + p.montant, 0);
       setTotalPayments(totalPaidAmount);
+
+      // Credit notes of the period, deducted from the deliveries
+      let creditNotesQuery = supabase
+        .from('avoirs')
+        .select('id, numero_avoir, date_avoir, motif, total_ht, livraison:bon_de_livraison(numero_livraison)')
+        .eq('client_id', selectedClient.id)
+        .order('date_avoir', { ascending: false });
+
+      if (effectiveDateFrom) {
+        creditNotesQuery = creditNotesQuery.gte('date_avoir', effectiveDateFrom);
+      }
+      if (dateFilters.dateTo) {
+        creditNotesQuery = creditNotesQuery.lte('date_avoir', dateFilters.dateTo);
+      }
+
+      const { data: creditNotesData, error: creditNotesError } = await creditNotesQuery;
+      if (creditNotesError) throw creditNotesError;
+
+      setCreditNotes((creditNotesData || []) as unknown as CreditNoteReport[]);
     } catch (err: any) {
       console.error('Error fetching client deliveries:', err);
       setError('Erreur lors du chargement des livraisons');
@@ -214,7 +249,7 @@ const ClientReports: React.FC = () => {
   };
 
   const handleClientSelect = (client: Client) => {
-    setSelectedClient(client);
+    setSelectedClientId(client.id);
     setSearchTerm('');
     // Reset the toggle when selecting a new client
     setShowFromLastPayment(false);
@@ -278,12 +313,23 @@ const ClientReports: React.FC = () => {
       ];
     });
 
+    creditNotes.forEach(creditNote => {
+      csvData.push([
+        new Date(creditNote.date_avoir).toLocaleDateString('fr-FR'),
+        '',
+        `${creditNote.numero_avoir} (${creditNote.livraison?.numero_livraison || ''})`,
+        (-creditNote.total_ht).toFixed(2),
+        'Avoir',
+        creditNote.motif
+      ]);
+    });
+
     // Add totals row
     csvData.push([
       '', // Date
       '', // BC Source
-      `TOTAUX (${deliveries.length} livraisons)`,
-      totals.totalDeliveries.toFixed(2),
+      `TOTAUX (${deliveries.length} livraisons, ${creditNotes.length} avoirs)`,
+      (totals.totalDeliveries - totals.totalCreditNotes).toFixed(2),
       '', // Statut
       '' // Notes
     ]);
@@ -441,11 +487,13 @@ const ClientReports: React.FC = () => {
   const calculateTotals = () => {
     const totalDeliveries = filteredDeliveries.reduce((sum, delivery) => sum + delivery.total_ht, 0);
     const filteredPaymentsTotal = filteredPayments.reduce((sum, payment) => sum + payment.montant, 0);
+    const totalCreditNotes = creditNotes.reduce((sum, creditNote) => sum + creditNote.total_ht, 0);
     // Always use the client's actual total debt from database, not filtered calculation
     const totalBalance = selectedClient?.current_debt || 0;
     
     return {
       totalDeliveries,
+      totalCreditNotes,
       totalPaid: filteredPaymentsTotal,
       totalBalance,
       deliveriesCount: filteredDeliveries.length
@@ -454,6 +502,7 @@ const ClientReports: React.FC = () => {
 
   const totals = selectedClient ? calculateTotals() : {
     totalDeliveries: 0,
+    totalCreditNotes: 0,
     totalPaid: 0,
     totalBalance: 0,
     deliveriesCount: 0
@@ -554,7 +603,7 @@ const ClientReports: React.FC = () => {
       <div className="flex items-center justify-between mb-8 print:hidden">
         <div className="flex items-center gap-4">
           <button
-            onClick={() => setSelectedClient(null)}
+            onClick={() => setSelectedClientId('')}
             className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
           >
             <ArrowLeft className="w-5 h-5" />
@@ -705,7 +754,10 @@ const ClientReports: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">Chiffre d'Affaires</p>
-              <p className="text-2xl font-bold text-blue-600">{formatPrice(totals.totalDeliveries)}</p>
+              <p className="text-2xl font-bold text-blue-600">{formatPrice(totals.totalDeliveries - totals.totalCreditNotes)}</p>
+              {totals.totalCreditNotes > 0 && (
+                <p className="text-xs text-gray-500">Avoirs déduits: {formatPrice(totals.totalCreditNotes)}</p>
+              )}
             </div>
             <TrendingUp className="w-8 h-8 text-blue-600" />
           </div>
@@ -817,6 +869,51 @@ const ClientReports: React.FC = () => {
         </table>
       </div>
 
+      {/* Credit Notes - Print only */}
+      {creditNotes.length > 0 && (
+        <div className="hidden print:block mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Avoirs (retours client)</h3>
+          <table className="w-full border-collapse border border-gray-800 mb-6">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border border-gray-800 px-3 py-2 text-left font-semibold text-sm">Date</th>
+                <th className="border border-gray-800 px-3 py-2 text-left font-semibold text-sm">N° Avoir</th>
+                <th className="border border-gray-800 px-3 py-2 text-left font-semibold text-sm">BL</th>
+                <th className="border border-gray-800 px-3 py-2 text-left font-semibold text-sm">Motif</th>
+                <th className="border border-gray-800 px-3 py-2 text-right font-semibold text-sm">Montant HT</th>
+              </tr>
+            </thead>
+            <tbody>
+              {creditNotes.map((creditNote) => (
+                <tr key={creditNote.id}>
+                  <td className="border border-gray-800 px-3 py-2 text-sm">
+                    {new Date(creditNote.date_avoir).toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="border border-gray-800 px-3 py-2 text-sm font-mono">{creditNote.numero_avoir}</td>
+                  <td className="border border-gray-800 px-3 py-2 text-sm font-mono">
+                    {creditNote.livraison?.numero_livraison || '-'}
+                  </td>
+                  <td className="border border-gray-800 px-3 py-2 text-sm">{creditNote.motif}</td>
+                  <td className="border border-gray-800 px-3 py-2 text-right text-sm font-medium">
+                    -{formatPrice(creditNote.total_ht)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-100">
+              <tr>
+                <td className="border border-gray-800 px-3 py-3 font-bold text-sm" colSpan={4}>
+                  TOTAL AVOIRS
+                </td>
+                <td className="border border-gray-800 px-3 py-3 text-right font-bold text-sm">
+                  -{formatPrice(totals.totalCreditNotes)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
       {/* Payment History - Print only */}
       <div className="hidden print:block mb-8">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Historique des Paiements</h3>
@@ -886,6 +983,14 @@ const ClientReports: React.FC = () => {
                 {formatPrice(selectedClient.chiffre_affaires)}
               </td>
             </tr>
+            {(selectedClient.total_avoirs || 0) > 0 && (
+              <tr>
+                <td className="border border-gray-800 px-4 py-2 font-medium">Dont avoirs déduits</td>
+                <td className="border border-gray-800 px-4 py-2 text-right font-medium">
+                  -{formatPrice(selectedClient.total_avoirs || 0)}
+                </td>
+              </tr>
+            )}
             <tr>
               <td className="border border-gray-800 px-4 py-2 font-medium">Total Payé</td>
               <td className="border border-gray-800 px-4 py-2 text-right font-medium text-green-600">
@@ -988,6 +1093,53 @@ const ClientReports: React.FC = () => {
         </div>
       </div>
 
+      {/* Credit Notes Table - Screen only */}
+      {creditNotes.length > 0 && (
+        <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden print:hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <RotateCcw className="w-5 h-5" />
+                Avoirs (retours client)
+              </h2>
+              <span className="text-sm text-gray-600">
+                {creditNotes.length} avoir(s)
+              </span>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">N° Avoir</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">BL</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Motif</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Montant HT</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {creditNotes.map(creditNote => (
+                  <tr key={creditNote.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(creditNote.date_avoir).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-blue-600">{creditNote.numero_avoir}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 font-mono">
+                      {creditNote.livraison?.numero_livraison || '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{creditNote.motif}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      -{formatPrice(creditNote.total_ht)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Print Footer */}
       <div className="hidden print:block absolute bottom-8 left-8 right-8 text-center text-xs text-gray-500 border-t border-gray-300 pt-4">
         <p>ANTURGOOD - Système de gestion | Rapport généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')}</p>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -13,25 +13,14 @@ import {
   AlertCircle,
   CheckCircle
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface Client {
-  id: string;
-  numero_client: string;
-  nom: string;
-  prenom: string;
-  societe: string;
-  ice: string;
-  email: string;
-  telephone: string;
-  credit_initial: number;
-  chiffre_affaires: number;
-  total_paiements: number;
-  current_debt: number;
-  available_credit: number;
-  total_margin: number;
-  created_at: string;
-}
+import { useCurrentUser } from '../lib/currentUser';
+import { useQueryNumber, useQuerySort, useQueryState, useQueryStates } from '../lib/useQueryState';
+import { usePagedList, usePrintRows } from '../lib/usePagedList';
+import { RELEVANCE_SORT } from '../lib/pagination';
+import { Client, ClientListItem } from '../lib/domain';
+import { CLIENT_SORT_COLUMNS, ClientFilters, getClientListTotals, searchClients } from '../lib/clientsRepo';
+import SortableHeader from './SortableHeader';
+import Highlight from './Highlight';
 
 interface ClientsListProps {
   onNavigateToAdd: () => void;
@@ -40,67 +29,49 @@ interface ClientsListProps {
 }
 
 const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateToEdit, onNavigateToDetails }) => {
-  const [clients, setClients] = useState<Client[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
-
-  // Fetch clients from Supabase
-  const fetchClients = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error: fetchError } = await supabase
-        .from('clients')
-        .select(`
-          id,
-          numero_client,
-          nom,
-          prenom,
-          societe,
-          ice,
-          email,
-          telephone,
-          credit_initial,
-          chiffre_affaires,
-          total_paiements,
-          current_debt,
-          available_credit,
-          total_margin,
-          created_at
-        `)
-        .order('societe', { ascending: true });
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      const clientsData = data || [];
-
-      // Sort by debt descending (highest unpaid amounts first)
-      clientsData.sort((a, b) => (b.current_debt || 0) - (a.current_debt || 0));
-      
-      setClients(clientsData);
-    } catch (err: any) {
-      console.error('Error fetching clients:', err);
-      setError('Erreur lors du chargement des clients');
-    } finally {
-      setLoading(false);
-    }
+  const { can } = useCurrentUser();
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [itemsPerPage, setItemsPerPage] = useQueryNumber('parPage', 20);
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
+  // Highest unpaid amounts first by default, the most relevant first while
+  // searching, unless another order is chosen
+  const [sort, setSort] = useQuerySort(
+    'tri',
+    CLIENT_SORT_COLUMNS,
+    searchTerm.trim() ? RELEVANCE_SORT : { column: 'current_debt', ascending: false }
+  );
+
+  // Search, filters, sorting and pagination run on the server
+  const filters: ClientFilters = {
+    recherche: searchTerm,
+    dateDebut: dateFilters.dateFrom,
+    dateFin: dateFilters.dateTo
   };
+  const page = { page: currentPage, pageSize: itemsPerPage };
+
+  const {
+    rows: currentClients,
+    total: filteredCount,
+    totals: listTotals,
+    loading,
+    error,
+    reload: fetchClients
+  } = usePagedList(
+    JSON.stringify([filters, sort, page]),
+    () => Promise.all([searchClients(filters, sort, page), getClientListTotals(filters)]),
+    'Erreur lors du chargement des clients'
+  );
 
-  // Load clients on component mount
-  React.useEffect(() => {
-    fetchClients();
-  }, []);
+  const [printClients, printAllClients] = usePrintRows(async () => (await searchClients(filters, sort)).rows);
+
+  const handleSort = (next: typeof sort) => {
+    setSort(next);
+    setCurrentPage(1);
+  };
 
   const handleDateFilterChange = (field: 'dateFrom' | 'dateTo', value: string) => {
     setDateFilters(prev => ({
@@ -120,36 +91,10 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
     return searchTerm || dateFilters.dateFrom || dateFilters.dateTo;
   };
 
-  // Filter by date range (client creation date)
-  const filterByDateRange = (date: string) => {
-    if (!dateFilters.dateFrom && !dateFilters.dateTo) return true;
-    
-    const itemDate = date.split('T')[0]; // Extract date part
-    const fromMatch = !dateFilters.dateFrom || itemDate >= dateFilters.dateFrom;
-    const toMatch = !dateFilters.dateTo || itemDate <= dateFilters.dateTo;
-    
-    return fromMatch && toMatch;
-  };
-
-  // Filter clients based on search term and date range
-  const searchFilteredClients = clients.filter(client =>
-    client.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.prenom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.societe.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.numero_client.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.email.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
-  // Apply date filter to search results
-  const filteredClients = searchFilteredClients.filter(client => 
-    filterByDateRange(client.created_at)
-  );
-
   // Calculate pagination
-  const totalPages = Math.ceil(filteredClients.length / itemsPerPage);
+  const totalPages = Math.ceil(filteredCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const currentClients = filteredClients.slice(startIndex, endIndex);
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -176,7 +121,19 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
     onNavigateToEdit(client);
   };
 
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
+    let filteredClients: ClientListItem[];
+    try {
+      filteredClients = (await searchClients(filters, sort)).rows;
+    } catch (err) {
+      console.error('Error fetching clients to export:', err);
+      return;
+    }
+
+
+    // Margins are left out of the export for roles that may not see them
+    const showMargin = can('prixAchat');
+
     const csvHeaders = [
       'Numéro Client',
       'Nom',
@@ -189,7 +146,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
       'Paiements (DH)',
       'Crédit (DH)',
       'Avance (DH)',
-      'Marge (DH)',
+      ...(showMargin ? ['Marge (DH)'] : []),
       'Date Création'
     ];
 
@@ -205,7 +162,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
       client.total_paiements.toFixed(2),
       client.current_debt.toFixed(2),
       client.available_credit.toFixed(2),
-      client.total_margin.toFixed(2),
+      ...(showMargin ? [(client.total_margin || 0).toFixed(2)] : []),
       new Date(client.created_at).toLocaleDateString('fr-FR')
     ]);
 
@@ -223,7 +180,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
       totals.totalPaiements.toFixed(2),
       totals.totalCredit.toFixed(2),
       totals.totalAvance.toFixed(2),
-      totals.totalMarge.toFixed(2),
+      ...(showMargin ? [totals.totalMarge.toFixed(2)] : []),
       '' // Date
     ]);
 
@@ -242,15 +199,15 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
     document.body.removeChild(link);
   };
 
-  // Calculate totals for filtered data
+  // Totals of the filtered clients, computed by the database
   const calculateTotals = () => {
     return {
-      totalChiffreAffaires: filteredClients.reduce((sum, c) => sum + (c.chiffre_affaires || 0), 0),
-      totalPaiements: filteredClients.reduce((sum, c) => sum + (c.total_paiements || 0), 0),
-      totalCredit: filteredClients.reduce((sum, c) => sum + (c.current_debt || 0), 0),
-      totalAvance: filteredClients.reduce((sum, c) => sum + (c.available_credit || 0), 0),
-      totalMarge: filteredClients.reduce((sum, c) => sum + (c.total_margin || 0), 0),
-      count: filteredClients.length
+      totalChiffreAffaires: listTotals?.chiffre_affaires || 0,
+      totalPaiements: listTotals?.total_paiements || 0,
+      totalCredit: listTotals?.current_debt || 0,
+      totalAvance: listTotals?.available_credit || 0,
+      totalMarge: listTotals?.total_margin || 0,
+      count: filteredCount
     };
   };
 
@@ -304,14 +261,14 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
           >
             <Download className="w-4 h-4" />
-            Exporter CSV ({filteredClients.length})
+            Exporter CSV ({filteredCount})
           </button>
           <button
-            onClick={() => window.print()}
+            onClick={printAllClients}
             className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
           >
             <Printer className="w-4 h-4" />
-            Imprimer ({filteredClients.length})
+            Imprimer ({filteredCount})
           </button>
           <button
             onClick={onNavigateToAdd}
@@ -443,7 +400,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-center justify-between">
               <p className="text-sm text-blue-800">
-                <strong>{filteredClients.length}</strong> client(s) trouvé(s) avec les filtres actifs
+                <strong>{filteredCount}</strong> client(s) trouvé(s) avec les filtres actifs
               </p>
               <p className="text-sm font-medium text-blue-900">
                 CA total: {formatPrice(totals.totalChiffreAffaires)}
@@ -459,30 +416,18 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
               <tr>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Numéro Client
-                </th>
+                <SortableHeader label="Numéro Client" column="numero_client" sort={sort} onSort={handleSort} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Nom & Prénom
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Société
-                </th>
+                <SortableHeader label="Société" column="societe" sort={sort} onSort={handleSort} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Téléphone
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Chiffre d'Affaires
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Paiements
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Crédit
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Avance à consommer
-                </th>
+                <SortableHeader label="Chiffre d'Affaires" column="chiffre_affaires" sort={sort} onSort={handleSort} ascendingFirst={false} />
+                <SortableHeader label="Paiements" column="total_paiements" sort={sort} onSort={handleSort} ascendingFirst={false} />
+                <SortableHeader label="Crédit" column="current_debt" sort={sort} onSort={handleSort} ascendingFirst={false} />
+                <SortableHeader label="Avance à consommer" column="available_credit" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Actions
                 </th>
@@ -497,15 +442,15 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
                     className="hover:bg-gray-50 transition-colors duration-150 cursor-pointer"
                   >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
-                      {client.numero_client}
+                      <Highlight text={client.numero_client} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {client.prenom} {client.nom}
+                        <Highlight text={`${client.prenom} ${client.nom}`} search={searchTerm} />
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {client.societe}
+                      <Highlight text={client.societe} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {client.telephone}
@@ -563,7 +508,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
         <div className="mt-6 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div className="text-sm text-gray-600">
-              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredClients.length)} sur {filteredClients.length} clients
+              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredCount)} sur {filteredCount} clients
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600">Éléments par page:</span>
@@ -624,7 +569,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
           <p className="text-lg text-gray-700 mt-2">LISTE DES CLIENTS</p>
           <p className="text-sm text-gray-600 mt-2">
             Généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')} | 
-            {filteredClients.length} client(s)
+            {printClients.length} client(s)
           </p>
         </div>
 
@@ -643,7 +588,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
             </tr>
           </thead>
           <tbody>
-            {filteredClients.map((client) => (
+            {printClients.map((client) => (
               <tr key={client.id}>
                 <td className="border border-gray-800 px-3 py-2 text-sm">{client.numero_client}</td>
                 <td className="border border-gray-800 px-3 py-2 text-sm">{client.prenom} {client.nom}</td>
@@ -667,7 +612,7 @@ const ClientsList: React.FC<ClientsListProps> = ({ onNavigateToAdd, onNavigateTo
           <tfoot className="bg-gray-100">
             <tr>
               <td className="border border-gray-800 px-3 py-3 font-bold text-sm" colSpan={4}>
-                TOTAUX ({filteredClients.length} clients)
+                TOTAUX ({printClients.length} clients)
               </td>
               <td className="border border-gray-800 px-3 py-3 text-right font-bold text-sm">
                 {formatPrice(totals.totalChiffreAffaires)}
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Save, ShieldAlert } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CREDIT_CONTROL_LABELS, CreditControlMode } from '../lib/creditControl';
+
+const CreditSettings: React.FC = () => {
+  const [controleCredit, setControleCredit] = useState<CreditControlMode>('avertir');
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('parametres')
+          .select('controle_credit')
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) setControleCredit(data.controle_credit);
+      } catch (error) {
+        console.error('Error fetching settings:', error);
+        setError('Erreur lors du chargement des paramètres');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      const { error } = await supabase
+        .from('parametres')
+        .update({ controle_credit: controleCredit })
+        .eq('unique_ligne', true);
+
+      if (error) throw error;
+      setSuccessMessage('Paramètres enregistrés');
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      setError('Erreur lors de l\'enregistrement. Veuillez réessayer.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+      <div className="flex items-center gap-3 mb-6">
+        <ShieldAlert className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Contrôle du crédit client</h2>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="rounded-md bg-green-50 p-4">
+            <div className="text-sm text-green-700">{successMessage}</div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="controle_credit" className="block text-sm font-semibold text-gray-900 mb-2">
+            Livraison hors plafond ou avec des BL en retard
+          </label>
+          <select
+            id="controle_credit"
+            value={controleCredit}
+            onChange={(e) => {
+              setControleCredit(e.target.value as CreditControlMode);
+              setSuccessMessage('');
+            }}
+            disabled={loading}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200"
+          >
+            {(Object.keys(CREDIT_CONTROL_LABELS) as CreditControlMode[]).map(mode => (
+              <option key={mode} value={mode}>{CREDIT_CONTROL_LABELS[mode]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Une livraison bloquée ne peut être forcée que par un administrateur, avec un motif.
+          </p>
+        </div>
+
+        <div className="pt-6 border-t border-gray-200 flex justify-end">
+          <button
+            type="submit"
+            disabled={loading || isSubmitting}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
+          >
+            <Save className="w-5 h-5" />
+            {isSubmitting ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CreditSettings;
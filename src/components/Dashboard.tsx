@@ -13,9 +13,13 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
-  Target
+  Target,
+  Percent
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useCurrentUser } from '../lib/currentUser';
+import { loadPurchasePrices } from '../lib/products';
+import { TvaTotals, computeTvaTotals, formatTvaRate } from '../lib/tva';
 
 interface DashboardStats {
   // Totals
@@ -32,6 +36,7 @@ interface DashboardStats {
     clientsDebt: number;
     clientsCredit: number;
     clientsMargin: number;
+    clientsTransport: number;
     
     // Suppliers
     suppliersOrdered: number;
@@ -46,6 +51,9 @@ interface DashboardStats {
     ordersConfirmed: number;
     ordersDelivered: number;
   };
+
+  // TVA collected on the period's deliveries, by rate
+  tva: TvaTotals;
   
   // Top performers
   topClients: Array<{
@@ -74,6 +82,7 @@ interface DashboardStats {
 }
 
 const Dashboard: React.FC = () => {
+  const { can } = useCurrentUser();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -136,11 +145,12 @@ const Dashboard: React.FC = () => {
       const lastDayISO = lastDay.toISOString().split('T')[0];
 
       // Fetch total counts
-      const [clientsResult, fournisseursResult, chauffeursResult, productsResult] = await Promise.all([
-        supabase.from('clients').select('*', { count: 'exact', head: true }),
+      const [clientsResult, fournisseursResult, chauffeursResult, productsResult, purchasePrices] = await Promise.all([
+        supabase.from('clients').select('id', { count: 'exact', head: true }),
         supabase.from('fournisseurs').select('*', { count: 'exact', head: true }),
         supabase.from('chauffeurs').select('*', { count: 'exact', head: true }),
-        supabase.from('produits').select('*', { count: 'exact', head: true })
+        supabase.from('produits').select('id', { count: 'exact', head: true }),
+        loadPurchasePrices()
       ]);
 
       // Fetch deliveries for the selected period
@@ -153,7 +163,8 @@ const Dashboard: React.FC = () => {
             quantite_livree,
             prix_unitaire,
             total_ligne,
-            produit:produits(prix_achat, prix_vente)
+            taux_tva,
+            produit_id
           )
         `)
         .gte('date_livraison', firstDayISO)
@@ -203,13 +214,14 @@ const Dashboard: React.FC = () => {
       const clientsDebt = clientsRevenue - clientsPayments;
       const clientsCredit = Math.max(0, clientsPayments - clientsRevenue); // Advance only if payments > revenue
       
-      // Calculate margin from delivery items
+      // Calculate margin from delivery items, net of the transport cost of each BL
+      const clientsTransport = monthDeliveriesData.reduce((sum, delivery) => sum + (delivery.montant_chauffeur || 0), 0);
       const clientsMargin = monthDeliveriesData.reduce((sum, delivery) => {
         return sum + (delivery.items || []).reduce((itemSum, item) => {
-          const margin = (item.prix_unitaire - (item.produit?.prix_achat || 0)) * item.quantite_livree;
+          const margin = (item.prix_unitaire - (purchasePrices[item.produit_id] || 0)) * item.quantite_livree;
           return itemSum + margin;
         }, 0);
-      }, 0);
+      }, 0) - clientsTransport;
 
       // Group deliveries by client for top clients calculation
       const clientStats = new Map();
@@ -226,9 +238,9 @@ const Dashboard: React.FC = () => {
         
         existingStat.revenue += delivery.total_ht || 0;
         existingStat.margin += (delivery.items || []).reduce((itemSum, item) => {
-          const margin = (item.prix_unitaire - (item.produit?.prix_achat || 0)) * item.quantite_livree;
+          const margin = (item.prix_unitaire - (purchasePrices[item.produit_id] || 0)) * item.quantite_livree;
           return itemSum + margin;
-        }, 0);
+        }, 0) - (delivery.montant_chauffeur || 0);
         
         clientStats.set(clientId, existingStat);
       });
@@ -249,32 +261,19 @@ const Dashboard: React.FC = () => {
         const supplierId = order.fournisseur_id;
         const existingStat = supplierStats.get(supplierId) || {
           id: supplierId,
-          ordered: 0,
-          payments: 0
+          ordered: 0
         };
         
         existingStat.ordered += order.total_ht || 0;
         supplierStats.set(supplierId, existingStat);
       });
 
-      // Add payments to supplier stats
-      monthSupplierPaymentsData.forEach(payment => {
-        const supplierId = payment.fournisseur_id;
-        const existingStat = supplierStats.get(supplierId) || {
-          id: supplierId,
-          ordered: 0,
-          payments: 0
-        };
-        
-        existingStat.payments += payment.montant || 0;
-        supplierStats.set(supplierId, existingStat);
-      });
-
-      // Fetch supplier names and create top suppliers array
+      // Fetch supplier names and balances, and create top suppliers array.
+      // The debt is the current balance, as on the supplier list and details
       const supplierIds = Array.from(supplierStats.keys());
       const { data: suppliersData } = await supabase
         .from('fournisseurs')
-        .select('id, societe')
+        .select('id, societe, current_debt')
         .in('id', supplierIds);
 
       const topSuppliersArray = Array.from(supplierStats.entries())
@@ -284,7 +283,7 @@ const Dashboard: React.FC = () => {
             id: supplierId,
             societe: supplier?.societe || 'Fournisseur inconnu',
             ordered: stats.ordered,
-            debt: stats.ordered - stats.payments
+            debt: supplier?.current_debt || 0
           };
         })
         .sort((a, b) => b.ordered - a.ordered)
@@ -296,6 +295,13 @@ const Dashboard: React.FC = () => {
       const ordersConfirmed = monthOrdersData.filter(o => o.statut === 'confirmee').length;
       const ordersDelivered = monthOrdersData.filter(o => o.statut === 'livree').length;
 
+      // TVA breakdown of delivered lines
+      const tva = computeTvaTotals(
+        monthDeliveriesData.flatMap(delivery =>
+          (delivery.items || []).map((item: { total_ligne: number; taux_tva: number }) => ({ montant_ht: item.total_ligne, taux_tva: item.taux_tva }))
+        )
+      );
+
       // Recent deliveries (last 5)
       const recentDeliveries = monthDeliveriesData
         .slice(0, 5)
@@ -317,6 +323,7 @@ const Dashboard: React.FC = () => {
           clientsDebt,
           clientsCredit,
           clientsMargin,
+          clientsTransport,
           suppliersOrdered,
           suppliersPayments,
           suppliersDebt,
@@ -327,6 +334,7 @@ const Dashboard: React.FC = () => {
           ordersConfirmed,
           ordersDelivered
         },
+        tva,
         topClients: topClientsArray,
         topSuppliers: topSuppliersArray,
         recentDeliveries
@@ -557,13 +565,20 @@ const Dashboard: React.FC = () => {
               <p className="text-xl font-bold text-red-900">{formatPrice(stats.currentMonth.clientsDebt)}</p>
             </div>
 
-            <div className="bg-purple-50 p-4 rounded-lg border border-purple-200">
-              <div className="flex items-center gap-2 mb-2">
-                <Target className="w-4 h-4 text-purple-600" />
-                <span className="text-sm font-medium text-purple-800">Marge Totale</span>
+            {can('prixAchat') && (
+              <div className="bg-purple-50 p-4 rounded-lg border border-purple-200">
+                <div className="flex items-center gap-2 mb-2">
+                  <Target className="w-4 h-4 text-purple-600" />
+                  <span className="text-sm font-medium text-purple-800">Marge Totale</span>
+                </div>
+                <p className="text-xl font-bold text-purple-900">{formatPrice(stats.currentMonth.clientsMargin)}</p>
+                {stats.currentMonth.clientsTransport > 0 && (
+                  <p className="text-xs text-purple-700 mt-1">
+                    Après transport: {formatPrice(stats.currentMonth.clientsTransport)}
+                  </p>
+                )}
               </div>
-              <p className="text-xl font-bold text-purple-900">{formatPrice(stats.currentMonth.clientsMargin)}</p>
-            </div>
+            )}
           </div>
 
           {stats.currentMonth.clientsCredit > 0 && (
@@ -683,6 +698,49 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* TVA Breakdown */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-6 flex items-center gap-2">
+          <Percent className="w-6 h-6 text-indigo-600" />
+          TVA par taux
+        </h2>
+
+        {stats.tva.par_taux.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Taux</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Base HT</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TTC</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {stats.tva.par_taux.map(row => (
+                  <tr key={row.taux_tva} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatTvaRate(row.taux_tva)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatPrice(row.base_ht)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatPrice(row.montant_tva)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatPrice(row.base_ht + row.montant_tva)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">Total</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">{formatPrice(stats.tva.total_ht)}</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">{formatPrice(stats.tva.total_tva)}</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900">{formatPrice(stats.tva.total_ttc)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-gray-500 py-8">Aucune livraison sur la période</p>
+        )}
+      </div>
+
       {/* Top Performers */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Top Clients */}
@@ -707,7 +765,9 @@ const Dashboard: React.FC = () => {
                     <p className="font-medium text-gray-900">
                       {client.societe || `${client.nom} ${client.prenom}`}
                     </p>
-                    <p className="text-sm text-gray-600">Marge: {formatPrice(client.margin)}</p>
+                    {can('prixAchat') && (
+                      <p className="text-sm text-gray-600">Marge: {formatPrice(client.margin)}</p>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
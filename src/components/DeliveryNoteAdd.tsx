@@ -1,25 +1,19 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Save, Plus, Search, Building2, Truck, FileText, Users } from 'lucide-react';
+import { ArrowLeft, Save, Plus, Search, Building2, Truck, FileText, Users, AlertTriangle } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-
-interface PurchaseOrder {
-  id: string;
-  numero_commande: string;
-  date_commande: string;
-  statut: string;
-  total_ht: number;
-  fournisseur: {
-    societe: string;
-  };
-}
-
-interface Client {
-  id: string;
-  numero_client: string;
-  nom: string;
-  prenom: string;
-  societe: string;
-}
+import { loadPurchaseOrder } from '../lib/loaders';
+import { previewDocumentNumber } from '../lib/numbering';
+import { DEFAULT_TVA_RATE, TVA_RATES, computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { useCurrentUser } from '../lib/currentUser';
+import { CreditCheck, isOverCredit } from '../lib/creditControl';
+import { Client, OpenPurchaseOrder } from '../lib/domain';
+import { errorMessage } from '../lib/dbErrors';
+import { CLIENT_COLUMNS, checkClientCredit, listClients } from '../lib/clientsRepo';
+import { listOpenPurchaseOrders } from '../lib/purchaseOrdersRepo';
+import { createDeliveryNote } from '../lib/deliveryNotesRepo';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import Highlight from './Highlight';
 
 interface Chauffeur {
   id: string;
@@ -36,26 +30,50 @@ interface OrderItem {
   quantite_pieces: number;
   quantite_unitaire: number;
   quantite_totale: number;
+  quantite_commandee: number;
+  quantite_restante: number;
   prix_unitaire: number;
   total: number;
   unite: string;
+  taux_tva: number;
+}
+
+interface Depot {
+  id: string;
+  nom: string;
 }
 
 interface DeliveryNoteAddProps {
   onNavigateBack: () => void;
-  preSelectedPurchaseOrder?: PurchaseOrder | null;
 }
 
-const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSelectedPurchaseOrder }) => {
-  const [selectedPurchaseOrder, setSelectedPurchaseOrder] = useState<PurchaseOrder | null>(null);
+const roundQuantity = (quantite: number) => Math.round(quantite * 100) / 100;
+
+const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack }) => {
+  // Source purchase order passed as ?bc=<id> when converting a BC into a BL
+  const [searchParams] = useSearchParams();
+  const preSelectedPurchaseOrderId = searchParams.get('bc');
+  const { can } = useCurrentUser();
+
+  const [selectedPurchaseOrder, setSelectedPurchaseOrder] = useState<OpenPurchaseOrder | null>(null);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [selectedChauffeur, setSelectedChauffeur] = useState<Chauffeur | null>(null);
   const [actualImmatricule, setActualImmatricule] = useState<string>('');
+  const [montantChauffeur, setMontantChauffeur] = useState<string>('');
+  const [montantChauffeurEdited, setMontantChauffeurEdited] = useState(false);
+  const [isEstimatingTransport, setIsEstimatingTransport] = useState(false);
   
-  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<OpenPurchaseOrder[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [chauffeurs, setChauffeurs] = useState<Chauffeur[]>([]);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [depots, setDepots] = useState<Depot[]>([]);
+  // Warehouse the goods leave from, empty when the supplier delivers the client directly
+  const [depotId, setDepotId] = useState('');
+  const [stockOnHand, setStockOnHand] = useState<Record<string, number>>({});
+  const [creditCheck, setCreditCheck] = useState<CreditCheck | null>(null);
+  // Reason an admin gives to deliver a client past the credit control
+  const [derogationMotif, setDerogationMotif] = useState('');
   
   const [showPurchaseOrderModal, setShowPurchaseOrderModal] = useState(false);
   const [showClientModal, setShowClientModal] = useState(false);
@@ -74,32 +92,13 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [nextDeliveryNumber, setNextDeliveryNumber] = useState<string>('');
 
-  // Generate next delivery number
-  const generateDeliveryNumber = async () => {
+  // Preview of the next delivery number, the number itself is assigned on insert
+  const generateDeliveryNumber = async (date: string) => {
     try {
-      const { data, error } = await supabase
-        .from('bon_de_livraison')
-        .select('numero_livraison')
-        ;
-
-      if (error) throw error;
-
-      let nextNumber = 1;
-      if (data && data.length > 0) {
-        // Extract all numeric parts and find the maximum
-        const numbers = data
-          .map(item => parseInt(item.numero_livraison.replace('BL-', '')))
-          .filter(num => !isNaN(num));
-        
-        if (numbers.length > 0) {
-          nextNumber = Math.max(...numbers) + 1;
-        }
-      }
-
-      return `BL-${String(nextNumber).padStart(4, '0')}`;
+      return await previewDocumentNumber('bon_de_livraison', date);
     } catch (error) {
       console.error('Error generating delivery number:', error);
-      return `BL-0001`;
+      return '-';
     }
   };
 
@@ -107,50 +106,111 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
   React.useEffect(() => {
     const loadData = async () => {
       await Promise.all([
-        generateDeliveryNumber().then(setNextDeliveryNumber),
         fetchPurchaseOrders(),
         fetchClients(),
-        fetchChauffeurs()
+        fetchChauffeurs(),
+        fetchDepots()
       ]);
       
       // If there's a pre-selected purchase order, use it
-      if (preSelectedPurchaseOrder) {
-        setSelectedPurchaseOrder(preSelectedPurchaseOrder);
-        fetchOrderItems(preSelectedPurchaseOrder.id);
+      if (preSelectedPurchaseOrderId) {
+        try {
+          const preSelectedPurchaseOrder = await loadPurchaseOrder(preSelectedPurchaseOrderId);
+          if (preSelectedPurchaseOrder) {
+            setSelectedPurchaseOrder(preSelectedPurchaseOrder);
+            fetchOrderItems(preSelectedPurchaseOrder.id);
+            selectQuoteClient(preSelectedPurchaseOrder);
+          }
+        } catch (error) {
+          console.error('Error fetching pre-selected purchase order:', error);
+        }
       }
     };
     loadData();
-  }, [preSelectedPurchaseOrder]);
+  }, [preSelectedPurchaseOrderId]);
 
-  const fetchPurchaseOrders = async () => {
-    try {
-      // First get all purchase order IDs that already have delivery notes
-      const { data: existingDeliveries, error: deliveryError } = await supabase
-        .from('bon_de_livraison')
-        .select('bon_commande_id');
+  // The number depends on the date when the sequence restarts every year
+  React.useEffect(() => {
+    generateDeliveryNumber(formData.date_livraison).then(setNextDeliveryNumber);
+  }, [formData.date_livraison]);
 
-      if (deliveryError) throw deliveryError;
+  // Transport cost from the rate grid, until the user types their own amount
+  React.useEffect(() => {
+    if (!selectedChauffeur || montantChauffeurEdited) return;
+
+    const estimateTransportCost = async () => {
+      try {
+        setIsEstimatingTransport(true);
+        const { data, error } = await supabase.rpc('estimate_transport_cost', {
+          p_chauffeur_id: selectedChauffeur.id,
+          p_client_id: selectedClient?.id || null,
+          p_items: orderItems.filter(item => item.quantite_totale > 0).map(item => ({
+            produit_id: item.produit_id,
+            quantite_livree: item.quantite_totale
+          }))
+        });
+
+        if (error) throw error;
+        setMontantChauffeur(data === null ? '' : String(data));
+      } catch (error) {
+        console.error('Error estimating transport cost:', error);
+      } finally {
+        setIsEstimatingTransport(false);
+      }
+    };
+    estimateTransportCost();
+  }, [selectedChauffeur, selectedClient, orderItems, montantChauffeurEdited]);
 
-      const usedPurchaseOrderIds = (existingDeliveries || []).map(d => d.bon_commande_id);
+  // Debt of the client once this BL is delivered, against its limit and payment terms
+  React.useEffect(() => {
+    if (!selectedClient) {
+      setCreditCheck(null);
+      return;
+    }
 
-      // Fetch purchase orders excluding those that already have delivery notes
-      const { data, error } = await supabase
-        .from('bon_de_commande')
-        .select(`
-          *,
-          fournisseur:fournisseurs(societe)
-        `)
-        .neq('statut', 'annulee')
-        .order('created_at', { ascending: false });
+    const checkCredit = async () => {
+      try {
+        const { total_ttc } = computeTvaTotals(orderItems.map(item => ({ montant_ht: item.total, taux_tva: item.taux_tva })));
+        setCreditCheck(await checkClientCredit(selectedClient.id, total_ttc));
+      } catch (error) {
+        console.error('Error checking client credit:', error);
+      }
+    };
+    checkCredit();
+  }, [selectedClient, orderItems]);
 
-      if (error) throw error;
+  // Quantity on hand of every product in the chosen warehouse
+  React.useEffect(() => {
+    if (!depotId) {
+      setStockOnHand({});
+      return;
+    }
 
-      // Filter out purchase orders that already have delivery notes
-      const availableOrders = (data || []).filter(order => 
-        !usedPurchaseOrderIds.includes(order.id)
-      );
+    const fetchStock = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('stock_produits')
+          .select('produit_id, quantite')
+          .eq('depot_id', depotId);
+
+        if (error) throw error;
+
+        const byProduct: Record<string, number> = {};
+        (data || []).forEach(line => {
+          byProduct[line.produit_id] = Number(line.quantite);
+        });
+        setStockOnHand(byProduct);
+      } catch (error) {
+        console.error('Error fetching stock:', error);
+      }
+    };
+    fetchStock();
+  }, [depotId]);
 
-      setPurchaseOrders(availableOrders);
+  const fetchPurchaseOrders = async () => {
+    try {
+      // A BC can be delivered in several BLs until every line is delivered
+      setPurchaseOrders(await listOpenPurchaseOrders());
     } catch (error) {
       console.error('Error fetching purchase orders:', error);
     }
@@ -158,13 +218,7 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
 
   const fetchClients = async () => {
     try {
-      const { data, error } = await supabase
-        .from('clients')
-        .select('*')
-        .order('societe', { ascending: true });
-
-      if (error) throw error;
-      setClients(data || []);
+      setClients(await listClients());
     } catch (error) {
       console.error('Error fetching clients:', error);
     }
@@ -184,6 +238,21 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
     }
   };
 
+  const fetchDepots = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('depots')
+        .select('id, nom')
+        .eq('actif', true)
+        .order('nom', { ascending: true });
+
+      if (error) throw error;
+      setDepots(data || []);
+    } catch (error) {
+      console.error('Error fetching depots:', error);
+    }
+  };
+
   const fetchOrderItems = async (orderId: string) => {
     try {
       const { data, error } = await supabase
@@ -199,22 +268,29 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
       // Debug log to see the actual data structure
       console.log('BC Items data:', data);
 
+      // Each BL delivers what remains of the BC lines, by default all of it
       const items = (data || []).map(item => {
         console.log('Processing item:', item);
         console.log('Product data:', item.produit);
+
+        const quantiteRestante = Math.max(item.quantite - (item.quantite_livree || 0), 0);
+        const quantiteUnitaire = item.quantite_unitaire || 1;
         
         return {
           id: item.id,
           produit_id: item.produit_id,
           nom_produit: item.produit.nom_produit,
           prix_unitaire: item.prix_unitaire,
-          quantite_pieces: item.quantite_pieces,
-          quantite_unitaire: item.quantite_unitaire,
-          quantite_totale: item.quantite,
-          total: item.prix_unitaire * item.quantite,
-          unite: item.produit.unite
+          quantite_pieces: roundQuantity(quantiteRestante / quantiteUnitaire),
+          quantite_unitaire: quantiteUnitaire,
+          quantite_totale: quantiteRestante,
+          quantite_commandee: item.quantite,
+          quantite_restante: quantiteRestante,
+          total: item.prix_unitaire * quantiteRestante,
+          unite: item.produit.unite,
+          taux_tva: item.taux_tva ?? DEFAULT_TVA_RATE
         };
-      });
+      }).filter(item => item.quantite_restante > 0);
 
       console.log('Converted items:', items);
       setOrderItems(items);
@@ -231,9 +307,32 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
     }));
   };
 
-  const handleSelectPurchaseOrder = (order: PurchaseOrder) => {
+  // A BC converted from a quote is delivered to the client of the quote
+  const selectQuoteClient = async (order: OpenPurchaseOrder) => {
+    if (!order.devis_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('devis')
+        .select(`client:clients(${CLIENT_COLUMNS})`)
+        .eq('id', order.devis_id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const client = (data as unknown as { client: Client | null } | null)?.client;
+      if (client) {
+        setSelectedClient(current => current || client);
+      }
+    } catch (error) {
+      console.error('Error fetching quote client:', error);
+    }
+  };
+
+  const handleSelectPurchaseOrder = (order: OpenPurchaseOrder) => {
     setSelectedPurchaseOrder(order);
     fetchOrderItems(order.id);
+    selectQuoteClient(order);
     setShowPurchaseOrderModal(false);
     setPurchaseOrderSearch('');
   };
@@ -251,26 +350,15 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
     setChauffeurSearch('');
   };
 
-  const calculateTotal = () => {
-    return orderItems.reduce((sum, item) => sum + item.total, 0);
+  const calculateTotals = () => {
+    return computeTvaTotals(orderItems.map(item => ({ montant_ht: item.total, taux_tva: item.taux_tva })));
   };
 
-  const filteredPurchaseOrders = purchaseOrders.filter(order =>
-    order.numero_commande.toLowerCase().includes(purchaseOrderSearch.toLowerCase()) ||
-    order.fournisseur.societe.toLowerCase().includes(purchaseOrderSearch.toLowerCase())
-  );
+  const filteredPurchaseOrders = useRankedSearch('bons_de_commande', purchaseOrders, purchaseOrderSearch);
 
-  const filteredClients = clients.filter(client =>
-    client.societe.toLowerCase().includes(clientSearch.toLowerCase()) ||
-    client.nom.toLowerCase().includes(clientSearch.toLowerCase()) ||
-    client.prenom.toLowerCase().includes(clientSearch.toLowerCase())
-  );
+  const filteredClients = useRankedSearch('clients', clients, clientSearch);
 
-  const filteredChauffeurs = chauffeurs.filter(chauffeur =>
-    chauffeur.nom.toLowerCase().includes(chauffeurSearch.toLowerCase()) ||
-    chauffeur.prenom.toLowerCase().includes(chauffeurSearch.toLowerCase()) ||
-    chauffeur.numero_chauffeur.toLowerCase().includes(chauffeurSearch.toLowerCase())
-  );
+  const filteredChauffeurs = useRankedSearch('chauffeurs', chauffeurs, chauffeurSearch);
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
@@ -295,6 +383,22 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
       newErrors.date_livraison = 'La date de livraison est requise';
     }
 
+    if (orderItems.length > 0 && !orderItems.some(item => item.quantite_totale > 0)) {
+      newErrors.items = 'Indiquez la quantité à livrer d\'au moins un produit';
+    } else if (orderItems.some(item => item.quantite_totale < 0 || item.quantite_totale > item.quantite_restante)) {
+      newErrors.items = 'La quantité livrée ne peut pas dépasser le reste à livrer';
+    }
+
+    if (montantChauffeur !== '' && Number(montantChauffeur) < 0) {
+      newErrors.montant_chauffeur = 'Le coût de transport ne peut pas être négatif';
+    }
+
+    if (isCreditBlocked && !(canOverrideCredit && derogationMotif.trim())) {
+      newErrors.credit = canOverrideCredit
+        ? 'Indiquez le motif de la dérogation pour forcer la livraison'
+        : 'Livraison bloquée par le contrôle du crédit client';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -309,6 +413,26 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
     );
   };
 
+  const handleDeliveredPiecesChange = (itemId: string, newPieces: number) => {
+    setOrderItems(prev => 
+      prev.map(item => {
+        if (item.id !== itemId) return item;
+        const quantite = roundQuantity(newPieces * item.quantite_unitaire);
+        return { ...item, quantite_pieces: newPieces, quantite_totale: quantite, total: item.prix_unitaire * quantite };
+      })
+    );
+  };
+
+  const handleTvaRateChange = (itemId: string, newRate: number) => {
+    setOrderItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, taux_tva: newRate }
+          : item
+      )
+    );
+  };
+
   const handleSubmit = async () => {
     if (!validateForm()) return;
 
@@ -316,62 +440,36 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
     setErrors({});
 
     try {
-      // Create the delivery note
-      const { data: deliveryData, error: deliveryError } = await supabase
-        .from('bon_de_livraison')
-        .insert({
-          numero_livraison: nextDeliveryNumber,
-          bon_commande_id: selectedPurchaseOrder!.id,
-          client_id: selectedClient!.id,
-          chauffeur_id: selectedChauffeur!.id,
-          immatricule_utilise: actualImmatricule,
-          date_livraison: formData.date_livraison,
-          notes: formData.notes,
-         statut: 'livree',
-          total_ht: calculateTotal()
-        })
-        .select()
-        .single();
-
-      if (deliveryError) throw deliveryError;
-
-      // Create the delivery items
-      const itemsToInsert = orderItems.map(item => ({
-        livraison_id: deliveryData.id,
-        produit_id: item.produit_id,
-        quantite_commandee: item.quantite_totale,
-        quantite_livree: item.quantite_totale, // Initially same as ordered
-        prix_unitaire: item.prix_unitaire,
-        quantite_pieces: item.quantite_pieces,
-        quantite_unitaire: item.quantite_unitaire
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('bon_de_livraison_items')
-        .insert(itemsToInsert);
-
-      if (itemsError) throw itemsError;
-
-      // Update the purchase order status to 'livree' and assign client
-      const { error: purchaseOrderError } = await supabase
-        .from('bon_de_commande')
-        .update({ 
-          statut: 'livree',
-          client_id: selectedClient!.id
-        })
-        .eq('id', selectedPurchaseOrder!.id);
-
-      if (purchaseOrderError) {
-        console.error('Error updating purchase order:', purchaseOrderError);
-      } else {
-        console.log('Purchase order updated to delivered status with client assignment');
-      }
+      const deliveryData = await createDeliveryNote({
+        bon_commande_id: selectedPurchaseOrder!.id,
+        client_id: selectedClient!.id,
+        chauffeur_id: selectedChauffeur!.id,
+        immatricule_utilise: actualImmatricule,
+        date_livraison: formData.date_livraison,
+        notes: formData.notes,
+        items: orderItems.filter(item => item.quantite_totale > 0).map(item => ({
+          commande_item_id: item.id,
+          produit_id: item.produit_id,
+          quantite_commandee: item.quantite_commandee,
+          quantite_livree: item.quantite_totale,
+          prix_unitaire: item.prix_unitaire,
+          quantite_pieces: item.quantite_pieces,
+          quantite_unitaire: item.quantite_unitaire,
+          taux_tva: item.taux_tva
+        })),
+        montant_chauffeur: montantChauffeur === '' ? null : Number(montantChauffeur),
+        depot_id: depotId || null,
+        derogation_motif: isOverCredit(creditCheck) && canOverrideCredit && derogationMotif.trim()
+          ? derogationMotif.trim()
+          : null
+      });
 
       console.log('Delivery note created successfully:', deliveryData);
       onNavigateBack();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating delivery note:', error);
-      setErrors({ general: 'Erreur lors de la création. Veuillez réessayer.' });
+      // The credit control of the database has the last word
+      setErrors({ general: errorMessage(error, 'Erreur lors de la création. Veuillez réessayer.') });
     } finally {
       setIsSubmitting(false);
     }
@@ -429,6 +527,22 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
     }).format(price) + ' DH';
   };
 
+  const totals = calculateTotals();
+
+  const canOverrideCredit = can('credit.derogation');
+  const isCreditBlocked = isOverCredit(creditCheck) && creditCheck!.controle_credit === 'bloquer';
+
+  // Delivering more than the warehouse holds is allowed (a reception may not be recorded yet) but flagged
+  const deliveredByProduct: Record<string, number> = {};
+  orderItems.forEach(item => {
+    deliveredByProduct[item.produit_id] = (deliveredByProduct[item.produit_id] || 0) + item.quantite_totale;
+  });
+  const isShortOfStock = (item: OrderItem) => {
+    return !!depotId && item.quantite_totale > 0
+      && roundQuantity(deliveredByProduct[item.produit_id]) > roundQuantity(stockOnHand[item.produit_id] || 0);
+  };
+  const shortItems = orderItems.filter(isShortOfStock);
+
   if (!nextDeliveryNumber) {
     return (
       <div className="min-h-full flex items-center justify-center">
@@ -449,7 +563,7 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
         </button>
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Créer un bon de livraison</h1>
-          <p className="text-gray-600 mt-1">Numéro: {nextDeliveryNumber}</p>
+          <p className="text-gray-600 mt-1">Prochain numéro: {nextDeliveryNumber}</p>
         </div>
       </div>
 
@@ -577,6 +691,44 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                       Véhicule par défaut: {selectedChauffeur.immatricule}
                     </p>
                   </div>
+
+                  <div>
+                    <label htmlFor="montant_chauffeur" className="block text-sm font-medium text-gray-700 mb-2">
+                      Coût transport (DH)
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        id="montant_chauffeur"
+                        step="0.01"
+                        min="0"
+                        value={montantChauffeur}
+                        onChange={(e) => {
+                          setMontantChauffeur(e.target.value);
+                          setMontantChauffeurEdited(true);
+                        }}
+                        className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                          errors.montant_chauffeur ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                        placeholder={isEstimatingTransport ? 'Calcul...' : 'Aucun tarif'}
+                      />
+                      {montantChauffeurEdited && (
+                        <button
+                          type="button"
+                          onClick={() => setMontantChauffeurEdited(false)}
+                          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm whitespace-nowrap"
+                        >
+                          Recalculer
+                        </button>
+                      )}
+                    </div>
+                    {errors.montant_chauffeur && (
+                      <p className="text-red-500 text-xs mt-1">{errors.montant_chauffeur}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Calculé depuis la grille tarifaire (chauffeur, zone du client, quantités). Déduit de la marge et dû au chauffeur.
+                    </p>
+                  </div>
                 </div>
               ) : (
                 <button
@@ -608,7 +760,9 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Dimension</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité Totale</th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total Prix</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Reste à livrer</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -628,7 +782,18 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                               className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
                             />
                           </td>
-                          <td className="px-4 py-3 text-sm text-gray-900">{item.quantite_pieces}</td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={item.quantite_pieces}
+                              onChange={(e) => handleDeliveredPiecesChange(item.id, Number(e.target.value))}
+                              className={`w-20 px-2 py-1 border rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
+                                item.quantite_totale > item.quantite_restante ? 'border-red-500' : 'border-gray-300'
+                              }`}
+                            />
+                          </td>
                           <td className="px-4 py-3">
                             {requiresDualInput(item.unite) ? (
                               <span className="text-sm font-medium text-blue-600">
@@ -646,6 +811,28 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                                 `${item.quantite_pieces} ${getUnitLabel(item.unite)}`
                               )}
                             </div>
+                            {depotId && (
+                              <div className={`text-xs ${isShortOfStock(item) ? 'text-amber-600 font-medium' : 'text-gray-400'}`}>
+                                En stock : {roundQuantity(stockOnHand[item.produit_id] || 0)} {getUnitLabel(item.unite)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {item.quantite_restante} {getUnitLabel(item.unite)}
+                            {item.quantite_restante < item.quantite_commandee && (
+                              <div className="text-xs text-gray-400">sur {item.quantite_commandee} commandés</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={item.taux_tva}
+                              onChange={(e) => handleTvaRateChange(item.id, Number(e.target.value))}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {TVA_RATES.map(taux => (
+                                <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                              ))}
+                            </select>
                           </td>
                           <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatPrice(item.total)}</td>
                         </tr>
@@ -653,6 +840,18 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                     </tbody>
                   </table>
                 </div>
+                {shortItems.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mt-3 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-amber-800">
+                      Quantité supérieure au stock du dépôt pour : {shortItems.map(item => item.nom_produit).join(', ')}.
+                      Le stock deviendra négatif si la réception n'est pas enregistrée.
+                    </p>
+                  </div>
+                )}
+                {errors.items && (
+                  <p className="text-red-500 text-sm mt-3">{errors.items}</p>
+                )}
               </div>
             )}
           </div>
@@ -683,6 +882,26 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                   )}
                 </div>
 
+                <div>
+                  <label htmlFor="depot_id" className="block text-sm font-medium text-gray-700 mb-1">
+                    Expédié depuis
+                  </label>
+                  <select
+                    id="depot_id"
+                    value={depotId}
+                    onChange={(e) => setDepotId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Livraison directe du fournisseur</option>
+                    {depots.map(depot => (
+                      <option key={depot.id} value={depot.id}>{depot.nom}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Les produits expédiés depuis un dépôt sont retirés de son stock.
+                  </p>
+                </div>
+
                 <div>
                   <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
                     Notes (optionnel)
@@ -710,11 +929,65 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                     <span className="text-gray-600">Nombre d'articles:</span>
                     <span className="font-medium">{orderItems.reduce((sum, item) => sum + item.quantite_pieces, 0)}</span>
                   </div>
-                  <div className="flex justify-between py-2 text-lg font-semibold">
-                    <span>Total:</span>
-                    <span>{formatPrice(calculateTotal())}</span>
+                  <div className="flex justify-between py-2">
+                    <span className="text-gray-600">Total HT:</span>
+                    <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                  </div>
+                  {totals.par_taux.map(row => (
+                    <div key={row.taux_tva} className="flex justify-between py-1 text-sm">
+                      <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                      <span>{formatPrice(row.montant_tva)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
+                    <span>Total TTC:</span>
+                    <span>{formatPrice(totals.total_ttc)}</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Credit Control */}
+            {creditCheck && isOverCredit(creditCheck) && (
+              <div className={`rounded-lg border p-4 ${isCreditBlocked ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className={`w-5 h-5 mt-0.5 flex-shrink-0 ${isCreditBlocked ? 'text-red-600' : 'text-amber-600'}`} />
+                  <div className={`text-sm space-y-1 ${isCreditBlocked ? 'text-red-800' : 'text-amber-800'}`}>
+                    <p className="font-medium">
+                      {isCreditBlocked ? 'Livraison bloquée' : 'Attention : crédit client'}
+                    </p>
+                    {Number(creditCheck.depassement) > 0 && (
+                      <p>
+                        Encours après livraison : {formatPrice(Number(creditCheck.nouvel_encours))} pour un plafond
+                        de {formatPrice(Number(creditCheck.plafond_credit))} (dépassement de {formatPrice(Number(creditCheck.depassement))}).
+                      </p>
+                    )}
+                    {creditCheck.bl_en_retard > 0 && (
+                      <p>
+                        {creditCheck.bl_en_retard} BL en retard de paiement ({formatPrice(Number(creditCheck.montant_en_retard))}).
+                      </p>
+                    )}
                   </div>
                 </div>
+                {isCreditBlocked && canOverrideCredit && (
+                  <div className="mt-3">
+                    <label htmlFor="derogation_motif" className="block text-sm font-medium text-gray-700 mb-1">
+                      Motif de la dérogation
+                    </label>
+                    <textarea
+                      id="derogation_motif"
+                      rows={2}
+                      value={derogationMotif}
+                      onChange={(e) => setDerogationMotif(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                      placeholder="Ex: accord de la direction, chèque remis..."
+                    />
+                    <p className="text-xs text-gray-500 mt-1">La dérogation est enregistrée avec ce motif dans l'historique du BL.</p>
+                  </div>
+                )}
+                {errors.credit && (
+                  <p className="text-red-600 text-sm mt-2">{errors.credit}</p>
+                )}
               </div>
             )}
 
@@ -784,9 +1057,11 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                           <div className="font-medium text-gray-900">{formatPrice(order.total_ht)}</div>
                           <div className={`text-xs px-2 py-1 rounded-full ${
                             order.statut === 'confirmee' ? 'bg-green-100 text-green-800' : 
+                            order.statut === 'partiellement_livree' ? 'bg-orange-100 text-orange-800' :
                             order.statut === 'livree' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
                           }`}>
                             {order.statut === 'confirmee' ? 'Confirmée' : 
+                             order.statut === 'partiellement_livree' ? 'Partiellement livrée' :
                              order.statut === 'livree' ? 'Livrée' : 
                              order.statut === 'envoyee' ? 'Envoyée' : 'Brouillon'}
                           </div>
@@ -797,7 +1072,7 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                   {filteredPurchaseOrders.length === 0 && (
                     <div className="text-center py-8 text-gray-500">
                       <p>Aucun bon de commande disponible</p>
-                      <p className="text-sm mt-1">Tous les bons de commande ont déjà une livraison associée</p>
+                      <p className="text-sm mt-1">Tous les bons de commande sont entièrement livrés</p>
                     </div>
                   )}
                 </div>
@@ -841,9 +1116,9 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                       onClick={() => handleSelectClient(client)}
                       className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
                     >
-                      <div className="font-medium text-gray-900">{client.societe}</div>
+                      <div className="font-medium text-gray-900"><Highlight text={client.societe} search={clientSearch} /></div>
                       <div className="text-sm text-gray-600">
-                        {client.prenom} {client.nom} - {client.numero_client}
+                        <Highlight text={`${client.prenom} ${client.nom}`} search={clientSearch} /> - <Highlight text={client.numero_client} search={clientSearch} />
                       </div>
                     </button>
                   ))}
@@ -891,12 +1166,12 @@ const DeliveryNoteAdd: React.FC<DeliveryNoteAddProps> = ({ onNavigateBack, preSe
                       <div className="flex justify-between items-start">
                         <div>
                           <div className="font-medium text-gray-900">
-                            {chauffeur.prenom} {chauffeur.nom}
+                            <Highlight text={`${chauffeur.prenom} ${chauffeur.nom}`} search={chauffeurSearch} />
                           </div>
-                          <div className="text-sm text-gray-600">{chauffeur.numero_chauffeur}</div>
+                          <div className="text-sm text-gray-600"><Highlight text={chauffeur.numero_chauffeur} search={chauffeurSearch} /></div>
                         </div>
                         <div className="text-sm font-mono bg-gray-100 px-2 py-1 rounded">
-                          {chauffeur.immatricule}
+                          <Highlight text={chauffeur.immatricule} search={chauffeurSearch} />
                         </div>
                       </div>
                     </button>
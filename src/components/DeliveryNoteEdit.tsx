@@ -1,62 +1,81 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Save, Edit3, FileText, Truck, Users, Printer } from 'lucide-react';
+import { ArrowLeft, Save, Edit3, FileText, Truck, Users, Printer, Receipt, RotateCcw, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { TVA_RATES, computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { useCurrentUser } from '../lib/currentUser';
+import HistoryPanel from './HistoryPanel';
+import { DeliveryNoteDetail, DeliveryNoteItemDetail } from '../lib/domain';
+import { errorMessage } from '../lib/dbErrors';
+import { listDeliveryNoteItems, updateDeliveryNote } from '../lib/deliveryNotesRepo';
+import { checkClientCredit } from '../lib/clientsRepo';
+import { CreditCheck, isOverCredit } from '../lib/creditControl';
 
-interface DeliveryNote {
+
+// Credit note of a customer return on this BL
+interface CreditNote {
   id: string;
-  numero_livraison: string;
-  date_livraison: string;
-  statut: string;
+  numero_avoir: string;
+  date_avoir: string;
+  motif: string;
   total_ht: number;
-  notes: string;
-  immatricule_utilise: string;
-  client: {
-    nom: string;
-    prenom: string;
-    societe: string;
-    numero_client: string;
-  };
-  chauffeur: {
-    nom: string;
-    prenom: string;
-    numero_chauffeur: string;
-  };
-  bon_commande: {
-    numero_commande: string;
-  };
+  total_ttc: number;
+  items: Array<{
+    livraison_item_id: string;
+    quantite: number;
+  }>;
+  retours_fournisseurs: Array<{
+    id: string;
+  }>;
 }
 
-interface DeliveryItem {
+interface Invoice {
   id: string;
-  quantite_commandee: number;
-  quantite_livree: number;
-  prix_unitaire: number;
-  total_ligne: number;
-  produit: {
-    nom_produit: string;
-  };
+  numero_facture: string;
+  statut: string;
 }
 
 interface DeliveryNoteEditProps {
   onNavigateBack: () => void;
-  note: DeliveryNote;
+  onNavigateToInvoice: (facture: Invoice) => void;
+  onCreateInvoice: (note: DeliveryNoteDetail) => void;
+  note: DeliveryNoteDetail;
 }
 
-const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, note }) => {
-  const [deliveryItems, setDeliveryItems] = useState<DeliveryItem[]>([]);
+const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, onNavigateToInvoice, onCreateInvoice, note }) => {
+  const { can } = useCurrentUser();
+  // Drivers open their BLs read-only
+  const canEdit = can('bonsDeLivraison.gerer');
+  const [deliveryItems, setDeliveryItems] = useState<DeliveryNoteItemDetail[]>([]);
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const [formData, setFormData] = useState({
     statut: note.statut,
     notes: note.notes || '',
-    immatricule_utilise: note.immatricule_utilise
+    immatricule_utilise: note.immatricule_utilise || '',
+    montant_chauffeur: note.montant_chauffeur === null ? '' : String(note.montant_chauffeur)
   });
+  const [isEstimatingTransport, setIsEstimatingTransport] = useState(false);
+  const [creditCheck, setCreditCheck] = useState<CreditCheck | null>(null);
+  // Reason an admin gives to reopen or increase the BL past the credit control
+  const [derogationMotif, setDerogationMotif] = useState('');
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPrintModal, setShowPrintModal] = useState(false);
   const [printWithPrices, setPrintWithPrices] = useState(true);
 
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [returnForm, setReturnForm] = useState({
+    date_avoir: new Date().toISOString().split('T')[0],
+    motif: '',
+    retour_fournisseur: false
+  });
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, string>>({});
+  const [isSubmittingReturn, setIsSubmittingReturn] = useState(false);
+  const [returnError, setReturnError] = useState<string | null>(null);
+
   const handlePrint = (withPrices: boolean) => {
     setPrintWithPrices(withPrices);
     setShowPrintModal(false);
@@ -76,20 +95,22 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
       setLoading(true);
       setError(null);
 
-      const { data, error: fetchError } = await supabase
-        .from('bon_de_livraison_items')
-        .select(`
-          *,
-          produit:produits(nom_produit, prix_vente, unite)
-        `)
-        .eq('livraison_id', note.id)
-        .order('id', { ascending: true });
-
-      if (fetchError) {
-        throw fetchError;
+      setDeliveryItems(await listDeliveryNoteItems(note.id));
+
+      // Invoice currently billing this delivery note, if any
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('factures')
+        .select('id, numero_facture, statut, facture_livraisons!inner(livraison_id)')
+        .eq('facture_livraisons.livraison_id', note.id)
+        .maybeSingle();
+
+      if (invoiceError) {
+        throw invoiceError;
       }
 
-      setDeliveryItems(data || []);
+      setInvoice(invoiceData);
+
+      await fetchCreditNotes();
     } catch (err: any) {
       console.error('Error fetching delivery items:', err);
       setError('Erreur lors du chargement des détails de la livraison');
@@ -98,6 +119,98 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
     }
   };
 
+  const fetchCreditNotes = async () => {
+    const { data, error: creditNotesError } = await supabase
+      .from('avoirs')
+      .select(`
+        id, numero_avoir, date_avoir, motif, total_ht, total_ttc,
+        items:avoir_items(livraison_item_id, quantite),
+        retours_fournisseurs(id)
+      `)
+      .eq('livraison_id', note.id)
+      .order('date_avoir', { ascending: true });
+
+    if (creditNotesError) {
+      throw creditNotesError;
+    }
+
+    setCreditNotes((data || []) as unknown as CreditNote[]);
+  };
+
+  // Quantity of each line already returned by the client
+  const returnedByItem = creditNotes.reduce<Record<string, number>>((acc, creditNote) => {
+    creditNote.items.forEach(item => {
+      acc[item.livraison_item_id] = (acc[item.livraison_item_id] || 0) + Number(item.quantite);
+    });
+    return acc;
+  }, {});
+
+  const getReturnableQuantity = (item: DeliveryNoteItemDetail) => {
+    return Math.max(item.quantite_livree - (returnedByItem[item.id] || 0), 0);
+  };
+
+  const openReturnModal = () => {
+    setReturnForm({
+      date_avoir: new Date().toISOString().split('T')[0],
+      motif: '',
+      retour_fournisseur: false
+    });
+    setReturnQuantities({});
+    setReturnError(null);
+    setShowReturnModal(true);
+  };
+
+  const handleSubmitReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const items = deliveryItems
+      .map(item => ({ livraison_item_id: item.id, quantite: Number(returnQuantities[item.id] || 0) }))
+      .filter(item => item.quantite > 0);
+
+    if (!returnForm.motif.trim()) {
+      setReturnError('Le motif du retour est obligatoire');
+      return;
+    }
+
+    if (items.length === 0) {
+      setReturnError('Saisissez au moins une quantité retournée');
+      return;
+    }
+
+    const overReturned = deliveryItems.find(item => Number(returnQuantities[item.id] || 0) > getReturnableQuantity(item));
+    if (overReturned) {
+      setReturnError(`La quantité retournée de ${overReturned.produit.nom_produit} dépasse la quantité livrée restante`);
+      return;
+    }
+
+    setIsSubmittingReturn(true);
+    setReturnError(null);
+
+    try {
+      // Credit note, supplier return and stock movement are written in a single transaction
+      const { error } = await supabase.rpc('create_customer_return', {
+        p_livraison_id: note.id,
+        p_date: returnForm.date_avoir,
+        p_motif: returnForm.motif.trim(),
+        p_items: items,
+        p_retour_fournisseur: returnForm.retour_fournisseur
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      setShowReturnModal(false);
+      await fetchCreditNotes();
+    } catch (error) {
+      console.error('Error creating customer return:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      setReturnError(code === '23514' && message ? message : 'Erreur lors de l\'enregistrement du retour. Veuillez réessayer.');
+    } finally {
+      setIsSubmittingReturn(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLTextAreaElement | HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -106,88 +219,105 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
     }));
   };
 
-  const handleQuantityChange = (itemId: string, newQuantity: number) => {
+  const handleTvaRateChange = (itemId: string, newRate: number) => {
     setDeliveryItems(prev => 
       prev.map(item => 
         item.id === itemId 
-          ? { ...item, quantite_livree: newQuantity, total_ligne: item.prix_unitaire * newQuantity }
+          ? { ...item, taux_tva: newRate }
           : item
       )
     );
   };
 
+  // Transport cost from the rate grid, for the quantities being edited
+  const handleEstimateTransport = async () => {
+    try {
+      setIsEstimatingTransport(true);
+      const { data, error } = await supabase.rpc('estimate_transport_cost', {
+        p_chauffeur_id: note.chauffeur_id,
+        p_client_id: note.client_id,
+        p_items: deliveryItems.map(item => ({
+          produit_id: item.produit_id,
+          quantite_livree: item.quantite_livree
+        }))
+      });
+
+      if (error) throw error;
+      setFormData(prev => ({ ...prev, montant_chauffeur: data === null ? '' : String(data) }));
+    } catch (err) {
+      console.error('Error estimating transport cost:', err);
+      setError('Erreur lors du calcul du coût de transport');
+    } finally {
+      setIsEstimatingTransport(false);
+    }
+  };
+
+  const calculateTotals = () => {
+    return computeTvaTotals(deliveryItems.map(item => ({ montant_ht: item.total_ligne, taux_tva: item.taux_tva })));
+  };
+
+  // A BL that is reopened or whose TTC grows adds to the debt of the client:
+  // same credit control as a new BL, for the difference
+  React.useEffect(() => {
+    const { total_ttc } = computeTvaTotals(deliveryItems.map(item => ({ montant_ht: item.total_ligne, taux_tva: item.taux_tva })));
+    const increase = (formData.statut === 'annulee' ? 0 : total_ttc) - (note.statut === 'annulee' ? 0 : note.total_ttc);
+
+    if (!canEdit || increase <= 0.005) {
+      setCreditCheck(null);
+      return;
+    }
+
+    const checkCredit = async () => {
+      try {
+        setCreditCheck(await checkClientCredit(note.client_id, increase));
+      } catch (error) {
+        console.error('Error checking client credit:', error);
+      }
+    };
+    checkCredit();
+  }, [canEdit, deliveryItems, formData.statut, note.client_id, note.statut, note.total_ttc]);
+
+  const canOverrideCredit = can('credit.derogation');
+  const isCreditBlocked = isOverCredit(creditCheck) && creditCheck!.controle_credit === 'bloquer';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (formData.montant_chauffeur !== '' && Number(formData.montant_chauffeur) < 0) {
+      setError('Le coût de transport ne peut pas être négatif');
+      return;
+    }
+
+    if (isCreditBlocked && !(canOverrideCredit && derogationMotif.trim())) {
+      setError(canOverrideCredit
+        ? 'Indiquez le motif de la dérogation pour forcer la livraison'
+        : 'Livraison bloquée par le contrôle du crédit client');
+      return;
+    }
     
     setIsSubmitting(true);
 
     try {
-      // Calculate new total
-      const newTotal = deliveryItems.reduce((sum, item) => sum + item.total_ligne, 0);
-
-      // Update delivery note
-      const { data, error } = await supabase
-        .from('bon_de_livraison')
-        .update({
-          statut: formData.statut,
-          notes: formData.notes.trim() || null,
-          immatricule_utilise: formData.immatricule_utilise.trim(),
-          total_ht: newTotal
-        })
-        .eq('id', note.id)
-        .select();
+      const data = await updateDeliveryNote(note.id, {
+        statut: formData.statut,
+        notes: formData.notes,
+        immatricule_utilise: formData.immatricule_utilise,
+        items: deliveryItems.map(item => ({
+          id: item.id,
+          quantite_livree: item.quantite_livree,
+          taux_tva: item.taux_tva
+        })),
+        montant_chauffeur: formData.montant_chauffeur === '' ? null : Number(formData.montant_chauffeur),
+        derogation_motif: isOverCredit(creditCheck) && canOverrideCredit && derogationMotif.trim()
+          ? derogationMotif.trim()
+          : null
+      });
 
-      if (error) {
-        throw error;
-      }
-
-      // Update delivery items
-      for (const item of deliveryItems) {
-        const { error: itemError } = await supabase
-          .from('bon_de_livraison_items')
-          .update({
-            quantite_livree: item.quantite_livree
-          })
-          .eq('id', item.id);
-
-        if (itemError) {
-          throw itemError;
-        }
-      }
-
-      // If status is changed to "livree", update the source purchase order
-      if (formData.statut === 'livree') {
-        // Get the delivery note with purchase order and client info
-        const { data: deliveryData, error: deliveryError } = await supabase
-          .from('bon_de_livraison')
-          .select('bon_commande_id, client_id')
-          .eq('id', note.id)
-          .single();
-
-        if (deliveryError) {
-          console.error('Error fetching delivery data:', deliveryError);
-        } else {
-          // Update the purchase order status to "livree" and assign client
-          const { error: purchaseOrderError } = await supabase
-            .from('bon_de_commande')
-            .update({
-              statut: 'livree',
-              client_id: deliveryData.client_id
-            })
-            .eq('id', deliveryData.bon_commande_id);
-
-          if (purchaseOrderError) {
-            console.error('Error updating purchase order:', purchaseOrderError);
-          } else {
-            console.log('Purchase order updated to delivered status with client assignment');
-          }
-        }
-      }
       console.log('Delivery note updated successfully:', data);
       onNavigateBack();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating delivery note:', error);
-      setError('Erreur lors de la modification. Veuillez réessayer.');
+      setError(errorMessage(error, 'Erreur lors de la modification. Veuillez réessayer.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -269,6 +399,8 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
     return ['ml', 'm2', 'kg', 'l', 'cm', 'm', 'g', 't'].includes(unite);
   };
 
+  const totals = calculateTotals();
+
   if (loading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -299,6 +431,34 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
             Bon de livraison du {new Date(note.date_livraison).toLocaleDateString('fr-FR')}
           </p>
         </div>
+        {can('factures') && (
+          invoice ? (
+            <button
+              onClick={() => onNavigateToInvoice(invoice)}
+              className="border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
+            >
+              <Receipt className="w-4 h-4" />
+              Facture {invoice.numero_facture}
+            </button>
+          ) : note.statut === 'livree' && (
+            <button
+              onClick={() => onCreateInvoice(note)}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
+            >
+              <Receipt className="w-4 h-4" />
+              Facturer
+            </button>
+          )
+        )}
+        {canEdit && note.statut === 'livree' && (
+          <button
+            onClick={openReturnModal}
+            className="border border-orange-300 hover:bg-orange-50 text-orange-700 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Retour client
+          </button>
+        )}
         <button
           onClick={() => setShowPrintModal(true)}
           className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
@@ -380,16 +540,55 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                     name="immatricule_utilise"
                     value={formData.immatricule_utilise}
                     onChange={handleInputChange}
+                    readOnly={!canEdit}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
                   />
                 </div>
+
+                <div>
+                  <label htmlFor="montant_chauffeur" className="block text-sm font-medium text-gray-700 mb-2">
+                    Coût transport (DH)
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      id="montant_chauffeur"
+                      name="montant_chauffeur"
+                      step="0.01"
+                      min="0"
+                      value={formData.montant_chauffeur}
+                      onChange={handleInputChange}
+                      readOnly={!canEdit}
+                      placeholder="Aucun tarif"
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={handleEstimateTransport}
+                        disabled={isEstimatingTransport}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm whitespace-nowrap"
+                      >
+                        {isEstimatingTransport ? 'Calcul...' : 'Recalculer'}
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Déduit de la marge et dû au chauffeur. Recalculer applique la grille tarifaire aux quantités livrées.
+                  </p>
+                </div>
               </div>
             </div>
 
             {/* Delivery Items */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Articles à livrer</h2>
-              
+              {canEdit && note.statut === 'livree' && (
+                <p className="text-sm text-gray-500 mb-4 print:hidden">
+                  Les quantités d'un BL livré ne se modifient plus : corrigez-les par un retour client.
+                </p>
+              )}
+
               {deliveryItems.length > 0 ? (
                 <div className="overflow-x-auto">
                   <table className="w-full">
@@ -401,7 +600,8 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Nb Pièces</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Dimension</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité Totale</th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
@@ -437,6 +637,18 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                               )}
                             </div>
                           </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={item.taux_tva}
+                              onChange={(e) => handleTvaRateChange(item.id, Number(e.target.value))}
+                              disabled={!canEdit}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {TVA_RATES.map(taux => (
+                                <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                              ))}
+                            </select>
+                          </td>
                           <td className="px-4 py-3 text-sm font-medium text-gray-900">
                             {formatPrice(item.total_ligne)}
                           </td>
@@ -445,11 +657,11 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                     </tbody>
                     <tfoot className="bg-gray-50">
                       <tr>
-                        <td colSpan={6} className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
-                          Total:
+                        <td colSpan={7} className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
+                          Total HT:
                         </td>
                         <td className="px-4 py-3 text-sm font-bold text-gray-900">
-                          {formatPrice(deliveryItems.reduce((sum, item) => sum + item.total_ligne, 0))}
+                          {formatPrice(totals.total_ht)}
                         </td>
                       </tr>
                     </tfoot>
@@ -462,76 +674,162 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                 </div>
               )}
             </div>
+
+            {/* Customer Returns */}
+            {creditNotes.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 print:hidden">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <RotateCcw className="w-5 h-5" />
+                  Retours et avoirs
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">N° Avoir</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Date</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Motif</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total TTC</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {creditNotes.map(creditNote => (
+                        <tr key={creditNote.id}>
+                          <td className="px-4 py-3 text-sm font-medium text-blue-600">
+                            {creditNote.numero_avoir}
+                            {creditNote.retours_fournisseurs.length > 0 && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                                Retour fournisseur
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {new Date(creditNote.date_avoir).toLocaleDateString('fr-FR')}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{creditNote.motif}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatPrice(creditNote.total_ht)}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatPrice(creditNote.total_ttc)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Right Column - Edit Form */}
           <div className="space-y-6">
-            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                <Edit3 className="w-5 h-5" />
-                Modifier la livraison
-              </h3>
+            {canEdit && (
+              <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <Edit3 className="w-5 h-5" />
+                  Modifier la livraison
+                </h3>
 
-              <div className="space-y-4">
-                <div>
-                  <label htmlFor="statut" className="block text-sm font-medium text-gray-700 mb-1">
-                    Statut
-                  </label>
-                  <select
-                    id="statut"
-                    name="statut"
-                    value={formData.statut}
-                    onChange={handleInputChange}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  >
-                    <option value="en_preparation">En préparation</option>
-                    <option value="en_cours">En cours</option>
-                    <option value="livree">Livrée</option>
-                    <option value="annulee">Annulée</option>
-                  </select>
-                </div>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="statut" className="block text-sm font-medium text-gray-700 mb-1">
+                      Statut
+                    </label>
+                    <select
+                      id="statut"
+                      name="statut"
+                      value={formData.statut}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="en_preparation">En préparation</option>
+                      <option value="en_cours">En cours</option>
+                      <option value="livree">Livrée</option>
+                      <option value="annulee">Annulée</option>
+                    </select>
+                  </div>
 
-                <div>
-                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
-                    Notes
-                  </label>
-                  <textarea
-                    id="notes"
-                    name="notes"
-                    rows={4}
-                    value={formData.notes}
-                    onChange={handleInputChange}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Notes pour cette livraison..."
-                  />
-                </div>
-              </div>
+                  <div>
+                    <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                      Notes
+                    </label>
+                    <textarea
+                      id="notes"
+                      name="notes"
+                      rows={4}
+                      value={formData.notes}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Notes pour cette livraison..."
+                    />
+                  </div>
 
-              {/* Actions */}
-              <div className="flex gap-4 pt-6 border-t border-gray-200 mt-6">
-                <button
-                  type="button"
-                  onClick={onNavigateBack}
-                  className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
-                >
-                  Annuler
-                </button>
-                <button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
-                >
-                  <Save className="w-4 h-4" />
-                  {isSubmitting ? 'Enregistrement...' : 'Enregistrer'}
-                </button>
-              </div>
+                  {/* Credit Control */}
+                  {creditCheck && isOverCredit(creditCheck) && (
+                    <div className={`rounded-lg border p-4 ${isCreditBlocked ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+                      <div className="flex items-start gap-2">
+                        <AlertTriangle className={`w-5 h-5 mt-0.5 flex-shrink-0 ${isCreditBlocked ? 'text-red-600' : 'text-amber-600'}`} />
+                        <div className={`text-sm space-y-1 ${isCreditBlocked ? 'text-red-800' : 'text-amber-800'}`}>
+                          <p className="font-medium">
+                            {isCreditBlocked ? 'Livraison bloquée' : 'Attention : crédit client'}
+                          </p>
+                          {Number(creditCheck.depassement) > 0 && (
+                            <p>
+                              Encours après modification : {formatPrice(Number(creditCheck.nouvel_encours))} pour un plafond
+                              de {formatPrice(Number(creditCheck.plafond_credit))} (dépassement de {formatPrice(Number(creditCheck.depassement))}).
+                            </p>
+                          )}
+                          {creditCheck.bl_en_retard > 0 && (
+                            <p>
+                              {creditCheck.bl_en_retard} BL en retard de paiement ({formatPrice(Number(creditCheck.montant_en_retard))}).
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      {isCreditBlocked && canOverrideCredit && (
+                        <div className="mt-3">
+                          <label htmlFor="derogation_motif" className="block text-sm font-medium text-gray-700 mb-1">
+                            Motif de la dérogation
+                          </label>
+                          <textarea
+                            id="derogation_motif"
+                            rows={2}
+                            value={derogationMotif}
+                            onChange={(e) => setDerogationMotif(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                            placeholder="Ex: accord de la direction, chèque remis..."
+                          />
+                          <p className="text-xs text-gray-500 mt-1">La dérogation est enregistrée avec ce motif dans l'historique du BL.</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
 
-              {error && (
-                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
-                  <p className="text-red-700 text-sm">{error}</p>
+                {/* Actions */}
+                <div className="flex gap-4 pt-6 border-t border-gray-200 mt-6">
+                  <button
+                    type="button"
+                    onClick={onNavigateBack}
+                    className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                  >
+                    Annuler
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
+                  >
+                    <Save className="w-4 h-4" />
+                    {isSubmitting ? 'Enregistrement...' : 'Enregistrer'}
+                  </button>
                 </div>
-              )}
-            </form>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                    <p className="text-red-700 text-sm">{error}</p>
+                  </div>
+                )}
+              </form>
+            )}
 
             {/* Delivery Summary */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -550,16 +848,157 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                   <span className="text-gray-600">Articles à livrer:</span>
                   <span className="font-medium">{deliveryItems.reduce((sum, item) => sum + item.quantite_livree, 0)}</span>
                 </div>
+                <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
+                  <span className="text-gray-600">Total HT:</span>
+                  <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                </div>
+                {totals.par_taux.map(row => (
+                  <div key={row.taux_tva} className="flex justify-between text-sm">
+                    <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                    <span className="font-medium">{formatPrice(row.montant_tva)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
-                  <span>Total:</span>
-                  <span>{formatPrice(deliveryItems.reduce((sum, item) => sum + item.total_ligne, 0))}</span>
+                  <span>Total TTC:</span>
+                  <span>{formatPrice(totals.total_ttc)}</span>
                 </div>
+                {creditNotes.length > 0 && (
+                  <div className="flex justify-between text-sm text-orange-700">
+                    <span>Avoirs (TTC):</span>
+                    <span className="font-medium">-{formatPrice(creditNotes.reduce((sum, creditNote) => sum + creditNote.total_ttc, 0))}</span>
+                  </div>
+                )}
               </div>
             </div>
+
+            {can('historique') && <HistoryPanel recordId={note.id} />}
           </div>
         </div>
       </div>
 
+      {/* Customer Return Modal */}
+      {showReturnModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <form onSubmit={handleSubmitReturn}>
+              <div className="p-6 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">Retour client</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  Les quantités retournées génèrent un avoir numéroté. Le bon de livraison n'est pas modifié.
+                </p>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="date_avoir" className="block text-sm font-medium text-gray-700 mb-1">
+                      Date du retour
+                    </label>
+                    <input
+                      type="date"
+                      id="date_avoir"
+                      value={returnForm.date_avoir}
+                      onChange={(e) => setReturnForm(prev => ({ ...prev, date_avoir: e.target.value }))}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="motif" className="block text-sm font-medium text-gray-700 mb-1">
+                      Motif *
+                    </label>
+                    <input
+                      type="text"
+                      id="motif"
+                      value={returnForm.motif}
+                      onChange={(e) => setReturnForm(prev => ({ ...prev, motif: e.target.value }))}
+                      placeholder="Ex: marchandise refusée, casse..."
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Produit</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Livré</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Déjà retourné</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité retournée</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {deliveryItems.map(item => (
+                        <tr key={item.id}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.produit.nom_produit}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {item.quantite_livree} {getUnitLabel(item.produit.unite)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">{returnedByItem[item.id] || 0}</td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              max={getReturnableQuantity(item)}
+                              value={returnQuantities[item.id] || ''}
+                              onChange={(e) => setReturnQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              disabled={getReturnableQuantity(item) === 0}
+                              placeholder="0"
+                              className="w-28 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <label className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg">
+                  <input
+                    type="checkbox"
+                    checked={returnForm.retour_fournisseur}
+                    onChange={(e) => setReturnForm(prev => ({ ...prev, retour_fournisseur: e.target.checked }))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">Retourner au fournisseur</span>
+                    <span className="block text-xs text-gray-500">
+                      Crée un retour fournisseur sur le bon de commande {note.bon_commande.numero_commande}. Sinon la marchandise revient au dépôt du BL.
+                    </span>
+                  </span>
+                </label>
+
+                {returnError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <p className="text-red-700 text-sm">{returnError}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-6 border-t border-gray-200 flex gap-4">
+                <button
+                  type="button"
+                  onClick={() => setShowReturnModal(false)}
+                  className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmittingReturn}
+                  className="flex-1 bg-orange-600 hover:bg-orange-700 disabled:bg-orange-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {isSubmittingReturn ? 'Enregistrement...' : 'Créer l\'avoir'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Print Options Modal */}
       {showPrintModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -678,7 +1117,8 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                 {printWithPrices && (
                   <>
                     <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Prix Unitaire</th>
-                    <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Total</th>
+                    <th className="border border-gray-800 px-4 py-2 text-center font-semibold">TVA</th>
+                    <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Total HT</th>
                   </>
                 )}
               </tr>
@@ -707,18 +1147,37 @@ const DeliveryNoteEdit: React.FC<DeliveryNoteEditProps> = ({ onNavigateBack, not
                   {printWithPrices && (
                     <>
                       <td className="border border-gray-800 px-4 py-2 text-right">{formatPrice(item.prix_unitaire)}</td>
+                      <td className="border border-gray-800 px-4 py-2 text-center">{formatTvaRate(item.taux_tva)}</td>
                       <td className="border border-gray-800 px-4 py-2 text-right font-medium">{formatPrice(item.total_ligne)}</td>
                     </>
                   )}
                 </tr>
               ))}
               {printWithPrices && (
-                <tr className="bg-gray-100">
-                  <td className="border border-gray-800 px-4 py-3 font-bold" colSpan={4}>TOTAL</td>
-                  <td className="border border-gray-800 px-4 py-3 text-right font-bold text-lg" colSpan={2}>
-                    {formatPrice(deliveryItems.reduce((sum, item) => sum + item.total_ligne, 0))}
-                  </td>
-                </tr>
+                <>
+                  <tr>
+                    <td className="border border-gray-800 px-4 py-2 font-semibold" colSpan={5}>TOTAL HT</td>
+                    <td className="border border-gray-800 px-4 py-2 text-right font-semibold" colSpan={2}>
+                      {formatPrice(totals.total_ht)}
+                    </td>
+                  </tr>
+                  {totals.par_taux.map(row => (
+                    <tr key={row.taux_tva}>
+                      <td className="border border-gray-800 px-4 py-2" colSpan={5}>
+                        TVA {formatTvaRate(row.taux_tva)} sur {formatPrice(row.base_ht)}
+                      </td>
+                      <td className="border border-gray-800 px-4 py-2 text-right" colSpan={2}>
+                        {formatPrice(row.montant_tva)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-100">
+                    <td className="border border-gray-800 px-4 py-3 font-bold" colSpan={5}>TOTAL TTC</td>
+                    <td className="border border-gray-800 px-4 py-3 text-right font-bold text-lg" colSpan={2}>
+                      {formatPrice(totals.total_ttc)}
+                    </td>
+                  </tr>
+                </>
               )}
             </tbody>
           </table>
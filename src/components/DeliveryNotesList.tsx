@@ -1,98 +1,92 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ChevronLeft, ChevronRight, Plus, Search, Truck, FileText, Eye, Download, Printer, X, DollarSign, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-
-interface DeliveryNote {
-  id: string;
-  numero_livraison: string;
-  date_livraison: string;
-  statut: string;
-  total_ht: number;
-  client: {
-    nom: string;
-    prenom: string;
-    societe: string;
-  };
-  chauffeur: {
-    nom: string;
-    prenom: string;
-  };
-  bon_commande: {
-    numero_commande: string;
-  };
-}
+import { useQueryNumber, useQuerySort, useQueryState, useQueryStates } from '../lib/useQueryState';
+import { usePagedList, usePrintRows } from '../lib/usePagedList';
+import { RELEVANCE_SORT } from '../lib/pagination';
+import { useCurrentUser } from '../lib/currentUser';
+import { PAYMENT_STATUS_LABELS, PAYMENT_STATUS_STYLES, PaymentStatus } from '../lib/paymentStatus';
+import { DeliveryNoteListItem } from '../lib/domain';
+import {
+  DELIVERY_NOTE_SORT_COLUMNS,
+  DeliveryNoteFilters,
+  getDeliveryNoteListTotals,
+  searchDeliveryNotes
+} from '../lib/deliveryNotesRepo';
+import SortableHeader from './SortableHeader';
+import Highlight from './Highlight';
 
 interface DeliveryNotesListProps {
   onNavigateToAdd: () => void;
-  onNavigateToEdit: (note: DeliveryNote) => void;
+  onNavigateToEdit: (note: DeliveryNoteListItem) => void;
 }
 
 const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd, onNavigateToEdit }) => {
-  const [deliveryNotes, setDeliveryNotes] = useState<DeliveryNote[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
-  const [selectedStatus, setSelectedStatus] = useState<string>('');
-  const [selectedChauffeur, setSelectedChauffeur] = useState<string>('');
+  const { can } = useCurrentUser();
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [itemsPerPage, setItemsPerPage] = useQueryNumber('parPage', 20);
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
+  const [selectedStatus, setSelectedStatus] = useQueryState('statut');
+  const [selectedChauffeur, setSelectedChauffeur] = useQueryState('chauffeur');
+  const [selectedPaymentStatus, setSelectedPaymentStatus] = useQueryState('paiement');
+  const [sort, setSort] = useQuerySort(
+    'tri',
+    DELIVERY_NOTE_SORT_COLUMNS,
+    searchTerm.trim() ? RELEVANCE_SORT : { column: 'created_at', ascending: false }
+  );
   const [chauffeurs, setChauffeurs] = useState<Array<{id: string, nom: string, prenom: string}>>([]);
 
-  // Fetch delivery notes from Supabase
-  const fetchDeliveryNotes = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error: fetchError } = await supabase
-        .from('bon_de_livraison')
-        .select(`
-          *,
-          client:clients(nom, prenom, societe),
-          chauffeur:chauffeurs(nom, prenom),
-          bon_commande:bon_de_commande(numero_commande, fournisseur:fournisseurs(nom, prenom, societe))
-        `)
-        .neq('statut', 'annulee') // Exclude cancelled delivery notes from list
-        .order('created_at', { ascending: false });
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      setDeliveryNotes(data || []);
-
-      // Extract unique chauffeurs for filter dropdown
-      const uniqueChauffeurs = Array.from(
-        new Map(
-          (data || []).map(note => [
-            note.chauffeur.nom + note.chauffeur.prenom,
-            {
-              id: note.chauffeur.nom + note.chauffeur.prenom,
-              nom: note.chauffeur.nom,
-              prenom: note.chauffeur.prenom
-            }
-          ])
-        ).values()
-      );
-      setChauffeurs(uniqueChauffeurs);
-    } catch (err: any) {
-      console.error('Error fetching delivery notes:', err);
-      setError('Erreur lors du chargement des bons de livraison');
-    } finally {
-      setLoading(false);
-    }
+  // Search, filters, sorting and pagination run on the server.
+  // Cancelled delivery notes are excluded from the list
+  const filters: DeliveryNoteFilters = {
+    recherche: searchTerm,
+    dateDebut: dateFilters.dateFrom,
+    dateFin: dateFilters.dateTo,
+    statut: selectedStatus,
+    chauffeurId: selectedChauffeur,
+    statutPaiement: selectedPaymentStatus
   };
+  const page = { page: currentPage, pageSize: itemsPerPage };
+
+  const {
+    rows: currentDeliveryNotes,
+    total: filteredCount,
+    totals: listTotals,
+    loading,
+    error,
+    reload: fetchDeliveryNotes
+  } = usePagedList(
+    JSON.stringify([filters, sort, page]),
+    () => Promise.all([searchDeliveryNotes(filters, sort, page), getDeliveryNoteListTotals(filters)]),
+    'Erreur lors du chargement des bons de livraison'
+  );
 
-  // Load delivery notes on component mount
-  React.useEffect(() => {
-    fetchDeliveryNotes();
+  const [printNotes, printAllNotes] = usePrintRows(async () => (await searchDeliveryNotes(filters, sort)).rows);
+
+  // Chauffeurs for the filter dropdown
+  useEffect(() => {
+    supabase
+      .from('chauffeurs')
+      .select('id, nom, prenom')
+      .order('nom', { ascending: true })
+      .then(({ data, error: chauffeursError }) => {
+        if (chauffeursError) {
+          console.error('Error fetching chauffeurs:', chauffeursError);
+          return;
+        }
+        setChauffeurs(data || []);
+      });
   }, []);
 
+  const handleSort = (next: typeof sort) => {
+    setSort(next);
+    setCurrentPage(1);
+  };
+
   const handleDateFilterChange = (field: 'dateFrom' | 'dateTo', value: string) => {
     setDateFilters(prev => ({
       ...prev,
@@ -105,6 +99,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
     setDateFilters({ dateFrom: '', dateTo: '' });
     setSelectedStatus('');
     setSelectedChauffeur('');
+    setSelectedPaymentStatus('');
     setCurrentPage(1);
   };
 
@@ -112,69 +107,14 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
     return dateFilters.dateFrom || 
            dateFilters.dateTo || 
            selectedStatus || 
-           selectedChauffeur;
+           selectedChauffeur ||
+           selectedPaymentStatus;
   };
 
-  // Filter by date range
-  const filterByDateRange = (date: string) => {
-    if (!dateFilters.dateFrom && !dateFilters.dateTo) return true;
-    
-    const itemDate = date;
-    const fromMatch = !dateFilters.dateFrom || itemDate >= dateFilters.dateFrom;
-    const toMatch = !dateFilters.dateTo || itemDate <= dateFilters.dateTo;
-    
-    return fromMatch && toMatch;
-  };
-
-  // Filter delivery notes based on search term
-  const searchFilteredDeliveryNotes = deliveryNotes.filter(note =>
-    {
-      const search = searchTerm.toLowerCase();
-      return (
-        // Search in delivery note number
-        note.numero_livraison.toLowerCase().includes(search) ||
-        // Search in purchase order number
-        note.bon_commande.numero_commande.toLowerCase().includes(search) ||
-        // Search in client information
-        note.client.nom.toLowerCase().includes(search) ||
-        note.client.prenom.toLowerCase().includes(search) ||
-        note.client.societe.toLowerCase().includes(search) ||
-        // Full client name combinations
-        `${note.client.prenom} ${note.client.nom}`.toLowerCase().includes(search) ||
-        `${note.client.nom} ${note.client.prenom}`.toLowerCase().includes(search) ||
-        // Search in chauffeur information
-        note.chauffeur.nom.toLowerCase().includes(search) ||
-        note.chauffeur.prenom.toLowerCase().includes(search) ||
-        // Full chauffeur name combinations
-        `${note.chauffeur.prenom} ${note.chauffeur.nom}`.toLowerCase().includes(search) ||
-        `${note.chauffeur.nom} ${note.chauffeur.prenom}`.toLowerCase().includes(search) ||
-        // Search in supplier (fournisseur) information
-        (note.bon_commande.fournisseur?.nom || '').toLowerCase().includes(search) ||
-        (note.bon_commande.fournisseur?.prenom || '').toLowerCase().includes(search) ||
-        (note.bon_commande.fournisseur?.societe || '').toLowerCase().includes(search) ||
-        (note.bon_commande.fournisseur?.numero_fournisseur || '').toLowerCase().includes(search) ||
-        // Full supplier name combinations
-        `${note.bon_commande.fournisseur?.prenom || ''} ${note.bon_commande.fournisseur?.nom || ''}`.toLowerCase().includes(search) ||
-        `${note.bon_commande.fournisseur?.nom || ''} ${note.bon_commande.fournisseur?.prenom || ''}`.toLowerCase().includes(search)
-      );
-    }
-  );
-
-  // Apply all filters to search results
-  const filteredDeliveryNotes = searchFilteredDeliveryNotes.filter(note => {
-    const dateMatch = filterByDateRange(note.date_livraison);
-    const statusMatch = !selectedStatus || note.statut === selectedStatus;
-    const chauffeurMatch = !selectedChauffeur || 
-      (note.chauffeur.nom + note.chauffeur.prenom) === selectedChauffeur;
-    
-    return dateMatch && statusMatch && chauffeurMatch;
-  });
-
   // Calculate pagination
-  const totalPages = Math.ceil(filteredDeliveryNotes.length / itemsPerPage);
+  const totalPages = Math.ceil(filteredCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const currentDeliveryNotes = filteredDeliveryNotes.slice(startIndex, endIndex);
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -197,7 +137,16 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
     setCurrentPage(1); // Reset to first page when changing items per page
   };
 
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
+    let filteredDeliveryNotes: DeliveryNoteListItem[];
+    try {
+      filteredDeliveryNotes = (await searchDeliveryNotes(filters, sort)).rows;
+    } catch (err) {
+      console.error('Error fetching delivery notes to export:', err);
+      return;
+    }
+
+
     const csvHeaders = [
       'Numéro BL',
       'BC Source',
@@ -206,6 +155,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
       'Client',
       'Chauffeur',
       'Statut',
+      'Paiement',
       'Total (DH)',
       'Notes'
     ];
@@ -222,6 +172,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
       note.statut === 'en_cours' ? 'En cours' :
       note.statut === 'livree' ? 'Livrée' :
       note.statut === 'annulee' ? 'Annulée' : note.statut,
+      PAYMENT_STATUS_LABELS[note.statut_paiement] || note.statut_paiement,
       note.total_ht.toFixed(2),
       note.notes || ''
     ]);
@@ -239,6 +190,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
       '', // Client
       '', // Chauffeur
       '', // Statut
+      '', // Paiement
       totals.totalAmount.toFixed(2),
       '' // Notes
     ]);
@@ -254,22 +206,17 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
     document.body.removeChild(link);
   };
 
-  // Calculate totals for filtered data
+  // Totals of the filtered delivery notes, computed by the database
   const calculateTotals = () => {
-    const deliveredNotes = filteredDeliveryNotes.filter(n => n.statut === 'livree');
-    const pendingNotes = filteredDeliveryNotes.filter(n => n.statut !== 'livree' && n.statut !== 'annulee');
-    const preparationNotes = filteredDeliveryNotes.filter(n => n.statut === 'en_preparation');
-    const inProgressNotes = filteredDeliveryNotes.filter(n => n.statut === 'en_cours');
-
     return {
-      totalAmount: filteredDeliveryNotes.reduce((sum, n) => sum + n.total_ht, 0),
-      deliveredTotal: deliveredNotes.reduce((sum, n) => sum + n.total_ht, 0),
-      pendingTotal: pendingNotes.reduce((sum, n) => sum + n.total_ht, 0),
-      count: filteredDeliveryNotes.length,
-      deliveredCount: deliveredNotes.length,
-      pendingCount: pendingNotes.length,
-      preparationCount: preparationNotes.length,
-      inProgressCount: inProgressNotes.length
+      totalAmount: listTotals?.total_ht || 0,
+      deliveredTotal: listTotals?.total_livrees || 0,
+      pendingTotal: listTotals?.total_en_attente || 0,
+      count: filteredCount,
+      deliveredCount: listTotals?.nombre_livrees || 0,
+      pendingCount: listTotals?.nombre_en_attente || 0,
+      preparationCount: listTotals?.nombre_en_preparation || 0,
+      inProgressCount: listTotals?.nombre_en_cours || 0
     };
   };
 
@@ -306,6 +253,14 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
     );
   };
 
+  const getPaymentStatusBadge = (status: PaymentStatus) => (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+      PAYMENT_STATUS_STYLES[status] || PAYMENT_STATUS_STYLES.impaye
+    }`}>
+      {PAYMENT_STATUS_LABELS[status] || status}
+    </span>
+  );
+
   if (loading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -347,22 +302,24 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
           >
             <Download className="w-4 h-4" />
-            Exporter CSV ({filteredDeliveryNotes.length})
+            Exporter CSV ({filteredCount})
           </button>
           <button
-            onClick={() => window.print()}
+            onClick={printAllNotes}
             className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
           >
             <Printer className="w-4 h-4" />
-            Imprimer ({filteredDeliveryNotes.length})
-          </button>
-          <button
-            onClick={onNavigateToAdd}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200 shadow-sm"
-          >
-            <Plus className="w-5 h-5" />
-            Créer un bon de livraison
+            Imprimer ({filteredCount})
           </button>
+          {can('bonsDeLivraison.gerer') && (
+            <button
+              onClick={onNavigateToAdd}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200 shadow-sm"
+            >
+              <Plus className="w-5 h-5" />
+              Créer un bon de livraison
+            </button>
+          )}
         </div>
       </div>
 
@@ -442,7 +399,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
           )}
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
           <div>
             <label htmlFor="date-from" className="block text-sm font-medium text-gray-700 mb-1">
               Date début
@@ -511,16 +468,36 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
               ))}
             </select>
           </div>
+
+          <div>
+            <label htmlFor="payment-status-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Paiement
+            </label>
+            <select
+              id="payment-status-filter"
+              value={selectedPaymentStatus}
+              onChange={(e) => {
+                setSelectedPaymentStatus(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            >
+              <option value="">Tous les paiements</option>
+              <option value="impaye">Impayé</option>
+              <option value="partiel">Partiellement payé</option>
+              <option value="paye">Payé</option>
+            </select>
+          </div>
         </div>
         
         {hasActiveFilters() && (
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-center justify-between">
               <p className="text-sm text-blue-800">
-                <strong>{filteredDeliveryNotes.length}</strong> bon(s) de livraison trouvé(s) avec les filtres actifs
+                <strong>{filteredCount}</strong> bon(s) de livraison trouvé(s) avec les filtres actifs
               </p>
               <p className="text-sm font-medium text-blue-900">
-                Total filtré: {formatPrice(filteredDeliveryNotes.reduce((sum, note) => sum + note.total_ht, 0))}
+                Total filtré: {formatPrice(totals.totalAmount)}
               </p>
             </div>
           </div>
@@ -533,9 +510,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
               <tr>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Numéro BL
-                </th>
+                <SortableHeader label="Numéro BL" column="numero_livraison" sort={sort} onSort={handleSort} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Bon de commande
                 </th>
@@ -548,15 +523,14 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Chauffeur
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Date
-                </th>
+                <SortableHeader label="Date" column="date_livraison" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Statut
                 </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Total
+                  Paiement
                 </th>
+                <SortableHeader label="Total" column="total_ht" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Actions
                 </th>
@@ -571,29 +545,32 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
                     className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
                   >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
-                      {note.numero_livraison}
+                      <Highlight text={note.numero_livraison} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
-                      {note.bon_commande.numero_commande}
+                      <Highlight text={note.bon_commande.numero_commande} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {note.bon_commande.fournisseur?.societe || `${note.bon_commande.fournisseur?.prenom} ${note.bon_commande.fournisseur?.nom}`}
+                        <Highlight
+                          text={note.bon_commande.fournisseur?.societe || `${note.bon_commande.fournisseur?.prenom} ${note.bon_commande.fournisseur?.nom}`}
+                          search={searchTerm}
+                        />
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {note.client.societe}
+                        <Highlight text={note.client.societe} search={searchTerm} />
                       </div>
                       <div className="text-sm text-gray-500">
-                        {note.client.prenom} {note.client.nom}
+                        <Highlight text={`${note.client.prenom} ${note.client.nom}`} search={searchTerm} />
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <Truck className="w-4 h-4 text-gray-400 mr-2" />
                         <div className="text-sm text-gray-900">
-                          {note.chauffeur.prenom} {note.chauffeur.nom}
+                          <Highlight text={`${note.chauffeur.prenom} ${note.chauffeur.nom}`} search={searchTerm} />
                         </div>
                       </div>
                     </td>
@@ -603,6 +580,14 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(note.statut)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getPaymentStatusBadge(note.statut_paiement)}
+                      {note.statut_paiement === 'partiel' && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          Reste: {formatPrice(note.total_ttc - note.montant_paye)}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {formatPrice(note.total_ht)}
                     </td>
@@ -622,11 +607,11 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
                 ))
               ) : (
                 <tr>
-                  <td colSpan={9} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={10} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <Truck className="w-8 h-8 text-gray-300 mb-2" />
                       <p>{searchTerm ? 'Aucun bon de livraison trouvé' : 'Aucun bon de livraison disponible'}</p>
-                      {!searchTerm && (
+                      {!searchTerm && can('bonsDeLivraison.gerer') && (
                         <button
                           onClick={onNavigateToAdd}
                           className="mt-2 text-blue-600 hover:text-blue-700 text-sm"
@@ -648,7 +633,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
         <div className="mt-6 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div className="text-sm text-gray-600">
-              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredDeliveryNotes.length)} sur {filteredDeliveryNotes.length} bons de livraison
+              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredCount)} sur {filteredCount} bons de livraison
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600">Éléments par page:</span>
@@ -709,7 +694,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
           <p className="text-lg text-gray-700 mt-2">LISTE DES BONS DE LIVRAISON</p>
           <p className="text-sm text-gray-600 mt-2">
             Généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')} | 
-            {filteredDeliveryNotes.length} livraison(s) | Total: {formatPrice(totals.totalAmount)}
+            {printNotes.length} livraison(s) | Total: {formatPrice(totals.totalAmount)}
           </p>
         </div>
 
@@ -728,7 +713,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
             </tr>
           </thead>
           <tbody>
-            {filteredDeliveryNotes.map((note) => (
+            {printNotes.map((note) => (
               <tr key={note.id}>
                 <td className="border border-gray-800 px-3 py-2 text-sm">{note.numero_livraison}</td>
                 <td className="border border-gray-800 px-3 py-2 text-sm font-mono">{note.bon_commande.numero_commande}</td>
@@ -760,7 +745,7 @@ const DeliveryNotesList: React.FC<DeliveryNotesListProps> = ({ onNavigateToAdd,
           <tfoot className="bg-gray-100">
             <tr>
               <td className="border border-gray-800 px-3 py-3 font-bold text-sm" colSpan={7}>
-                TOTAUX ({filteredDeliveryNotes.length} livraisons)
+                TOTAUX ({printNotes.length} livraisons)
               </td>
               <td className="border border-gray-800 px-3 py-3 text-right font-bold text-sm">
                 {formatPrice(totals.totalAmount)}
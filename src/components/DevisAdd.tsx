@@ -0,0 +1,795 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Save, Plus, Trash2, Search, Users, Package } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CLIENT_COLUMNS } from '../lib/clientsRepo';
+import { PRODUCT_COLUMNS } from '../lib/products';
+import { previewDocumentNumber } from '../lib/numbering';
+import { DEFAULT_TVA_RATE, TVA_RATES, computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import Highlight from './Highlight';
+
+interface Client {
+  id: string;
+  numero_client: string;
+  nom: string;
+  prenom: string;
+  societe: string;
+}
+
+interface Product {
+  id: string;
+  nom_produit: string;
+  prix_vente: number;
+  unite: string;
+  dimension_standard: number;
+  taux_tva: number;
+}
+
+interface QuoteItem {
+  id: string;
+  produit_id: string;
+  nom_produit: string;
+  prix_unitaire: number;
+  quantite_pieces: number;
+  quantite_unitaire: number;
+  quantite_totale: number;
+  total: number;
+  unite: string;
+  taux_tva: number;
+}
+
+// Validity offered by default on a new quote
+const DEFAULT_VALIDITY_DAYS = 30;
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+interface DevisAddProps {
+  onNavigateBack: () => void;
+}
+
+const DevisAdd: React.FC<DevisAddProps> = ({ onNavigateBack }) => {
+  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [quoteItems, setQuoteItems] = useState<QuoteItem[]>([]);
+  
+  const [showClientModal, setShowClientModal] = useState(false);
+  const [showProductModal, setShowProductModal] = useState(false);
+  const [clientSearch, setClientSearch] = useState('');
+  const [productSearch, setProductSearch] = useState('');
+  
+  const [formData, setFormData] = useState({
+    date_devis: new Date().toISOString().split('T')[0],
+    date_validite: addDays(new Date().toISOString().split('T')[0], DEFAULT_VALIDITY_DAYS),
+    notes: ''
+  });
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [nextQuoteNumber, setNextQuoteNumber] = useState<string>('');
+
+  // Preview of the next quote number, the number itself is assigned on insert
+  const generateQuoteNumber = async (date: string) => {
+    try {
+      return await previewDocumentNumber('devis', date);
+    } catch (error) {
+      console.error('Error generating quote number:', error);
+      return '-';
+    }
+  };
+
+  // Load data on component mount
+  React.useEffect(() => {
+    const loadData = async () => {
+      await Promise.all([
+        fetchClients(),
+        fetchProducts()
+      ]);
+    };
+    loadData();
+  }, []);
+
+  // The number depends on the date when the sequence restarts every year
+  React.useEffect(() => {
+    generateQuoteNumber(formData.date_devis).then(setNextQuoteNumber);
+  }, [formData.date_devis]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select(CLIENT_COLUMNS)
+        .order('societe', { ascending: true });
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('produits')
+        .select(PRODUCT_COLUMNS)
+        .order('nom_produit', { ascending: true });
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSelectClient = (client: Client) => {
+    setSelectedClient(client);
+    setShowClientModal(false);
+    setClientSearch('');
+  };
+
+  const handleAddProduct = (product: Product) => {
+    const existingItem = quoteItems.find(item => item.produit_id === product.id);
+    
+    if (existingItem) {
+      // Increase quantity if product already exists
+      handlePiecesQuantityChange(existingItem.id, existingItem.quantite_pieces + 1);
+    } else {
+      // Add new item
+      const newItem: QuoteItem = {
+        id: `temp-${Date.now()}`,
+        produit_id: product.id,
+        nom_produit: product.nom_produit,
+        prix_unitaire: product.prix_vente,
+        quantite_pieces: 1,
+        quantite_unitaire: product.dimension_standard,
+        quantite_totale: 1 * product.dimension_standard,
+        total: product.prix_vente * (1 * product.dimension_standard),
+        unite: product.unite,
+        taux_tva: product.taux_tva ?? DEFAULT_TVA_RATE
+      };
+      setQuoteItems(prev => [...prev, newItem]);
+    }
+    
+    setShowProductModal(false);
+    setProductSearch('');
+  };
+
+  const handlePiecesQuantityChange = (itemId: string, newQuantityPieces: number) => {
+    if (newQuantityPieces <= 0) {
+      handleRemoveItem(itemId);
+      return;
+    }
+
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { 
+              ...item, 
+              quantite_pieces: newQuantityPieces,
+              quantite_totale: newQuantityPieces * item.quantite_unitaire,
+              total: item.prix_unitaire * (newQuantityPieces * item.quantite_unitaire)
+            }
+          : item
+      )
+    );
+  };
+
+  const handleUnitQuantityChange = (itemId: string, newQuantityUnit: number) => {
+    if (newQuantityUnit <= 0) {
+      return;
+    }
+
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { 
+              ...item, 
+              quantite_unitaire: newQuantityUnit,
+              quantite_totale: item.quantite_pieces * newQuantityUnit,
+              total: item.prix_unitaire * (item.quantite_pieces * newQuantityUnit)
+            }
+          : item
+      )
+    );
+  };
+
+  const handlePriceChange = (itemId: string, newPrice: number) => {
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, prix_unitaire: newPrice, total: newPrice * item.quantite_totale }
+          : item
+      )
+    );
+  };
+
+  const handleTvaRateChange = (itemId: string, newRate: number) => {
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, taux_tva: newRate }
+          : item
+      )
+    );
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    setQuoteItems(prev => prev.filter(item => item.id !== itemId));
+  };
+
+  const calculateTotals = () => {
+    return computeTvaTotals(quoteItems.map(item => ({ montant_ht: item.total, taux_tva: item.taux_tva })));
+  };
+
+  const filteredClients = useRankedSearch('clients', clients, clientSearch);
+
+  const filteredProducts = useRankedSearch('produits', products, productSearch);
+
+  const getUnitLabel = (unite: string) => {
+    const unitLabels = {
+      unite: 'Unité',
+      ml: 'ML',
+      m2: 'M²',
+      kg: 'KG',
+      l: 'L',
+      pcs: 'PCS',
+      box: 'Boîte',
+      cm: 'CM',
+      m: 'M',
+      g: 'G',
+      t: 'T'
+    };
+    return unitLabels[unite as keyof typeof unitLabels] || unite.toUpperCase();
+  };
+
+  const requiresDualInput = (unite: string) => {
+    return ['ml', 'm2', 'kg', 'l', 'cm', 'm', 'g', 't'].includes(unite);
+  };
+
+  const getUnitBadge = (unite: string) => {
+    const unitConfig = {
+      unite: 'bg-gray-100 text-gray-800',
+      ml: 'bg-blue-100 text-blue-800',
+      m2: 'bg-green-100 text-green-800',
+      kg: 'bg-purple-100 text-purple-800',
+      l: 'bg-cyan-100 text-cyan-800',
+      pcs: 'bg-orange-100 text-orange-800',
+      box: 'bg-amber-100 text-amber-800',
+      cm: 'bg-indigo-100 text-indigo-800',
+      m: 'bg-teal-100 text-teal-800',
+      g: 'bg-pink-100 text-pink-800',
+      t: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        unitConfig[unite as keyof typeof unitConfig] || unitConfig.unite
+      }`}>
+        {getUnitLabel(unite)}
+      </span>
+    );
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!selectedClient) {
+      newErrors.client = 'Veuillez sélectionner un client';
+    }
+
+    if (quoteItems.length === 0) {
+      newErrors.items = 'Veuillez ajouter au moins un produit';
+    }
+
+    if (!formData.date_devis) {
+      newErrors.date_devis = 'La date du devis est requise';
+    }
+
+    if (!formData.date_validite) {
+      newErrors.date_validite = 'La date de validité est requise';
+    } else if (formData.date_validite < formData.date_devis) {
+      newErrors.date_validite = 'La date de validité doit suivre la date du devis';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({}); // Clear previous errors
+
+    try {
+      // Header and lines are written in a single transaction
+      const { error: quoteError } = await supabase
+        .rpc('create_quote', {
+          p_client_id: selectedClient!.id,
+          p_date_devis: formData.date_devis,
+          p_date_validite: formData.date_validite,
+          p_notes: formData.notes,
+          p_items: quoteItems.map(item => ({
+            produit_id: item.produit_id,
+            quantite: item.quantite_totale,
+            quantite_pieces: item.quantite_pieces,
+            quantite_unitaire: item.quantite_unitaire,
+            prix_unitaire: item.prix_unitaire,
+            taux_tva: item.taux_tva
+          }))
+        });
+
+      if (quoteError) throw quoteError;
+
+      onNavigateBack();
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      const { code, message } = error as { code?: string; message?: string };
+
+      if (code === '23503') {
+        setErrors({ general: 'Erreur de référence: le client ou un produit sélectionné n\'existe plus.' });
+      } else if (code === '23514') {
+        setErrors({ general: 'Erreur de validation: vérifiez les produits et la date de validité.' });
+      } else if (message) {
+        setErrors({ general: `Erreur: ${message}` });
+      } else {
+        setErrors({ general: 'Erreur lors de la création. Veuillez réessayer.' });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const totals = calculateTotals();
+
+  if (!nextQuoteNumber) {
+    return (
+      <div className="min-h-full flex items-center justify-center">
+        <p className="text-gray-500">Chargement...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={onNavigateBack}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Créer un devis</h1>
+          <p className="text-gray-600 mt-1">Prochain numéro: {nextQuoteNumber}</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <div className="flex-1 pb-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Left Column - Quote Details */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Client Selection */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Client
+              </h2>
+              
+              {selectedClient ? (
+                <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">{selectedClient.societe}</p>
+                    <p className="text-sm text-gray-600">
+                      {selectedClient.prenom} {selectedClient.nom} - {selectedClient.numero_client}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowClientModal(true)}
+                    className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+                  >
+                    Changer
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowClientModal(true)}
+                  className="w-full p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors duration-200 flex items-center justify-center gap-2 text-gray-600 hover:text-blue-600"
+                >
+                  <Plus className="w-5 h-5" />
+                  Sélectionner un client
+                </button>
+              )}
+              
+              {errors.client && (
+                <p className="text-red-500 text-sm mt-2">{errors.client}</p>
+              )}
+            </div>
+
+            {/* Products Section */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Package className="w-5 h-5" />
+                  Produits
+                </h2>
+                <button
+                  onClick={() => setShowProductModal(true)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors duration-200"
+                >
+                  <Plus className="w-4 h-4" />
+                  Ajouter produit
+                </button>
+              </div>
+
+              {quoteItems.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Produit</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Unité</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Prix unitaire</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Dimension</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité Totale</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {quoteItems.map((item) => (
+                        <tr key={item.id}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {item.nom_produit}
+                          </td>
+                          <td className="px-4 py-3 text-center">
+                            {getUnitBadge(item.unite)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={item.prix_unitaire}
+                              onChange={(e) => handlePriceChange(item.id, Number(e.target.value))}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            {/* Quantity - Number of pieces */}
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={item.quantite_pieces}
+                              onChange={(e) => handlePiecesQuantityChange(item.id, Number(e.target.value))}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            {/* Unit quantity per piece (only for measurement units) */}
+                            {requiresDualInput(item.unite) ? (
+                              <div className="flex items-center gap-1">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={item.quantite_unitaire}
+                                  onChange={(e) => handleUnitQuantityChange(item.id, Number(e.target.value))}
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                                />
+                                <span className="text-xs text-gray-500">
+                                  {getUnitLabel(item.unite)}
+                                </span>
+                              </div>
+                            ) : (
+                              <span className="text-sm text-gray-400">-</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {/* Total calculated units */}
+                            <div className="text-sm font-medium text-blue-600">
+                              {requiresDualInput(item.unite) ? (
+                                `${item.quantite_totale} ${getUnitLabel(item.unite)}`
+                              ) : (
+                                `${item.quantite_pieces} ${getUnitLabel(item.unite)}`
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={item.taux_tva}
+                              onChange={(e) => handleTvaRateChange(item.id, Number(e.target.value))}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {TVA_RATES.map(taux => (
+                                <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {formatPrice(item.total)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <button
+                              onClick={() => handleRemoveItem(item.id)}
+                              className="text-red-600 hover:text-red-800 p-1"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <Package className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                  <p>Aucun produit ajouté</p>
+                </div>
+              )}
+
+              {errors.items && (
+                <p className="text-red-500 text-sm mt-2">{errors.items}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Right Column - Quote Summary */}
+          <div className="space-y-6">
+            {/* Quote Info */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Informations</h3>
+              
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="date_devis" className="block text-sm font-medium text-gray-700 mb-1">
+                    Date du devis
+                  </label>
+                  <input
+                    type="date"
+                    id="date_devis"
+                    name="date_devis"
+                    value={formData.date_devis}
+                    onChange={handleInputChange}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      errors.date_devis ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.date_devis && (
+                    <p className="text-red-500 text-xs mt-1">{errors.date_devis}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="date_validite" className="block text-sm font-medium text-gray-700 mb-1">
+                    Valable jusqu'au
+                  </label>
+                  <input
+                    type="date"
+                    id="date_validite"
+                    name="date_validite"
+                    value={formData.date_validite}
+                    min={formData.date_devis}
+                    onChange={handleInputChange}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      errors.date_validite ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.date_validite && (
+                    <p className="text-red-500 text-xs mt-1">{errors.date_validite}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes (optionnel)
+                  </label>
+                  <textarea
+                    id="notes"
+                    name="notes"
+                    rows={3}
+                    value={formData.notes}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Conditions, délais de livraison..."
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Total */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Récapitulatif</h3>
+              
+              <div className="space-y-2">
+                <div className="flex justify-between py-2 border-b border-gray-200">
+                  <span className="text-gray-600">Nombre d'articles:</span>
+                  <span className="font-medium">{quoteItems.reduce((sum, item) => sum + item.quantite_pieces, 0)}</span>
+                </div>
+                <div className="flex justify-between py-2">
+                  <span className="text-gray-600">Total HT:</span>
+                  <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                </div>
+                {totals.par_taux.map(row => (
+                  <div key={row.taux_tva} className="flex justify-between py-1 text-sm">
+                    <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                    <span>{formatPrice(row.montant_tva)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
+                  <span>Total TTC:</span>
+                  <span>{formatPrice(totals.total_ttc)}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={onNavigateBack}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
+              >
+                <Save className="w-4 h-4" />
+                {isSubmitting ? 'Création...' : 'Créer'}
+              </button>
+            </div>
+
+            {errors.general && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{errors.general}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Client Modal */}
+      {showClientModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Sélectionner un client</h3>
+            </div>
+            <div className="p-6">
+              <div className="relative mb-4">
+                <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Rechercher un client..."
+                  value={clientSearch}
+                  onChange={(e) => setClientSearch(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                <div className="space-y-2">
+                  {filteredClients.map((client) => (
+                    <button
+                      key={client.id}
+                      onClick={() => handleSelectClient(client)}
+                      className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
+                    >
+                      <div className="font-medium text-gray-900"><Highlight text={client.societe} search={clientSearch} /></div>
+                      <div className="text-sm text-gray-600">
+                        <Highlight text={`${client.prenom} ${client.nom}`} search={clientSearch} /> - <Highlight text={client.numero_client} search={clientSearch} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200">
+              <button
+                onClick={() => setShowClientModal(false)}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Fermer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Product Modal */}
+      {showProductModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Ajouter un produit</h3>
+            </div>
+            <div className="p-6">
+              <div className="relative mb-4">
+                <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Rechercher un produit..."
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                <div className="space-y-2">
+                  {filteredProducts.map((product) => (
+                    <button
+                      key={product.id}
+                      onClick={() => handleAddProduct(product)}
+                      className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <div className="font-medium text-gray-900 flex items-center gap-2">
+                            <Highlight text={product.nom_produit} search={productSearch} />
+                            {getUnitBadge(product.unite)}
+                          </div>
+                          <div className="text-sm text-gray-600">Prix de vente: {formatPrice(product.prix_vente)}</div>
+                          {requiresDualInput(product.unite) ? (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Dimension standard: {product.dimension_standard} {getUnitLabel(product.unite)}/pièce
+                            </div>
+                          ) : (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Prix de vente par {getUnitLabel(product.unite)}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200">
+              <button
+                onClick={() => setShowProductModal(false)}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Fermer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DevisAdd;
\ No newline at end of file
@@ -0,0 +1,1096 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Save, Edit3, Plus, Trash2, Search, Users, Package, Printer, FileText, Truck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CLIENT_COLUMNS } from '../lib/clientsRepo';
+import { PRODUCT_COLUMNS } from '../lib/products';
+import { DEFAULT_TVA_RATE, TVA_RATES, computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { useCurrentUser } from '../lib/currentUser';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import {
+  QUOTE_STATUS_LABELS,
+  QUOTE_STATUS_STYLES,
+  QuoteStatus,
+  effectiveQuoteStatus
+} from '../lib/quoteStatus';
+import HistoryPanel from './HistoryPanel';
+import Highlight from './Highlight';
+
+interface Client {
+  id: string;
+  numero_client: string;
+  nom: string;
+  prenom: string;
+  societe: string;
+  ice?: string;
+}
+
+interface Devis {
+  id: string;
+  numero_devis: string;
+  date_devis: string;
+  date_validite: string;
+  statut: QuoteStatus;
+  notes: string;
+  client: Client;
+}
+
+interface LinkedOrder {
+  id: string;
+  numero_commande: string;
+  statut: string;
+}
+
+interface Product {
+  id: string;
+  nom_produit: string;
+  prix_vente: number;
+  unite: string;
+  dimension_standard: number;
+  taux_tva: number;
+}
+
+interface QuoteItem {
+  id: string;
+  produit_id: string;
+  nom_produit: string;
+  prix_unitaire: number;
+  quantite_pieces: number;
+  quantite_unitaire: number;
+  quantite_totale: number;
+  total: number;
+  unite: string;
+  taux_tva: number;
+}
+
+// Units entered as pieces × dimension
+const DUAL_INPUT_UNITS = ['ml', 'm2', 'kg', 'l', 'cm', 'm', 'g', 't'];
+
+interface DevisEditProps {
+  onNavigateBack: () => void;
+  onConvertToPurchaseOrder: (devis: Devis) => void;
+  onConvertToDelivery: (order: LinkedOrder) => void;
+  devis: Devis;
+}
+
+const DevisEdit: React.FC<DevisEditProps> = ({ onNavigateBack, onConvertToPurchaseOrder, onConvertToDelivery, devis }) => {
+  const { can } = useCurrentUser();
+  const [selectedClient, setSelectedClient] = useState<Client>(devis.client);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [quoteItems, setQuoteItems] = useState<QuoteItem[]>([]);
+  const [linkedOrders, setLinkedOrders] = useState<LinkedOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  
+  const [showClientModal, setShowClientModal] = useState(false);
+  const [showProductModal, setShowProductModal] = useState(false);
+  const [clientSearch, setClientSearch] = useState('');
+  const [productSearch, setProductSearch] = useState('');
+  
+  const [formData, setFormData] = useState({
+    statut: devis.statut,
+    date_validite: devis.date_validite,
+    notes: devis.notes || ''
+  });
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Load data on component mount
+  React.useEffect(() => {
+    fetchClients();
+    fetchProducts();
+  }, []);
+
+  // Lines of the quote and the purchase orders converted from it
+  React.useEffect(() => {
+    const fetchQuoteItems = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('devis_items')
+          .select(`
+            *,
+            produit:produits(nom_produit, unite)
+          `)
+          .eq('devis_id', devis.id)
+          .order('id', { ascending: true });
+
+        if (error) throw error;
+
+        setQuoteItems((data || []).map(item => {
+          const unite = item.produit?.unite || 'unite';
+          const dual = DUAL_INPUT_UNITS.includes(unite);
+          const pieces = dual ? item.quantite_pieces || 1 : item.quantite;
+          const unitQty = dual ? item.quantite_unitaire || item.quantite / pieces : 1;
+
+          return {
+            id: item.id,
+            produit_id: item.produit_id,
+            nom_produit: item.produit?.nom_produit || '',
+            prix_unitaire: Number(item.prix_unitaire),
+            quantite_pieces: Number(pieces),
+            quantite_unitaire: Number(unitQty),
+            quantite_totale: Number(item.quantite),
+            total: Number(item.total_ligne),
+            unite,
+            taux_tva: Number(item.taux_tva)
+          };
+        }));
+      } catch (error) {
+        console.error('Error fetching quote items:', error);
+        setErrors({ general: 'Erreur lors du chargement des lignes du devis' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // Purchase orders converted from this quote
+    const fetchLinkedOrders = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('bon_de_commande')
+          .select('id, numero_commande, statut')
+          .eq('devis_id', devis.id)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setLinkedOrders(data || []);
+      } catch (error) {
+        console.error('Error fetching linked purchase orders:', error);
+      }
+    };
+
+    fetchQuoteItems();
+    fetchLinkedOrders();
+  }, [devis.id]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select(CLIENT_COLUMNS)
+        .order('societe', { ascending: true });
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('produits')
+        .select(PRODUCT_COLUMNS)
+        .order('nom_produit', { ascending: true });
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSelectClient = (client: Client) => {
+    setSelectedClient(client);
+    setShowClientModal(false);
+    setClientSearch('');
+  };
+
+  const handleAddProduct = (product: Product) => {
+    const existingItem = quoteItems.find(item => item.produit_id === product.id);
+    
+    if (existingItem) {
+      // Increase quantity if product already exists
+      handlePiecesQuantityChange(existingItem.id, existingItem.quantite_pieces + 1);
+    } else {
+      // Add new item
+      const newItem: QuoteItem = {
+        id: `temp-${Date.now()}`,
+        produit_id: product.id,
+        nom_produit: product.nom_produit,
+        prix_unitaire: product.prix_vente,
+        quantite_pieces: 1,
+        quantite_unitaire: product.dimension_standard,
+        quantite_totale: 1 * product.dimension_standard,
+        total: product.prix_vente * (1 * product.dimension_standard),
+        unite: product.unite,
+        taux_tva: product.taux_tva ?? DEFAULT_TVA_RATE
+      };
+      setQuoteItems(prev => [...prev, newItem]);
+    }
+    
+    setShowProductModal(false);
+    setProductSearch('');
+  };
+
+  const handlePiecesQuantityChange = (itemId: string, newQuantityPieces: number) => {
+    if (newQuantityPieces <= 0) {
+      handleRemoveItem(itemId);
+      return;
+    }
+
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { 
+              ...item, 
+              quantite_pieces: newQuantityPieces,
+              quantite_totale: newQuantityPieces * item.quantite_unitaire,
+              total: item.prix_unitaire * (newQuantityPieces * item.quantite_unitaire)
+            }
+          : item
+      )
+    );
+  };
+
+  const handleUnitQuantityChange = (itemId: string, newQuantityUnit: number) => {
+    if (newQuantityUnit <= 0) {
+      return;
+    }
+
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { 
+              ...item, 
+              quantite_unitaire: newQuantityUnit,
+              quantite_totale: item.quantite_pieces * newQuantityUnit,
+              total: item.prix_unitaire * (item.quantite_pieces * newQuantityUnit)
+            }
+          : item
+      )
+    );
+  };
+
+  const handlePriceChange = (itemId: string, newPrice: number) => {
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, prix_unitaire: newPrice, total: newPrice * item.quantite_totale }
+          : item
+      )
+    );
+  };
+
+  const handleTvaRateChange = (itemId: string, newRate: number) => {
+    setQuoteItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, taux_tva: newRate }
+          : item
+      )
+    );
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    setQuoteItems(prev => prev.filter(item => item.id !== itemId));
+  };
+
+  const calculateTotals = () => {
+    return computeTvaTotals(quoteItems.map(item => ({ montant_ht: item.total, taux_tva: item.taux_tva })));
+  };
+
+  const filteredClients = useRankedSearch('clients', clients, clientSearch);
+
+  const filteredProducts = useRankedSearch('produits', products, productSearch);
+
+  const getUnitLabel = (unite: string) => {
+    const unitLabels = {
+      unite: 'Unité',
+      ml: 'ML',
+      m2: 'M²',
+      kg: 'KG',
+      l: 'L',
+      pcs: 'PCS',
+      box: 'Boîte',
+      cm: 'CM',
+      m: 'M',
+      g: 'G',
+      t: 'T'
+    };
+    return unitLabels[unite as keyof typeof unitLabels] || unite.toUpperCase();
+  };
+
+  const requiresDualInput = (unite: string) => {
+    return DUAL_INPUT_UNITS.includes(unite);
+  };
+
+  const getUnitBadge = (unite: string) => {
+    const unitConfig = {
+      unite: 'bg-gray-100 text-gray-800',
+      ml: 'bg-blue-100 text-blue-800',
+      m2: 'bg-green-100 text-green-800',
+      kg: 'bg-purple-100 text-purple-800',
+      l: 'bg-cyan-100 text-cyan-800',
+      pcs: 'bg-orange-100 text-orange-800',
+      box: 'bg-amber-100 text-amber-800',
+      cm: 'bg-indigo-100 text-indigo-800',
+      m: 'bg-teal-100 text-teal-800',
+      g: 'bg-pink-100 text-pink-800',
+      t: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        unitConfig[unite as keyof typeof unitConfig] || unitConfig.unite
+      }`}>
+        {getUnitLabel(unite)}
+      </span>
+    );
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (quoteItems.length === 0) {
+      newErrors.items = 'Veuillez ajouter au moins un produit';
+    }
+
+    if (!formData.date_validite) {
+      newErrors.date_validite = 'La date de validité est requise';
+    } else if (formData.date_validite < devis.date_devis) {
+      newErrors.date_validite = 'La date de validité doit suivre la date du devis';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({}); // Clear previous errors
+
+    try {
+      // Header and lines are replaced in a single transaction
+      const { error: quoteError } = await supabase
+        .rpc('update_quote', {
+          p_id: devis.id,
+          p_client_id: selectedClient.id,
+          p_date_validite: formData.date_validite,
+          p_statut: formData.statut,
+          p_notes: formData.notes,
+          p_items: quoteItems.map(item => ({
+            produit_id: item.produit_id,
+            quantite: item.quantite_totale,
+            quantite_pieces: item.quantite_pieces,
+            quantite_unitaire: item.quantite_unitaire,
+            prix_unitaire: item.prix_unitaire,
+            taux_tva: item.taux_tva
+          }))
+        });
+
+      if (quoteError) throw quoteError;
+
+      onNavigateBack();
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      const { code, message } = error as { code?: string; message?: string };
+
+      if (code === '23503') {
+        setErrors({ general: 'Erreur de référence: le client ou un produit sélectionné n\'existe plus.' });
+      } else if (code === '23514') {
+        setErrors({ general: 'Erreur de validation: vérifiez les produits et la date de validité.' });
+      } else if (message) {
+        setErrors({ general: `Erreur: ${message}` });
+      } else {
+        setErrors({ general: 'Erreur lors de la modification. Veuillez réessayer.' });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const totals = calculateTotals();
+
+  // Status shown on the badge: a quote past its validity date reads as expired
+  const displayedStatus = effectiveQuoteStatus(devis);
+
+  // A quote is converted once; refused or expired quotes are not converted
+  const canConvert = linkedOrders.length === 0 && (displayedStatus === 'envoye' || displayedStatus === 'accepte');
+
+  const clientName = selectedClient.societe || `${selectedClient.prenom} ${selectedClient.nom}`;
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement du devis...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8 print:hidden">
+        <button
+          onClick={onNavigateBack}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900">{devis.numero_devis}</h1>
+            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${QUOTE_STATUS_STYLES[displayedStatus]}`}>
+              {QUOTE_STATUS_LABELS[displayedStatus]}
+            </span>
+          </div>
+          <p className="text-gray-600 mt-1">
+            Devis du {new Date(devis.date_devis).toLocaleDateString('fr-FR')}, valable jusqu'au {new Date(devis.date_validite).toLocaleDateString('fr-FR')}
+          </p>
+        </div>
+        {canConvert && can('bonsDeCommande') && (
+          <button
+            onClick={() => onConvertToPurchaseOrder(devis)}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
+          >
+            <FileText className="w-4 h-4" />
+            Convertir en bon de commande
+          </button>
+        )}
+        <button
+          onClick={() => window.print()}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
+        >
+          <Printer className="w-4 h-4" />
+          Imprimer
+        </button>
+      </div>
+
+      {/* Form */}
+      <div className="flex-1 pb-8 print:hidden">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Left Column - Quote Details */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Client Selection */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Client
+              </h2>
+              
+              <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">{selectedClient.societe}</p>
+                  <p className="text-sm text-gray-600">
+                    {selectedClient.prenom} {selectedClient.nom} - {selectedClient.numero_client}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setShowClientModal(true)}
+                  className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+                >
+                  Changer
+                </button>
+              </div>
+            </div>
+
+            {/* Purchase orders converted from the quote */}
+            {linkedOrders.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <FileText className="w-5 h-5" />
+                  Bons de commande
+                </h2>
+
+                <div className="space-y-2">
+                  {linkedOrders.map(order => (
+                    <div key={order.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                      <span className="font-medium text-blue-600 font-mono">{order.numero_commande}</span>
+                      {order.statut !== 'livree' && order.statut !== 'annulee' && can('bonsDeLivraison.gerer') && (
+                        <button
+                          onClick={() => onConvertToDelivery(order)}
+                          className="text-green-600 hover:text-green-700 text-sm font-medium flex items-center gap-1"
+                        >
+                          <Truck className="w-4 h-4" />
+                          Créer le bon de livraison
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Products Section */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                  <Package className="w-5 h-5" />
+                  Produits
+                </h2>
+                <button
+                  onClick={() => setShowProductModal(true)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors duration-200"
+                >
+                  <Plus className="w-4 h-4" />
+                  Ajouter produit
+                </button>
+              </div>
+
+              {quoteItems.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Produit</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Unité</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Prix unitaire</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Dimension</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité Totale</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {quoteItems.map((item) => (
+                        <tr key={item.id}>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {item.nom_produit}
+                          </td>
+                          <td className="px-4 py-3 text-center">
+                            {getUnitBadge(item.unite)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={item.prix_unitaire}
+                              onChange={(e) => handlePriceChange(item.id, Number(e.target.value))}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            {/* Quantity - Number of pieces */}
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={item.quantite_pieces}
+                              onChange={(e) => handlePiecesQuantityChange(item.id, Number(e.target.value))}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </td>
+                          <td className="px-4 py-3">
+                            {/* Unit quantity per piece (only for measurement units) */}
+                            {requiresDualInput(item.unite) ? (
+                              <div className="flex items-center gap-1">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={item.quantite_unitaire}
+                                  onChange={(e) => handleUnitQuantityChange(item.id, Number(e.target.value))}
+                                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                                />
+                                <span className="text-xs text-gray-500">
+                                  {getUnitLabel(item.unite)}
+                                </span>
+                              </div>
+                            ) : (
+                              <span className="text-sm text-gray-400">-</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {/* Total calculated units */}
+                            <div className="text-sm font-medium text-blue-600">
+                              {requiresDualInput(item.unite) ? (
+                                `${item.quantite_totale} ${getUnitLabel(item.unite)}`
+                              ) : (
+                                `${item.quantite_pieces} ${getUnitLabel(item.unite)}`
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={item.taux_tva}
+                              onChange={(e) => handleTvaRateChange(item.id, Number(e.target.value))}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {TVA_RATES.map(taux => (
+                                <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {formatPrice(item.total)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <button
+                              onClick={() => handleRemoveItem(item.id)}
+                              className="text-red-600 hover:text-red-800 p-1"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <Package className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                  <p>Aucun produit ajouté</p>
+                </div>
+              )}
+
+              {errors.items && (
+                <p className="text-red-500 text-sm mt-2">{errors.items}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Right Column - Quote Summary */}
+          <div className="space-y-6">
+            {/* Quote Info */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Edit3 className="w-5 h-5" />
+                Modifier le devis
+              </h3>
+              
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="statut" className="block text-sm font-medium text-gray-700 mb-1">
+                    Statut
+                  </label>
+                  <select
+                    id="statut"
+                    name="statut"
+                    value={formData.statut}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map(status => (
+                      <option key={status} value={status}>{QUOTE_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="date_validite" className="block text-sm font-medium text-gray-700 mb-1">
+                    Valable jusqu'au
+                  </label>
+                  <input
+                    type="date"
+                    id="date_validite"
+                    name="date_validite"
+                    value={formData.date_validite}
+                    min={devis.date_devis}
+                    onChange={handleInputChange}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      errors.date_validite ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.date_validite && (
+                    <p className="text-red-500 text-xs mt-1">{errors.date_validite}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes (optionnel)
+                  </label>
+                  <textarea
+                    id="notes"
+                    name="notes"
+                    rows={3}
+                    value={formData.notes}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Conditions, délais de livraison..."
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Total */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Récapitulatif</h3>
+              
+              <div className="space-y-2">
+                <div className="flex justify-between py-2 border-b border-gray-200">
+                  <span className="text-gray-600">Nombre d'articles:</span>
+                  <span className="font-medium">{quoteItems.reduce((sum, item) => sum + item.quantite_pieces, 0)}</span>
+                </div>
+                <div className="flex justify-between py-2">
+                  <span className="text-gray-600">Total HT:</span>
+                  <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                </div>
+                {totals.par_taux.map(row => (
+                  <div key={row.taux_tva} className="flex justify-between py-1 text-sm">
+                    <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                    <span>{formatPrice(row.montant_tva)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
+                  <span>Total TTC:</span>
+                  <span>{formatPrice(totals.total_ttc)}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={onNavigateBack}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
+              >
+                <Save className="w-4 h-4" />
+                {isSubmitting ? 'Enregistrement...' : 'Enregistrer'}
+              </button>
+            </div>
+
+            {errors.general && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{errors.general}</p>
+              </div>
+            )}
+
+            {can('historique') && <HistoryPanel recordId={devis.id} />}
+          </div>
+        </div>
+      </div>
+
+      {/* Client Modal */}
+      {showClientModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Sélectionner un client</h3>
+            </div>
+            <div className="p-6">
+              <div className="relative mb-4">
+                <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Rechercher un client..."
+                  value={clientSearch}
+                  onChange={(e) => setClientSearch(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                <div className="space-y-2">
+                  {filteredClients.map((client) => (
+                    <button
+                      key={client.id}
+                      onClick={() => handleSelectClient(client)}
+                      className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
+                    >
+                      <div className="font-medium text-gray-900"><Highlight text={client.societe} search={clientSearch} /></div>
+                      <div className="text-sm text-gray-600">
+                        <Highlight text={`${client.prenom} ${client.nom}`} search={clientSearch} /> - <Highlight text={client.numero_client} search={clientSearch} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200">
+              <button
+                onClick={() => setShowClientModal(false)}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Fermer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Product Modal */}
+      {showProductModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Ajouter un produit</h3>
+            </div>
+            <div className="p-6">
+              <div className="relative mb-4">
+                <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Rechercher un produit..."
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                <div className="space-y-2">
+                  {filteredProducts.map((product) => (
+                    <button
+                      key={product.id}
+                      onClick={() => handleAddProduct(product)}
+                      className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <div className="font-medium text-gray-900 flex items-center gap-2">
+                            <Highlight text={product.nom_produit} search={productSearch} />
+                            {getUnitBadge(product.unite)}
+                          </div>
+                          <div className="text-sm text-gray-600">Prix de vente: {formatPrice(product.prix_vente)}</div>
+                          {requiresDualInput(product.unite) ? (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Dimension standard: {product.dimension_standard} {getUnitLabel(product.unite)}/pièce
+                            </div>
+                          ) : (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Prix de vente par {getUnitLabel(product.unite)}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200">
+              <button
+                onClick={() => setShowProductModal(false)}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Fermer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Print-only content */}
+      <div
+        className="hidden print:block fixed inset-0 bg-white px-8 pt-0 pb-8"
+        style={{ marginTop: "-28px" }}
+      >
+        {/* Company Header */}
+        <div className="grid grid-cols-3 items-center border-b-2 border-gray-800 py-1 mb-2">
+          <div className="flex justify-start">
+            <img
+              src="https://pub-237d2da54b564d23aaa1c3826e1d4e65.r2.dev/ANTURGOOD/logo2.png"
+              alt="ANTURGOOD Logo"
+              className="h-32 w-auto"
+            />
+          </div>
+
+          <div className="text-center">
+            <p className="text-lg text-gray-900 font-bold">DEVIS</p>
+          </div>
+
+          <div></div>
+        </div>
+
+        {/* Quote Info */}
+        <div className="mb-8">
+          <div className="grid grid-cols-2 gap-8">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Informations Devis</h3>
+              <div className="space-y-2">
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">N° Devis:</span>
+                  <span className="text-gray-900">{devis.numero_devis}</span>
+                </div>
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Date:</span>
+                  <span className="text-gray-900">{new Date(devis.date_devis).toLocaleDateString('fr-FR')}</span>
+                </div>
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Valable jusqu'au:</span>
+                  <span className="text-gray-900">{new Date(formData.date_validite).toLocaleDateString('fr-FR')}</span>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Client</h3>
+              <div className="space-y-2">
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Société:</span>
+                  <span className="text-gray-900">{clientName}</span>
+                </div>
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Contact:</span>
+                  <span className="text-gray-900">{selectedClient.prenom} {selectedClient.nom}</span>
+                </div>
+                {selectedClient.ice && (
+                  <div className="flex">
+                    <span className="font-medium text-gray-700 w-32">ICE:</span>
+                    <span className="text-gray-900">{selectedClient.ice}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Lines Table */}
+        <div className="mb-8">
+          <table className="w-full border-collapse border border-gray-800">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border border-gray-800 px-4 py-2 text-left font-semibold">Désignation</th>
+                <th className="border border-gray-800 px-4 py-2 text-center font-semibold">Quantité</th>
+                <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Prix Unitaire</th>
+                <th className="border border-gray-800 px-4 py-2 text-center font-semibold">TVA</th>
+                <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Total HT</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quoteItems.map((item) => (
+                <tr key={item.id}>
+                  <td className="border border-gray-800 px-4 py-2">{item.nom_produit}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-center">
+                    {item.quantite_totale} {getUnitLabel(item.unite)}
+                  </td>
+                  <td className="border border-gray-800 px-4 py-2 text-right">{formatPrice(item.prix_unitaire)}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-center">{formatTvaRate(item.taux_tva)}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-right font-medium">{formatPrice(item.total)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td className="border border-gray-800 px-4 py-2 font-semibold" colSpan={4}>TOTAL HT</td>
+                <td className="border border-gray-800 px-4 py-2 text-right font-semibold">
+                  {formatPrice(totals.total_ht)}
+                </td>
+              </tr>
+              {totals.par_taux.map(row => (
+                <tr key={row.taux_tva}>
+                  <td className="border border-gray-800 px-4 py-2" colSpan={4}>
+                    TVA {formatTvaRate(row.taux_tva)} sur {formatPrice(row.base_ht)}
+                  </td>
+                  <td className="border border-gray-800 px-4 py-2 text-right">
+                    {formatPrice(row.montant_tva)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-100">
+                <td className="border border-gray-800 px-4 py-3 font-bold" colSpan={4}>TOTAL TTC</td>
+                <td className="border border-gray-800 px-4 py-3 text-right font-bold text-lg">
+                  {formatPrice(totals.total_ttc)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {/* Notes */}
+        {formData.notes && (
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Conditions</h3>
+            <div className="border border-gray-300 p-4 rounded">
+              <p className="text-gray-900">{formData.notes}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Client approval */}
+        <div className="grid grid-cols-2 gap-8 mt-12">
+          <div></div>
+          <div className="text-center">
+            <p className="font-medium text-gray-900 mb-16">Bon pour accord (cachet et signature du client)</p>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="absolute bottom-8 left-8 right-8 text-center text-xs text-gray-500 border-t border-gray-300 pt-4">
+          <p>ANTURGOOD - Système de gestion wget.ma | Document généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')}</p>
+        </div>
+      </div>
+
+      {/* Print Styles */}
+      <style>{`
+        @media print {
+          @page {
+            margin: 15px;
+            size: A4 portrait;
+          }
+
+          /* Hide everything by default */
+          body * {
+            visibility: hidden;
+          }
+
+          /* Show only the print content */
+          .print\\:block,
+          .print\\:block * {
+            visibility: visible;
+          }
+
+          /* Reset layout for print content */
+          .print\\:block {
+            position: absolute !important;
+            left: 0 !important;
+            top: 0 !important;
+            width: 100% !important;
+            height: 100% !important;
+            margin: 0 !important;
+            padding: 0 !important;
+            background: white !important;
+            color: black !important;
+            font-size: 12pt !important;
+            line-height: 1.4 !important;
+          }
+
+          /* Table styling for print */
+          table {
+            border-collapse: collapse !important;
+            width: 100% !important;
+          }
+
+          th, td {
+            border: 1px solid #000 !important;
+            padding: 8px !important;
+          }
+
+          /* Hide any remaining UI elements */
+          nav, aside, button, .print\\:hidden {
+            display: none !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default DevisEdit;
@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Search,
+  Eye,
+  FileSignature,
+  FileText,
+  CheckCircle,
+  Clock,
+  X
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useQueryNumber, useQueryState } from '../lib/useQueryState';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import {
+  QUOTE_STATUS_LABELS,
+  QUOTE_STATUS_STYLES,
+  QuoteStatus,
+  effectiveQuoteStatus
+} from '../lib/quoteStatus';
+
+interface Devis {
+  id: string;
+  numero_devis: string;
+  date_devis: string;
+  date_validite: string;
+  statut: QuoteStatus;
+  total_ttc: number;
+  client: {
+    nom: string;
+    prenom: string;
+    societe: string;
+  };
+  // BC the quote was converted into, if any
+  bons_commande: { id: string }[];
+}
+
+interface DevisListProps {
+  onNavigateToAdd: () => void;
+  onNavigateToEdit: (devis: Devis) => void;
+  onConvertToPurchaseOrder: (devis: Devis) => void;
+}
+
+const DevisList: React.FC<DevisListProps> = ({ onNavigateToAdd, onNavigateToEdit, onConvertToPurchaseOrder }) => {
+  const [quotes, setQuotes] = useState<Devis[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [selectedStatus, setSelectedStatus] = useQueryState('statut');
+  const itemsPerPage = 20;
+
+  const fetchQuotes = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('devis')
+        .select(`
+          *,
+          client:clients(nom, prenom, societe),
+          bons_commande:bon_de_commande(id)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setQuotes((data || []) as unknown as Devis[]);
+    } catch (err) {
+      console.error('Error fetching quotes:', err);
+      setError('Erreur lors du chargement des devis');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    fetchQuotes();
+  }, []);
+
+  // Quotes matching the search by number or client, most relevant first
+  const searchedQuotes = useRankedSearch('devis', quotes, searchTerm);
+
+  const filteredQuotes = searchedQuotes.filter(quote =>
+    !selectedStatus || effectiveQuoteStatus(quote) === selectedStatus
+  );
+
+  const totalPages = Math.ceil(filteredQuotes.length / itemsPerPage);
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const currentQuotes = filteredQuotes.slice(startIndex, startIndex + itemsPerPage);
+
+  const countByStatus = (status: QuoteStatus) =>
+    filteredQuotes.filter(quote => effectiveQuoteStatus(quote) === status).length;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const getStatusBadge = (quote: Devis) => {
+    const status = effectiveQuoteStatus(quote);
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${QUOTE_STATUS_STYLES[status]}`}>
+        {QUOTE_STATUS_LABELS[status]}
+      </span>
+    );
+  };
+
+  // A quote is converted once: the BC then carries the delivery to the client
+  const canConvert = (quote: Devis) =>
+    effectiveQuoteStatus(quote) === 'envoye' ||
+    (quote.statut === 'accepte' && quote.bons_commande.length === 0);
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement des devis...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 mb-4">{error}</p>
+          <button
+            onClick={fetchQuotes}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg"
+          >
+            Réessayer
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Devis</h1>
+          <p className="text-gray-600 mt-1">Propositions de prix envoyées aux clients</p>
+        </div>
+        <button
+          onClick={onNavigateToAdd}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200 shadow-sm"
+        >
+          <Plus className="w-5 h-5" />
+          Créer un devis
+        </button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Total Devis</p>
+              <p className="text-2xl font-bold text-gray-900">{filteredQuotes.length}</p>
+            </div>
+            <FileSignature className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">En attente de réponse</p>
+              <p className="text-2xl font-bold text-blue-600">{countByStatus('envoye')}</p>
+            </div>
+            <Clock className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Acceptés</p>
+              <p className="text-2xl font-bold text-green-600">{countByStatus('accepte')}</p>
+            </div>
+            <CheckCircle className="w-8 h-8 text-green-600" />
+          </div>
+        </div>
+      </div>
+
+      {/* Search and status */}
+      <div className="mb-6 flex items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Rechercher par numéro ou client..."
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={selectedStatus}
+          onChange={(e) => {
+            setSelectedStatus(e.target.value);
+            setCurrentPage(1);
+          }}
+          className="px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        >
+          <option value="">Tous les statuts</option>
+          {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map(status => (
+            <option key={status} value={status}>{QUOTE_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        {(searchTerm || selectedStatus) && (
+          <button
+            onClick={() => {
+              setSearchTerm('');
+              setSelectedStatus('');
+              setCurrentPage(1);
+            }}
+            className="text-red-600 hover:text-red-700 text-sm flex items-center gap-1 transition-colors duration-200"
+          >
+            <X className="w-4 h-4" />
+            Effacer
+          </button>
+        )}
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Numéro</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Client</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Validité</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Statut</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Total TTC</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {currentQuotes.length > 0 ? (
+                currentQuotes.map((quote) => (
+                  <tr
+                    key={quote.id}
+                    onClick={() => onNavigateToEdit(quote)}
+                    className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
+                      {quote.numero_devis}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{quote.client.societe}</div>
+                      <div className="text-sm text-gray-500">{quote.client.prenom} {quote.client.nom}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(quote.date_devis).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(quote.date_validite).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(quote)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatPrice(quote.total_ttc)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onNavigateToEdit(quote);
+                          }}
+                          className="text-blue-600 hover:text-blue-900 flex items-center gap-1"
+                        >
+                          <Eye className="w-4 h-4" />
+                          Voir
+                        </button>
+                        {canConvert(quote) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onConvertToPurchaseOrder(quote);
+                            }}
+                            className="text-green-600 hover:text-green-900 flex items-center gap-1"
+                          >
+                            <FileText className="w-4 h-4" />
+                            Convertir
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                    <div className="flex flex-col items-center">
+                      <FileSignature className="w-8 h-8 text-gray-300 mb-2" />
+                      <p>{searchTerm ? 'Aucun devis trouvé' : 'Aucun devis disponible'}</p>
+                      {!searchTerm && (
+                        <button
+                          onClick={onNavigateToAdd}
+                          className="mt-2 text-blue-600 hover:text-blue-700 text-sm"
+                        >
+                          Créer votre premier devis
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-6 flex items-center justify-between">
+          <div className="text-sm text-gray-600">
+            Affichage de {startIndex + 1} à {Math.min(startIndex + itemsPerPage, filteredQuotes.length)} sur {filteredQuotes.length} devis
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-sm text-gray-700">
+              Page {currentPage} sur {totalPages}
+            </span>
+            <button
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DevisList;
@@ -0,0 +1,598 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Save, Plus, Search, Users, Truck } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { CLIENT_COLUMNS } from '../lib/clientsRepo';
+import { loadDeliveryNote } from '../lib/loaders';
+import { previewDocumentNumber } from '../lib/numbering';
+import { computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { errorMessage } from '../lib/dbErrors';
+import { createInvoice } from '../lib/invoicesRepo';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import Highlight from './Highlight';
+
+interface Client {
+  id: string;
+  numero_client: string;
+  nom: string;
+  prenom: string;
+  societe: string;
+}
+
+interface DeliveryNote {
+  id: string;
+  numero_livraison: string;
+  date_livraison: string;
+  total_ht: number;
+  bon_commande: {
+    numero_commande: string;
+  };
+}
+
+interface DeliveryItem {
+  id: string;
+  livraison_id: string;
+  produit_id: string;
+  quantite_livree: number;
+  quantite_pieces: number;
+  quantite_unitaire: number;
+  prix_unitaire: number;
+  taux_tva: number;
+  produit: {
+    nom_produit: string;
+    unite: string;
+  };
+}
+
+interface FactureAddProps {
+  onNavigateBack: () => void;
+}
+
+const FactureAdd: React.FC<FactureAddProps> = ({ onNavigateBack }) => {
+  // Delivery note passed as ?bl=<id> when invoicing from a BL
+  const [searchParams] = useSearchParams();
+  const preSelectedDeliveryNoteId = searchParams.get('bl');
+
+  const [clients, setClients] = useState<Client[]>([]);
+  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [showClientModal, setShowClientModal] = useState(false);
+  const [clientSearch, setClientSearch] = useState('');
+
+  const [deliveryNotes, setDeliveryNotes] = useState<DeliveryNote[]>([]);
+  const [deliveryItems, setDeliveryItems] = useState<DeliveryItem[]>([]);
+  const [selectedDeliveryIds, setSelectedDeliveryIds] = useState<string[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  const [formData, setFormData] = useState({
+    date_facture: new Date().toISOString().split('T')[0],
+    notes: ''
+  });
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [nextInvoiceNumber, setNextInvoiceNumber] = useState<string>('');
+
+  // Preview of the next invoice number, the number itself is assigned on insert
+  const generateInvoiceNumber = async (date: string) => {
+    try {
+      return await previewDocumentNumber('facture', date);
+    } catch (error) {
+      console.error('Error generating invoice number:', error);
+      return '-';
+    }
+  };
+
+  // Invoice numbering restarts every year
+  React.useEffect(() => {
+    generateInvoiceNumber(formData.date_facture).then(setNextInvoiceNumber);
+  }, [formData.date_facture]);
+
+  // Load data on component mount
+  React.useEffect(() => {
+    const loadData = async () => {
+      await fetchClients();
+
+      // If there's a pre-selected delivery note, invoice its client
+      if (preSelectedDeliveryNoteId) {
+        try {
+          const note = await loadDeliveryNote(preSelectedDeliveryNoteId);
+          if (note) {
+            const { data: client, error } = await supabase
+              .from('clients')
+              .select(CLIENT_COLUMNS)
+              .eq('id', note.client_id)
+              .single();
+
+            if (error) throw error;
+            setSelectedClient(client);
+            await fetchDeliveryNotes(client.id);
+            setSelectedDeliveryIds([note.id]);
+          }
+        } catch (error) {
+          console.error('Error fetching pre-selected delivery note:', error);
+        }
+      }
+    };
+    loadData();
+  }, [preSelectedDeliveryNoteId]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clients')
+        .select(CLIENT_COLUMNS)
+        .order('societe', { ascending: true });
+
+      if (error) throw error;
+      setClients(data || []);
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  // Delivered notes of the client that are not already on an invoice
+  const fetchDeliveryNotes = async (clientId: string) => {
+    try {
+      setLoadingDeliveries(true);
+
+      const { data, error } = await supabase
+        .from('bon_de_livraison')
+        .select(`
+          *,
+          bon_commande:bon_de_commande(numero_commande)
+        `)
+        .eq('client_id', clientId)
+        .eq('statut', 'livree')
+        .order('date_livraison', { ascending: true });
+
+      if (error) throw error;
+
+      const notes = data || [];
+      const noteIds = notes.map(note => note.id);
+
+      const { data: invoiced, error: invoicedError } = await supabase
+        .from('facture_livraisons')
+        .select('livraison_id')
+        .in('livraison_id', noteIds);
+
+      if (invoicedError) throw invoicedError;
+
+      const invoicedIds = (invoiced || []).map(link => link.livraison_id);
+      const availableNotes = notes.filter(note => !invoicedIds.includes(note.id));
+
+      const { data: items, error: itemsError } = await supabase
+        .from('bon_de_livraison_items')
+        .select(`
+          *,
+          produit:produits(nom_produit, unite)
+        `)
+        .in('livraison_id', availableNotes.map(note => note.id))
+        .order('id', { ascending: true });
+
+      if (itemsError) throw itemsError;
+
+      setDeliveryNotes(availableNotes);
+      setDeliveryItems(items || []);
+    } catch (error) {
+      console.error('Error fetching delivery notes:', error);
+      setErrors({ general: 'Erreur lors du chargement des bons de livraison' });
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSelectClient = (client: Client) => {
+    setSelectedClient(client);
+    setSelectedDeliveryIds([]);
+    fetchDeliveryNotes(client.id);
+    setShowClientModal(false);
+    setClientSearch('');
+  };
+
+  const toggleDeliveryNote = (noteId: string) => {
+    setSelectedDeliveryIds(prev =>
+      prev.includes(noteId) ? prev.filter(id => id !== noteId) : [...prev, noteId]
+    );
+  };
+
+  const toggleAllDeliveryNotes = () => {
+    setSelectedDeliveryIds(prev =>
+      prev.length === deliveryNotes.length ? [] : deliveryNotes.map(note => note.id)
+    );
+  };
+
+  const selectedItems = deliveryItems.filter(item => selectedDeliveryIds.includes(item.livraison_id));
+
+  const calculateTotals = () => {
+    return computeTvaTotals(selectedItems.map(item => ({
+      montant_ht: item.prix_unitaire * item.quantite_livree,
+      taux_tva: item.taux_tva
+    })));
+  };
+
+  const totals = calculateTotals();
+
+  const filteredClients = useRankedSearch('clients', clients, clientSearch);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!selectedClient) {
+      newErrors.client = 'Veuillez sélectionner un client';
+    }
+
+    if (selectedDeliveryIds.length === 0) {
+      newErrors.deliveries = 'Veuillez sélectionner au moins un bon de livraison';
+    }
+
+    if (!formData.date_facture) {
+      newErrors.date_facture = 'La date de facture est requise';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      // The totals and lines are taken from the BLs by the database
+      await createInvoice({
+        client_id: selectedClient!.id,
+        date_facture: formData.date_facture,
+        notes: formData.notes.trim() || null,
+        livraison_ids: selectedDeliveryIds
+      });
+
+      onNavigateBack();
+    } catch (error: unknown) {
+      console.error('Error creating invoice:', error);
+      setErrors({ general: errorMessage(error, 'Erreur lors de la création. Veuillez réessayer.') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  if (!nextInvoiceNumber) {
+    return (
+      <div className="min-h-full flex items-center justify-center">
+        <p className="text-gray-500">Chargement...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={onNavigateBack}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Créer une facture</h1>
+          <p className="text-gray-600 mt-1">Prochain numéro: {nextInvoiceNumber}</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <div className="flex-1 pb-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Left Column - Main Details */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Client Selection */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Client à facturer
+              </h2>
+
+              {selectedClient ? (
+                <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">{selectedClient.societe}</p>
+                    <p className="text-sm text-gray-600">
+                      {selectedClient.prenom} {selectedClient.nom} - {selectedClient.numero_client}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowClientModal(true)}
+                    className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+                  >
+                    Changer
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowClientModal(true)}
+                  className="w-full p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-400 hover:bg-blue-50 transition-colors duration-200 flex items-center justify-center gap-2 text-gray-600 hover:text-blue-600"
+                >
+                  <Plus className="w-5 h-5" />
+                  Sélectionner un client
+                </button>
+              )}
+
+              {errors.client && (
+                <p className="text-red-500 text-sm mt-2">{errors.client}</p>
+              )}
+            </div>
+
+            {/* Delivery Notes Selection */}
+            {selectedClient && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <Truck className="w-5 h-5" />
+                    Bons de livraison à facturer
+                  </h2>
+                  {deliveryNotes.length > 0 && (
+                    <button
+                      onClick={toggleAllDeliveryNotes}
+                      className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+                    >
+                      {selectedDeliveryIds.length === deliveryNotes.length ? 'Tout désélectionner' : 'Tout sélectionner'}
+                    </button>
+                  )}
+                </div>
+
+                {loadingDeliveries ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <p>Chargement des bons de livraison...</p>
+                  </div>
+                ) : deliveryNotes.length > 0 ? (
+                  <div className="space-y-2">
+                    {deliveryNotes.map((note) => (
+                      <label
+                        key={note.id}
+                        className={`flex items-center justify-between p-4 border rounded-lg cursor-pointer transition-colors duration-200 ${
+                          selectedDeliveryIds.includes(note.id)
+                            ? 'bg-blue-50 border-blue-300'
+                            : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center gap-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedDeliveryIds.includes(note.id)}
+                            onChange={() => toggleDeliveryNote(note.id)}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <div>
+                            <div className="font-medium text-gray-900">{note.numero_livraison}</div>
+                            <div className="text-sm text-gray-600">
+                              {note.bon_commande.numero_commande} - {new Date(note.date_livraison).toLocaleDateString('fr-FR')}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="font-medium text-gray-900">{formatPrice(note.total_ht)}</div>
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-gray-500">
+                    <p>Aucun bon de livraison à facturer</p>
+                    <p className="text-sm mt-1">Tous les bons livrés de ce client sont déjà facturés</p>
+                  </div>
+                )}
+
+                {errors.deliveries && (
+                  <p className="text-red-500 text-sm mt-2">{errors.deliveries}</p>
+                )}
+              </div>
+            )}
+
+            {/* Invoice Lines */}
+            {selectedItems.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Lignes de facture</h2>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">BL</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Produit</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Prix unitaire</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {selectedItems.map((item) => (
+                        <tr key={item.id}>
+                          <td className="px-4 py-3 text-sm text-gray-500 font-mono">
+                            {deliveryNotes.find(note => note.id === item.livraison_id)?.numero_livraison}
+                          </td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.produit.nom_produit}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {item.quantite_livree} {item.produit.unite ? item.produit.unite.toUpperCase() : ''}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatPrice(item.prix_unitaire)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatTvaRate(item.taux_tva)}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {formatPrice(item.prix_unitaire * item.quantite_livree)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Right Column - Invoice Info */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Informations facture</h3>
+
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="date_facture" className="block text-sm font-medium text-gray-700 mb-1">
+                    Date de facture
+                  </label>
+                  <input
+                    type="date"
+                    id="date_facture"
+                    name="date_facture"
+                    value={formData.date_facture}
+                    onChange={handleInputChange}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      errors.date_facture ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.date_facture && (
+                    <p className="text-red-500 text-xs mt-1">{errors.date_facture}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes (optionnel)
+                  </label>
+                  <textarea
+                    id="notes"
+                    name="notes"
+                    rows={3}
+                    value={formData.notes}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Notes pour cette facture..."
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Total */}
+            {selectedItems.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Récapitulatif</h3>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between py-2 border-b border-gray-200">
+                    <span className="text-gray-600">Bons de livraison:</span>
+                    <span className="font-medium">{selectedDeliveryIds.length}</span>
+                  </div>
+                  <div className="flex justify-between py-2 border-b border-gray-200">
+                    <span className="text-gray-600">Lignes:</span>
+                    <span className="font-medium">{selectedItems.length}</span>
+                  </div>
+                  <div className="flex justify-between py-2">
+                    <span className="text-gray-600">Total HT:</span>
+                    <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                  </div>
+                  {totals.par_taux.map(row => (
+                    <div key={row.taux_tva} className="flex justify-between py-1 text-sm">
+                      <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                      <span>{formatPrice(row.montant_tva)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
+                    <span>Total TTC:</span>
+                    <span>{formatPrice(totals.total_ttc)}</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={onNavigateBack}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
+              >
+                <Save className="w-4 h-4" />
+                {isSubmitting ? 'Création...' : 'Créer'}
+              </button>
+            </div>
+
+            {errors.general && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{errors.general}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Client Modal */}
+      {showClientModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Sélectionner un client</h3>
+            </div>
+            <div className="p-6">
+              <div className="relative mb-4">
+                <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Rechercher un client..."
+                  value={clientSearch}
+                  onChange={(e) => setClientSearch(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                <div className="space-y-2">
+                  {filteredClients.map((client) => (
+                    <button
+                      key={client.id}
+                      onClick={() => handleSelectClient(client)}
+                      className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
+                    >
+                      <div className="font-medium text-gray-900"><Highlight text={client.societe} search={clientSearch} /></div>
+                      <div className="text-sm text-gray-600">
+                        <Highlight text={`${client.prenom} ${client.nom}`} search={clientSearch} /> - <Highlight text={client.numero_client} search={clientSearch} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-200">
+              <button
+                onClick={() => setShowClientModal(false)}
+                className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Fermer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FactureAdd;
@@ -0,0 +1,561 @@
+import React, { useCallback, useState } from 'react';
+import { ArrowLeft, Save, Edit3, FileText, Users, Printer, Truck } from 'lucide-react';
+import { listInvoiceItems, listInvoicedDeliveryNotes, updateInvoice } from '../lib/invoicesRepo';
+import { InvoiceDetail, InvoiceItemDetail, InvoicedDeliveryNote } from '../lib/domain';
+import { computeTvaTotals, formatTvaRate } from '../lib/tva';
+
+interface FactureEditProps {
+  onNavigateBack: () => void;
+  onNavigateToDelivery: (note: { id: string }) => void;
+  facture: InvoiceDetail;
+}
+
+const FactureEdit: React.FC<FactureEditProps> = ({ onNavigateBack, onNavigateToDelivery, facture }) => {
+  const [items, setItems] = useState<InvoiceItemDetail[]>([]);
+  const [deliveryNotes, setDeliveryNotes] = useState<InvoicedDeliveryNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    statut: facture.statut,
+    notes: facture.notes || ''
+  });
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A cancelled invoice has released its delivery notes and can't be reopened
+  const isCancelled = facture.statut === 'annulee';
+
+  const fetchInvoiceDetails = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const invoiceItems = await listInvoiceItems(facture.id);
+      const notes = await listInvoicedDeliveryNotes(invoiceItems);
+
+      setItems(invoiceItems);
+      setDeliveryNotes(notes);
+    } catch (err) {
+      console.error('Error fetching invoice details:', err);
+      setError('Erreur lors du chargement des détails de la facture');
+    } finally {
+      setLoading(false);
+    }
+  }, [facture.id]);
+
+  // Load invoice lines on component mount
+  React.useEffect(() => {
+    fetchInvoiceDetails();
+  }, [fetchInvoiceDetails]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.statut === 'annulee' && !isCancelled) {
+      if (!confirm('Annuler cette facture ? Ses bons de livraison pourront être facturés à nouveau.')) {
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await updateInvoice(facture.id, {
+        statut: formData.statut,
+        notes: formData.notes.trim() || null
+      });
+
+      onNavigateBack();
+    } catch (error) {
+      console.error('Error updating invoice:', error);
+      setError('Erreur lors de la modification. Veuillez réessayer.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const getStatusBadge = (status: string) => {
+    const statusConfig = {
+      brouillon: 'bg-gray-100 text-gray-800',
+      emise: 'bg-blue-100 text-blue-800',
+      payee: 'bg-green-100 text-green-800',
+      annulee: 'bg-red-100 text-red-800'
+    };
+
+    const statusLabel = {
+      brouillon: 'Brouillon',
+      emise: 'Émise',
+      payee: 'Payée',
+      annulee: 'Annulée'
+    };
+
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        statusConfig[status as keyof typeof statusConfig] || statusConfig.brouillon
+      }`}>
+        {statusLabel[status as keyof typeof statusLabel] || status}
+      </span>
+    );
+  };
+
+  const formatQuantity = (item: InvoiceItemDetail) => {
+    const unite = item.produit?.unite;
+    return `${item.quantite} ${unite ? unite.toUpperCase() : 'Unité'}`;
+  };
+
+  const getDeliveryNumber = (livraisonId: string | null) =>
+    deliveryNotes.find(note => note.id === livraisonId)?.numero_livraison || '-';
+
+  const totals = computeTvaTotals(items.map(item => ({ montant_ht: item.total_ligne, taux_tva: item.taux_tva })));
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement des détails...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={onNavigateBack}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900">{facture.numero_facture}</h1>
+            {getStatusBadge(facture.statut)}
+          </div>
+          <p className="text-gray-600 mt-1">
+            Facture du {new Date(facture.date_facture).toLocaleDateString('fr-FR')}
+          </p>
+        </div>
+        <button
+          onClick={() => window.print()}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
+        >
+          <Printer className="w-4 h-4" />
+          Imprimer
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 pb-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Left Column - Invoice Details */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Client Info */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Client
+              </h2>
+
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <div className="font-medium text-gray-900">{facture.client.societe}</div>
+                <div className="text-sm text-gray-600 mt-1">
+                  {facture.client.prenom} {facture.client.nom}
+                </div>
+                <div className="text-sm text-gray-500 mt-1">
+                  {facture.client.numero_client}
+                  {facture.client.ice && ` - ICE: ${facture.client.ice}`}
+                </div>
+              </div>
+            </div>
+
+            {/* Delivery Notes */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Truck className="w-5 h-5" />
+                Bons de livraison facturés
+              </h2>
+
+              <div className="grid grid-cols-2 gap-4">
+                {deliveryNotes.map((note) => (
+                  <button
+                    key={note.id}
+                    onClick={() => onNavigateToDelivery(note)}
+                    className="bg-gray-50 p-4 rounded-lg text-left hover:bg-blue-50 transition-colors duration-200"
+                  >
+                    <div className="font-medium text-blue-600 font-mono">{note.numero_livraison}</div>
+                    <div className="text-sm text-gray-600 mt-1">
+                      {new Date(note.date_livraison).toLocaleDateString('fr-FR')}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Invoice Lines */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Lignes de facture</h2>
+
+              {items.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">BL</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Désignation</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Prix unitaire</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {items.map((item) => (
+                        <tr key={item.id}>
+                          <td className="px-4 py-3 text-sm text-gray-500 font-mono">{getDeliveryNumber(item.livraison_id)}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.designation}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatQuantity(item)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatPrice(item.prix_unitaire)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900">{formatTvaRate(item.taux_tva)}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatPrice(item.total_ligne)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50">
+                      <tr>
+                        <td colSpan={5} className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
+                          Total HT:
+                        </td>
+                        <td className="px-4 py-3 text-sm font-bold text-gray-900">
+                          {formatPrice(totals.total_ht)}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <FileText className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                  <p>Aucune ligne sur cette facture</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Right Column - Edit Form */}
+          <div className="space-y-6">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Edit3 className="w-5 h-5" />
+                Modifier la facture
+              </h3>
+
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="statut" className="block text-sm font-medium text-gray-700 mb-1">
+                    Statut
+                  </label>
+                  <select
+                    id="statut"
+                    name="statut"
+                    value={formData.statut}
+                    onChange={handleInputChange}
+                    disabled={isCancelled}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  >
+                    <option value="brouillon">Brouillon</option>
+                    <option value="emise">Émise</option>
+                    <option value="payee">Payée</option>
+                    <option value="annulee">Annulée</option>
+                  </select>
+                  {isCancelled && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Facture annulée: ses bons de livraison peuvent être facturés à nouveau.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Notes
+                  </label>
+                  <textarea
+                    id="notes"
+                    name="notes"
+                    rows={4}
+                    value={formData.notes}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Notes pour cette facture..."
+                  />
+                </div>
+              </div>
+
+              {/* Actions */}
+              <div className="flex gap-4 pt-6 border-t border-gray-200 mt-6">
+                <button
+                  type="button"
+                  onClick={onNavigateBack}
+                  className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 font-medium transition-colors duration-200"
+                >
+                  <Save className="w-4 h-4" />
+                  {isSubmitting ? 'Enregistrement...' : 'Enregistrer'}
+                </button>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                  <p className="text-red-700 text-sm">{error}</p>
+                </div>
+              )}
+            </form>
+
+            {/* Invoice Summary */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Récapitulatif</h3>
+
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Date de facture:</span>
+                  <span className="font-medium">{new Date(facture.date_facture).toLocaleDateString('fr-FR')}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Bons de livraison:</span>
+                  <span className="font-medium">{deliveryNotes.length}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Lignes:</span>
+                  <span className="font-medium">{items.length}</span>
+                </div>
+                <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
+                  <span className="text-gray-600">Total HT:</span>
+                  <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                </div>
+                {totals.par_taux.map(row => (
+                  <div key={row.taux_tva} className="flex justify-between text-sm">
+                    <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                    <span className="font-medium">{formatPrice(row.montant_tva)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
+                  <span>Total TTC:</span>
+                  <span>{formatPrice(totals.total_ttc)}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Print-only content */}
+      <div
+        className="hidden print:block fixed inset-0 bg-white px-8 pt-0 pb-8"
+        style={{ marginTop: "-28px" }}
+      >
+        {/* Company Header */}
+        <div className="grid grid-cols-3 items-center border-b-2 border-gray-800 py-1 mb-2">
+          <div className="flex justify-start">
+            <img
+              src="https://pub-237d2da54b564d23aaa1c3826e1d4e65.r2.dev/ANTURGOOD/logo2.png"
+              alt="ANTURGOOD Logo"
+              className="h-32 w-auto"
+            />
+          </div>
+
+          <div className="text-center">
+            <p className="text-lg text-gray-900 font-bold">FACTURE</p>
+          </div>
+
+          <div></div>
+        </div>
+
+        {/* Invoice Info */}
+        <div className="mb-8">
+          <div className="grid grid-cols-2 gap-8">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Informations Facture</h3>
+              <div className="space-y-2">
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">N° Facture:</span>
+                  <span className="text-gray-900">{facture.numero_facture}</span>
+                </div>
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Date:</span>
+                  <span className="text-gray-900">{new Date(facture.date_facture).toLocaleDateString('fr-FR')}</span>
+                </div>
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">BL:</span>
+                  <span className="text-gray-900">{deliveryNotes.map(note => note.numero_livraison).join(', ')}</span>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Client</h3>
+              <div className="space-y-2">
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Société:</span>
+                  <span className="text-gray-900">{facture.client.societe}</span>
+                </div>
+                <div className="flex">
+                  <span className="font-medium text-gray-700 w-32">Contact:</span>
+                  <span className="text-gray-900">{facture.client.prenom} {facture.client.nom}</span>
+                </div>
+                {facture.client.ice && (
+                  <div className="flex">
+                    <span className="font-medium text-gray-700 w-32">ICE:</span>
+                    <span className="text-gray-900">{facture.client.ice}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Lines Table */}
+        <div className="mb-8">
+          <table className="w-full border-collapse border border-gray-800">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border border-gray-800 px-4 py-2 text-left font-semibold">BL</th>
+                <th className="border border-gray-800 px-4 py-2 text-left font-semibold">Désignation</th>
+                <th className="border border-gray-800 px-4 py-2 text-center font-semibold">Quantité</th>
+                <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Prix Unitaire</th>
+                <th className="border border-gray-800 px-4 py-2 text-center font-semibold">TVA</th>
+                <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Total HT</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id}>
+                  <td className="border border-gray-800 px-4 py-2">{getDeliveryNumber(item.livraison_id)}</td>
+                  <td className="border border-gray-800 px-4 py-2">{item.designation}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-center">{formatQuantity(item)}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-right">{formatPrice(item.prix_unitaire)}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-center">{formatTvaRate(item.taux_tva)}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-right font-medium">{formatPrice(item.total_ligne)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td className="border border-gray-800 px-4 py-2 font-semibold" colSpan={5}>TOTAL HT</td>
+                <td className="border border-gray-800 px-4 py-2 text-right font-semibold">
+                  {formatPrice(totals.total_ht)}
+                </td>
+              </tr>
+              {totals.par_taux.map(row => (
+                <tr key={row.taux_tva}>
+                  <td className="border border-gray-800 px-4 py-2" colSpan={5}>
+                    TVA {formatTvaRate(row.taux_tva)} sur {formatPrice(row.base_ht)}
+                  </td>
+                  <td className="border border-gray-800 px-4 py-2 text-right">
+                    {formatPrice(row.montant_tva)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-100">
+                <td className="border border-gray-800 px-4 py-3 font-bold" colSpan={5}>TOTAL TTC</td>
+                <td className="border border-gray-800 px-4 py-3 text-right font-bold text-lg">
+                  {formatPrice(totals.total_ttc)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {/* Notes */}
+        {formData.notes && (
+          <div className="mb-8">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Notes</h3>
+            <div className="border border-gray-300 p-4 rounded">
+              <p className="text-gray-900">{formData.notes}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="absolute bottom-8 left-8 right-8 text-center text-xs text-gray-500 border-t border-gray-300 pt-4">
+          <p>ANTURGOOD - Système de gestion wget.ma | Document généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')}</p>
+        </div>
+      </div>
+
+      {/* Print Styles */}
+      <style>{`
+        @media print {
+          @page {
+            margin: 15px;
+            size: A4 portrait;
+          }
+
+          /* Hide everything by default */
+          body * {
+            visibility: hidden;
+          }
+
+          /* Show only the print content */
+          .print\\:block,
+          .print\\:block * {
+            visibility: visible;
+          }
+
+          /* Reset layout for print content */
+          .print\\:block {
+            position: absolute !important;
+            left: 0 !important;
+            top: 0 !important;
+            width: 100% !important;
+            height: 100% !important;
+            margin: 0 !important;
+            padding: 0 !important;
+            background: white !important;
+            color: black !important;
+            font-size: 12pt !important;
+            line-height: 1.4 !important;
+          }
+
+          /* Table styling for print */
+          table {
+            border-collapse: collapse !important;
+            width: 100% !important;
+          }
+
+          th, td {
+            border: 1px solid #000 !important;
+            padding: 8px !important;
+          }
+
+          /* Hide any remaining UI elements */
+          nav, aside, button, .print\\:hidden {
+            display: none !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default FactureEdit;
@@ -0,0 +1,531 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Plus, Search, Receipt, Eye, Download, X, CheckCircle, Clock, FileText } from 'lucide-react';
+import { listInvoices } from '../lib/invoicesRepo';
+import { InvoiceListItem } from '../lib/domain';
+import { useQueryNumber, useQueryState, useQueryStates } from '../lib/useQueryState';
+import { useRankedSearch } from '../lib/useRankedSearch';
+
+interface FacturesListProps {
+  onNavigateToAdd: () => void;
+  onNavigateToEdit: (facture: InvoiceListItem) => void;
+}
+
+const FacturesList: React.FC<FacturesListProps> = ({ onNavigateToAdd, onNavigateToEdit }) => {
+  const [factures, setFactures] = useState<InvoiceListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [itemsPerPage, setItemsPerPage] = useQueryNumber('parPage', 20);
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
+  const [selectedStatus, setSelectedStatus] = useQueryState('statut');
+
+  // Fetch invoices from Supabase
+  const fetchFactures = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setFactures(await listInvoices());
+    } catch (err) {
+      console.error('Error fetching invoices:', err);
+      setError('Erreur lors du chargement des factures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load invoices on component mount
+  React.useEffect(() => {
+    fetchFactures();
+  }, []);
+
+  const handleDateFilterChange = (field: 'dateFrom' | 'dateTo', value: string) => {
+    setDateFilters(prev => ({
+      ...prev,
+      [field]: value
+    }));
+    setCurrentPage(1);
+  };
+
+  const clearAllFilters = () => {
+    setDateFilters({ dateFrom: '', dateTo: '' });
+    setSelectedStatus('');
+    setCurrentPage(1);
+  };
+
+  const hasActiveFilters = () => {
+    return dateFilters.dateFrom || dateFilters.dateTo || selectedStatus;
+  };
+
+  // Filter by date range
+  const filterByDateRange = (date: string) => {
+    if (!dateFilters.dateFrom && !dateFilters.dateTo) return true;
+
+    const fromMatch = !dateFilters.dateFrom || date >= dateFilters.dateFrom;
+    const toMatch = !dateFilters.dateTo || date <= dateFilters.dateTo;
+
+    return fromMatch && toMatch;
+  };
+
+  // Invoices matching the search by number, client or invoiced BL, most relevant first
+  const searchedFactures = useRankedSearch('factures', factures, searchTerm);
+
+  const filteredFactures = searchedFactures.filter(facture => {
+    const dateMatch = filterByDateRange(facture.date_facture);
+    const statusMatch = !selectedStatus || facture.statut === selectedStatus;
+
+    return dateMatch && statusMatch;
+  });
+
+  // Calculate pagination
+  const totalPages = Math.ceil(filteredFactures.length / itemsPerPage);
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const endIndex = startIndex + itemsPerPage;
+  const currentFactures = filteredFactures.slice(startIndex, endIndex);
+
+  const handlePrevPage = () => {
+    if (currentPage > 1) {
+      setCurrentPage(currentPage - 1);
+    }
+  };
+
+  const handleNextPage = () => {
+    if (currentPage < totalPages) {
+      setCurrentPage(currentPage + 1);
+    }
+  };
+
+  const handleItemsPerPageChange = (newItemsPerPage: number) => {
+    setItemsPerPage(newItemsPerPage);
+    setCurrentPage(1); // Reset to first page when changing items per page
+  };
+
+  // Calculate totals for filtered data, cancelled invoices excluded
+  const calculateTotals = () => {
+    const activeFactures = filteredFactures.filter(f => f.statut !== 'annulee');
+    const paidFactures = activeFactures.filter(f => f.statut === 'payee');
+    const issuedFactures = activeFactures.filter(f => f.statut === 'emise');
+    const draftFactures = activeFactures.filter(f => f.statut === 'brouillon');
+
+    return {
+      totalAmount: activeFactures.reduce((sum, f) => sum + f.total_ht, 0),
+      paidTotal: paidFactures.reduce((sum, f) => sum + f.total_ht, 0),
+      issuedTotal: issuedFactures.reduce((sum, f) => sum + f.total_ht, 0),
+      count: activeFactures.length,
+      paidCount: paidFactures.length,
+      issuedCount: issuedFactures.length,
+      draftCount: draftFactures.length
+    };
+  };
+
+  const totals = calculateTotals();
+
+  const getStatusLabel = (status: string) => {
+    const statusLabel = {
+      brouillon: 'Brouillon',
+      emise: 'Émise',
+      payee: 'Payée',
+      annulee: 'Annulée'
+    };
+    return statusLabel[status as keyof typeof statusLabel] || status;
+  };
+
+  const exportToCSV = () => {
+    const csvHeaders = [
+      'Numéro Facture',
+      'Date',
+      'Client',
+      'Bons de livraison',
+      'Statut',
+      'Total (DH)'
+    ];
+
+    const csvData = filteredFactures.map(facture => [
+      facture.numero_facture,
+      new Date(facture.date_facture).toLocaleDateString('fr-FR'),
+      facture.client.societe || `${facture.client.prenom} ${facture.client.nom}`,
+      facture.livraisons.map(l => l.bon_livraison.numero_livraison).join(' '),
+      getStatusLabel(facture.statut),
+      facture.total_ht.toFixed(2)
+    ]);
+
+    const csvContent = [csvHeaders, ...csvData]
+      .map(row => row.map(cell => `"${cell}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `factures_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const getStatusBadge = (status: string) => {
+    const statusConfig = {
+      brouillon: 'bg-gray-100 text-gray-800',
+      emise: 'bg-blue-100 text-blue-800',
+      payee: 'bg-green-100 text-green-800',
+      annulee: 'bg-red-100 text-red-800'
+    };
+
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+        statusConfig[status as keyof typeof statusConfig] || statusConfig.brouillon
+      }`}>
+        {getStatusLabel(status)}
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement des factures...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 mb-4">{error}</p>
+          <button
+            onClick={fetchFactures}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg"
+          >
+            Réessayer
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Factures</h1>
+          <p className="text-gray-600 mt-1">Facturez les bons de livraison de vos clients</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={exportToCSV}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            Exporter CSV ({filteredFactures.length})
+          </button>
+          <button
+            onClick={onNavigateToAdd}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200 shadow-sm"
+          >
+            <Plus className="w-5 h-5" />
+            Créer une facture
+          </button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Total Facturé</p>
+              <p className="text-2xl font-bold text-gray-900">{totals.count}</p>
+              <p className="text-sm font-medium text-blue-600">{formatPrice(totals.totalAmount)}</p>
+            </div>
+            <Receipt className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Payées</p>
+              <p className="text-2xl font-bold text-green-600">{totals.paidCount}</p>
+              <p className="text-sm font-medium text-green-600">{formatPrice(totals.paidTotal)}</p>
+            </div>
+            <CheckCircle className="w-8 h-8 text-green-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Émises</p>
+              <p className="text-2xl font-bold text-blue-600">{totals.issuedCount}</p>
+              <p className="text-sm font-medium text-blue-600">{formatPrice(totals.issuedTotal)}</p>
+            </div>
+            <Clock className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Brouillons</p>
+              <p className="text-2xl font-bold text-gray-600">{totals.draftCount}</p>
+              <p className="text-sm font-medium text-gray-600">À émettre</p>
+            </div>
+            <FileText className="w-8 h-8 text-gray-600" />
+          </div>
+        </div>
+      </div>
+
+      {/* Search Bar */}
+      <div className="mb-4">
+        <div className="relative">
+          <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Rechercher par numéro, client ou bon de livraison..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Filter Controls */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Filtres avancés</h3>
+          {hasActiveFilters() && (
+            <button
+              onClick={clearAllFilters}
+              className="text-red-600 hover:text-red-700 text-sm flex items-center gap-1 transition-colors duration-200"
+            >
+              <X className="w-4 h-4" />
+              Effacer tous les filtres
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="date-from" className="block text-sm font-medium text-gray-700 mb-1">
+              Date début
+            </label>
+            <input
+              type="date"
+              id="date-from"
+              value={dateFilters.dateFrom}
+              onChange={(e) => handleDateFilterChange('dateFrom', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="date-to" className="block text-sm font-medium text-gray-700 mb-1">
+              Date fin
+            </label>
+            <input
+              type="date"
+              id="date-to"
+              value={dateFilters.dateTo}
+              onChange={(e) => handleDateFilterChange('dateTo', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="status-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Statut
+            </label>
+            <select
+              id="status-filter"
+              value={selectedStatus}
+              onChange={(e) => {
+                setSelectedStatus(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            >
+              <option value="">Tous les statuts</option>
+              <option value="brouillon">Brouillon</option>
+              <option value="emise">Émise</option>
+              <option value="payee">Payée</option>
+              <option value="annulee">Annulée</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Numéro
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Client
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Bons de livraison
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {currentFactures.length > 0 ? (
+                currentFactures.map((facture) => (
+                  <tr
+                    key={facture.id}
+                    onClick={() => onNavigateToEdit(facture)}
+                    className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
+                      {facture.numero_facture}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {facture.client.societe}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {facture.client.prenom} {facture.client.nom}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500 font-mono">
+                      {facture.livraisons.length > 0
+                        ? facture.livraisons.map(l => l.bon_livraison.numero_livraison).join(', ')
+                        : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(facture.date_facture).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(facture.statut)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatPrice(facture.total_ht)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onNavigateToEdit(facture);
+                        }}
+                        className="text-blue-600 hover:text-blue-900 flex items-center gap-1"
+                      >
+                        <Eye className="w-4 h-4" />
+                        Voir
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                    <div className="flex flex-col items-center">
+                      <Receipt className="w-8 h-8 text-gray-300 mb-2" />
+                      <p>{searchTerm ? 'Aucune facture trouvée' : 'Aucune facture disponible'}</p>
+                      {!searchTerm && (
+                        <button
+                          onClick={onNavigateToAdd}
+                          className="mt-2 text-blue-600 hover:text-blue-700 text-sm"
+                        >
+                          Créer votre première facture
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-6 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="text-sm text-gray-600">
+              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredFactures.length)} sur {filteredFactures.length} factures
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">Éléments par page:</span>
+              <select
+                value={itemsPerPage}
+                onChange={(e) => handleItemsPerPageChange(Number(e.target.value))}
+                className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value={20}>20</option>
+                <option value={60}>60</option>
+                <option value={100}>100</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handlePrevPage}
+              disabled={currentPage === 1}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+
+            {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+              <button
+                key={page}
+                onClick={() => setCurrentPage(page)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                  currentPage === page
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {page}
+              </button>
+            ))}
+
+            <button
+              onClick={handleNextPage}
+              disabled={currentPage === totalPages}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FacturesList;
@@ -13,7 +13,8 @@ const FournisseurAdd: React.FC<FournisseurAddProps> = ({ onNavigateBack }) => {
     societe: '',
     ice: '',
     email: '',
-    telephone: ''
+    telephone: '',
+    delai_paiement: ''
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -95,6 +96,10 @@ const FournisseurAdd: React.FC<FournisseurAddProps> = ({ onNavigateBack }) => {
       newErrors.telephone = 'Format de téléphone marocain invalide';
     }
 
+    if (formData.delai_paiement !== '' && (!Number.isInteger(Number(formData.delai_paiement)) || Number(formData.delai_paiement) < 0)) {
+      newErrors.delai_paiement = 'Le délai de paiement doit être un nombre de jours';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -120,7 +125,8 @@ const FournisseurAdd: React.FC<FournisseurAddProps> = ({ onNavigateBack }) => {
             societe: formData.societe.trim(),
             ice: formData.ice.trim(),
             email: formData.email.trim(),
-            telephone: formData.telephone.trim()
+            telephone: formData.telephone.trim(),
+            delai_paiement: formData.delai_paiement === '' ? null : Number(formData.delai_paiement)
           }
         ])
         .select();
@@ -138,7 +144,8 @@ const FournisseurAdd: React.FC<FournisseurAddProps> = ({ onNavigateBack }) => {
         societe: '',
         ice: '',
         email: '',
-        telephone: ''
+        telephone: '',
+        delai_paiement: ''
       });
 
       onNavigateBack();
@@ -335,6 +342,30 @@ const FournisseurAdd: React.FC<FournisseurAddProps> = ({ onNavigateBack }) => {
               </div>
             </div>
 
+            {/* Payment Terms */}
+            <div>
+              <label htmlFor="delai_paiement" className="block text-sm font-semibold text-gray-900 mb-2">
+                Délai de paiement (jours)
+              </label>
+              <input
+                type="number"
+                id="delai_paiement"
+                name="delai_paiement"
+                step="1"
+                min="0"
+                value={formData.delai_paiement}
+                onChange={handleInputChange}
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
+                  errors.delai_paiement ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="Paiement à la commande"
+              />
+              {errors.delai_paiement && (
+                <p className="text-red-500 text-xs mt-1">{errors.delai_paiement}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">Un BC est à payer ce nombre de jours après sa date de commande.</p>
+            </div>
+
             {/* Submit Button */}
             <div className="pt-6 border-t border-gray-200">
               <div className="flex justify-end gap-4">
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Building2, FileText, Calendar, MapPin, TrendingUp, ShoppingBag, ChevronLeft, ChevronRight } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { errorMessage } from '../lib/dbErrors';
+import { createSupplierPayments } from '../lib/paymentsRepo';
 
 interface Fournisseur {
   id: string;
@@ -12,6 +14,10 @@ interface Fournisseur {
   email: string;
   telephone: string;
   created_at: string;
+  total_commandes: number;
+  total_retours: number;
+  total_paiements: number;
+  current_debt: number;
   available_credit: number;
 }
 
@@ -21,6 +27,7 @@ interface PurchaseOrder {
   date_commande: string;
   statut: string;
   total_ht: number;
+  total_ttc: number;
   notes: string | null;
   items: PurchaseOrderItem[];
 }
@@ -133,39 +140,46 @@ const FournisseurDetails: React.FC<FournisseurDetailsProps> = ({
 
       setPurchaseOrders(orders || []);
 
-      // Fetch payments for this supplier
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('paiements_fournisseurs')
-        .select('*')
-        .eq('fournisseur_id', fournisseur.id)
-        .order('date_paiement', { ascending: false });
-
-      if (paymentsError) {
-        throw paymentsError;
+      // Fetch payments and the balance kept up to date by the database
+      const [paymentsResult, balanceResult] = await Promise.all([
+        supabase
+          .from('paiements_fournisseurs')
+          .select('*')
+          .eq('fournisseur_id', fournisseur.id)
+          .order('date_paiement', { ascending: false }),
+        supabase
+          .from('fournisseurs')
+          .select('total_commandes, total_retours, total_paiements, current_debt, available_credit')
+          .eq('id', fournisseur.id)
+          .single()
+      ]);
+
+      if (paymentsResult.error) {
+        throw paymentsResult.error;
+      }
+      if (balanceResult.error) {
+        throw balanceResult.error;
       }
 
-      setPayments(paymentsData || []);
+      setPayments(paymentsResult.data || []);
+      const balance = balanceResult.data;
+      setFournisseur(prev => ({ ...prev, ...balance }));
 
       // Calculate statistics
       const ordersData = orders || [];
-      const paymentsTotal = (paymentsData || []).reduce((sum, payment) => sum + payment.montant, 0);
       
       const totalOrders = ordersData.length;
       const confirmedOrders = ordersData.filter(o => o.statut === 'confirmee').length;
       const deliveredOrders = ordersData.filter(o => o.statut === 'livree').length;
-      const totalAmount = ordersData.reduce((sum, order) => sum + (order.total_ht || 0), 0);
-      const ourDebt = totalAmount - paymentsTotal;
-      const currentDebt = Math.max(0, ourDebt); // Amount we owe to supplier
-      const availableCredit = Math.max(0, -ourDebt); // Advance supplier has received
       
       setStats({
         totalOrders,
         confirmedOrders,
         deliveredOrders,
-        totalAmount,
-        totalPayments: paymentsTotal,
-        currentDebt,
-        availableCredit
+        totalAmount: balance.total_commandes,
+        totalPayments: balance.total_paiements,
+        currentDebt: balance.current_debt,
+        availableCredit: balance.available_credit
       });
 
     } catch (err: any) {
@@ -196,24 +210,15 @@ const FournisseurDetails: React.FC<FournisseurDetailsProps> = ({
     setError(null);
 
     try {
-      const { data, error } = await supabase
-        .from('paiements_fournisseurs')
-        .insert([
-          {
-            fournisseur_id: fournisseur.id,
-            montant: Number(paymentForm.montant),
-            mode_paiement: paymentForm.mode_paiement,
-            reference: paymentForm.reference.trim() || null,
-            issuer: paymentForm.issuer.trim() || null,
-            date_paiement: paymentForm.date_paiement,
-            notes: paymentForm.notes.trim() || null
-          }
-        ])
-        .select();
-
-      if (error) {
-        throw error;
-      }
+      const data = await createSupplierPayments([{
+        fournisseur_id: fournisseur.id,
+        montant: Number(paymentForm.montant),
+        mode_paiement: paymentForm.mode_paiement,
+        reference: paymentForm.reference.trim() || null,
+        issuer: paymentForm.issuer.trim() || null,
+        date_paiement: paymentForm.date_paiement,
+        notes: paymentForm.notes.trim() || null
+      }]);
 
       console.log('Payment added successfully:', data);
       
@@ -235,9 +240,9 @@ const FournisseurDetails: React.FC<FournisseurDetailsProps> = ({
       // Refresh data
       await fetchFournisseurData();
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error adding payment:', error);
-      setError('Erreur lors de l\'ajout du paiement. Veuillez réessayer.');
+      setError(errorMessage(error, 'Erreur lors de l\'ajout du paiement. Veuillez réessayer.'));
     } finally {
       setIsSubmittingPayment(false);
     }
@@ -338,7 +343,8 @@ const FournisseurDetails: React.FC<FournisseurDetailsProps> = ({
   const calculateFilteredStats = () => {
     if (!hasActiveFilters()) return stats;
     
-    const filteredOrdersAmount = filteredPurchaseOrders.reduce((sum, order) => sum + (order.total_ht || 0), 0);
+    // TTC, like the supplier balance the payments settle
+    const filteredOrdersAmount = filteredPurchaseOrders.reduce((sum, order) => sum + (order.total_ttc || 0), 0);
     const filteredPaymentsAmount = filteredPayments.reduce((sum, payment) => sum + payment.montant, 0);
     const filteredOurDebt = filteredOrdersAmount - filteredPaymentsAmount;
     const filteredDebt = Math.max(0, filteredOurDebt);
@@ -369,6 +375,7 @@ const FournisseurDetails: React.FC<FournisseurDetailsProps> = ({
       brouillon: 'bg-gray-100 text-gray-800',
       envoyee: 'bg-blue-100 text-blue-800',
       confirmee: 'bg-green-100 text-green-800',
+      partiellement_livree: 'bg-orange-100 text-orange-800',
       livree: 'bg-purple-100 text-purple-800',
       annulee: 'bg-red-100 text-red-800'
     };
@@ -377,6 +384,7 @@ const FournisseurDetails: React.FC<FournisseurDetailsProps> = ({
       brouillon: 'Brouillon',
       envoyee: 'Envoyée',
       confirmee: 'Confirmée',
+      partiellement_livree: 'Partiellement livrée',
       livree: 'Livrée',
       annulee: 'Annulée'
     };
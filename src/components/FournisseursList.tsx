@@ -11,9 +11,13 @@ import {
   TrendingUp,
   DollarSign,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  CalendarClock
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useQueryNumber, useQueryState, useQueryStates } from '../lib/useQueryState';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import Highlight from './Highlight';
 
 interface Fournisseur {
   id: string;
@@ -35,20 +39,21 @@ interface FournisseursListProps {
   onNavigateToAdd: () => void;
   onNavigateToEdit: (fournisseur: Fournisseur) => void;
   onNavigateToDetails: (fournisseur: Fournisseur) => void;
+  onNavigateToPaymentPlanning: () => void;
 }
 
-const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, onNavigateToEdit, onNavigateToDetails }) => {
+const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, onNavigateToEdit, onNavigateToDetails, onNavigateToPaymentPlanning }) => {
   const [fournisseurs, setFournisseurs] = useState<Fournisseur[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [itemsPerPage, setItemsPerPage] = useQueryNumber('parPage', 20);
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
 
   // Fetch fournisseurs from Supabase
   const fetchFournisseurs = async () => {
@@ -56,6 +61,7 @@ const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, on
       setLoading(true);
       setError(null);
 
+      // Balances are kept up to date by the database (refresh_supplier_balance)
       const { data, error: fetchError } = await supabase
         .from('fournisseurs')
         .select(`
@@ -67,62 +73,23 @@ const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, on
           ice,
           email,
           telephone,
+          total_commandes,
+          total_paiements,
+          current_debt,
+          available_credit,
           created_at,
           updated_at
         `)
+        // Highest amounts owed first, then highest advances
+        .order('current_debt', { ascending: false })
+        .order('available_credit', { ascending: false })
         .order('societe', { ascending: true });
 
       if (fetchError) {
         throw fetchError;
       }
 
-      const fournisseursWithFinances = await Promise.all(
-        (data || []).map(async (fournisseur) => {
-          // Get total orders amount (excluding cancelled orders)
-          const { data: ordersData, error: ordersError } = await supabase
-            .from('bon_de_commande')
-            .select('total_ht')
-            .eq('fournisseur_id', fournisseur.id)
-            .neq('statut', 'annulee'); // Exclude cancelled orders
-
-          if (ordersError) {
-            console.error('Error fetching orders for supplier:', fournisseur.id, ordersError);
-          }
-
-          // Get total payments amount
-          const { data: paymentsData, error: paymentsError } = await supabase
-            .from('paiements_fournisseurs')
-            .select('montant')
-            .eq('fournisseur_id', fournisseur.id);
-
-          if (paymentsError) {
-            console.error('Error fetching payments for supplier:', fournisseur.id, paymentsError);
-          }
-
-          const totalCommandes = (ordersData || []).reduce((sum, order) => sum + (order.total_ht || 0), 0);
-          const totalPaiements = (paymentsData || []).reduce((sum, payment) => sum + (payment.montant || 0), 0);
-          const ourDebt = totalCommandes - totalPaiements;
-          const currentDebt = Math.max(0, ourDebt); // Amount we owe to supplier
-          const availableCredit = Math.max(0, -ourDebt); // Advance supplier has received
-
-          return {
-            ...fournisseur,
-            total_commandes: totalCommandes,
-            total_paiements: totalPaiements,
-            current_debt: currentDebt,
-            available_credit: availableCredit
-          };
-        })
-      );
-
-      // Sort by debt descending (highest amounts owed first), then by available credit descending
-      fournisseursWithFinances.sort((a, b) => {
-        const debtDiff = (b.current_debt || 0) - (a.current_debt || 0);
-        if (debtDiff !== 0) return debtDiff;
-        return (b.available_credit || 0) - (a.available_credit || 0);
-      });
-      
-      setFournisseurs(fournisseursWithFinances);
+      setFournisseurs(data || []);
     } catch (err: any) {
       console.error('Error fetching fournisseurs:', err);
       setError('Erreur lors du chargement des fournisseurs');
@@ -165,14 +132,8 @@ const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, on
     return fromMatch && toMatch;
   };
 
-  // Filter fournisseurs based on search term
-  const searchFilteredFournisseurs = fournisseurs.filter(fournisseur =>
-    fournisseur.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    fournisseur.prenom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    fournisseur.societe.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    fournisseur.numero_fournisseur.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    fournisseur.email.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Filter fournisseurs based on search term, most relevant first
+  const searchFilteredFournisseurs = useRankedSearch('fournisseurs', fournisseurs, searchTerm);
 
   // Apply date filter to search results
   const filteredFournisseurs = searchFilteredFournisseurs.filter(fournisseur => 
@@ -343,6 +304,13 @@ const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, on
             <Printer className="w-4 h-4" />
             Imprimer ({filteredFournisseurs.length})
           </button>
+          <button
+            onClick={onNavigateToPaymentPlanning}
+            className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
+          >
+            <CalendarClock className="w-4 h-4" />
+            Planifier les paiements
+          </button>
           <button
             onClick={onNavigateToAdd}
             className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
@@ -527,15 +495,15 @@ const FournisseursList: React.FC<FournisseursListProps> = ({ onNavigateToAdd, on
                     className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
                   >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
-                      {fournisseur.numero_fournisseur}
+                      <Highlight text={fournisseur.numero_fournisseur} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {fournisseur.prenom} {fournisseur.nom}
+                        <Highlight text={`${fournisseur.prenom} ${fournisseur.nom}`} search={searchTerm} />
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {fournisseur.societe}
+                      <Highlight text={fournisseur.societe} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {fournisseur.telephone}
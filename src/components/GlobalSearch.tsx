@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, Users, Building2, UserCheck, Package, FileText, Truck, DollarSign } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { routes } from '../lib/routes';
+import { Permission } from '../lib/permissions';
+import { SearchResult, SearchResultType } from '../lib/domain';
+import { globalSearch } from '../lib/searchRepo';
+import Highlight from './Highlight';
+
+interface GlobalSearchProps {
+  can: (permission: Permission) => boolean;
+}
+
+// Result groups, in display order, with the permission needed to open them
+const GROUPS: Array<{ type: SearchResultType; label: string; icon: typeof Users; permission: Permission }> = [
+  { type: 'client', label: 'Clients', icon: Users, permission: 'clients' },
+  { type: 'fournisseur', label: 'Fournisseurs', icon: Building2, permission: 'fournisseurs' },
+  { type: 'chauffeur', label: 'Chauffeurs', icon: UserCheck, permission: 'chauffeurs' },
+  { type: 'produit', label: 'Produits', icon: Package, permission: 'produits.voir' },
+  { type: 'bon_de_commande', label: 'Bons de commande', icon: FileText, permission: 'bonsDeCommande' },
+  { type: 'bon_de_livraison', label: 'Bons de livraison', icon: Truck, permission: 'bonsDeLivraison.voir' },
+  { type: 'paiement', label: 'Paiements', icon: DollarSign, permission: 'paiements.voir' }
+];
+
+// Search bar of the navbar, opened with Ctrl+K (⌘K on Mac) or "/"
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ can }) => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const requestRef = useRef(0);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+
+      if ((e.key === 'k' && (e.ctrlKey || e.metaKey)) || (e.key === '/' && !isTyping)) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Search after a short pause in the typing, dropping outdated answers
+  useEffect(() => {
+    const request = ++requestRef.current;
+
+    if (searchTerm.trim().length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const data = await globalSearch(searchTerm);
+        if (request !== requestRef.current) return;
+        setResults(data);
+        setActiveIndex(0);
+      } catch (err) {
+        if (request !== requestRef.current) return;
+        console.error('Error searching:', err);
+        setResults([]);
+      } finally {
+        if (request === requestRef.current) {
+          setLoading(false);
+        }
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const groups = GROUPS
+    .filter(group => can(group.permission))
+    .map(group => ({ ...group, results: results.filter(result => result.type === group.type) }))
+    .filter(group => group.results.length > 0);
+
+  // Results in display order, for the keyboard navigation
+  const visibleResults = groups.flatMap(group => group.results);
+
+  const resultPath = (result: SearchResult) => {
+    switch (result.type) {
+      case 'client':
+        return routes.clientDetails(result.id);
+      case 'fournisseur':
+        return routes.fournisseurDetails(result.id);
+      case 'chauffeur':
+        return routes.chauffeurDetails(result.id);
+      case 'produit':
+        return can('produits.gerer')
+          ? routes.produitEdit(result.id)
+          : `${routes.produits}?q=${encodeURIComponent(result.libelle)}`;
+      case 'bon_de_commande':
+        return routes.bonDeCommandeEdit(result.id);
+      case 'bon_de_livraison':
+        return routes.bonDeLivraisonEdit(result.id);
+      case 'paiement':
+        // Payments have no page of their own: open the list on them
+        return `${routes.paiements}?q=${encodeURIComponent(result.libelle)}`;
+    }
+  };
+
+  const openResult = (result: SearchResult) => {
+    navigate(resultPath(result));
+    setSearchTerm('');
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    } else if (e.key === 'ArrowDown' && visibleResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % visibleResults.length);
+    } else if (e.key === 'ArrowUp' && visibleResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + visibleResults.length) % visibleResults.length);
+    } else if (e.key === 'Enter' && visibleResults[activeIndex]) {
+      e.preventDefault();
+      openResult(visibleResults[activeIndex]);
+    }
+  };
+
+  const showDropdown = isOpen && searchTerm.trim().length >= 2;
+
+  return (
+    <div className="relative flex-1 max-w-xl mx-8">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={searchTerm}
+          onChange={(e) => {
+            setSearchTerm(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleInputKeyDown}
+          placeholder="Rechercher un client, un BL, un chèque..."
+          className="w-full pl-10 pr-16 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none text-sm"
+        />
+        <kbd className="absolute right-3 top-1/2 transform -translate-y-1/2 px-1.5 py-0.5 text-xs text-gray-500 bg-gray-100 border border-gray-200 rounded">
+          Ctrl K
+        </kbd>
+      </div>
+
+      {showDropdown && (
+        <div
+          // Keep the focus in the input so that a click opens the result
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-50 mt-2 w-full bg-white rounded-lg shadow-lg border border-gray-200 max-h-[32rem] overflow-y-auto"
+        >
+          {groups.length > 0 ? (
+            groups.map(group => {
+              const IconComponent = group.icon;
+
+              return (
+                <div key={group.type} className="py-2 border-b border-gray-100 last:border-b-0">
+                  <p className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                    {group.label}
+                  </p>
+                  {group.results.map(result => {
+                    const isActive = visibleResults[activeIndex] === result;
+
+                    return (
+                      <button
+                        key={`${result.type}-${result.id}`}
+                        type="button"
+                        onClick={() => openResult(result)}
+                        onMouseEnter={() => setActiveIndex(visibleResults.indexOf(result))}
+                        className={`w-full text-left flex items-center gap-3 px-4 py-2 transition-colors duration-200 ${
+                          isActive ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <IconComponent className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            <Highlight text={result.libelle} search={searchTerm} />
+                          </p>
+                          {result.detail && (
+                            <p className="text-xs text-gray-500 truncate">
+                              <Highlight text={result.detail} search={searchTerm} />
+                            </p>
+                          )}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          ) : (
+            <p className="px-4 py-3 text-sm text-gray-500">
+              {loading ? 'Recherche...' : 'Aucun résultat'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
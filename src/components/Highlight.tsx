@@ -0,0 +1,32 @@
+import React from 'react';
+import { highlightRanges } from '../lib/search';
+
+interface HighlightProps {
+  text: string | null | undefined;
+  search: string;
+}
+
+// Text with the words of the search highlighted, accents and case aside
+const Highlight: React.FC<HighlightProps> = ({ text, search }) => {
+  if (!text) return null;
+
+  const ranges = search.trim() ? highlightRanges(text, search) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
+export default Highlight;
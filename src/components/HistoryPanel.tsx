@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { History, ChevronDown, ChevronRight } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface AuditEntry {
+  id: number;
+  table_name: string;
+  record_id: string;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  user_email: string | null;
+  created_at: string;
+}
+
+interface HistoryPanelProps {
+  // Changes of this record and of the rows it owns (lines, payments...)
+  recordId: string;
+  className?: string;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  clients: 'Client',
+  fournisseurs: 'Fournisseur',
+  produits: 'Produit',
+  chauffeurs: 'Chauffeur',
+  devis: 'Devis',
+  devis_items: 'Ligne de devis',
+  bon_de_commande: 'Bon de commande',
+  bon_de_commande_items: 'Ligne de commande',
+  bon_de_livraison: 'Bon de livraison',
+  bon_de_livraison_items: 'Ligne de livraison',
+  factures: 'Facture',
+  facture_items: 'Ligne de facture',
+  facture_livraisons: 'BL facturé',
+  avoirs: 'Avoir',
+  avoir_items: 'Ligne d\'avoir',
+  retours_fournisseurs: 'Retour fournisseur',
+  paiements_clients: 'Paiement client',
+  paiements_fournisseurs: 'Paiement fournisseur',
+  paiements_chauffeurs: 'Paiement chauffeur',
+  salaires_chauffeurs: 'Salaire chauffeur',
+  tarifs_transport: 'Tarif transport',
+  depots: 'Dépôt',
+  derogations_credit: 'Dérogation crédit',
+  parametres: 'Paramètres',
+  profiles: 'Utilisateur'
+};
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  INSERT: 'Création',
+  UPDATE: 'Modification',
+  DELETE: 'Suppression'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  montant: 'Montant',
+  mode_paiement: 'Mode de paiement',
+  reference: 'Référence',
+  issuer: 'Émetteur',
+  date_paiement: 'Date de paiement',
+  statut: 'Statut',
+  notes: 'Notes',
+  prix_unitaire: 'Prix unitaire',
+  quantite: 'Quantité',
+  quantite_pieces: 'Pièces',
+  quantite_unitaire: 'Quantité unitaire',
+  quantite_livree: 'Quantité livrée',
+  quantite_commandee: 'Quantité commandée',
+  taux_tva: 'TVA',
+  total_ht: 'Total HT',
+  total_tva: 'Total TVA',
+  total_ttc: 'Total TTC',
+  montant_paye: 'Montant payé',
+  statut_paiement: 'Paiement',
+  immatricule_utilise: 'Immatricule',
+  client_id: 'Client',
+  fournisseur_id: 'Fournisseur',
+  chauffeur_id: 'Chauffeur',
+  commande_item_id: 'Ligne de commande',
+  devis_id: 'Devis',
+  date_devis: 'Date du devis',
+  date_validite: 'Date de validité',
+  date_commande: 'Date de commande',
+  date_livraison: 'Date de livraison',
+  date_facture: 'Date de facture',
+  date_avoir: 'Date de l\'avoir',
+  date_retour: 'Date du retour',
+  motif: 'Motif',
+  livraison_item_id: 'Ligne de livraison',
+  banque: 'Banque',
+  date_echeance: 'Échéance',
+  statut_instrument: 'Statut de l\'effet/chèque',
+  date_rejet: 'Date de rejet',
+  motif_rejet: 'Motif de rejet',
+  tarif_voyage: 'Tarif par voyage',
+  salaire_mensuel: 'Salaire mensuel',
+  montant_chauffeur: 'Coût transport',
+  periode: 'Période',
+  zone: 'Zone',
+  base: 'Calcul du tarif',
+  unite: 'Unité',
+  depot_id: 'Dépôt',
+  cout_moyen: 'Coût moyen pondéré',
+  plafond_credit: 'Plafond de crédit',
+  delai_paiement: 'Délai de paiement',
+  controle_credit: 'Contrôle du crédit',
+  depassement: 'Dépassement',
+  montant_en_retard: 'Montant en retard'
+};
+
+// Bookkeeping columns that change with every write, and the searched text
+// the database derives from the others
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at', 'created_by', 'updated_by', 'total_ligne', 'recherche'];
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const getChanges = (entry: AuditEntry) => {
+  const before = entry.old_data || {};
+  const after = entry.new_data || {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => !IGNORED_FIELDS.includes(key));
+
+  if (entry.action === 'UPDATE') {
+    return keys
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map(key => ({ key, before: before[key], after: after[key] }));
+  }
+
+  // Creation and deletion: only the labelled fields, to keep the entry short
+  const row = entry.action === 'INSERT' ? after : before;
+  return keys
+    .filter(key => FIELD_LABELS[key] && row[key] !== null && row[key] !== undefined)
+    .map(key => ({ key, before: undefined, after: row[key] }));
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ recordId, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('historique')
+        .select('id, table_name, record_id, action, old_data, new_data, user_email, created_at')
+        .or(`record_id.eq.${recordId},parent_id.eq.${recordId}`)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (fetchError) throw fetchError;
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Error fetching history:', err);
+      setError('Erreur lors du chargement de l\'historique');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      fetchHistory();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 print:hidden ${className}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between p-6 text-left"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Historique
+        </h3>
+        {isOpen ? <ChevronDown className="w-5 h-5 text-gray-500" /> : <ChevronRight className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6">
+          {loading ? (
+            <p className="text-sm text-gray-500">Chargement de l'historique...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucune modification enregistrée</p>
+          ) : (
+            <ul className="space-y-4 max-h-96 overflow-y-auto">
+              {entries.map(entry => {
+                const changes = getChanges(entry);
+                const isOwnRecord = entry.record_id === recordId;
+
+                return (
+                  <li key={entry.id} className="border-l-2 border-gray-200 pl-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm font-medium ${
+                        entry.action === 'DELETE' ? 'text-red-700' : entry.action === 'INSERT' ? 'text-green-700' : 'text-gray-900'
+                      }`}>
+                        {ACTION_LABELS[entry.action]}
+                        {!isOwnRecord && ` · ${TABLE_LABELS[entry.table_name] || entry.table_name}`}
+                      </span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">{entry.user_email || 'Système'}</p>
+                    {changes.length > 0 && (
+                      <ul className="mt-1 space-y-0.5">
+                        {changes.map(change => (
+                          <li key={change.key} className="text-xs text-gray-700">
+                            <span className="font-medium">{FIELD_LABELS[change.key] || change.key}:</span>{' '}
+                            {entry.action === 'UPDATE' ? (
+                              <>
+                                <span className="line-through text-gray-400">{formatValue(change.before)}</span>
+                                {' → '}
+                                <span>{formatValue(change.after)}</span>
+                              </>
+                            ) : (
+                              formatValue(change.after)
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
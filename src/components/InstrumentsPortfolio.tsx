@@ -0,0 +1,539 @@
+import React, { useState } from 'react';
+import { AlertCircle, Calendar, CheckCircle, Clock, X, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useQueryState, useQueryStates } from '../lib/useQueryState';
+import { useCurrentUser } from '../lib/currentUser';
+import {
+  INSTRUMENT_STATUS_LABELS,
+  INSTRUMENT_STATUS_STYLES,
+  INSTRUMENT_TRANSITIONS,
+  InstrumentStatus
+} from '../lib/paymentInstruments';
+import { updateInstrument } from '../lib/paymentsRepo';
+
+interface Instrument {
+  id: string;
+  numero_paiement: string | null;
+  montant: number;
+  mode_paiement: 'cheque' | 'effet';
+  reference: string | null;
+  issuer: string | null;
+  banque: string | null;
+  date_paiement: string;
+  date_echeance: string;
+  statut_instrument: InstrumentStatus;
+  date_rejet: string | null;
+  motif_rejet: string | null;
+  client: {
+    id: string;
+    nom: string;
+    prenom: string;
+    societe: string;
+  };
+}
+
+interface InstrumentsPortfolioProps {
+  // Called after a status change so the payments list can refresh too
+  onChanged: () => void;
+}
+
+const ACTION_LABELS: Record<InstrumentStatus, string> = {
+  en_portefeuille: 'Remettre en portefeuille',
+  remis: 'Remettre à l\'encaissement',
+  encaisse: 'Encaissé',
+  impaye: 'Impayé'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Monday to Sunday of the current week
+const currentWeek = () => {
+  const start = new Date();
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  return {
+    start: start.toISOString().split('T')[0],
+    end: end.toISOString().split('T')[0]
+  };
+};
+
+const InstrumentsPortfolio: React.FC<InstrumentsPortfolioProps> = ({ onChanged }) => {
+  const { can } = useCurrentUser();
+  const canEditPayments = can('paiements.modifier');
+  const [instruments, setInstruments] = useState<Instrument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [echeanceFilters, setEcheanceFilters] = useQueryStates(
+    { from: '', to: '' },
+    { from: 'echeanceDu', to: 'echeanceAu' }
+  );
+  const [selectedStatus, setSelectedStatus] = useQueryState('statutEffet');
+  const [selectedMode, setSelectedMode] = useQueryState('instrument');
+
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Instrument | null>(null);
+  const [rejectForm, setRejectForm] = useState({ date_rejet: today(), motif_rejet: '' });
+
+  const fetchInstruments = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('paiements_clients')
+        .select(`
+          id,
+          numero_paiement,
+          montant,
+          mode_paiement,
+          reference,
+          issuer,
+          banque,
+          date_paiement,
+          date_echeance,
+          statut_instrument,
+          date_rejet,
+          motif_rejet,
+          client:clients(id, nom, prenom, societe)
+        `)
+        .in('mode_paiement', ['cheque', 'effet'])
+        .order('date_echeance', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setInstruments((data || []) as unknown as Instrument[]);
+    } catch (err) {
+      console.error('Error fetching instruments:', err);
+      setError('Erreur lors du chargement du portefeuille');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    fetchInstruments();
+  }, []);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString('fr-FR') : '-');
+
+  const clientName = (instrument: Instrument) =>
+    instrument.client?.societe || `${instrument.client?.prenom || ''} ${instrument.client?.nom || ''}`.trim();
+
+  const updateStatus = async (instrument: Instrument, statut: InstrumentStatus, extra: Record<string, string | null> = {}) => {
+    setUpdatingId(instrument.id);
+    setError(null);
+
+    try {
+      // The workflow trigger raises readable French messages
+      await updateInstrument(instrument.id, { statut_instrument: statut, ...extra });
+
+      await fetchInstruments();
+      onChanged();
+    } catch (err) {
+      console.error('Error updating instrument status:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors du changement de statut');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleAction = (instrument: Instrument, statut: InstrumentStatus) => {
+    if (statut === 'impaye') {
+      setRejectForm({ date_rejet: today(), motif_rejet: '' });
+      setRejecting(instrument);
+      return;
+    }
+
+    updateStatus(instrument, statut, {
+      ...(statut === 'remis' ? { date_remise: today() } : {}),
+      ...(statut === 'encaisse' ? { date_encaissement: today() } : {})
+    });
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+
+    await updateStatus(rejecting, 'impaye', {
+      date_rejet: rejectForm.date_rejet,
+      motif_rejet: rejectForm.motif_rejet.trim() || null
+    });
+    setRejecting(null);
+  };
+
+  const hasActiveFilters = () => echeanceFilters.from || echeanceFilters.to || selectedStatus || selectedMode;
+
+  const clearAllFilters = () => {
+    setEcheanceFilters({ from: '', to: '' });
+    setSelectedStatus('');
+    setSelectedMode('');
+  };
+
+  const filteredInstruments = instruments.filter(instrument => {
+    const fromMatch = !echeanceFilters.from || instrument.date_echeance >= echeanceFilters.from;
+    const toMatch = !echeanceFilters.to || instrument.date_echeance <= echeanceFilters.to;
+    const statusMatch = !selectedStatus || instrument.statut_instrument === selectedStatus;
+    const modeMatch = !selectedMode || instrument.mode_paiement === selectedMode;
+    return fromMatch && toMatch && statusMatch && modeMatch;
+  });
+
+  // Not yet cashed and due by the end of the week, overdue ones included
+  const week = currentWeek();
+  const dueThisWeek = instruments.filter(instrument =>
+    (instrument.statut_instrument === 'en_portefeuille' || instrument.statut_instrument === 'remis') &&
+    instrument.date_echeance <= week.end
+  );
+
+  const sumOf = (status: InstrumentStatus) =>
+    instruments.filter(i => i.statut_instrument === status).reduce((sum, i) => sum + i.montant, 0);
+  const countOf = (status: InstrumentStatus) =>
+    instruments.filter(i => i.statut_instrument === status).length;
+
+  const getStatusBadge = (status: InstrumentStatus) => (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+      INSTRUMENT_STATUS_STYLES[status] || INSTRUMENT_STATUS_STYLES.en_portefeuille
+    }`}>
+      {INSTRUMENT_STATUS_LABELS[status] || status}
+    </span>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement du portefeuille...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">En portefeuille</p>
+              <p className="text-2xl font-bold text-blue-600">{formatPrice(sumOf('en_portefeuille'))}</p>
+              <p className="text-xs text-gray-500">{countOf('en_portefeuille')} effet(s)/chèque(s)</p>
+            </div>
+            <Clock className="w-8 h-8 text-blue-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Remis à l'encaissement</p>
+              <p className="text-2xl font-bold text-yellow-600">{formatPrice(sumOf('remis'))}</p>
+              <p className="text-xs text-gray-500">{countOf('remis')} effet(s)/chèque(s)</p>
+            </div>
+            <Calendar className="w-8 h-8 text-yellow-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Encaissés</p>
+              <p className="text-2xl font-bold text-green-600">{formatPrice(sumOf('encaisse'))}</p>
+              <p className="text-xs text-gray-500">{countOf('encaisse')} effet(s)/chèque(s)</p>
+            </div>
+            <CheckCircle className="w-8 h-8 text-green-600" />
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">Impayés</p>
+              <p className="text-2xl font-bold text-red-600">{formatPrice(sumOf('impaye'))}</p>
+              <p className="text-xs text-gray-500">{countOf('impaye')} effet(s)/chèque(s)</p>
+            </div>
+            <XCircle className="w-8 h-8 text-red-600" />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Due this week */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">À échéance cette semaine</h3>
+          <span className="text-sm text-gray-600">
+            Du {formatDate(week.start)} au {formatDate(week.end)} · {formatPrice(dueThisWeek.reduce((sum, i) => sum + i.montant, 0))}
+          </span>
+        </div>
+        {dueThisWeek.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {dueThisWeek.map(instrument => {
+              const isOverdue = instrument.date_echeance < week.start;
+              return (
+                <li key={instrument.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-3">
+                    {isOverdue && <AlertCircle className="w-4 h-4 text-red-600" />}
+                    <span className={isOverdue ? 'text-red-700 font-medium' : 'text-gray-900'}>
+                      {formatDate(instrument.date_echeance)}
+                    </span>
+                    <span className="text-gray-900">{clientName(instrument)}</span>
+                    <span className="text-gray-500">
+                      {instrument.mode_paiement === 'cheque' ? 'Chèque' : 'Effet'} {instrument.reference || ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {getStatusBadge(instrument.statut_instrument)}
+                    <span className="font-medium text-gray-900">{formatPrice(instrument.montant)}</span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="px-6 py-4 text-sm text-gray-500">Aucun effet ou chèque à échéance cette semaine</p>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Filtres</h3>
+          {hasActiveFilters() && (
+            <button
+              onClick={clearAllFilters}
+              className="text-red-600 hover:text-red-700 text-sm flex items-center gap-1 transition-colors duration-200"
+            >
+              <X className="w-4 h-4" />
+              Effacer tous les filtres
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="echeance-from" className="block text-sm font-medium text-gray-700 mb-1">
+              Échéance du
+            </label>
+            <input
+              type="date"
+              id="echeance-from"
+              value={echeanceFilters.from}
+              onChange={(e) => setEcheanceFilters(prev => ({ ...prev, from: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="echeance-to" className="block text-sm font-medium text-gray-700 mb-1">
+              Échéance au
+            </label>
+            <input
+              type="date"
+              id="echeance-to"
+              value={echeanceFilters.to}
+              onChange={(e) => setEcheanceFilters(prev => ({ ...prev, to: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="instrument-status-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Statut
+            </label>
+            <select
+              id="instrument-status-filter"
+              value={selectedStatus}
+              onChange={(e) => setSelectedStatus(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            >
+              <option value="">Tous les statuts</option>
+              {(Object.keys(INSTRUMENT_STATUS_LABELS) as InstrumentStatus[]).map(status => (
+                <option key={status} value={status}>{INSTRUMENT_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="instrument-mode-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="instrument-mode-filter"
+              value={selectedMode}
+              onChange={(e) => setSelectedMode(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            >
+              <option value="">Chèques et effets</option>
+              <option value="cheque">Chèques</option>
+              <option value="effet">Effets</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Échéance</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Client</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Référence</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Banque</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Montant</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Statut</th>
+                {canEditPayments && (
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredInstruments.length > 0 ? (
+                filteredInstruments.map(instrument => (
+                  <tr key={instrument.id} className="hover:bg-gray-50 transition-colors duration-150">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(instrument.date_echeance)}
+                      <div className="text-xs text-gray-500">Reçu le {formatDate(instrument.date_paiement)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{clientName(instrument)}</div>
+                      <div className="text-sm text-gray-500 font-mono">{instrument.numero_paiement || '-'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {instrument.mode_paiement === 'cheque' ? 'Chèque' : 'Effet'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
+                      {instrument.reference || '-'}
+                      {instrument.issuer && <div className="text-xs text-gray-500 font-sans">{instrument.issuer}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{instrument.banque || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatPrice(instrument.montant)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(instrument.statut_instrument)}
+                      {instrument.statut_instrument === 'impaye' && (
+                        <div className="text-xs text-red-700 mt-1">
+                          {formatDate(instrument.date_rejet)}{instrument.motif_rejet && ` · ${instrument.motif_rejet}`}
+                        </div>
+                      )}
+                    </td>
+                    {canEditPayments && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex flex-col items-start gap-1">
+                          {(INSTRUMENT_TRANSITIONS[instrument.statut_instrument] || []).map(next => (
+                            <button
+                              key={next}
+                              onClick={() => handleAction(instrument, next)}
+                              disabled={updatingId === instrument.id}
+                              className={`disabled:opacity-50 ${
+                                next === 'impaye' ? 'text-red-600 hover:text-red-800' : 'text-blue-600 hover:text-blue-800'
+                              }`}
+                            >
+                              {ACTION_LABELS[next]}
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={canEditPayments ? 8 : 7} className="px-6 py-12 text-center text-gray-500">
+                    {hasActiveFilters() ? 'Aucun effet ou chèque trouvé' : 'Aucun effet ou chèque en portefeuille'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Reject Modal */}
+      {rejecting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {rejecting.mode_paiement === 'cheque' ? 'Chèque' : 'Effet'} impayé
+              </h3>
+              <p className="text-sm text-gray-600 mt-1">
+                {clientName(rejecting)} · {formatPrice(rejecting.montant)}
+                {rejecting.reference && ` · ${rejecting.reference}`}
+              </p>
+            </div>
+            <form onSubmit={handleReject} className="p-6">
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="date_rejet" className="block text-sm font-medium text-gray-700 mb-1">
+                    Date du rejet <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    id="date_rejet"
+                    value={rejectForm.date_rejet}
+                    onChange={(e) => setRejectForm(prev => ({ ...prev, date_rejet: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="motif_rejet" className="block text-sm font-medium text-gray-700 mb-1">
+                    Motif
+                  </label>
+                  <input
+                    type="text"
+                    id="motif_rejet"
+                    value={rejectForm.motif_rejet}
+                    onChange={(e) => setRejectForm(prev => ({ ...prev, motif_rejet: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Provision insuffisante, signature..."
+                  />
+                </div>
+                <p className="text-sm text-gray-600">
+                  Le montant sera retiré des paiements du client et son solde sera rétabli.
+                </p>
+              </div>
+
+              <div className="flex gap-4 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setRejecting(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={updatingId === rejecting.id}
+                  className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+                >
+                  {updatingId === rejecting.id ? 'Enregistrement...' : 'Marquer impayé'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstrumentsPortfolio;
@@ -1,12 +1,15 @@
 import React, { useState } from 'react';
 import { ArrowLeft, Save, Lock, Eye, EyeOff } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useCurrentUser } from '../lib/currentUser';
+import CreditSettings from './CreditSettings';
 
 interface PasswordChangeProps {
   onNavigateBack: () => void;
 }
 
 const PasswordChange: React.FC<PasswordChangeProps> = ({ onNavigateBack }) => {
+  const { can } = useCurrentUser();
   const [formData, setFormData] = useState({
     currentPassword: '',
     newPassword: '',
@@ -167,7 +170,7 @@ const PasswordChange: React.FC<PasswordChangeProps> = ({ onNavigateBack }) => {
       </div>
 
       {/* Form */}
-      <div className="flex-1 pb-8">
+      <div className="flex-1 pb-8 space-y-8">
         <div className="max-w-md bg-white rounded-lg shadow-sm border border-gray-200 p-8">
           <form onSubmit={handleSubmit} className="space-y-6">
             {errors.general && (
@@ -316,6 +319,8 @@ const PasswordChange: React.FC<PasswordChangeProps> = ({ onNavigateBack }) => {
             </div>
           </div>
         </div>
+
+        {can('parametres') && <CreditSettings />}
       </div>
     </div>
   );
@@ -0,0 +1,466 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Printer, Download, Search, FileText } from 'lucide-react';
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABELS,
+  AGING_BUCKET_STYLES,
+  AgingTotals,
+  addToAging,
+  agingBucket,
+  emptyAgingTotals
+} from '../lib/aging';
+import { PayableSupplier, loadPayables } from '../lib/payables';
+
+interface SupplierAging {
+  fournisseur: PayableSupplier;
+  totals: AgingTotals;
+  ordersCount: number;
+}
+
+interface PayablesAgingProps {
+  onNavigateToFournisseur: (fournisseur: { id: string }) => void;
+}
+
+const PayablesAging: React.FC<PayablesAgingProps> = ({ onNavigateToFournisseur }) => {
+  const [rows, setRows] = useState<SupplierAging[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  useEffect(() => {
+    fetchAging();
+  }, []);
+
+  const fetchAging = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const agingBySupplier = new Map<string, SupplierAging>();
+
+      (await loadPayables()).forEach(order => {
+        const row = agingBySupplier.get(order.fournisseur.id) || {
+          fournisseur: order.fournisseur,
+          totals: emptyAgingTotals(),
+          ordersCount: 0
+        };
+
+        addToAging(row.totals, agingBucket(order.jours_retard), order.reste);
+        row.ordersCount += 1;
+        agingBySupplier.set(order.fournisseur.id, row);
+      });
+
+      setRows(Array.from(agingBySupplier.values()).sort((a, b) => b.totals.total - a.totals.total));
+    } catch (err) {
+      console.error('Error fetching payables aging:', err);
+      setError('Erreur lors du chargement de la balance âgée');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const filteredRows = rows.filter(row =>
+    row.fournisseur.societe.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    row.fournisseur.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    row.fournisseur.prenom.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    row.fournisseur.numero_fournisseur.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const totals = filteredRows.reduce((sum, row) => {
+    AGING_BUCKETS.forEach(bucket => addToAging(sum, bucket, row.totals[bucket]));
+    return sum;
+  }, emptyAgingTotals());
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  const exportToCSV = () => {
+    const csvHeaders = [
+      'N° Fournisseur',
+      'Fournisseur',
+      'Délai de paiement (jours)',
+      'BC ouverts',
+      ...AGING_BUCKETS.map(bucket => `${AGING_BUCKET_LABELS[bucket]} (DH)`),
+      'Total (DH)'
+    ];
+
+    const csvData = filteredRows.map(row => [
+      row.fournisseur.numero_fournisseur,
+      row.fournisseur.societe,
+      row.fournisseur.delai_paiement != null ? String(row.fournisseur.delai_paiement) : '',
+      String(row.ordersCount),
+      ...AGING_BUCKETS.map(bucket => row.totals[bucket].toFixed(2)),
+      row.totals.total.toFixed(2)
+    ]);
+
+    csvData.push([
+      '',
+      `TOTAUX (${filteredRows.length} fournisseurs)`,
+      '',
+      String(filteredRows.reduce((sum, row) => sum + row.ordersCount, 0)),
+      ...AGING_BUCKETS.map(bucket => totals[bucket].toFixed(2)),
+      totals.total.toFixed(2)
+    ]);
+
+    const csvContent = [csvHeaders, ...csvData]
+      .map(row => row.map(cell => `"${cell}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `balance_agee_fournisseurs_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 mb-4">{error}</p>
+          <button
+            onClick={fetchAging}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg"
+          >
+            Réessayer
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header - Hidden in print */}
+      <div className="flex items-center justify-between mb-8 print:hidden">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <Clock className="w-8 h-8 text-blue-600" />
+            Balance âgée fournisseurs
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Montants restant à payer par ancienneté, depuis l'échéance du BC (date de commande + délai de paiement)
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={exportToCSV}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            Exporter CSV
+          </button>
+          <button
+            onClick={handlePrint}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
+          >
+            <Printer className="w-4 h-4" />
+            Imprimer
+          </button>
+        </div>
+      </div>
+
+      {/* Print Header - Only visible in print */}
+      <div className="hidden print:block mb-8">
+        <div className="relative text-center border-b-2 border-gray-800 pb-6">
+          <img
+            src="https://pub-237d2da54b564d23aaa1c3826e1d4e65.r2.dev/ANTURGOOD/logo2.png"
+            alt="ANTURGOOD Logo"
+            className="absolute top-0 left-0 h-32 w-auto"
+          />
+          <div className="text-center mt-8">
+            <h2 className="text-xl font-bold text-gray-900 mb-2">BALANCE ÂGÉE FOURNISSEURS</h2>
+            <p className="text-sm text-gray-600 mt-2">
+              Situation au {new Date().toLocaleDateString('fr-FR')} |
+              Généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary Cards - Hidden in print */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6 mb-8 print:hidden">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <p className="text-sm text-gray-600">{AGING_BUCKET_LABELS[bucket]}</p>
+            <p className={`text-2xl font-bold ${AGING_BUCKET_STYLES[bucket]}`}>{formatPrice(totals[bucket])}</p>
+            <p className="text-xs text-gray-500">
+              {totals.total > 0 ? `${((totals[bucket] / totals.total) * 100).toFixed(1)} %` : '-'}
+            </p>
+          </div>
+        ))}
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <p className="text-sm text-gray-600">Total à payer</p>
+          <p className="text-2xl font-bold text-blue-600">{formatPrice(totals.total)}</p>
+          <p className="text-xs text-gray-500">{filteredRows.length} fournisseur(s)</p>
+        </div>
+      </div>
+
+      {/* Search Bar - Hidden in print */}
+      <div className="mb-6 print:hidden">
+        <div className="relative">
+          <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Rechercher un fournisseur..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Aging Table - Print only */}
+      <div className="hidden print:block mb-8">
+        <table className="w-full border-collapse border border-gray-800">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-gray-800 px-3 py-2 text-left font-semibold text-sm">Fournisseur</th>
+              <th className="border border-gray-800 px-3 py-2 text-center font-semibold text-sm">Délai</th>
+              {AGING_BUCKETS.map(bucket => (
+                <th key={bucket} className="border border-gray-800 px-3 py-2 text-right font-semibold text-sm">
+                  {AGING_BUCKET_LABELS[bucket]}
+                </th>
+              ))}
+              <th className="border border-gray-800 px-3 py-2 text-right font-semibold text-sm">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredRows.map(row => (
+              <tr key={row.fournisseur.id}>
+                <td className="border border-gray-800 px-3 py-2 text-sm">
+                  {row.fournisseur.societe} ({row.fournisseur.numero_fournisseur})
+                </td>
+                <td className="border border-gray-800 px-3 py-2 text-center text-sm">
+                  {row.fournisseur.delai_paiement != null ? `${row.fournisseur.delai_paiement} j` : '-'}
+                </td>
+                {AGING_BUCKETS.map(bucket => (
+                  <td key={bucket} className="border border-gray-800 px-3 py-2 text-right text-sm">
+                    {row.totals[bucket] > 0 ? formatPrice(row.totals[bucket]) : '-'}
+                  </td>
+                ))}
+                <td className="border border-gray-800 px-3 py-2 text-right text-sm font-medium">
+                  {formatPrice(row.totals.total)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-100">
+            <tr>
+              <td className="border border-gray-800 px-3 py-3 font-bold text-sm" colSpan={2}>
+                TOTAL GÉNÉRAL
+              </td>
+              {AGING_BUCKETS.map(bucket => (
+                <td key={bucket} className="border border-gray-800 px-3 py-3 text-right font-bold text-sm">
+                  {formatPrice(totals[bucket])}
+                </td>
+              ))}
+              <td className="border border-gray-800 px-3 py-3 text-right font-bold text-sm">
+                {formatPrice(totals.total)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {/* Aging Table - Screen only */}
+      <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden print:hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Dettes par fournisseur</h2>
+            <span className="text-sm text-gray-600">Cliquez sur un fournisseur pour voir le détail</span>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Fournisseur
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Délai
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  BC ouverts
+                </th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket} className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                    {AGING_BUCKET_LABELS[bucket]}
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredRows.length > 0 ? (
+                filteredRows.map(row => (
+                  <tr
+                    key={row.fournisseur.id}
+                    onClick={() => onNavigateToFournisseur(row.fournisseur)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="text-sm font-medium text-blue-600">{row.fournisseur.societe}</div>
+                      <div className="text-xs text-gray-500">{row.fournisseur.numero_fournisseur}</div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {row.fournisseur.delai_paiement != null ? `${row.fournisseur.delai_paiement} j` : '-'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {row.ordersCount}
+                    </td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td key={bucket} className={`px-4 py-3 whitespace-nowrap text-sm text-right ${AGING_BUCKET_STYLES[bucket]}`}>
+                        {row.totals[bucket] > 0 ? formatPrice(row.totals[bucket]) : '-'}
+                      </td>
+                    ))}
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-semibold text-gray-900">
+                      {formatPrice(row.totals.total)}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 4} className="px-6 py-12 text-center text-gray-500">
+                    <div className="flex flex-col items-center">
+                      <FileText className="w-8 h-8 text-gray-300 mb-2" />
+                      <p>Aucun montant restant à payer</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+
+            {/* Totals Footer */}
+            {filteredRows.length > 0 && (
+              <tfoot className="bg-gray-100 border-t-2 border-gray-300">
+                <tr className="font-semibold">
+                  <td className="px-4 py-4 text-sm font-bold text-gray-900" colSpan={3}>
+                    TOTAUX ({filteredRows.length} fournisseurs)
+                  </td>
+                  {AGING_BUCKETS.map(bucket => (
+                    <td key={bucket} className={`px-4 py-4 text-sm text-right font-bold ${AGING_BUCKET_STYLES[bucket]}`}>
+                      {formatPrice(totals[bucket])}
+                    </td>
+                  ))}
+                  <td className="px-4 py-4 text-sm text-right font-bold text-blue-600">
+                    {formatPrice(totals.total)}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {/* Print Footer */}
+      <div className="hidden print:block absolute bottom-8 left-8 right-8 text-center text-xs text-gray-500 border-t border-gray-300 pt-4">
+        <p>ANTURGOOD - Système de gestion | Rapport généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')}</p>
+      </div>
+
+      {/* Print Styles */}
+      <style>{`
+        @media print {
+          @page {
+            margin: 15px;
+            size: A4 landscape;
+          }
+
+          body {
+            -webkit-print-color-adjust: exact;
+            color-adjust: exact;
+          }
+
+          * {
+            visibility: hidden;
+          }
+
+          .print\\:block,
+          .print\\:block *,
+          .h-full,
+          .h-full *,
+          body {
+            visibility: visible;
+          }
+
+          .h-full {
+            height: auto !important;
+            display: block !important;
+            position: static !important;
+          }
+
+          table {
+            width: 100% !important;
+            border-collapse: collapse !important;
+            margin-top: 20px !important;
+          }
+
+          th, td {
+            border: 1px solid #000 !important;
+            padding: 8px !important;
+          }
+
+          th {
+            background-color: #f5f5f5 !important;
+            font-weight: bold !important;
+          }
+
+          tr {
+            page-break-inside: avoid;
+          }
+
+          thead {
+            display: table-header-group;
+          }
+
+          tfoot {
+            display: table-footer-group;
+            page-break-inside: avoid;
+            font-weight: bold !important;
+          }
+
+          .print\\:hidden {
+            display: none !important;
+          }
+
+          .print\\:block {
+            display: block !important;
+          }
+
+          nav, aside, .print\\:hidden {
+            display: none !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default PayablesAging;
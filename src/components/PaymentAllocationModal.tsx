@@ -0,0 +1,330 @@
+import React, { useCallback, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { resetPaymentAllocations, setPaymentAllocations } from '../lib/paymentsRepo';
+
+interface AllocatedPayment {
+  id: string;
+  montant: number;
+  date_paiement: string;
+  reference: string | null;
+}
+
+interface OpenDeliveryNote {
+  id: string;
+  numero_livraison: string;
+  date_livraison: string;
+  total_ttc: number;
+  montant_paye: number;
+  numero_facture: string | null;
+  // Amount still due once the allocations of the other payments are deducted
+  reste: number;
+}
+
+interface PaymentAllocationModalProps {
+  payment: AllocatedPayment;
+  clientId: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const PaymentAllocationModal: React.FC<PaymentAllocationModalProps> = ({ payment, clientId, onClose, onSaved }) => {
+  const [notes, setNotes] = useState<OpenDeliveryNote[]>([]);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [isManual, setIsManual] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAllocationData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: deliveries, error: deliveriesError } = await supabase
+        .from('bon_de_livraison')
+        .select('id, numero_livraison, date_livraison, total_ttc, montant_paye')
+        .eq('client_id', clientId)
+        .neq('statut', 'annulee')
+        .order('date_livraison', { ascending: true });
+
+      if (deliveriesError) throw deliveriesError;
+
+      const { data: allocations, error: allocationsError } = await supabase
+        .from('paiement_affectations')
+        .select('livraison_id, montant, mode')
+        .eq('paiement_id', payment.id);
+
+      if (allocationsError) throw allocationsError;
+
+      const deliveryIds = (deliveries || []).map(d => d.id);
+      const { data: invoiceLinks, error: invoiceLinksError } = deliveryIds.length > 0
+        ? await supabase
+            .from('facture_livraisons')
+            .select('livraison_id, facture:factures(numero_facture)')
+            .in('livraison_id', deliveryIds)
+        : { data: [], error: null };
+
+      if (invoiceLinksError) throw invoiceLinksError;
+
+      const allocatedHere: Record<string, number> = {};
+      (allocations || []).forEach(a => {
+        allocatedHere[a.livraison_id] = (allocatedHere[a.livraison_id] || 0) + Number(a.montant);
+      });
+
+      const invoiceNumbers: Record<string, string> = {};
+      (invoiceLinks || []).forEach(link => {
+        const facture = link.facture as unknown as { numero_facture: string } | null;
+        if (facture?.numero_facture) {
+          invoiceNumbers[link.livraison_id] = facture.numero_facture;
+        }
+      });
+
+      const openNotes = (deliveries || [])
+        .map(d => ({
+          ...d,
+          numero_facture: invoiceNumbers[d.id] || null,
+          reste: round2(Number(d.total_ttc || 0) - Number(d.montant_paye || 0) + (allocatedHere[d.id] || 0))
+        }))
+        .filter(d => d.reste > 0 || allocatedHere[d.id]);
+
+      setNotes(openNotes);
+      setAmounts(
+        Object.fromEntries(Object.entries(allocatedHere).map(([id, montant]) => [id, montant.toFixed(2)]))
+      );
+      setIsManual((allocations || []).some(a => a.mode === 'manuel'));
+    } catch (err) {
+      console.error('Error fetching payment allocations:', err);
+      setError('Erreur lors du chargement des affectations');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, payment.id]);
+
+  React.useEffect(() => {
+    fetchAllocationData();
+  }, [fetchAllocationData]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const totalAllocated = round2(
+    Object.values(amounts).reduce((sum, value) => sum + (Number(value) || 0), 0)
+  );
+  const unallocated = round2(payment.montant - totalAllocated);
+
+  const invoices = Array.from(new Set(notes.map(n => n.numero_facture).filter(Boolean))) as string[];
+
+  const handleAmountChange = (noteId: string, value: string) => {
+    setAmounts(prev => ({ ...prev, [noteId]: value }));
+  };
+
+  // Fills the BL with what is left of the payment, up to its remaining amount
+  const handleFillNote = (note: OpenDeliveryNote) => {
+    const current = Number(amounts[note.id]) || 0;
+    const available = round2(unallocated + current);
+    setAmounts(prev => ({ ...prev, [note.id]: Math.max(0, Math.min(note.reste, available)).toFixed(2) }));
+  };
+
+  // Applies the payment to the BLs of an invoice, oldest first
+  const handleFillInvoice = (numeroFacture: string) => {
+    if (!numeroFacture) return;
+
+    let available = unallocated;
+    const updated = { ...amounts };
+    notes
+      .filter(n => n.numero_facture === numeroFacture)
+      .forEach(note => {
+        const current = Number(updated[note.id]) || 0;
+        const added = Math.max(0, Math.min(note.reste - current, available));
+        updated[note.id] = round2(current + added).toFixed(2);
+        available = round2(available - added);
+      });
+    setAmounts(updated);
+  };
+
+  const handleSave = async () => {
+    const overDue = notes.find(n => (Number(amounts[n.id]) || 0) > n.reste);
+    if (overDue) {
+      setError(`Le montant affecté au BL ${overDue.numero_livraison} dépasse son reste dû`);
+      return;
+    }
+    if (totalAllocated > payment.montant) {
+      setError('Le total affecté dépasse le montant du paiement');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const allocations = Object.entries(amounts)
+        .map(([livraison_id, value]) => ({ livraison_id, montant: round2(Number(value) || 0) }))
+        .filter(a => a.montant > 0);
+
+      // The function raises readable French messages
+      await setPaymentAllocations(payment.id, allocations);
+
+      onSaved();
+    } catch (err) {
+      console.error('Error saving payment allocations:', err);
+      setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement des affectations');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await resetPaymentAllocations(payment.id);
+
+      onSaved();
+    } catch (err) {
+      console.error('Error resetting payment allocations:', err);
+      setError('Erreur lors du retour à l\'affectation automatique');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Affectation du paiement</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {new Date(payment.date_paiement).toLocaleDateString('fr-FR')} · {formatPrice(payment.montant)}
+            {payment.reference && ` · ${payment.reference}`}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {isManual ? 'Affectation manuelle' : 'Affectation automatique (BL les plus anciens en premier)'}
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500">Chargement des bons de livraison...</p>
+          ) : notes.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun bon de livraison à régler pour ce client</p>
+          ) : (
+            <>
+              {invoices.length > 0 && (
+                <div className="mb-4">
+                  <label htmlFor="allocation-invoice" className="block text-sm font-medium text-gray-700 mb-1">
+                    Affecter à une facture
+                  </label>
+                  <select
+                    id="allocation-invoice"
+                    value=""
+                    onChange={(e) => handleFillInvoice(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    <option value="">Choisir une facture...</option>
+                    {invoices.map(numero => (
+                      <option key={numero} value={numero}>{numero}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">BL</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Facture</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Date</th>
+                    <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Total TTC</th>
+                    <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Reste dû</th>
+                    <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Affecté</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {notes.map(note => (
+                    <tr key={note.id}>
+                      <td className="px-3 py-2 text-sm font-medium text-gray-900">{note.numero_livraison}</td>
+                      <td className="px-3 py-2 text-sm text-gray-500">{note.numero_facture || '-'}</td>
+                      <td className="px-3 py-2 text-sm text-gray-900">
+                        {new Date(note.date_livraison).toLocaleDateString('fr-FR')}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right text-gray-900">{formatPrice(note.total_ttc)}</td>
+                      <td className="px-3 py-2 text-sm text-right text-gray-900">{formatPrice(note.reste)}</td>
+                      <td className="px-3 py-2 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={note.reste}
+                            value={amounts[note.id] || ''}
+                            onChange={(e) => handleAmountChange(note.id, e.target.value)}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-right"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleFillNote(note)}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            Max
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          <div className="mt-4 flex justify-between text-sm">
+            <span className="text-gray-600">Total affecté: <strong>{formatPrice(totalAllocated)}</strong></span>
+            <span className={unallocated < 0 ? 'text-red-600' : 'text-gray-600'}>
+              Non affecté: <strong>{formatPrice(unallocated)}</strong>
+            </span>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isSaving || loading}
+            className="flex-1 px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 font-medium transition-colors duration-200"
+          >
+            Répartition automatique
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || loading}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+          >
+            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentAllocationModal;
@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, CalendarClock, Wand2, Save, FileText } from 'lucide-react';
+import { errorMessage } from '../lib/dbErrors';
+import { createSupplierPayments } from '../lib/paymentsRepo';
+import { useCurrentUser } from '../lib/currentUser';
+import { PayableOrder, loadPayables, supplierName } from '../lib/payables';
+
+interface PaymentPlanningProps {
+  onNavigateBack: () => void;
+}
+
+// Sunday of the current week, as YYYY-MM-DD
+const endOfWeek = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + ((7 - date.getDay()) % 7));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const PaymentPlanning: React.FC<PaymentPlanningProps> = ({ onNavigateBack }) => {
+  const { can } = useCurrentUser();
+  const [payables, setPayables] = useState<PayableOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [budget, setBudget] = useState('');
+  const [horizon, setHorizon] = useState(endOfWeek());
+  const [showNotDue, setShowNotDue] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [paymentForm, setPaymentForm] = useState({
+    date_paiement: new Date().toISOString().split('T')[0],
+    mode_paiement: 'virement',
+    reference: ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    fetchPayables();
+  }, []);
+
+  const fetchPayables = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPayables(await loadPayables());
+    } catch (err) {
+      console.error('Error fetching payables:', err);
+      setError('Erreur lors du chargement des bons de commande à payer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const dueOrders = payables.filter(order => order.date_echeance <= horizon);
+  const visibleOrders = showNotDue ? payables : dueOrders;
+  const selectedOrders = payables.filter(order => selectedIds.includes(order.id));
+  const selectedTotal = selectedOrders.reduce((sum, order) => sum + order.reste, 0);
+  const budgetAmount = budget === '' ? null : Number(budget);
+  const remainingBudget = budgetAmount === null ? null : budgetAmount - selectedTotal;
+
+  // The BCs of a supplier in the order supplier_payables() applies its payments
+  // to them (oldest first): the list is sorted by due date, and the due date of
+  // a BC is its date plus the supplier's payment terms
+  const supplierOrders = (fournisseurId: string) =>
+    payables.filter(order => order.fournisseur.id === fournisseurId);
+
+  // Most overdue BCs first, each one paid in full while the budget allows it.
+  // A supplier's payments go to its oldest BCs, so once one of its BCs does not
+  // fit, its newer BCs are left out too
+  const proposeSelection = () => {
+    let remaining = budgetAmount ?? Infinity;
+    const proposal: string[] = [];
+    const skippedSuppliers = new Set<string>();
+
+    dueOrders.forEach(order => {
+      if (skippedSuppliers.has(order.fournisseur.id)) return;
+
+      if (order.reste <= remaining + 0.005) {
+        proposal.push(order.id);
+        remaining -= order.reste;
+      } else {
+        skippedSuppliers.add(order.fournisseur.id);
+      }
+    });
+
+    setSelectedIds(proposal);
+    setSuccessMessage('');
+  };
+
+  // Selecting a BC also selects the older BCs of its supplier, and unselecting
+  // it also unselects the newer ones: the selection always pays a supplier's
+  // oldest BCs, as the payment will be applied
+  const toggleOrder = (orderId: string) => {
+    const order = payables.find(payable => payable.id === orderId);
+    if (!order) return;
+
+    const orders = supplierOrders(order.fournisseur.id);
+    const index = orders.findIndex(payable => payable.id === orderId);
+    const older = orders.slice(0, index + 1).map(payable => payable.id);
+    const newer = orders.slice(index).map(payable => payable.id);
+
+    setSelectedIds(prev =>
+      prev.includes(orderId)
+        ? prev.filter(id => !newer.includes(id))
+        : [...prev, ...older.filter(id => !prev.includes(id))]
+    );
+    setSuccessMessage('');
+  };
+
+  const handlePaymentInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setPaymentForm(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  // One payment per supplier for the selected BCs, recorded in a single insert
+  const handleRecordPayments = async () => {
+    if (selectedOrders.length === 0) return;
+
+    const bySupplier: Record<string, PayableOrder[]> = {};
+    selectedOrders.forEach(order => {
+      (bySupplier[order.fournisseur.id] = bySupplier[order.fournisseur.id] || []).push(order);
+    });
+
+    if (!window.confirm(
+      `Enregistrer ${Object.keys(bySupplier).length} paiement(s) fournisseur pour un total de ${formatPrice(selectedTotal)} ?`
+    )) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await createSupplierPayments(Object.entries(bySupplier).map(([fournisseurId, orders]) => ({
+        fournisseur_id: fournisseurId,
+        montant: Math.round(orders.reduce((sum, order) => sum + order.reste, 0) * 100) / 100,
+        mode_paiement: paymentForm.mode_paiement,
+        reference: paymentForm.reference.trim() || null,
+        date_paiement: paymentForm.date_paiement,
+        notes: `Règlement ${orders.map(order => order.numero_commande).join(', ')}`
+      })));
+
+      setSuccessMessage(`${Object.keys(bySupplier).length} paiement(s) enregistré(s) pour ${formatPrice(selectedTotal)}`);
+      setSelectedIds([]);
+      setPaymentForm(prev => ({ ...prev, reference: '' }));
+      await fetchPayables();
+    } catch (err) {
+      console.error('Error recording supplier payments:', err);
+      setError(errorMessage(err, 'Erreur lors de l\'enregistrement des paiements. Veuillez réessayer.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={onNavigateBack}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <CalendarClock className="w-8 h-8 text-blue-600" />
+            Planification des paiements fournisseurs
+          </h1>
+          <p className="text-gray-600 mt-1">BC à payer d'ici la date choisie, dans la limite de la trésorerie disponible</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-green-700 text-sm">{successMessage}</p>
+        </div>
+      )}
+
+      {/* Budget */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="budget" className="block text-sm font-medium text-gray-700 mb-2">
+              Trésorerie disponible (DH)
+            </label>
+            <input
+              type="number"
+              id="budget"
+              step="0.01"
+              min="0"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Sans limite"
+            />
+          </div>
+          <div>
+            <label htmlFor="horizon" className="block text-sm font-medium text-gray-700 mb-2">
+              Échéances jusqu'au
+            </label>
+            <input
+              type="date"
+              id="horizon"
+              value={horizon}
+              onChange={(e) => setHorizon(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <input
+              type="checkbox"
+              id="show-not-due"
+              checked={showNotDue}
+              onChange={(e) => setShowNotDue(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label htmlFor="show-not-due" className="text-sm text-gray-700">
+              Afficher aussi les BC non échus
+            </label>
+          </div>
+          <button
+            onClick={proposeSelection}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors duration-200"
+          >
+            <Wand2 className="w-4 h-4" />
+            Proposer
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-600">À payer d'ici le {new Date(`${horizon}T00:00:00`).toLocaleDateString('fr-FR')}</p>
+            <p className="text-xl font-bold text-gray-900">
+              {formatPrice(dueOrders.reduce((sum, order) => sum + order.reste, 0))}
+            </p>
+            <p className="text-xs text-gray-500">{dueOrders.length} BC</p>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
+            <p className="text-sm text-blue-800">Sélection</p>
+            <p className="text-xl font-bold text-blue-900">{formatPrice(selectedTotal)}</p>
+            <p className="text-xs text-blue-700">{selectedOrders.length} BC</p>
+          </div>
+          <div className={`p-4 rounded-lg border ${remainingBudget !== null && remainingBudget < 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+            <p className="text-sm text-gray-700">Trésorerie restante</p>
+            <p className={`text-xl font-bold ${remainingBudget !== null && remainingBudget < 0 ? 'text-red-700' : 'text-green-700'}`}>
+              {remainingBudget === null ? '-' : formatPrice(remainingBudget)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Orders */}
+      <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-6">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 w-10"></th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Fournisseur</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">N° BC</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Échéance</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Total TTC</th>
+                <th className="px-4 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Reste à payer</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleOrders.length > 0 ? (
+                visibleOrders.map(order => (
+                  <tr
+                    key={order.id}
+                    onClick={() => toggleOrder(order.id)}
+                    className={`cursor-pointer ${selectedIds.includes(order.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(order.id)}
+                        onChange={() => toggleOrder(order.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {supplierName(order.fournisseur)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-blue-600">{order.numero_commande}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(order.date_commande).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                      <span className={order.jours_retard > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                        {new Date(`${order.date_echeance}T00:00:00`).toLocaleDateString('fr-FR')}
+                      </span>
+                      {order.jours_retard > 0 && (
+                        <span className="ml-2 text-xs text-red-600">({order.jours_retard} j de retard)</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatPrice(order.total_ttc)}
+                      {order.total_retours > 0 && (
+                        <div className="text-xs text-gray-400">retours : -{formatPrice(order.total_retours)}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-semibold text-gray-900">{formatPrice(order.reste)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                    <div className="flex flex-col items-center">
+                      <FileText className="w-8 h-8 text-gray-300 mb-2" />
+                      <p>Aucun bon de commande à payer</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Batch Payment */}
+      {can('paiements.creer') && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Enregistrer les paiements</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="date_paiement" className="block text-sm font-medium text-gray-700 mb-2">Date de paiement</label>
+              <input
+                type="date"
+                id="date_paiement"
+                name="date_paiement"
+                value={paymentForm.date_paiement}
+                onChange={handlePaymentInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="mode_paiement" className="block text-sm font-medium text-gray-700 mb-2">Mode de paiement</label>
+              <select
+                id="mode_paiement"
+                name="mode_paiement"
+                value={paymentForm.mode_paiement}
+                onChange={handlePaymentInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="cash">Espèces</option>
+                <option value="cheque">Chèque</option>
+                <option value="effet">Effet</option>
+                <option value="virement">Virement bancaire</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="reference" className="block text-sm font-medium text-gray-700 mb-2">Référence</label>
+              <input
+                type="text"
+                id="reference"
+                name="reference"
+                value={paymentForm.reference}
+                onChange={handlePaymentInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="N° de virement, de chèque..."
+              />
+            </div>
+            <button
+              onClick={handleRecordPayments}
+              disabled={isSubmitting || selectedOrders.length === 0}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 text-sm transition-colors duration-200"
+            >
+              <Save className="w-4 h-4" />
+              {isSubmitting ? 'Enregistrement...' : `Payer la sélection (${formatPrice(selectedTotal)})`}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Un paiement est créé par fournisseur, avec les numéros des BC réglés en note. Les paiements
+            d'un fournisseur soldent ses BC les plus anciens en premier : sélectionner un BC sélectionne
+            aussi les BC plus anciens du même fournisseur.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentPlanning;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   Search, 
   Plus, 
@@ -16,47 +16,85 @@ import {
   ChevronLeft,
   ChevronRight
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface Payment {
-  id: string;
-  montant: number;
-  mode_paiement: string;
-  reference: string | null;
-  issuer: string | null;
-  date_paiement: string;
-  notes: string | null;
-  type: 'client' | 'fournisseur' | 'chauffeur';
-  entity: {
-    id: string;
-    nom: string;
-    prenom: string;
-    societe?: string;
-    numero_client?: string;
-    numero_fournisseur?: string;
-    numero_chauffeur?: string;
-  };
-}
+import { useQueryNumber, useQuerySort, useQueryState, useQueryStates } from '../lib/useQueryState';
+import { usePagedList } from '../lib/usePagedList';
+import { RELEVANCE_SORT } from '../lib/pagination';
+import { useCurrentUser } from '../lib/currentUser';
+import HistoryPanel from './HistoryPanel';
+import InstrumentsPortfolio from './InstrumentsPortfolio';
+import {
+  INSTRUMENT_STATUS_LABELS,
+  INSTRUMENT_STATUS_STYLES,
+  InstrumentStatus,
+  isPaymentInstrument
+} from '../lib/paymentInstruments';
+import { PaymentListItem } from '../lib/domain';
+import { errorMessage } from '../lib/dbErrors';
+import {
+  PAYMENT_SORT_COLUMNS,
+  PaymentFilters,
+  deletePayment,
+  getPaymentListTotals,
+  searchPayments,
+  updatePayment
+} from '../lib/paymentsRepo';
+import SortableHeader from './SortableHeader';
+import Highlight from './Highlight';
 
 const PaymentsList: React.FC = () => {
-  const [payments, setPayments] = useState<Payment[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { can } = useCurrentUser();
+  const canEditPayments = can('paiements.modifier');
+  // Errors of the edit and delete actions, shown in their modal
   const [error, setError] = useState<string | null>(null);
   
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [selectedType, setSelectedType] = useState<string>('');
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [itemsPerPage, setItemsPerPage] = useQueryNumber('parPage', 20);
+  const [selectedType, setSelectedType] = useQueryState('type');
+  const [selectedPaymentMethod, setSelectedPaymentMethod] = useQueryState('mode');
+  const [view, setView] = useQueryState('vue');
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
+  const [sort, setSort] = useQuerySort(
+    'tri',
+    PAYMENT_SORT_COLUMNS,
+    searchTerm.trim() ? RELEVANCE_SORT : { column: 'date_paiement', ascending: false }
+  );
+
+  // Search, filters, sorting and pagination run on the server
+  const filters: PaymentFilters = {
+    recherche: searchTerm,
+    dateDebut: dateFilters.dateFrom,
+    dateFin: dateFilters.dateTo,
+    type: selectedType,
+    modePaiement: selectedPaymentMethod
+  };
+  const page = { page: currentPage, pageSize: itemsPerPage };
+
+  const {
+    rows: currentPayments,
+    total: filteredCount,
+    totals: listTotals,
+    loading,
+    error: listError,
+    reload: fetchPayments
+  } = usePagedList(
+    JSON.stringify([filters, sort, page]),
+    () => Promise.all([searchPayments(filters, sort, page), getPaymentListTotals(filters)]),
+    'Erreur lors du chargement des paiements'
+  );
+
+  const handleSort = (next: typeof sort) => {
+    setSort(next);
+    setCurrentPage(1);
+  };
 
   // Modal states
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [selectedPayment, setSelectedPayment] = useState<Payment | null>(null);
+  const [selectedPayment, setSelectedPayment] = useState<PaymentListItem | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -67,100 +105,12 @@ const PaymentsList: React.FC = () => {
     mode_paiement: 'cash',
     reference: '',
     issuer: '',
+    banque: '',
+    date_echeance: '',
     date_paiement: '',
     notes: ''
   });
 
-  useEffect(() => {
-    fetchPayments();
-  }, []);
-
-  const fetchPayments = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Fetch client payments
-      const { data: clientPayments, error: clientError } = await supabase
-        .from('paiements_clients')
-        .select(`
-          *,
-          client:clients(id, nom, prenom, societe, numero_client)
-        `)
-        .order('date_paiement', { ascending: false });
-
-      if (clientError) throw clientError;
-
-      // Fetch supplier payments
-      const { data: supplierPayments, error: supplierError } = await supabase
-        .from('paiements_fournisseurs')
-        .select(`
-          *,
-          fournisseur:fournisseurs(id, nom, prenom, societe, numero_fournisseur)
-        `)
-        .order('date_paiement', { ascending: false });
-
-      if (supplierError) throw supplierError;
-
-      // Fetch chauffeur payments
-      const { data: chauffeurPayments, error: chauffeurError } = await supabase
-        .from('paiements_chauffeurs')
-        .select(`
-          *,
-          chauffeur:chauffeurs(id, nom, prenom, numero_chauffeur)
-        `)
-        .order('date_paiement', { ascending: false });
-
-      if (chauffeurError) throw chauffeurError;
-
-      // Combine and format all payments
-      const allPayments: Payment[] = [
-        ...(clientPayments || []).map(p => ({
-          ...p,
-          type: 'client' as const,
-          entity: {
-            id: p.client.id,
-            nom: p.client.nom,
-            prenom: p.client.prenom,
-            societe: p.client.societe,
-            numero_client: p.client.numero_client
-          }
-        })),
-        ...(supplierPayments || []).map(p => ({
-          ...p,
-          type: 'fournisseur' as const,
-          entity: {
-            id: p.fournisseur.id,
-            nom: p.fournisseur.nom,
-            prenom: p.fournisseur.prenom,
-            societe: p.fournisseur.societe,
-            numero_fournisseur: p.fournisseur.numero_fournisseur
-          }
-        })),
-        ...(chauffeurPayments || []).map(p => ({
-          ...p,
-          type: 'chauffeur' as const,
-          entity: {
-            id: p.chauffeur.id,
-            nom: p.chauffeur.nom,
-            prenom: p.chauffeur.prenom,
-            numero_chauffeur: p.chauffeur.numero_chauffeur
-          }
-        }))
-      ];
-
-      // Sort by date descending
-      allPayments.sort((a, b) => new Date(b.date_paiement).getTime() - new Date(a.date_paiement).getTime());
-
-      setPayments(allPayments);
-    } catch (err: any) {
-      console.error('Error fetching payments:', err);
-      setError('Erreur lors du chargement des paiements');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleDateFilterChange = (field: 'dateFrom' | 'dateTo', value: string) => {
     setDateFilters(prev => ({
       ...prev,
@@ -185,53 +135,10 @@ const PaymentsList: React.FC = () => {
            selectedPaymentMethod;
   };
 
-  // Filter by date range
-  const filterByDateRange = (date: string) => {
-    if (!dateFilters.dateFrom && !dateFilters.dateTo) return true;
-    
-    const itemDate = date;
-    const fromMatch = !dateFilters.dateFrom || itemDate >= dateFilters.dateFrom;
-    const toMatch = !dateFilters.dateTo || itemDate <= dateFilters.dateTo;
-    
-    return fromMatch && toMatch;
-  };
-
-  // Filter payments based on all criteria
-  const searchFilteredPayments = payments.filter(payment => {
-    const search = searchTerm.toLowerCase();
-    return (
-      // Search in payment reference
-      (payment.reference || '').toLowerCase().includes(search) ||
-      // Search in issuer
-      (payment.issuer || '').toLowerCase().includes(search) ||
-      // Search in entity name
-      payment.entity.nom.toLowerCase().includes(search) ||
-      payment.entity.prenom.toLowerCase().includes(search) ||
-      (payment.entity.societe || '').toLowerCase().includes(search) ||
-      // Search in entity numbers
-      (payment.entity.numero_client || '').toLowerCase().includes(search) ||
-      (payment.entity.numero_fournisseur || '').toLowerCase().includes(search) ||
-      (payment.entity.numero_chauffeur || '').toLowerCase().includes(search) ||
-      // Search in full names
-      `${payment.entity.prenom} ${payment.entity.nom}`.toLowerCase().includes(search) ||
-      `${payment.entity.nom} ${payment.entity.prenom}`.toLowerCase().includes(search)
-    );
-  });
-
-  // Apply all filters
-  const filteredPayments = searchFilteredPayments.filter(payment => {
-    const dateMatch = filterByDateRange(payment.date_paiement);
-    const typeMatch = !selectedType || payment.type === selectedType;
-    const methodMatch = !selectedPaymentMethod || payment.mode_paiement === selectedPaymentMethod;
-    
-    return dateMatch && typeMatch && methodMatch;
-  });
-
   // Calculate pagination
-  const totalPages = Math.ceil(filteredPayments.length / itemsPerPage);
+  const totalPages = Math.ceil(filteredCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const currentPayments = filteredPayments.slice(startIndex, endIndex);
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -254,7 +161,7 @@ const PaymentsList: React.FC = () => {
     setCurrentPage(1);
   };
 
-  const openPaymentModal = (payment: Payment, editMode: boolean = false) => {
+  const openPaymentModal = (payment: PaymentListItem, editMode: boolean = false) => {
     setSelectedPayment(payment);
     setIsEditMode(editMode);
     
@@ -264,6 +171,8 @@ const PaymentsList: React.FC = () => {
         mode_paiement: payment.mode_paiement,
         reference: payment.reference || '',
         issuer: payment.issuer || '',
+        banque: payment.banque || '',
+        date_echeance: payment.date_echeance || '',
         date_paiement: payment.date_paiement,
         notes: payment.notes || ''
       });
@@ -281,6 +190,8 @@ const PaymentsList: React.FC = () => {
       mode_paiement: 'cash',
       reference: '',
       issuer: '',
+      banque: '',
+      date_echeance: '',
       date_paiement: '',
       notes: ''
     });
@@ -305,34 +216,34 @@ const PaymentsList: React.FC = () => {
       return;
     }
 
+    if (selectedPayment.type === 'client' && editForm.mode_paiement === 'effet' && !editForm.date_echeance) {
+      setError('La date d\'échéance est obligatoire pour un effet');
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
     try {
-      const tableName = selectedPayment.type === 'client' ? 'paiements_clients' :
-                       selectedPayment.type === 'fournisseur' ? 'paiements_fournisseurs' :
-                       'paiements_chauffeurs';
-
-      const { error } = await supabase
-        .from(tableName)
-        .update({
-          montant: Number(editForm.montant),
-          mode_paiement: editForm.mode_paiement,
-          reference: editForm.reference.trim() || null,
-          issuer: editForm.issuer.trim() || null,
-          date_paiement: editForm.date_paiement,
-          notes: editForm.notes.trim() || null
-        })
-        .eq('id', selectedPayment.id);
-
-      if (error) throw error;
+      await updatePayment(selectedPayment.type, selectedPayment.id, {
+        montant: Number(editForm.montant),
+        mode_paiement: editForm.mode_paiement,
+        reference: editForm.reference.trim() || null,
+        issuer: editForm.issuer.trim() || null,
+        date_paiement: editForm.date_paiement,
+        notes: editForm.notes.trim() || null,
+        ...(selectedPayment.type === 'client' ? {
+          banque: editForm.banque.trim() || null,
+          date_echeance: editForm.date_echeance || null
+        } : {})
+      });
 
       console.log('Payment updated successfully');
       closePaymentModal();
       await fetchPayments(); // Refresh the list
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating payment:', error);
-      setError('Erreur lors de la modification du paiement. Veuillez réessayer.');
+      setError(errorMessage(error, 'Erreur lors de la modification du paiement. Veuillez réessayer.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -345,24 +256,15 @@ const PaymentsList: React.FC = () => {
     setError(null);
 
     try {
-      const tableName = selectedPayment.type === 'client' ? 'paiements_clients' :
-                       selectedPayment.type === 'fournisseur' ? 'paiements_fournisseurs' :
-                       'paiements_chauffeurs';
-
-      const { error } = await supabase
-        .from(tableName)
-        .delete()
-        .eq('id', selectedPayment.id);
-
-      if (error) throw error;
+      await deletePayment(selectedPayment.type, selectedPayment.id);
 
       console.log('Payment deleted successfully');
       setShowDeleteModal(false);
       closePaymentModal();
       await fetchPayments(); // Refresh the list
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting payment:', error);
-      setError('Erreur lors de la suppression du paiement. Veuillez réessayer.');
+      setError(errorMessage(error, 'Erreur lors de la suppression du paiement. Veuillez réessayer.'));
     } finally {
       setIsDeleting(false);
     }
@@ -428,20 +330,24 @@ const PaymentsList: React.FC = () => {
   };
 
   // Calculate totals for filtered data
-  const calculateTotals = () => {
-    const clientPayments = filteredPayments.filter(p => p.type === 'client');
-    const supplierPayments = filteredPayments.filter(p => p.type === 'fournisseur');
-    const chauffeurPayments = filteredPayments.filter(p => p.type === 'chauffeur');
+  const getInstrumentBadge = (status: InstrumentStatus) => (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+      INSTRUMENT_STATUS_STYLES[status] || INSTRUMENT_STATUS_STYLES.en_portefeuille
+    }`}>
+      {INSTRUMENT_STATUS_LABELS[status] || status}
+    </span>
+  );
 
+  const calculateTotals = () => {
     return {
-      totalAmount: filteredPayments.reduce((sum, p) => sum + p.montant, 0),
-      clientTotal: clientPayments.reduce((sum, p) => sum + p.montant, 0),
-      supplierTotal: supplierPayments.reduce((sum, p) => sum + p.montant, 0),
-      chauffeurTotal: chauffeurPayments.reduce((sum, p) => sum + p.montant, 0),
-      count: filteredPayments.length,
-      clientCount: clientPayments.length,
-      supplierCount: supplierPayments.length,
-      chauffeurCount: chauffeurPayments.length
+      totalAmount: listTotals?.total || 0,
+      clientTotal: listTotals?.total_clients || 0,
+      supplierTotal: listTotals?.total_fournisseurs || 0,
+      chauffeurTotal: listTotals?.total_chauffeurs || 0,
+      count: filteredCount,
+      clientCount: listTotals?.nombre_clients || 0,
+      supplierCount: listTotals?.nombre_fournisseurs || 0,
+      chauffeurCount: listTotals?.nombre_chauffeurs || 0
     };
   };
 
@@ -458,11 +364,11 @@ const PaymentsList: React.FC = () => {
     );
   }
 
-  if (error && !showPaymentModal) {
+  if (listError) {
     return (
       <div className="h-full flex items-center justify-center">
         <div className="text-center">
-          <p className="text-red-500 mb-4">{error}</p>
+          <p className="text-red-500 mb-4">{listError}</p>
           <button
             onClick={fetchPayments}
             className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg"
@@ -474,16 +380,51 @@ const PaymentsList: React.FC = () => {
     );
   }
 
-  return (
-    <div className="h-full flex flex-col">
+  const renderHeader = () => (
+    <>
       {/* Header */}
-      <div className="flex items-center justify-between mb-8">
+      <div className="flex items-center justify-between mb-6">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Paiements</h1>
           <p className="text-gray-600 mt-1">Gérez tous vos paiements clients, fournisseurs et chauffeurs</p>
         </div>
       </div>
 
+      {/* Views */}
+      <div className="flex gap-2 border-b border-gray-200 mb-8">
+        {[
+          { id: '', label: 'Tous les paiements' },
+          { id: 'portefeuille', label: 'Portefeuille effets/chèques' }
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setView(tab.id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors duration-200 ${
+              view === tab.id
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+
+  if (view === 'portefeuille') {
+    return (
+      <div className="h-full flex flex-col">
+        {renderHeader()}
+        <InstrumentsPortfolio onChanged={fetchPayments} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {renderHeader()}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -636,7 +577,7 @@ const PaymentsList: React.FC = () => {
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-center justify-between">
               <p className="text-sm text-blue-800">
-                <strong>{filteredPayments.length}</strong> paiement(s) trouvé(s) avec les filtres actifs
+                <strong>{filteredCount}</strong> paiement(s) trouvé(s) avec les filtres actifs
               </p>
               <p className="text-sm font-medium text-blue-900">
                 Total filtré: {formatPrice(totals.totalAmount)}
@@ -652,18 +593,15 @@ const PaymentsList: React.FC = () => {
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
               <tr>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Date
-                </th>
+                <SortableHeader label="N° Paiement" column="numero_paiement" sort={sort} onSort={handleSort} />
+                <SortableHeader label="Date" column="date_paiement" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Type
                 </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Bénéficiaire
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Montant
-                </th>
+                <SortableHeader label="Montant" column="montant" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Mode de Paiement
                 </th>
@@ -679,6 +617,9 @@ const PaymentsList: React.FC = () => {
               {currentPayments.length > 0 ? (
                 currentPayments.map((payment) => (
                   <tr key={payment.id} className="hover:bg-gray-50 transition-colors duration-150">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600 font-mono">
+                      {payment.numero_paiement ? <Highlight text={payment.numero_paiement} search={searchTerm} /> : '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {new Date(payment.date_paiement).toLocaleDateString('fr-FR')}
                     </td>
@@ -687,10 +628,16 @@ const PaymentsList: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {payment.entity.societe || `${payment.entity.prenom} ${payment.entity.nom}`}
+                        <Highlight
+                          text={payment.entity.societe || `${payment.entity.prenom} ${payment.entity.nom}`}
+                          search={searchTerm}
+                        />
                       </div>
                       <div className="text-sm text-gray-500">
-                        {payment.entity.numero_client || payment.entity.numero_fournisseur || payment.entity.numero_chauffeur}
+                        <Highlight
+                          text={payment.entity.numero_client || payment.entity.numero_fournisseur || payment.entity.numero_chauffeur}
+                          search={searchTerm}
+                        />
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -702,9 +649,12 @@ const PaymentsList: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getMethodBadge(payment.mode_paiement)}
+                      {payment.statut_instrument && (
+                        <div className="mt-1">{getInstrumentBadge(payment.statut_instrument)}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
-                      {payment.reference || '-'}
+                      {payment.reference ? <Highlight text={payment.reference} search={searchTerm} /> : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex items-center gap-2">
@@ -715,20 +665,22 @@ const PaymentsList: React.FC = () => {
                           <Eye className="w-4 h-4" />
                           Voir
                         </button>
-                        <button
-                          onClick={() => openPaymentModal(payment, true)}
-                          className="text-green-600 hover:text-green-900 flex items-center gap-1"
-                        >
-                          <Edit3 className="w-4 h-4" />
-                          Modifier
-                        </button>
+                        {canEditPayments && (
+                          <button
+                            onClick={() => openPaymentModal(payment, true)}
+                            className="text-green-600 hover:text-green-900 flex items-center gap-1"
+                          >
+                            <Edit3 className="w-4 h-4" />
+                            Modifier
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <DollarSign className="w-8 h-8 text-gray-300 mb-2" />
                       <p>{searchTerm || hasActiveFilters() ? 'Aucun paiement trouvé' : 'Aucun paiement disponible'}</p>
@@ -754,7 +706,7 @@ const PaymentsList: React.FC = () => {
         <div className="mt-6 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div className="text-sm text-gray-600">
-              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredPayments.length)} sur {filteredPayments.length} paiements
+              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredCount)} sur {filteredCount} paiements
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600">Éléments par page:</span>
@@ -894,6 +846,38 @@ const PaymentsList: React.FC = () => {
                     />
                   </div>
 
+                  {selectedPayment.type === 'client' && isPaymentInstrument(editForm.mode_paiement) && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="edit-banque" className="block text-sm font-medium text-gray-700 mb-1">
+                          Banque
+                        </label>
+                        <input
+                          type="text"
+                          id="edit-banque"
+                          name="banque"
+                          value={editForm.banque}
+                          onChange={handleEditFormChange}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="edit-date_echeance" className="block text-sm font-medium text-gray-700 mb-1">
+                          Échéance {editForm.mode_paiement === 'effet' && <span className="text-red-500">*</span>}
+                        </label>
+                        <input
+                          type="date"
+                          id="edit-date_echeance"
+                          name="date_echeance"
+                          value={editForm.date_echeance}
+                          onChange={handleEditFormChange}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          required={editForm.mode_paiement === 'effet'}
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <label htmlFor="edit-date_paiement" className="block text-sm font-medium text-gray-700 mb-1">
                       Date de paiement <span className="text-red-500">*</span>
@@ -971,6 +955,11 @@ const PaymentsList: React.FC = () => {
                     </div>
                   </div>
 
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">N° Paiement</label>
+                    <p className="text-sm text-gray-900 font-mono">{selectedPayment.numero_paiement || '-'}</p>
+                  </div>
+
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="text-sm font-medium text-gray-600">Référence</label>
@@ -987,6 +976,25 @@ const PaymentsList: React.FC = () => {
                     <p className="text-sm text-gray-900">{new Date(selectedPayment.date_paiement).toLocaleDateString('fr-FR')}</p>
                   </div>
 
+                  {selectedPayment.statut_instrument && (
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">Banque</label>
+                        <p className="text-sm text-gray-900">{selectedPayment.banque || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">Échéance</label>
+                        <p className="text-sm text-gray-900">
+                          {selectedPayment.date_echeance ? new Date(selectedPayment.date_echeance).toLocaleDateString('fr-FR') : '-'}
+                        </p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">Statut</label>
+                        <p className="mt-1">{getInstrumentBadge(selectedPayment.statut_instrument)}</p>
+                      </div>
+                    </div>
+                  )}
+
                   {selectedPayment.notes && (
                     <div>
                       <label className="text-sm font-medium text-gray-600">Notes</label>
@@ -995,6 +1003,10 @@ const PaymentsList: React.FC = () => {
                   )}
                 </div>
 
+                {can('historique') && (
+                  <HistoryPanel recordId={selectedPayment.id} className="mt-6" />
+                )}
+
                 <div className="flex gap-4 mt-6">
                   <button
                     onClick={closePaymentModal}
@@ -1002,13 +1014,15 @@ const PaymentsList: React.FC = () => {
                   >
                     Fermer
                   </button>
-                  <button
-                    onClick={() => setIsEditMode(true)}
-                    className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200 flex items-center justify-center gap-2"
-                  >
-                    <Edit3 className="w-4 h-4" />
-                    Modifier
-                  </button>
+                  {canEditPayments && (
+                    <button
+                      onClick={() => setIsEditMode(true)}
+                      className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200 flex items-center justify-center gap-2"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                      Modifier
+                    </button>
+                  )}
                 </div>
               </div>
             )}
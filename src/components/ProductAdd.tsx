@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ArrowLeft, Save } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { TVA_RATES, formatTvaRate } from '../lib/tva';
 
 interface ProductAddProps {
   onNavigateBack: () => void;
@@ -12,7 +13,8 @@ const ProductAdd: React.FC<ProductAddProps> = ({ onNavigateBack }) => {
     prix_achat: '',
     prix_vente: '',
     unite: 'unite',
-    dimension_standard: '1'
+    dimension_standard: '1',
+    taux_tva: '20'
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -79,7 +81,7 @@ const ProductAdd: React.FC<ProductAddProps> = ({ onNavigateBack }) => {
 
     try {
       // Save to Supabase
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('produits')
         .insert([
           {
@@ -87,24 +89,23 @@ const ProductAdd: React.FC<ProductAddProps> = ({ onNavigateBack }) => {
             prix_achat: Number(formData.prix_achat),
             prix_vente: Number(formData.prix_vente),
             unite: formData.unite,
-            dimension_standard: Number(formData.dimension_standard)
+            dimension_standard: Number(formData.dimension_standard),
+            taux_tva: Number(formData.taux_tva)
           }
-        ])
-        .select();
+        ]);
 
       if (error) {
         throw error;
       }
 
-      console.log('Product saved successfully:', data);
-      
       // Reset form
       setFormData({
         nom_produit: '',
         prix_achat: '',
         prix_vente: '',
         unite: 'unite',
-        dimension_standard: '1'
+        dimension_standard: '1',
+        taux_tva: '20'
       });
 
       onNavigateBack();
@@ -274,6 +275,23 @@ const ProductAdd: React.FC<ProductAddProps> = ({ onNavigateBack }) => {
                   <p className="text-red-500 text-xs mt-1">{errors.unite}</p>
                 )}
               </div>
+
+              <div>
+                <label htmlFor="taux_tva" className="block text-sm font-semibold text-gray-900 mb-2">
+                  TVA <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="taux_tva"
+                  name="taux_tva"
+                  value={formData.taux_tva}
+                  onChange={(e) => setFormData(prev => ({ ...prev, taux_tva: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200"
+                >
+                  {TVA_RATES.map(taux => (
+                    <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             {/* Dimension Field - Only for measurement units */}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { ArrowLeft, Save } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { DEFAULT_TVA_RATE, TVA_RATES, formatTvaRate } from '../lib/tva';
 
 interface Product {
   id: string;
@@ -8,6 +9,7 @@ interface Product {
   prix_achat: number;
   prix_vente: number;
   unite: string;
+  taux_tva?: number;
 }
 
 interface ProductEditProps {
@@ -21,7 +23,8 @@ const ProductEdit: React.FC<ProductEditProps> = ({ onNavigateBack, product }) =>
     prix_achat: product.prix_achat.toString(),
     prix_vente: product.prix_vente.toString(),
     unite: product.unite || 'unite',
-    dimension_standard: (product as any).dimension_standard?.toString() || '1'
+    dimension_standard: (product as any).dimension_standard?.toString() || '1',
+    taux_tva: (product.taux_tva ?? DEFAULT_TVA_RATE).toString()
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -88,23 +91,22 @@ const ProductEdit: React.FC<ProductEditProps> = ({ onNavigateBack, product }) =>
 
     try {
       // Update in Supabase
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('produits')
         .update({
           nom_produit: formData.nom_produit.trim(),
           prix_achat: Number(formData.prix_achat),
           prix_vente: Number(formData.prix_vente),
           unite: formData.unite,
-          dimension_standard: Number(formData.dimension_standard)
+          dimension_standard: Number(formData.dimension_standard),
+          taux_tva: Number(formData.taux_tva)
         })
-        .eq('id', product.id)
-        .select();
+        .eq('id', product.id);
 
       if (error) {
         throw error;
       }
 
-      console.log('Product updated successfully:', data);
       onNavigateBack();
     } catch (error: any) {
       console.error('Error updating product:', error);
@@ -272,6 +274,23 @@ const ProductEdit: React.FC<ProductEditProps> = ({ onNavigateBack, product }) =>
                   <p className="text-red-500 text-xs mt-1">{errors.unite}</p>
                 )}
               </div>
+
+              <div>
+                <label htmlFor="taux_tva" className="block text-sm font-semibold text-gray-900 mb-2">
+                  TVA <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="taux_tva"
+                  name="taux_tva"
+                  value={formData.taux_tva}
+                  onChange={(e) => setFormData(prev => ({ ...prev, taux_tva: e.target.value }))}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200"
+                >
+                  {TVA_RATES.map(taux => (
+                    <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             {/* Dimension Field - Only for measurement units */}
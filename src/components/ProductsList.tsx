@@ -1,14 +1,29 @@
 import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight, Plus, Search } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useQueryNumber, useQueryState } from '../lib/useQueryState';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import { formatTvaRate } from '../lib/tva';
+import { useCurrentUser } from '../lib/currentUser';
+import { PRODUCT_COLUMNS, loadPurchasePrices } from '../lib/products';
+import StockOverview from './StockOverview';
+import StockValuation from './StockValuation';
+import Highlight from './Highlight';
 
 interface Product {
   id: string;
   nom_produit: string;
-  prix_achat: number;
   prix_vente: number;
   unite: string;
   dimension_standard: number;
+  taux_tva: number;
+}
+
+interface ProductMargin {
+  produit_id: string;
+  quantite_livree: number;
+  cout_transport: number;
+  marge: number;
 }
 
 interface ProductsListProps {
@@ -17,12 +32,18 @@ interface ProductsListProps {
 }
 
 const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigateToEdit }) => {
+  const { can } = useCurrentUser();
+  const canManageProducts = can('produits.gerer');
+  const showPurchasePrices = can('prixAchat');
   const [products, setProducts] = useState<Product[]>([]);
+  const [margins, setMargins] = useState<Record<string, ProductMargin>>({});
+  const [purchasePrices, setPurchasePrices] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [view, setView] = useQueryState('vue');
   const itemsPerPage = 10;
 
   // Fetch products from Supabase
@@ -33,7 +54,7 @@ const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigate
 
       const { data, error: fetchError } = await supabase
         .from('produits')
-        .select('*')
+        .select(PRODUCT_COLUMNS)
         .order('created_at', { ascending: false });
 
       if (fetchError) {
@@ -54,10 +75,38 @@ const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigate
     fetchProducts();
   }, []);
 
-  // Filter products based on search term
-  const filteredProducts = products.filter(product =>
-    product.nom_produit.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Purchase prices, and margin made on the delivered quantities net of transport
+  React.useEffect(() => {
+    if (!showPurchasePrices) return;
+
+    const fetchMargins = async () => {
+      try {
+        const [prices, { data, error: marginsError }] = await Promise.all([
+          loadPurchasePrices(),
+          supabase
+            .from('marges_produits')
+            .select('produit_id, quantite_livree, cout_transport, marge')
+        ]);
+
+        if (marginsError) {
+          throw marginsError;
+        }
+
+        const byProduct: Record<string, ProductMargin> = {};
+        (data || []).forEach(margin => {
+          byProduct[margin.produit_id] = margin;
+        });
+        setPurchasePrices(prices);
+        setMargins(byProduct);
+      } catch (err) {
+        console.error('Error fetching product margins:', err);
+      }
+    };
+    fetchMargins();
+  }, [showPurchasePrices]);
+
+  // Filter products based on search term, most relevant first
+  const filteredProducts = useRankedSearch('produits', products, searchTerm);
 
   // Calculate pagination
   const totalPages = Math.ceil(filteredProducts.length / itemsPerPage);
@@ -82,6 +131,7 @@ const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigate
   };
 
   const handleProductClick = (product: Product) => {
+    if (!canManageProducts) return;
     onNavigateToEdit(product);
   };
 
@@ -119,21 +169,44 @@ const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigate
     );
   }
 
-  return (
-    <div className="h-full flex flex-col">
+  const renderHeader = () => (
+    <>
       {/* Header */}
       <div className="flex items-center justify-between mb-8">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Produits</h1>
           <p className="text-gray-600 mt-1">Gérez votre catalogue de produits</p>
         </div>
-        <button
-          onClick={onNavigateToAdd}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
-        >
-          <Plus className="w-5 h-5" />
-          Ajouter un produit
-        </button>
+        {canManageProducts && (
+          <button
+            onClick={onNavigateToAdd}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
+          >
+            <Plus className="w-5 h-5" />
+            Ajouter un produit
+          </button>
+        )}
+      </div>
+
+      {/* Views */}
+      <div className="flex gap-2 border-b border-gray-200 mb-6">
+        {[
+          { id: '', label: 'Catalogue' },
+          { id: 'stock', label: 'Stock' },
+          ...(showPurchasePrices ? [{ id: 'valorisation', label: 'Valorisation du stock' }] : [])
+        ].map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setView(tab.id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors duration-200 ${
+              view === tab.id
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
       </div>
 
       {/* Search Bar */}
@@ -149,6 +222,30 @@ const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigate
           />
         </div>
       </div>
+    </>
+  );
+
+  if (view === 'stock') {
+    return (
+      <div className="h-full flex flex-col">
+        {renderHeader()}
+        <StockOverview products={products} searchTerm={searchTerm} />
+      </div>
+    );
+  }
+
+  if (view === 'valorisation' && showPurchasePrices) {
+    return (
+      <div className="h-full flex flex-col">
+        {renderHeader()}
+        <StockValuation searchTerm={searchTerm} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {renderHeader()}
 
       {/* Table */}
       <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
@@ -159,58 +256,95 @@ const ProductsList: React.FC<ProductsListProps> = ({ onNavigateToAdd, onNavigate
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Nom du Produit
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Prix d'Achat
-                </th>
+                {showPurchasePrices && (
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                    Prix d'Achat
+                  </th>
+                )}
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Prix de Vente
                 </th>
+                {showPurchasePrices && (
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                    Marge
+                  </th>
+                )}
+                {showPurchasePrices && (
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                    Marge réalisée
+                  </th>
+                )}
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Marge
+                  TVA
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {currentProducts.length > 0 ? (
                 currentProducts.map((product) => {
-                  const margin = product.prix_vente - product.prix_achat;
-                  const marginPercent = product.prix_achat > 0 ? (margin / product.prix_achat * 100) : 0;
+                  const prixAchat = purchasePrices[product.id] || 0;
+                  const margin = product.prix_vente - prixAchat;
+                  const marginPercent = prixAchat > 0 ? (margin / prixAchat * 100) : 0;
+                  const realized = margins[product.id];
                   
                   return (
                     <tr 
                       key={product.id} 
                       onClick={() => handleProductClick(product)}
-                      className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
+                      className={`hover:bg-gray-50 transition-colors duration-150 ${canManageProducts ? 'cursor-pointer' : ''}`}
                     >
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
-                          {product.nom_produit}
+                          <Highlight text={product.nom_produit} search={searchTerm} />
                         </div>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {formatPrice(product.prix_achat)}
-                      </td>
+                      {showPurchasePrices && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatPrice(prixAchat)}
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {formatPrice(product.prix_vente)}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">
-                          {formatPrice(margin)}
-                        </div>
-                        <div className={`text-xs ${marginPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {marginPercent >= 0 ? '+' : ''}{marginPercent.toFixed(1)}%
-                        </div>
+                      {showPurchasePrices && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">
+                            {formatPrice(margin)}
+                          </div>
+                          <div className={`text-xs ${marginPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {marginPercent >= 0 ? '+' : ''}{marginPercent.toFixed(1)}%
+                          </div>
+                        </td>
+                      )}
+                      {showPurchasePrices && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {realized ? (
+                            <>
+                              <div className={`text-sm ${realized.marge >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                                {formatPrice(realized.marge)}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                Transport: {formatPrice(realized.cout_transport)}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-sm text-gray-400">-</span>
+                          )}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatTvaRate(product.taux_tva)}
                       </td>
                     </tr>
                   );
                 })
               ) : (
                 <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={showPurchasePrices ? 6 : 3} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <Search className="w-8 h-8 text-gray-300 mb-2" />
                       <p>{searchTerm ? 'Aucun produit trouvé' : 'Aucun produit disponible'}</p>
-                      {!searchTerm && (
+                      {!searchTerm && canManageProducts && (
                         <button
                           onClick={onNavigateToAdd}
                           className="mt-2 text-blue-600 hover:text-blue-700 text-sm"
@@ -1,6 +1,14 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Save, Plus, Trash2, Search, Building2, Package } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Save, Plus, Trash2, Search, Building2, Package, FileSignature } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { PRODUCT_COLUMNS } from '../lib/products';
+import { previewDocumentNumber } from '../lib/numbering';
+import { DEFAULT_TVA_RATE, TVA_RATES, computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { errorMessage } from '../lib/dbErrors';
+import { createPurchaseOrder } from '../lib/purchaseOrdersRepo';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import Highlight from './Highlight';
 
 interface Fournisseur {
   id: string;
@@ -13,10 +21,10 @@ interface Fournisseur {
 interface Product {
   id: string;
   nom_produit: string;
-  prix_achat: number;
   prix_vente: number;
   unite: string;
   dimension_standard: number;
+  taux_tva: number;
 }
 
 interface OrderItem {
@@ -29,6 +37,17 @@ interface OrderItem {
   quantite_totale: number;
   total: number;
   unite: string;
+  taux_tva: number;
+}
+
+interface SourceQuote {
+  id: string;
+  numero_devis: string;
+  client: {
+    nom: string;
+    prenom: string;
+    societe: string;
+  };
 }
 
 interface PurchaseOrderAddProps {
@@ -36,6 +55,11 @@ interface PurchaseOrderAddProps {
 }
 
 const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) => {
+  // Source quote passed as ?devis=<id> when converting a quote into a BC
+  const [searchParams] = useSearchParams();
+  const sourceQuoteId = searchParams.get('devis');
+  const [sourceQuote, setSourceQuote] = useState<SourceQuote | null>(null);
+
   const [selectedFournisseur, setSelectedFournisseur] = useState<Fournisseur | null>(null);
   const [fournisseurs, setFournisseurs] = useState<Fournisseur[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -55,32 +79,13 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [nextOrderNumber, setNextOrderNumber] = useState<string>('');
 
-  // Generate next order number
-  const generateOrderNumber = async () => {
+  // Preview of the next order number, the number itself is assigned on insert
+  const generateOrderNumber = async (date: string) => {
     try {
-      const { data, error } = await supabase
-        .from('bon_de_commande')
-        .select('numero_commande')
-        ;
-
-      if (error) throw error;
-
-      let nextNumber = 1;
-      if (data && data.length > 0) {
-        // Extract all numeric parts and find the maximum
-        const numbers = data
-          .map(item => parseInt(item.numero_commande.replace('BC-', '')))
-          .filter(num => !isNaN(num));
-        
-        if (numbers.length > 0) {
-          nextNumber = Math.max(...numbers) + 1;
-        }
-      }
-
-      return `BC-${String(nextNumber).padStart(4, '0')}`;
+      return await previewDocumentNumber('bon_de_commande', date);
     } catch (error) {
       console.error('Error generating order number:', error);
-      return `BC-0001`;
+      return '-';
     }
   };
 
@@ -88,7 +93,6 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
   React.useEffect(() => {
     const loadData = async () => {
       await Promise.all([
-        generateOrderNumber().then(setNextOrderNumber),
         fetchFournisseurs(),
         fetchProducts()
       ]);
@@ -96,6 +100,70 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
     loadData();
   }, []);
 
+  // Lines of the source quote, at the prices offered to the client
+  React.useEffect(() => {
+    if (!sourceQuoteId) return;
+
+    const loadSourceQuote = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('devis')
+          .select(`
+            id, numero_devis,
+            client:clients(nom, prenom, societe),
+            items:devis_items(id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva, produit:produits(nom_produit, unite))
+          `)
+          .eq('id', sourceQuoteId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return;
+
+        const quote = data as unknown as SourceQuote & {
+          items: {
+            id: string;
+            produit_id: string;
+            quantite: number;
+            quantite_pieces: number | null;
+            quantite_unitaire: number | null;
+            prix_unitaire: number;
+            taux_tva: number;
+            produit: { nom_produit: string; unite: string } | null;
+          }[];
+        };
+
+        setSourceQuote(quote);
+        setOrderItems(quote.items.map(item => {
+          const unite = item.produit?.unite || 'unite';
+          const dual = ['ml', 'm2', 'kg', 'l', 'cm', 'm', 'g', 't'].includes(unite);
+          const quantite = Number(item.quantite);
+
+          return {
+            id: `temp-${item.id}`,
+            produit_id: item.produit_id,
+            nom_produit: item.produit?.nom_produit || '',
+            prix_unitaire: Number(item.prix_unitaire),
+            quantite_pieces: dual ? Number(item.quantite_pieces || 1) : quantite,
+            quantite_unitaire: dual ? Number(item.quantite_unitaire || quantite) : 1,
+            quantite_totale: quantite,
+            total: Number(item.prix_unitaire) * quantite,
+            unite,
+            taux_tva: Number(item.taux_tva)
+          };
+        }));
+        setFormData(prev => ({ ...prev, notes: prev.notes || `Devis ${quote.numero_devis}` }));
+      } catch (error) {
+        console.error('Error fetching source quote:', error);
+      }
+    };
+    loadSourceQuote();
+  }, [sourceQuoteId]);
+
+  // The number depends on the date when the sequence restarts every year
+  React.useEffect(() => {
+    generateOrderNumber(formData.date_commande).then(setNextOrderNumber);
+  }, [formData.date_commande]);
+
   const fetchFournisseurs = async () => {
     try {
       const { data, error } = await supabase
@@ -114,7 +182,7 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
     try {
       const { data, error } = await supabase
         .from('produits')
-        .select('*, dimension_standard')
+        .select(PRODUCT_COLUMNS)
         .order('nom_produit', { ascending: true });
 
       if (error) throw error;
@@ -155,7 +223,8 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
         quantite_unitaire: product.dimension_standard,
         quantite_totale: 1 * product.dimension_standard,
         total: product.prix_vente * (1 * product.dimension_standard),
-        unite: product.unite
+        unite: product.unite,
+        taux_tva: product.taux_tva ?? DEFAULT_TVA_RATE
       };
       setOrderItems(prev => [...prev, newItem]);
     }
@@ -213,23 +282,27 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
     );
   };
 
+  const handleTvaRateChange = (itemId: string, newRate: number) => {
+    setOrderItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, taux_tva: newRate }
+          : item
+      )
+    );
+  };
+
   const handleRemoveItem = (itemId: string) => {
     setOrderItems(prev => prev.filter(item => item.id !== itemId));
   };
 
-  const calculateTotal = () => {
-    return orderItems.reduce((sum, item) => sum + item.total, 0);
+  const calculateTotals = () => {
+    return computeTvaTotals(orderItems.map(item => ({ montant_ht: item.total, taux_tva: item.taux_tva })));
   };
 
-  const filteredFournisseurs = fournisseurs.filter(f =>
-    f.societe.toLowerCase().includes(fournisseurSearch.toLowerCase()) ||
-    f.nom.toLowerCase().includes(fournisseurSearch.toLowerCase()) ||
-    f.prenom.toLowerCase().includes(fournisseurSearch.toLowerCase())
-  );
+  const filteredFournisseurs = useRankedSearch('fournisseurs', fournisseurs, fournisseurSearch);
 
-  const filteredProducts = products.filter(p =>
-    p.nom_produit.toLowerCase().includes(productSearch.toLowerCase())
-  );
+  const filteredProducts = useRankedSearch('produits', products, productSearch);
 
   const getUnitLabel = (unite: string) => {
     const unitLabels = {
@@ -340,65 +413,26 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
     setErrors({}); // Clear previous errors
 
     try {
-      // Create the purchase order
-      const { data: orderData, error: orderError } = await supabase
-        .from('bon_de_commande')
-        .insert([
-          {
-            numero_commande: nextOrderNumber,
-            fournisseur_id: selectedFournisseur!.id,
-            date_commande: formData.date_commande,
-            total_ht: calculateTotal(),
-            notes: formData.notes.trim() || null,
-            statut: 'confirmee'
-          }
-        ])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create the order items
-      const itemsToInsert = orderItems.map(item => ({
-        commande_id: orderData.id,
-        produit_id: item.produit_id,
-        quantite: item.quantite_totale, // Store the total calculated quantity
-        quantite_pieces: item.quantite_pieces, // Store number of pieces
-        quantite_unitaire: item.quantite_unitaire, // Store dimension per piece
-        prix_unitaire: item.prix_unitaire
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('bon_de_commande_items')
-        .insert(itemsToInsert);
-
-      if (itemsError) throw itemsError;
+      const orderData = await createPurchaseOrder({
+        fournisseur_id: selectedFournisseur!.id,
+        date_commande: formData.date_commande,
+        notes: formData.notes,
+        devis_id: sourceQuote?.id || null,
+        items: orderItems.map(item => ({
+          produit_id: item.produit_id,
+          quantite: item.quantite_totale, // Store the total calculated quantity
+          quantite_pieces: item.quantite_pieces, // Store number of pieces
+          quantite_unitaire: item.quantite_unitaire, // Store dimension per piece
+          prix_unitaire: item.prix_unitaire,
+          taux_tva: item.taux_tva
+        }))
+      });
 
       console.log('Purchase order created successfully:', orderData);
       onNavigateBack();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating purchase order:', error);
-      
-      // Handle specific database errors
-      if (error.code === '23505') {
-        // Unique constraint violation
-        if (error.details?.includes('numero_commande')) {
-          setErrors({ general: `Le numéro de commande ${nextOrderNumber} existe déjà. Rechargez la page et réessayez.` });
-        } else {
-          setErrors({ general: 'Une commande avec ces informations existe déjà.' });
-        }
-      } else if (error.code === '23503') {
-        // Foreign key constraint violation
-        setErrors({ general: 'Erreur de référence: le fournisseur ou un produit sélectionné n\'existe plus.' });
-      } else if (error.code === '23514') {
-        // Check constraint violation
-        setErrors({ general: 'Erreur de validation: statut de commande invalide ou données incorrectes.' });
-      } else if (error.message) {
-        // Show the actual error message from the database
-        setErrors({ general: `Erreur: ${error.message}` });
-      } else {
-        setErrors({ general: 'Erreur lors de la création. Veuillez réessayer.' });
-      }
+      setErrors({ general: errorMessage(error, 'Erreur lors de la création. Veuillez réessayer.') });
     } finally {
       setIsSubmitting(false);
     }
@@ -411,6 +445,8 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
     }).format(price) + ' DH';
   };
 
+  const totals = calculateTotals();
+
   if (!nextOrderNumber) {
     return (
       <div className="min-h-full flex items-center justify-center">
@@ -431,10 +467,21 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
         </button>
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Créer un bon de commande</h1>
-          <p className="text-gray-600 mt-1">Numéro: {nextOrderNumber}</p>
+          <p className="text-gray-600 mt-1">Prochain numéro: {nextOrderNumber}</p>
         </div>
       </div>
 
+      {sourceQuote && (
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center gap-3">
+          <FileSignature className="w-5 h-5 text-blue-600" />
+          <p className="text-sm text-blue-800">
+            Conversion du devis <span className="font-medium">{sourceQuote.numero_devis}</span> pour{' '}
+            {sourceQuote.client.societe || `${sourceQuote.client.prenom} ${sourceQuote.client.nom}`}: choisissez le fournisseur,
+            le bon de livraison reprendra ce client.
+          </p>
+        </div>
+      )}
+
       {/* Form */}
       <div className="flex-1 pb-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -504,7 +551,8 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Dimension</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité Totale</th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Actions</th>
                       </tr>
                     </thead>
@@ -568,6 +616,17 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
                               )}
                             </div>
                           </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={item.taux_tva}
+                              onChange={(e) => handleTvaRateChange(item.id, Number(e.target.value))}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {TVA_RATES.map(taux => (
+                                <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                              ))}
+                            </select>
+                          </td>
                           <td className="px-4 py-3 text-sm font-medium text-gray-900">
                             {formatPrice(item.total)}
                           </td>
@@ -649,9 +708,19 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
                   <span className="text-gray-600">Nombre d'articles:</span>
                   <span className="font-medium">{orderItems.reduce((sum, item) => sum + item.quantite_pieces, 0)}</span>
                 </div>
-                <div className="flex justify-between py-2 text-lg font-semibold">
-                  <span>Total:</span>
-                  <span>{formatPrice(calculateTotal())}</span>
+                <div className="flex justify-between py-2">
+                  <span className="text-gray-600">Total HT:</span>
+                  <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                </div>
+                {totals.par_taux.map(row => (
+                  <div key={row.taux_tva} className="flex justify-between py-1 text-sm">
+                    <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                    <span>{formatPrice(row.montant_tva)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
+                  <span>Total TTC:</span>
+                  <span>{formatPrice(totals.total_ttc)}</span>
                 </div>
               </div>
             </div>
@@ -710,9 +779,9 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
                       onClick={() => handleSelectFournisseur(fournisseur)}
                       className="w-full text-left p-4 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors duration-200"
                     >
-                      <div className="font-medium text-gray-900">{fournisseur.societe}</div>
+                      <div className="font-medium text-gray-900"><Highlight text={fournisseur.societe} search={fournisseurSearch} /></div>
                       <div className="text-sm text-gray-600">
-                        {fournisseur.prenom} {fournisseur.nom} - {fournisseur.numero_fournisseur}
+                        <Highlight text={`${fournisseur.prenom} ${fournisseur.nom}`} search={fournisseurSearch} /> - <Highlight text={fournisseur.numero_fournisseur} search={fournisseurSearch} />
                       </div>
                     </button>
                   ))}
@@ -760,7 +829,7 @@ const PurchaseOrderAdd: React.FC<PurchaseOrderAddProps> = ({ onNavigateBack }) =
                       <div className="flex justify-between items-start">
                         <div>
                           <div className="font-medium text-gray-900 flex items-center gap-2">
-                            {product.nom_produit}
+                            <Highlight text={product.nom_produit} search={productSearch} />
                             {getUnitBadge(product.unite)}
                           </div>
                           <div className="text-sm text-gray-600">Prix de vente: {formatPrice(product.prix_vente)}</div>
@@ -1,21 +1,15 @@
-import React, { useState } from 'react';
-import { ArrowLeft, Save, Edit3, FileText, Plus, Trash2, Search, Package, Printer } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { ArrowLeft, Save, Edit3, FileText, Plus, Trash2, Search, Package, Printer, Warehouse } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-
-interface PurchaseOrder {
-  id: string;
-  numero_commande: string;
-  date_commande: string;
-  statut: string;
-  total_ht: number;
-  notes: string;
-  fournisseur: {
-    nom: string;
-    prenom: string;
-    societe: string;
-    numero_fournisseur: string;
-  };
-}
+import { PRODUCT_COLUMNS } from '../lib/products';
+import { DEFAULT_TVA_RATE, TVA_RATES, computeTvaTotals, formatTvaRate } from '../lib/tva';
+import { useCurrentUser } from '../lib/currentUser';
+import HistoryPanel from './HistoryPanel';
+import { PurchaseOrderDetail } from '../lib/domain';
+import { errorMessage } from '../lib/dbErrors';
+import { listPurchaseOrderItems, receivePurchaseOrder, updatePurchaseOrder } from '../lib/purchaseOrdersRepo';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import Highlight from './Highlight';
 
 interface OrderItem {
   id: string;
@@ -23,8 +17,10 @@ interface OrderItem {
   quantite_pieces: number;
   quantite_unitaire: number;
   quantite_totale: number;
+  quantite_livree?: number;
   prix_unitaire: number;
   total_ligne: number;
+  taux_tva: number;
   produit: {
     nom_produit: string;
     unite: string;
@@ -34,18 +30,24 @@ interface OrderItem {
 interface Product {
   id: string;
   nom_produit: string;
-  prix_achat: number;
   prix_vente: number;
   unite: string;
   dimension_standard: number;
+  taux_tva: number;
+}
+
+interface Depot {
+  id: string;
+  nom: string;
 }
 
 interface PurchaseOrderEditProps {
   onNavigateBack: () => void;
-  order: PurchaseOrder;
+  order: PurchaseOrderDetail;
 }
 
 const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, order }) => {
+  const { can } = useCurrentUser();
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [fournisseurs, setFournisseurs] = useState<any[]>([]);
@@ -65,38 +67,25 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Load order items and products on component mount
-  React.useEffect(() => {
-    const loadData = async () => {
-      await Promise.all([
-        fetchOrderItems(),
-        fetchProducts(),
-        fetchFournisseurs()
-      ]);
-    };
-    loadData();
-  }, []);
-
-  const fetchOrderItems = async () => {
+  // Reception of the order in a warehouse
+  const [depots, setDepots] = useState<Depot[]>([]);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({});
+  const [showReceptionModal, setShowReceptionModal] = useState(false);
+  const [receptionDepotId, setReceptionDepotId] = useState('');
+  const [receptionDate, setReceptionDate] = useState(new Date().toISOString().split('T')[0]);
+  const [receptionQuantities, setReceptionQuantities] = useState<Record<string, string>>({});
+  const [receptionError, setReceptionError] = useState<string | null>(null);
+  const [isReceiving, setIsReceiving] = useState(false);
+
+  const fetchOrderItems = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const { data, error: fetchError } = await supabase
-        .from('bon_de_commande_items')
-        .select(`
-          *,
-          produit:produits(nom_produit, unite)
-        `)
-        .eq('commande_id', order.id)
-        .order('id', { ascending: true });
-
-      if (fetchError) {
-        throw fetchError;
-      }
+      const data = await listPurchaseOrderItems(order.id);
 
       // Convert database format to component format
-      const convertedItems = (data || []).map(item => {
+      const convertedItems = data.map(item => {
         // Calculate pieces and unit quantities properly based on product type
         const requiresDual = item.produit && ['ml', 'm2', 'kg', 'l', 'cm', 'm', 'g', 't'].includes(item.produit.unite);
         
@@ -129,13 +118,13 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     } finally {
       setLoading(false);
     }
-  };
+  }, [order.id]);
 
-  const fetchProducts = async () => {
+  const fetchProducts = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('produits')
-        .select('id, nom_produit, prix_achat, prix_vente, unite, dimension_standard')
+        .select(PRODUCT_COLUMNS)
         .order('nom_produit', { ascending: true });
 
       if (error) throw error;
@@ -143,9 +132,9 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     } catch (error) {
       console.error('Error fetching products:', error);
     }
-  };
+  }, []);
 
-  const fetchFournisseurs = async () => {
+  const fetchFournisseurs = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('fournisseurs')
@@ -157,7 +146,50 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     } catch (error) {
       console.error('Error fetching fournisseurs:', error);
     }
-  };
+  }, []);
+
+  const fetchReceptions = useCallback(async () => {
+    try {
+      const [depotsResult, movementsResult] = await Promise.all([
+        supabase
+          .from('depots')
+          .select('id, nom')
+          .eq('actif', true)
+          .order('nom', { ascending: true }),
+        supabase
+          .from('mouvements_stock')
+          .select('commande_item_id, quantite, commande_item:bon_de_commande_items!inner(commande_id)')
+          .eq('type', 'reception')
+          .eq('commande_item.commande_id', order.id)
+      ]);
+
+      if (depotsResult.error) throw depotsResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+
+      const byItem: Record<string, number> = {};
+      (movementsResult.data || []).forEach(movement => {
+        byItem[movement.commande_item_id] = (byItem[movement.commande_item_id] || 0) + Number(movement.quantite);
+      });
+
+      setDepots(depotsResult.data || []);
+      setReceivedQuantities(byItem);
+    } catch (error) {
+      console.error('Error fetching receptions:', error);
+    }
+  }, [order.id]);
+
+  // Load order items and products on component mount
+  React.useEffect(() => {
+    const loadData = async () => {
+      await Promise.all([
+        fetchOrderItems(),
+        fetchProducts(),
+        fetchFournisseurs(),
+        fetchReceptions()
+      ]);
+    };
+    loadData();
+  }, [fetchOrderItems, fetchProducts, fetchFournisseurs, fetchReceptions]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -183,6 +215,7 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
         quantite_totale: 1 * product.dimension_standard,
         prix_unitaire: product.prix_vente, 
         total_ligne: product.prix_vente * (1 * product.dimension_standard),
+        taux_tva: product.taux_tva ?? DEFAULT_TVA_RATE,
         produit: {
           nom_produit: product.nom_produit,
           unite: product.unite
@@ -273,19 +306,23 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     setOrderItems(prev => prev.filter(item => item.id !== itemId));
   };
 
-  const calculateTotal = () => {
-    return orderItems.reduce((sum, item) => sum + item.total_ligne, 0);
+  const handleTvaRateChange = (itemId: string, newRate: number) => {
+    setOrderItems(prev => 
+      prev.map(item => 
+        item.id === itemId 
+          ? { ...item, taux_tva: newRate }
+          : item
+      )
+    );
+  };
+
+  const calculateTotals = () => {
+    return computeTvaTotals(orderItems.map(item => ({ montant_ht: item.total_ligne, taux_tva: item.taux_tva })));
   };
 
-  const filteredProducts = products.filter(p =>
-    p.nom_produit.toLowerCase().includes(productSearch.toLowerCase())
-  );
+  const filteredProducts = useRankedSearch('produits', products, productSearch);
 
-  const filteredFournisseurs = fournisseurs.filter(f =>
-    f.societe.toLowerCase().includes(fournisseurSearch.toLowerCase()) ||
-    f.nom.toLowerCase().includes(fournisseurSearch.toLowerCase()) ||
-    f.prenom.toLowerCase().includes(fournisseurSearch.toLowerCase())
-  );
+  const filteredFournisseurs = useRankedSearch('fournisseurs', fournisseurs, fournisseurSearch);
 
   const getUnitLabel = (unite: string) => {
     const unitLabels = {
@@ -348,59 +385,28 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     setIsSubmitting(true);
 
     try {
-      const newTotal = calculateTotal();
-
-      // Update purchase order
-      const { data, error } = await supabase
-        .from('bon_de_commande')
-        .update({
-          fournisseur_id: selectedFournisseur.id,
-          statut: formData.statut,
-          notes: formData.notes.trim() || null,
-          total_ht: newTotal
-        })
-        .eq('id', order.id)
-        .select();
-
-      if (error) {
-        throw error;
-      }
-
-      // Delete existing items and recreate them (simpler than handling inserts/updates/deletes)
-      const { error: deleteError } = await supabase
-        .from('bon_de_commande_items')
-        .delete()
-        .eq('commande_id', order.id);
-
-      if (deleteError) {
-        throw deleteError;
-      }
-
-      // Insert all current items
-      if (orderItems.length > 0) {
-        const itemsToInsert = orderItems.map(item => ({
-          commande_id: order.id,
+      const data = await updatePurchaseOrder(order.id, {
+        fournisseur_id: selectedFournisseur.id,
+        statut: formData.statut,
+        notes: formData.notes,
+        items: orderItems.map(item => ({
+          id: item.id.startsWith('temp-') ? null : item.id, // Existing lines keep their deliveries
           produit_id: item.produit_id,
           quantite: item.quantite_totale, // Store total calculated quantity
           quantite_pieces: item.quantite_pieces, // Store number of pieces
           quantite_unitaire: item.quantite_unitaire, // Store dimension per piece
-          prix_unitaire: item.prix_unitaire
-        }));
-
-        const { error: insertError } = await supabase
-          .from('bon_de_commande_items')
-          .insert(itemsToInsert);
-
-        if (insertError) {
-          throw insertError;
-        }
-      }
+          prix_unitaire: item.prix_unitaire,
+          taux_tva: item.taux_tva
+        }))
+      });
 
       console.log('Purchase order updated successfully:', data);
       onNavigateBack();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error updating purchase order:', error);
-      setError('Erreur lors de la modification. Veuillez réessayer.');
+      // A line already delivered cannot be removed, change product or go below
+      // its delivered quantity
+      setError(errorMessage(error, 'Erreur lors de la modification. Veuillez réessayer.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -413,11 +419,69 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     }).format(price) + ' DH';
   };
 
+  // Quantity of the line still to deliver, from the BLs already created
+  const remainingQuantity = (item: OrderItem) => {
+    return Math.max(Math.round((item.quantite_totale - (item.quantite_livree || 0)) * 100) / 100, 0);
+  };
+
+  // Quantity of the line not yet received in a warehouse
+  const remainingReception = (item: OrderItem) => {
+    return Math.max(Math.round((item.quantite_totale - (receivedQuantities[item.id] || 0)) * 100) / 100, 0);
+  };
+
+  // Lines saved on the order, the others cannot be received yet
+  const receivableItems = orderItems.filter(item => !item.id.startsWith('temp-'));
+
+  const openReceptionModal = () => {
+    const quantities: Record<string, string> = {};
+    receivableItems.forEach(item => {
+      quantities[item.id] = String(remainingReception(item));
+    });
+    setReceptionQuantities(quantities);
+    setReceptionDepotId(depots[0]?.id || '');
+    setReceptionDate(new Date().toISOString().split('T')[0]);
+    setReceptionError(null);
+    setShowReceptionModal(true);
+  };
+
+  const handleReception = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const items = Object.entries(receptionQuantities)
+      .map(([commande_item_id, quantite]) => ({ commande_item_id, quantite: Number(quantite) }))
+      .filter(item => item.quantite > 0);
+
+    if (!receptionDepotId) {
+      setReceptionError('Choisissez le dépôt de réception');
+      return;
+    }
+    if (items.length === 0) {
+      setReceptionError('Saisissez au moins une quantité reçue');
+      return;
+    }
+
+    try {
+      setIsReceiving(true);
+      setReceptionError(null);
+
+      await receivePurchaseOrder(order.id, receptionDepotId, receptionDate, items);
+
+      setShowReceptionModal(false);
+      fetchReceptions();
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      setReceptionError(errorMessage(error, 'Erreur lors de la réception. Veuillez réessayer.'));
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       brouillon: 'bg-gray-100 text-gray-800',
       envoyee: 'bg-blue-100 text-blue-800',
       confirmee: 'bg-green-100 text-green-800',
+      partiellement_livree: 'bg-orange-100 text-orange-800',
       livree: 'bg-purple-100 text-purple-800',
       annulee: 'bg-red-100 text-red-800'
     };
@@ -426,6 +490,7 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
       brouillon: 'Brouillon',
       envoyee: 'Envoyée',
       confirmee: 'Confirmée',
+      partiellement_livree: 'Partiellement livrée',
       livree: 'Livrée',
       annulee: 'Annulée'
     };
@@ -439,6 +504,8 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
     );
   };
 
+  const totals = calculateTotals();
+
   if (loading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -469,6 +536,15 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
             Bon de commande du {new Date(order.date_commande).toLocaleDateString('fr-FR')}
           </p>
         </div>
+        {order.statut !== 'annulee' && depots.length > 0 && (
+          <button
+            onClick={openReceptionModal}
+            className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
+          >
+            <Warehouse className="w-4 h-4" />
+            Réceptionner en stock
+          </button>
+        )}
         <button
           onClick={() => window.print()}
           className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200 print:hidden"
@@ -535,7 +611,9 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Quantité</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Dimension</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total</th>
-                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">TVA</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Total HT</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Reste à livrer</th>
                         <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase">Actions</th>
                       </tr>
                     </thead>
@@ -596,16 +674,41 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                               )}
                             </div>
                           </td>
+                          <td className="px-4 py-3">
+                            <select
+                              value={item.taux_tva}
+                              onChange={(e) => handleTvaRateChange(item.id, Number(e.target.value))}
+                              className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                              {TVA_RATES.map(taux => (
+                                <option key={taux} value={taux}>{formatTvaRate(taux)}</option>
+                              ))}
+                            </select>
+                          </td>
                           <td className="px-4 py-3 text-sm font-medium text-gray-900">
                             {formatPrice(item.total_ligne)}
                           </td>
+                          <td className="px-4 py-3 text-sm">
+                            <div className={remainingQuantity(item) > 0 ? 'font-medium text-orange-600' : 'text-green-600'}>
+                              {remainingQuantity(item)} {getUnitLabel(item.produit.unite)}
+                            </div>
+                            {(item.quantite_livree || 0) > 0 && (
+                              <div className="text-xs text-gray-500">
+                                Livré: {item.quantite_livree} {getUnitLabel(item.produit.unite)}
+                              </div>
+                            )}
+                          </td>
                           <td className="px-4 py-3">
-                            <button
-                              onClick={() => handleRemoveItem(item.id)}
-                              className="text-red-600 hover:text-red-800 p-1 rounded transition-colors duration-200"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
+                            {(item.quantite_livree || 0) > 0 ? (
+                              <span className="text-xs text-gray-400" title="Ligne déjà livrée">-</span>
+                            ) : (
+                              <button
+                                onClick={() => handleRemoveItem(item.id)}
+                                className="text-red-600 hover:text-red-800 p-1 rounded transition-colors duration-200"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -644,9 +747,13 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                     <option value="brouillon">Brouillon</option>
                     <option value="envoyee">Envoyée</option>
                     <option value="confirmee">Confirmée</option>
-                    <option value="livree">Livrée</option>
+                    <option value="partiellement_livree" disabled>Partiellement livrée (automatique)</option>
+                    <option value="livree" disabled>Livrée (automatique)</option>
                     <option value="annulee">Annulée</option>
                   </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Le statut de livraison suit les bons de livraison créés depuis cette commande.
+                  </p>
                 </div>
 
                 <div>
@@ -704,12 +811,24 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                   <span className="text-gray-600">Nombre d'articles:</span>
                   <span className="font-medium">{orderItems.reduce((sum, item) => sum + item.quantite_pieces, 0)}</span>
                 </div>
+                <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
+                  <span className="text-gray-600">Total HT:</span>
+                  <span className="font-medium">{formatPrice(totals.total_ht)}</span>
+                </div>
+                {totals.par_taux.map(row => (
+                  <div key={row.taux_tva} className="flex justify-between text-sm">
+                    <span className="text-gray-600">TVA {formatTvaRate(row.taux_tva)}:</span>
+                    <span className="font-medium">{formatPrice(row.montant_tva)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between py-2 border-t border-gray-200 text-lg font-semibold">
-                  <span>Total:</span>
-                  <span>{formatPrice(calculateTotal())}</span>
+                  <span>Total TTC:</span>
+                  <span>{formatPrice(totals.total_ttc)}</span>
                 </div>
               </div>
             </div>
+
+            {can('historique') && <HistoryPanel recordId={order.id} />}
           </div>
         </div>
       </div>
@@ -759,6 +878,7 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                     {order.statut === 'brouillon' ? 'Brouillon' :
                      order.statut === 'envoyee' ? 'Envoyée' :
                      order.statut === 'confirmee' ? 'Confirmée' :
+                     order.statut === 'partiellement_livree' ? 'Partiellement livrée' :
                      order.statut === 'livree' ? 'Livrée' :
                      order.statut === 'annulee' ? 'Annulée' : order.statut}
                   </span>
@@ -793,7 +913,8 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                 <th className="border border-gray-800 px-4 py-2 text-center font-semibold">Dimension</th>
                 <th className="border border-gray-800 px-4 py-2 text-center font-semibold">Quantité Totale</th>
                 <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Prix Unitaire</th>
-                <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Total</th>
+                <th className="border border-gray-800 px-4 py-2 text-center font-semibold">TVA</th>
+                <th className="border border-gray-800 px-4 py-2 text-right font-semibold">Total HT</th>
               </tr>
             </thead>
             <tbody>
@@ -816,13 +937,30 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                     )}
                   </td>
                   <td className="border border-gray-800 px-4 py-2 text-right">{formatPrice(item.prix_unitaire)}</td>
+                  <td className="border border-gray-800 px-4 py-2 text-center">{formatTvaRate(item.taux_tva)}</td>
                   <td className="border border-gray-800 px-4 py-2 text-right font-medium">{formatPrice(item.total_ligne)}</td>
                 </tr>
               ))}
+              <tr>
+                <td className="border border-gray-800 px-4 py-2 font-semibold" colSpan={6}>TOTAL HT</td>
+                <td className="border border-gray-800 px-4 py-2 text-right font-semibold">
+                  {formatPrice(totals.total_ht)}
+                </td>
+              </tr>
+              {totals.par_taux.map(row => (
+                <tr key={row.taux_tva}>
+                  <td className="border border-gray-800 px-4 py-2" colSpan={6}>
+                    TVA {formatTvaRate(row.taux_tva)} sur {formatPrice(row.base_ht)}
+                  </td>
+                  <td className="border border-gray-800 px-4 py-2 text-right">
+                    {formatPrice(row.montant_tva)}
+                  </td>
+                </tr>
+              ))}
               <tr className="bg-gray-100">
-                <td className="border border-gray-800 px-4 py-3 font-bold" colSpan={5}>TOTAL</td>
+                <td className="border border-gray-800 px-4 py-3 font-bold" colSpan={6}>TOTAL TTC</td>
                 <td className="border border-gray-800 px-4 py-3 text-right font-bold text-lg">
-                  {formatPrice(calculateTotal())}
+                  {formatPrice(totals.total_ttc)}
                 </td>
               </tr>
             </tbody>
@@ -930,7 +1068,7 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                     >
                       <div className="flex justify-between items-start">
                         <div>
-                          <div className="font-medium text-gray-900">{product.nom_produit}</div>
+                          <div className="font-medium text-gray-900"><Highlight text={product.nom_produit} search={productSearch} /></div>
                           <div className="text-sm text-gray-600">Prix de vente: {formatPrice(product.prix_vente)}</div>
                         </div>
                       </div>
@@ -981,9 +1119,9 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
                           : 'border-gray-200 hover:bg-blue-50 hover:border-blue-300'
                       }`}
                     >
-                      <div className="font-medium text-gray-900">{fournisseur.societe}</div>
+                      <div className="font-medium text-gray-900"><Highlight text={fournisseur.societe} search={fournisseurSearch} /></div>
                       <div className="text-sm text-gray-600">
-                        {fournisseur.prenom} {fournisseur.nom} - {fournisseur.numero_fournisseur}
+                        <Highlight text={`${fournisseur.prenom} ${fournisseur.nom}`} search={fournisseurSearch} /> - <Highlight text={fournisseur.numero_fournisseur} search={fournisseurSearch} />
                       </div>
                     </button>
                   ))}
@@ -1001,6 +1139,108 @@ const PurchaseOrderEdit: React.FC<PurchaseOrderEditProps> = ({ onNavigateBack, o
           </div>
         </div>
       )}
+
+      {/* Reception Modal */}
+      {showReceptionModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Réceptionner en stock</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Pour la marchandise qui passe par un dépôt. Les livraisons directes du fournisseur au client ne se réceptionnent pas.
+              </p>
+            </div>
+            <form onSubmit={handleReception} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="reception-depot" className="block text-sm font-medium text-gray-700 mb-1">
+                    Dépôt <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="reception-depot"
+                    value={receptionDepotId}
+                    onChange={(e) => setReceptionDepotId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {depots.map(depot => (
+                      <option key={depot.id} value={depot.id}>{depot.nom}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="reception-date" className="block text-sm font-medium text-gray-700 mb-1">
+                    Date de réception
+                  </label>
+                  <input
+                    type="date"
+                    id="reception-date"
+                    value={receptionDate}
+                    onChange={(e) => setReceptionDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Produit</th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Commandé</th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Déjà reçu</th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Reçu</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {receivableItems.map(item => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{item.produit.nom_produit}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">
+                        {item.quantite_totale} {getUnitLabel(item.produit.unite)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-600">
+                        {receivedQuantities[item.id] || 0} {getUnitLabel(item.produit.unite)}
+                      </td>
+                      <td className="px-4 py-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={receptionQuantities[item.id] ?? ''}
+                          onChange={(e) => setReceptionQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {receptionError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <p className="text-red-700 text-sm">{receptionError}</p>
+                </div>
+              )}
+
+              <div className="flex gap-4 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowReceptionModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={isReceiving}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+                >
+                  {isReceiving ? 'Réception...' : 'Réceptionner'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -15,78 +15,69 @@ import {
   AlertCircle,
   Building2
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface PurchaseOrder {
-  id: string;
-  numero_commande: string;
-  date_commande: string;
-  statut: string;
-  total_ht: number;
-  client?: {
-    nom: string;
-    prenom: string;
-    societe: string;
-  } | null;
-  fournisseur: {
-    nom: string;
-    prenom: string;
-    societe: string;
-  };
-}
+import { useQueryNumber, useQuerySort, useQueryState, useQueryStates } from '../lib/useQueryState';
+import { usePagedList, usePrintRows } from '../lib/usePagedList';
+import { RELEVANCE_SORT } from '../lib/pagination';
+import { clientShareName, formatQuantities } from '../lib/orderClients';
+import { PurchaseOrderListItem } from '../lib/domain';
+import {
+  PURCHASE_ORDER_SORT_COLUMNS,
+  PurchaseOrderFilters,
+  getPurchaseOrderListTotals,
+  searchPurchaseOrders
+} from '../lib/purchaseOrdersRepo';
+import SortableHeader from './SortableHeader';
+import Highlight from './Highlight';
 
 interface PurchaseOrdersListProps {
   onNavigateToAdd: () => void;
-  onNavigateToEdit: (order: PurchaseOrder) => void;
-  onConvertToDelivery: (order: PurchaseOrder) => void;
+  onNavigateToEdit: (order: PurchaseOrderListItem) => void;
+  onConvertToDelivery: (order: PurchaseOrderListItem) => void;
 }
 
 const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd, onNavigateToEdit, onConvertToDelivery }) => {
-  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [currentPage, setCurrentPage] = useState(1);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [itemsPerPage, setItemsPerPage] = useState(20);
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
-  const [selectedStatus, setSelectedStatus] = useState<string>('');
-
-  // Fetch purchase orders from Supabase
-  const fetchOrders = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error: fetchError } = await supabase
-        .from('bon_de_commande')
-        .select(`
-          *,
-          client:clients(nom, prenom, societe),
-          fournisseur:fournisseurs(nom, prenom, societe)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      setOrders(data || []);
-    } catch (err: any) {
-      console.error('Error fetching purchase orders:', err);
-      setError('Erreur lors du chargement des bons de commande');
-    } finally {
-      setLoading(false);
-    }
+  const [currentPage, setCurrentPage] = useQueryNumber('page', 1);
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [itemsPerPage, setItemsPerPage] = useQueryNumber('parPage', 20);
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
+  const [selectedStatus, setSelectedStatus] = useQueryState('statut');
+  const [sort, setSort] = useQuerySort(
+    'tri',
+    PURCHASE_ORDER_SORT_COLUMNS,
+    searchTerm.trim() ? RELEVANCE_SORT : { column: 'created_at', ascending: false }
+  );
+
+  // Search, filters, sorting and pagination run on the server
+  const filters: PurchaseOrderFilters = {
+    recherche: searchTerm,
+    dateDebut: dateFilters.dateFrom,
+    dateFin: dateFilters.dateTo,
+    statut: selectedStatus
   };
+  const page = { page: currentPage, pageSize: itemsPerPage };
+
+  const {
+    rows: currentOrders,
+    total: filteredCount,
+    totals: listTotals,
+    loading,
+    error,
+    reload: fetchOrders
+  } = usePagedList(
+    JSON.stringify([filters, sort, page]),
+    () => Promise.all([searchPurchaseOrders(filters, sort, page), getPurchaseOrderListTotals(filters)]),
+    'Erreur lors du chargement des bons de commande'
+  );
 
-  // Load orders on component mount
-  React.useEffect(() => {
-    fetchOrders();
-  }, []);
+  const [printOrders, printAllOrders] = usePrintRows(async () => (await searchPurchaseOrders(filters, sort)).rows);
+
+  const handleSort = (next: typeof sort) => {
+    setSort(next);
+    setCurrentPage(1);
+  };
 
   const handleDateFilterChange = (field: 'dateFrom' | 'dateTo', value: string) => {
     setDateFilters(prev => ({
@@ -110,43 +101,10 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
            selectedStatus;
   };
 
-  // Filter by date range
-  const filterByDateRange = (date: string) => {
-    if (!dateFilters.dateFrom && !dateFilters.dateTo) return true;
-    
-    const itemDate = date;
-    const fromMatch = !dateFilters.dateFrom || itemDate >= dateFilters.dateFrom;
-    const toMatch = !dateFilters.dateTo || itemDate <= dateFilters.dateTo;
-    
-    return fromMatch && toMatch;
-  };
-
-  // Filter orders based on search term
-  const searchFilteredOrders = orders.filter(order =>
-    order.numero_commande.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    order.fournisseur.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    order.fournisseur.societe.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    order.fournisseur.prenom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    `${order.fournisseur.prenom} ${order.fournisseur.nom}`.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (order.client && (
-      order.client.nom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.client.prenom.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.client.societe.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      `${order.client.prenom} ${order.client.nom}`.toLowerCase().includes(searchTerm.toLowerCase())
-    ))
-  );
-
-  // Apply all filters to search results
-  const filteredOrders = searchFilteredOrders.filter(order => 
-    filterByDateRange(order.date_commande) &&
-    (!selectedStatus || order.statut === selectedStatus)
-  );
-
   // Calculate pagination
-  const totalPages = Math.ceil(filteredOrders.length / itemsPerPage);
+  const totalPages = Math.ceil(filteredCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const currentOrders = filteredOrders.slice(startIndex, endIndex);
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -169,7 +127,16 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
     setCurrentPage(1); // Reset to first page when changing items per page
   };
 
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
+    let filteredOrders: PurchaseOrderListItem[];
+    try {
+      filteredOrders = (await searchPurchaseOrders(filters, sort)).rows;
+    } catch (err) {
+      console.error('Error fetching purchase orders to export:', err);
+      return;
+    }
+
+
     const csvHeaders = [
       'Numéro BC',
       'Date Commande',
@@ -184,10 +151,11 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
       order.numero_commande,
       new Date(order.date_commande).toLocaleDateString('fr-FR'),
       order.fournisseur.societe || `${order.fournisseur.prenom} ${order.fournisseur.nom}`,
-      order.client ? (order.client.societe || `${order.client.prenom} ${order.client.nom}`) : 'Non assigné',
+      order.clients.length > 0 ? order.clients.map(clientShareName).join(' / ') : 'Non assigné',
       order.statut === 'brouillon' ? 'Brouillon' :
       order.statut === 'envoyee' ? 'Envoyée' :
       order.statut === 'confirmee' ? 'Confirmée' :
+      order.statut === 'partiellement_livree' ? 'Partiellement livrée' :
       order.statut === 'livree' ? 'Livrée' :
       order.statut === 'annulee' ? 'Annulée' : order.statut,
       order.total_ht.toFixed(2),
@@ -220,23 +188,18 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
     document.body.removeChild(link);
   };
 
-  // Calculate totals for filtered data
+  // Totals of the filtered orders, computed by the database
   const calculateTotals = () => {
-    const confirmedOrders = filteredOrders.filter(o => o.statut === 'confirmee');
-    const deliveredOrders = filteredOrders.filter(o => o.statut === 'livree');
-    const sentOrders = filteredOrders.filter(o => o.statut === 'envoyee');
-    const draftOrders = filteredOrders.filter(o => o.statut === 'brouillon');
-
     return {
-      totalAmount: filteredOrders.reduce((sum, o) => sum + o.total_ht, 0),
-      confirmedTotal: confirmedOrders.reduce((sum, o) => sum + o.total_ht, 0),
-      deliveredTotal: deliveredOrders.reduce((sum, o) => sum + o.total_ht, 0),
-      sentTotal: sentOrders.reduce((sum, o) => sum + o.total_ht, 0),
-      count: filteredOrders.length,
-      confirmedCount: confirmedOrders.length,
-      deliveredCount: deliveredOrders.length,
-      sentCount: sentOrders.length,
-      draftCount: draftOrders.length
+      totalAmount: listTotals?.total_ht || 0,
+      confirmedTotal: listTotals?.total_confirmees || 0,
+      deliveredTotal: listTotals?.total_livrees || 0,
+      sentTotal: listTotals?.total_envoyees || 0,
+      count: filteredCount,
+      confirmedCount: listTotals?.nombre_confirmees || 0,
+      deliveredCount: listTotals?.nombre_livrees || 0,
+      sentCount: listTotals?.nombre_envoyees || 0,
+      draftCount: listTotals?.nombre_brouillons || 0
     };
   };
 
@@ -249,11 +212,24 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
     }).format(price) + ' DH';
   };
 
+  // Quantity still to deliver, per unit: "12 T, 40 M²"
+  const formatRemaining = (order: PurchaseOrderListItem) => {
+    const byUnit: Record<string, number> = {};
+    (order.items || []).forEach(item => {
+      const reste = item.quantite - (item.quantite_livree || 0);
+      if (reste <= 0) return;
+      const unite = item.produit?.unite || 'unite';
+      byUnit[unite] = (byUnit[unite] || 0) + reste;
+    });
+    return formatQuantities(byUnit);
+  };
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       brouillon: 'bg-gray-100 text-gray-800',
       envoyee: 'bg-blue-100 text-blue-800',
       confirmee: 'bg-green-100 text-green-800',
+      partiellement_livree: 'bg-orange-100 text-orange-800',
       livree: 'bg-purple-100 text-purple-800',
       annulee: 'bg-red-100 text-red-800'
     };
@@ -262,6 +238,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
       brouillon: 'Brouillon',
       envoyee: 'Envoyée',
       confirmee: 'Confirmée',
+      partiellement_livree: 'Partiellement livrée',
       livree: 'Livrée',
       annulee: 'Annulée'
     };
@@ -316,14 +293,14 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
             className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
           >
             <Download className="w-4 h-4" />
-            Exporter CSV ({filteredOrders.length})
+            Exporter CSV ({filteredCount})
           </button>
           <button
-            onClick={() => window.print()}
+            onClick={printAllOrders}
             className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors duration-200"
           >
             <Printer className="w-4 h-4" />
-            Imprimer ({filteredOrders.length})
+            Imprimer ({filteredCount})
           </button>
           <button
             onClick={onNavigateToAdd}
@@ -458,6 +435,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
               <option value="brouillon">Brouillon</option>
               <option value="envoyee">Envoyée</option>
               <option value="confirmee">Confirmée</option>
+              <option value="partiellement_livree">Partiellement livrée</option>
               <option value="livree">Livrée</option>
               <option value="annulee">Annulée</option>
             </select>
@@ -468,7 +446,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-center justify-between">
               <p className="text-sm text-blue-800">
-                <strong>{filteredOrders.length}</strong> bon(s) de commande trouvé(s) avec les filtres actifs
+                <strong>{filteredCount}</strong> bon(s) de commande trouvé(s) avec les filtres actifs
               </p>
               <p className="text-sm font-medium text-blue-900">
                 Total filtré: {formatPrice(totals.totalAmount)}
@@ -484,24 +462,18 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
               <tr>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Numéro
-                </th>
+                <SortableHeader label="Numéro" column="numero_commande" sort={sort} onSort={handleSort} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Fournisseur
                 </th>
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Client
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Date
-                </th>
+                <SortableHeader label="Date" column="date_commande" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Statut
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
-                  Total
-                </th>
+                <SortableHeader label="Total" column="total_ht" sort={sort} onSort={handleSort} ascendingFirst={false} />
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Actions
                 </th>
@@ -516,25 +488,31 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
                     className="hover:bg-gray-50 cursor-pointer transition-colors duration-150"
                   >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
-                      {order.numero_commande}
+                      <Highlight text={order.numero_commande} search={searchTerm} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {order.fournisseur.societe}
+                        <Highlight text={order.fournisseur.societe} search={searchTerm} />
                       </div>
                       <div className="text-sm text-gray-500">
-                        {order.fournisseur.prenom} {order.fournisseur.nom}
+                        <Highlight text={`${order.fournisseur.prenom} ${order.fournisseur.nom}`} search={searchTerm} />
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {order.client ? (
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">
-                            {order.client.societe}
-                          </div>
-                          <div className="text-sm text-gray-500">
-                            {order.client.prenom} {order.client.nom}
-                          </div>
+                      {order.clients.length > 0 ? (
+                        <div className="space-y-1">
+                          {order.clients.map(client => (
+                            <div key={client.client_id}>
+                              <div className="text-sm font-medium text-gray-900">
+                                {clientShareName(client)}
+                              </div>
+                              {order.clients.length > 1 && (
+                                <div className="text-xs text-gray-500">
+                                  {formatQuantities(client.quantites)}
+                                </div>
+                              )}
+                            </div>
+                          ))}
                         </div>
                       ) : (
                         <span className="text-gray-400 text-sm italic">Non assigné</span>
@@ -545,6 +523,9 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(order.statut)}
+                      {order.statut === 'partiellement_livree' && (
+                        <div className="text-xs text-gray-500 mt-1">Reste: {formatRemaining(order)}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {formatPrice(order.total_ht)}
@@ -561,7 +542,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
                           <Eye className="w-4 h-4" />
                           Voir
                         </button>
-                        {(order.statut === 'confirmee' || order.statut === 'envoyee') && (
+                        {(order.statut === 'confirmee' || order.statut === 'envoyee' || order.statut === 'partiellement_livree') && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -605,7 +586,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
         <div className="mt-6 flex items-center justify-between">
           <div className="flex items-center gap-4">
             <div className="text-sm text-gray-600">
-              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredOrders.length)} sur {filteredOrders.length} bons de commande
+              Affichage de {startIndex + 1} à {Math.min(endIndex, filteredCount)} sur {filteredCount} bons de commande
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600">Éléments par page:</span>
@@ -666,7 +647,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
           <p className="text-lg text-gray-700 mt-2">LISTE DES BONS DE COMMANDE</p>
           <p className="text-sm text-gray-600 mt-2">
             Généré le {new Date().toLocaleDateString('fr-FR')} à {new Date().toLocaleTimeString('fr-FR')} | 
-            {filteredOrders.length} commande(s) | Total: {formatPrice(totals.totalAmount)}
+            {printOrders.length} commande(s) | Total: {formatPrice(totals.totalAmount)}
           </p>
         </div>
 
@@ -683,7 +664,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
             </tr>
           </thead>
           <tbody>
-            {filteredOrders.map((order) => (
+            {printOrders.map((order) => (
               <tr key={order.id}>
                 <td className="border border-gray-800 px-3 py-2 text-sm">{order.numero_commande}</td>
                 <td className="border border-gray-800 px-3 py-2 text-sm">
@@ -693,12 +674,13 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
                   {order.fournisseur.societe || `${order.fournisseur.prenom} ${order.fournisseur.nom}`}
                 </td>
                 <td className="border border-gray-800 px-3 py-2 text-sm">
-                  {order.client ? (order.client.societe || `${order.client.prenom} ${order.client.nom}`) : 'Non assigné'}
+                  {order.clients.length > 0 ? order.clients.map(clientShareName).join(' / ') : 'Non assigné'}
                 </td>
                 <td className="border border-gray-800 px-3 py-2 text-sm">
                   {order.statut === 'brouillon' ? 'Brouillon' :
                    order.statut === 'envoyee' ? 'Envoyée' :
                    order.statut === 'confirmee' ? 'Confirmée' :
+                   order.statut === 'partiellement_livree' ? 'Partiellement livrée' :
                    order.statut === 'livree' ? 'Livrée' :
                    order.statut === 'annulee' ? 'Annulée' : order.statut}
                 </td>
@@ -711,7 +693,7 @@ const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ onNavigateToAdd
           <tfoot className="bg-gray-100">
             <tr>
               <td className="border border-gray-800 px-3 py-3 font-bold text-sm" colSpan={5}>
-                TOTAUX ({filteredOrders.length} commandes)
+                TOTAUX ({printOrders.length} commandes)
               </td>
               <td className="border border-gray-800 px-3 py-3 text-right font-bold text-sm">
                 {formatPrice(totals.totalAmount)}
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+
+interface RouteEntityProps<T> {
+  load: (id: string) => Promise<T | null>;
+  notFoundMessage: string;
+  children: (entity: T) => React.ReactNode;
+}
+
+// Loads the entity referenced by the `:id` route parameter and renders the
+// page once it is available.
+function RouteEntity<T>({ load, notFoundMessage, children }: RouteEntityProps<T>) {
+  const { id } = useParams();
+  const [entity, setEntity] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEntity = async () => {
+      setLoading(true);
+      try {
+        const data = id ? await load(id) : null;
+        if (!cancelled) setEntity(data);
+      } catch (error) {
+        console.error('Error loading entity:', error);
+        if (!cancelled) setEntity(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchEntity();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, load]);
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!entity) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <p className="text-gray-500 text-lg">{notFoundMessage}</p>
+      </div>
+    );
+  }
+
+  return <>{children(entity)}</>;
+}
+
+export default RouteEntity;
@@ -0,0 +1,32 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { SortOrder, nextSort } from '../lib/pagination';
+
+interface SortableHeaderProps<C extends string> {
+  label: string;
+  column: C;
+  sort: SortOrder<C>;
+  onSort: (sort: SortOrder<C>) => void;
+  // Order of the first click: amounts and dates start with the largest
+  ascendingFirst?: boolean;
+}
+
+// Table header that sorts the list on its column, on the server
+function SortableHeader<C extends string>({ label, column, sort, onSort, ascendingFirst = true }: SortableHeaderProps<C>) {
+  const active = sort.column === column;
+  const Icon = !active ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+      <button
+        type="button"
+        onClick={() => onSort(nextSort(sort, column, ascendingFirst))}
+        className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-blue-600 transition-colors duration-200"
+      >
+        {label}
+        <Icon className={`w-3 h-3 ${active ? 'text-blue-600' : 'text-gray-400'}`} />
+      </button>
+    </th>
+  );
+}
+
+export default SortableHeader;
@@ -0,0 +1,652 @@
+import React, { useState } from 'react';
+import { ClipboardList, SlidersHorizontal, Warehouse } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useCurrentUser } from '../lib/currentUser';
+import { formatQuantity } from '../lib/orderClients';
+import { useRankedSearch } from '../lib/useRankedSearch';
+
+interface Product {
+  id: string;
+  nom_produit: string;
+  unite: string;
+}
+
+interface Depot {
+  id: string;
+  nom: string;
+  adresse: string | null;
+  actif: boolean;
+}
+
+interface StockLine {
+  produit_id: string;
+  depot_id: string;
+  quantite: number;
+}
+
+interface StockMovement {
+  id: string;
+  type: 'reception' | 'livraison' | 'retour' | 'ajustement' | 'inventaire';
+  quantite: number;
+  date_mouvement: string;
+  notes: string | null;
+  produit: {
+    nom_produit: string;
+    unite: string;
+  } | null;
+  depot: {
+    nom: string;
+  } | null;
+}
+
+interface StockOverviewProps {
+  products: Product[];
+  searchTerm: string;
+}
+
+const MOVEMENT_LABELS: Record<StockMovement['type'], string> = {
+  reception: 'Réception',
+  livraison: 'Livraison',
+  retour: 'Retour client',
+  ajustement: 'Ajustement',
+  inventaire: 'Inventaire'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const StockOverview: React.FC<StockOverviewProps> = ({ products, searchTerm }) => {
+  const { can } = useCurrentUser();
+  const canManageStock = can('stock.gerer');
+  const [depots, setDepots] = useState<Depot[]>([]);
+  const [stock, setStock] = useState<Record<string, Record<string, number>>>({});
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [modal, setModal] = useState<'depot' | 'ajustement' | 'inventaire' | null>(null);
+  const [modalError, setModalError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [depotForm, setDepotForm] = useState({ nom: '', adresse: '' });
+  const [adjustmentForm, setAdjustmentForm] = useState({
+    depot_id: '',
+    produit_id: '',
+    quantite: '',
+    date_mouvement: today(),
+    notes: ''
+  });
+  const [countDepotId, setCountDepotId] = useState('');
+  const [countDate, setCountDate] = useState(today());
+  const [counts, setCounts] = useState<Record<string, string>>({});
+
+  const fetchStock = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [depotsResult, stockResult, movementsResult] = await Promise.all([
+        supabase
+          .from('depots')
+          .select('*')
+          .order('nom', { ascending: true }),
+        supabase
+          .from('stock_produits')
+          .select('produit_id, depot_id, quantite'),
+        supabase
+          .from('mouvements_stock')
+          .select(`
+            id, type, quantite, date_mouvement, notes,
+            produit:produits(nom_produit, unite),
+            depot:depots(nom)
+          `)
+          .order('created_at', { ascending: false })
+          .limit(50)
+      ]);
+
+      if (depotsResult.error) throw depotsResult.error;
+      if (stockResult.error) throw stockResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+
+      const byProduct: Record<string, Record<string, number>> = {};
+      (stockResult.data || []).forEach((line: StockLine) => {
+        byProduct[line.produit_id] = byProduct[line.produit_id] || {};
+        byProduct[line.produit_id][line.depot_id] = Number(line.quantite);
+      });
+
+      setDepots(depotsResult.data || []);
+      setStock(byProduct);
+      setMovements((movementsResult.data || []) as unknown as StockMovement[]);
+    } catch (err) {
+      console.error('Error fetching stock:', err);
+      setError('Erreur lors du chargement du stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    fetchStock();
+  }, []);
+
+  const activeDepots = depots.filter(depot => depot.actif);
+
+  const filteredProducts = useRankedSearch('produits', products, searchTerm);
+
+  const stockOf = (produitId: string, depotId: string) => stock[produitId]?.[depotId] || 0;
+
+  const totalOf = (produitId: string) => {
+    return Object.values(stock[produitId] || {}).reduce((sum, quantite) => sum + quantite, 0);
+  };
+
+  const openModal = (type: 'depot' | 'ajustement' | 'inventaire') => {
+    setModalError(null);
+    if (type === 'ajustement') {
+      setAdjustmentForm({
+        depot_id: activeDepots[0]?.id || '',
+        produit_id: '',
+        quantite: '',
+        date_mouvement: today(),
+        notes: ''
+      });
+    }
+    if (type === 'inventaire') {
+      setCountDepotId(activeDepots[0]?.id || '');
+      setCountDate(today());
+      setCounts({});
+    }
+    if (type === 'depot') {
+      setDepotForm({ nom: '', adresse: '' });
+    }
+    setModal(type);
+  };
+
+  const handleCreateDepot = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!depotForm.nom.trim()) {
+      setModalError('Le nom du dépôt est requis');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setModalError(null);
+
+      const { error: insertError } = await supabase
+        .from('depots')
+        .insert([{
+          nom: depotForm.nom.trim(),
+          adresse: depotForm.adresse.trim() || null
+        }]);
+
+      if (insertError) {
+        throw insertError;
+      }
+
+      setModal(null);
+      fetchStock();
+    } catch (err) {
+      console.error('Error creating depot:', err);
+      setModalError((err as { code?: string }).code === '23505'
+        ? 'Un dépôt porte déjà ce nom'
+        : 'Erreur lors de la création du dépôt. Veuillez réessayer.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantite = Number(adjustmentForm.quantite);
+    if (!adjustmentForm.depot_id || !adjustmentForm.produit_id) {
+      setModalError('Choisissez le dépôt et le produit');
+      return;
+    }
+    if (!quantite) {
+      setModalError('La quantité ne peut pas être nulle');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setModalError(null);
+
+      const { error: insertError } = await supabase
+        .from('mouvements_stock')
+        .insert([{
+          depot_id: adjustmentForm.depot_id,
+          produit_id: adjustmentForm.produit_id,
+          type: 'ajustement',
+          quantite,
+          date_mouvement: adjustmentForm.date_mouvement,
+          notes: adjustmentForm.notes.trim() || null
+        }]);
+
+      if (insertError) {
+        throw insertError;
+      }
+
+      setModal(null);
+      fetchStock();
+    } catch (err) {
+      console.error('Error creating stock adjustment:', err);
+      setModalError('Erreur lors de l\'enregistrement de l\'ajustement. Veuillez réessayer.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleInventoryCount = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Products left empty were not counted
+    const items = Object.entries(counts)
+      .filter(([, quantite]) => quantite !== '')
+      .map(([produit_id, quantite]) => ({ produit_id, quantite: Number(quantite) }));
+
+    if (!countDepotId || items.length === 0) {
+      setModalError('Saisissez au moins une quantité comptée');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setModalError(null);
+
+      const { error: countError } = await supabase
+        .rpc('record_inventory_count', {
+          p_depot_id: countDepotId,
+          p_date: countDate,
+          p_items: items
+        });
+
+      if (countError) {
+        throw countError;
+      }
+
+      setModal(null);
+      fetchStock();
+    } catch (err) {
+      console.error('Error recording inventory count:', err);
+      setModalError('Erreur lors de l\'enregistrement de l\'inventaire. Veuillez réessayer.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderModal = () => {
+    if (!modal) return null;
+
+    const titles = {
+      depot: 'Nouveau dépôt',
+      ajustement: 'Ajustement de stock',
+      inventaire: 'Inventaire'
+    };
+    const onSubmit = modal === 'depot'
+      ? handleCreateDepot
+      : modal === 'ajustement' ? handleAdjustment : handleInventoryCount;
+
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+        <div className={`bg-white rounded-lg shadow-xl w-full max-h-[90vh] flex flex-col ${modal === 'inventaire' ? 'max-w-2xl' : 'max-w-md'}`}>
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">{titles[modal]}</h3>
+            {modal === 'ajustement' && (
+              <p className="text-sm text-gray-600 mt-1">
+                Quantité positive pour une entrée, négative pour une sortie (casse, perte...).
+              </p>
+            )}
+            {modal === 'inventaire' && (
+              <p className="text-sm text-gray-600 mt-1">
+                Saisissez les quantités comptées. L'écart avec le stock théorique est enregistré ; les produits laissés vides ne changent pas.
+              </p>
+            )}
+          </div>
+          <form onSubmit={onSubmit} className="p-6 space-y-4 overflow-y-auto">
+            {modal === 'depot' && (
+              <>
+                <div>
+                  <label htmlFor="depot-nom" className="block text-sm font-medium text-gray-700 mb-1">
+                    Nom <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="depot-nom"
+                    value={depotForm.nom}
+                    onChange={(e) => setDepotForm(prev => ({ ...prev, nom: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="depot-adresse" className="block text-sm font-medium text-gray-700 mb-1">
+                    Adresse
+                  </label>
+                  <input
+                    type="text"
+                    id="depot-adresse"
+                    value={depotForm.adresse}
+                    onChange={(e) => setDepotForm(prev => ({ ...prev, adresse: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </>
+            )}
+
+            {modal === 'ajustement' && (
+              <>
+                <div>
+                  <label htmlFor="adjustment-depot" className="block text-sm font-medium text-gray-700 mb-1">
+                    Dépôt <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="adjustment-depot"
+                    value={adjustmentForm.depot_id}
+                    onChange={(e) => setAdjustmentForm(prev => ({ ...prev, depot_id: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {activeDepots.map(depot => (
+                      <option key={depot.id} value={depot.id}>{depot.nom}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="adjustment-produit" className="block text-sm font-medium text-gray-700 mb-1">
+                    Produit <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="adjustment-produit"
+                    value={adjustmentForm.produit_id}
+                    onChange={(e) => setAdjustmentForm(prev => ({ ...prev, produit_id: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Choisir un produit</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>{product.nom_produit}</option>
+                    ))}
+                  </select>
+                  {adjustmentForm.produit_id && adjustmentForm.depot_id && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      En stock : {formatQuantity(
+                        stockOf(adjustmentForm.produit_id, adjustmentForm.depot_id),
+                        products.find(p => p.id === adjustmentForm.produit_id)?.unite || null
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="adjustment-quantite" className="block text-sm font-medium text-gray-700 mb-1">
+                      Quantité <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      id="adjustment-quantite"
+                      step="0.01"
+                      value={adjustmentForm.quantite}
+                      onChange={(e) => setAdjustmentForm(prev => ({ ...prev, quantite: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="adjustment-date" className="block text-sm font-medium text-gray-700 mb-1">
+                      Date
+                    </label>
+                    <input
+                      type="date"
+                      id="adjustment-date"
+                      value={adjustmentForm.date_mouvement}
+                      onChange={(e) => setAdjustmentForm(prev => ({ ...prev, date_mouvement: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="adjustment-notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    Motif
+                  </label>
+                  <input
+                    type="text"
+                    id="adjustment-notes"
+                    value={adjustmentForm.notes}
+                    onChange={(e) => setAdjustmentForm(prev => ({ ...prev, notes: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </>
+            )}
+
+            {modal === 'inventaire' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="count-depot" className="block text-sm font-medium text-gray-700 mb-1">
+                      Dépôt <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      id="count-depot"
+                      value={countDepotId}
+                      onChange={(e) => setCountDepotId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {activeDepots.map(depot => (
+                        <option key={depot.id} value={depot.id}>{depot.nom}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="count-date" className="block text-sm font-medium text-gray-700 mb-1">
+                      Date
+                    </label>
+                    <input
+                      type="date"
+                      id="count-date"
+                      value={countDate}
+                      onChange={(e) => setCountDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Produit</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Théorique</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Compté</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {products.map(product => (
+                      <tr key={product.id}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{product.nom_produit}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600">
+                          {formatQuantity(stockOf(product.id, countDepotId), product.unite)}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={counts[product.id] ?? ''}
+                            onChange={(e) => setCounts(prev => ({ ...prev, [product.id]: e.target.value }))}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            {modalError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-red-700 text-sm">{modalError}</p>
+              </div>
+            )}
+
+            <div className="flex gap-4 pt-2">
+              <button
+                type="button"
+                onClick={() => setModal(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+              >
+                Annuler
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200"
+              >
+                {isSubmitting ? 'Enregistrement...' : 'Enregistrer'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center text-gray-500">Chargement du stock...</div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600 text-sm">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {canManageStock && (
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={() => openModal('depot')}
+            className="border border-gray-300 text-gray-700 hover:bg-gray-50 px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors duration-200"
+          >
+            <Warehouse className="w-4 h-4" />
+            Nouveau dépôt
+          </button>
+          <button
+            onClick={() => openModal('ajustement')}
+            disabled={activeDepots.length === 0}
+            className="border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors duration-200"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            Ajustement
+          </button>
+          <button
+            onClick={() => openModal('inventaire')}
+            disabled={activeDepots.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors duration-200"
+          >
+            <ClipboardList className="w-4 h-4" />
+            Inventaire
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Produit</th>
+                {depots.map(depot => (
+                  <th key={depot.id} className="px-6 py-4 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                    {depot.nom}{!depot.actif && ' (inactif)'}
+                  </th>
+                ))}
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredProducts.length > 0 ? (
+                filteredProducts.map(product => {
+                  const total = totalOf(product.id);
+                  return (
+                    <tr key={product.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{product.nom_produit}</td>
+                      {depots.map(depot => {
+                        const quantite = stockOf(product.id, depot.id);
+                        return (
+                          <td
+                            key={depot.id}
+                            className={`px-6 py-4 text-sm text-right ${quantite < 0 ? 'text-red-600' : 'text-gray-900'}`}
+                          >
+                            {formatQuantity(quantite, product.unite)}
+                          </td>
+                        );
+                      })}
+                      <td className={`px-6 py-4 text-sm text-right font-medium ${total < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatQuantity(total, product.unite)}
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={depots.length + 2} className="px-6 py-12 text-center text-gray-500">
+                    Aucun produit trouvé
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Derniers mouvements</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Produit</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Dépôt</th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Quantité</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Référence</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {movements.length > 0 ? (
+                movements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {new Date(movement.date_mouvement).toLocaleDateString('fr-FR')}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-900">{MOVEMENT_LABELS[movement.type]}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">{movement.produit?.nom_produit || '-'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">{movement.depot?.nom || '-'}</td>
+                    <td className={`px-6 py-3 text-sm text-right font-medium ${movement.quantite < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {movement.quantite > 0 ? '+' : ''}{formatQuantity(movement.quantite, movement.produit?.unite || null)}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-600">{movement.notes || '-'}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    Aucun mouvement de stock. Les réceptions de BC et les BL expédiés depuis un dépôt apparaissent ici.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {renderModal()}
+    </div>
+  );
+};
+
+export default StockOverview;
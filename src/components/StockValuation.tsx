@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatQuantity } from '../lib/orderClients';
+
+interface ValuationLine {
+  produit_id: string;
+  nom_produit: string;
+  unite: string;
+  quantite: number;
+  cout_moyen: number;
+  valeur: number;
+}
+
+interface StockValuationProps {
+  searchTerm: string;
+}
+
+const StockValuation: React.FC<StockValuationProps> = ({ searchTerm }) => {
+  const [lines, setLines] = useState<ValuationLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchValuation = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('valorisation_stock')
+        .select('*')
+        .order('nom_produit', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setLines(data || []);
+    } catch (err) {
+      console.error('Error fetching stock valuation:', err);
+      setError('Erreur lors du chargement de la valorisation du stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    fetchValuation();
+  }, []);
+
+  const filteredLines = lines.filter(line =>
+    line.nom_produit.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const totalValue = filteredLines.reduce((sum, line) => sum + Number(line.valeur), 0);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const exportToCSV = () => {
+    const csvHeaders = [
+      'Produit',
+      'Quantité',
+      'Unité',
+      'Coût moyen pondéré (DH)',
+      'Valeur (DH)'
+    ];
+
+    const csvData = filteredLines.map(line => [
+      line.nom_produit,
+      Number(line.quantite).toFixed(2),
+      line.unite,
+      Number(line.cout_moyen).toFixed(2),
+      Number(line.valeur).toFixed(2)
+    ]);
+
+    csvData.push([
+      `TOTAL (${filteredLines.length} produits)`,
+      '',
+      '',
+      '',
+      totalValue.toFixed(2)
+    ]);
+    const csvContent = [csvHeaders, ...csvData]
+      .map(row => row.map(cell => `"${cell}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `valorisation_stock_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center text-gray-500">Chargement de la valorisation...</div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600 text-sm">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm text-gray-600">Valeur totale du stock</div>
+          <div className="text-2xl font-bold text-gray-900">{formatPrice(totalValue)}</div>
+        </div>
+        <button
+          onClick={exportToCSV}
+          disabled={filteredLines.length === 0}
+          className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center gap-2 text-sm font-medium transition-colors duration-200"
+        >
+          <Download className="w-4 h-4" />
+          Exporter CSV
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Produit</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Quantité</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Coût moyen pondéré</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Valeur</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredLines.length > 0 ? (
+                filteredLines.map(line => (
+                  <tr key={line.produit_id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{line.nom_produit}</td>
+                    <td className={`px-6 py-4 text-sm text-right ${line.quantite < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatQuantity(line.quantite, line.unite)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right text-gray-900">{formatPrice(line.cout_moyen)}</td>
+                    <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">{formatPrice(line.valeur)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">
+                    Aucun produit en stock
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            {filteredLines.length > 0 && (
+              <tfoot className="bg-gray-50 border-t border-gray-200">
+                <tr>
+                  <td colSpan={3} className="px-6 py-4 text-sm font-semibold text-gray-900">Total</td>
+                  <td className="px-6 py-4 text-sm text-right font-semibold text-gray-900">{formatPrice(totalValue)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockValuation;
@@ -11,6 +11,16 @@ import {
   Plus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useQueryState, useQueryStates } from '../lib/useQueryState';
+import {
+  ORDER_CLIENT_COLUMNS,
+  OrderClientLine,
+  OrderClientShare,
+  clientShareName,
+  formatQuantities,
+  groupOrderClients,
+  linesByOrder
+} from '../lib/orderClients';
 
 interface Supplier {
   id: string;
@@ -40,11 +50,14 @@ interface OrderReport {
   }>;
   payment_status: 'paid' | 'unpaid' | 'partial';
   paid_amount: number;
+  // Clients the order was delivered to
+  clients: OrderClientShare[];
 }
 
 const SupplierReports: React.FC = () => {
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
-  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+  const [selectedSupplierId, setSelectedSupplierId] = useQueryState('fournisseur');
+  const selectedSupplier = suppliers.find(item => item.id === selectedSupplierId) || null;
   const [orders, setOrders] = useState<OrderReport[]>([]);
   const [totalPayments, setTotalPayments] = useState<number>(0);
   const [loading, setLoading] = useState(true);
@@ -52,10 +65,10 @@ const SupplierReports: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [showSupplierModal, setShowSupplierModal] = useState(false);
   
-  const [dateFilters, setDateFilters] = useState({
-    dateFrom: '',
-    dateTo: ''
-  });
+  const [dateFilters, setDateFilters] = useQueryStates(
+    { dateFrom: '', dateTo: '' },
+    { dateFrom: 'from', dateTo: 'to' }
+  );
 
   // Local state for date inputs to prevent immediate re-renders
   const [localDateFilters, setLocalDateFilters] = useState({
@@ -127,13 +140,28 @@ const SupplierReports: React.FC = () => {
       const { data: ordersData, error: ordersError } = await ordersQuery;
       if (ordersError) throw ordersError;
 
+      // Quantities delivered to each client, per order
+      const orderIds = (ordersData || []).map(order => order.id);
+      let clientLines: OrderClientLine[] = [];
+      if (orderIds.length > 0) {
+        const { data: linesData, error: linesError } = await supabase
+          .from('bon_de_commande_clients')
+          .select(ORDER_CLIENT_COLUMNS)
+          .in('commande_id', orderIds);
+
+        if (linesError) throw linesError;
+        clientLines = (linesData || []) as OrderClientLine[];
+      }
+      const clientLinesByOrder = linesByOrder(clientLines);
+
       // For each order, calculate payment status
       const ordersWithPayments = await Promise.all(
         (ordersData || []).map(async (order) => {
           return {
             ...order,
             payment_status: 'unpaid' as const, // Orders don't track individual payments
-            paid_amount: 0 // Payments are tracked at supplier level, not per order
+            paid_amount: 0, // Payments are tracked at supplier level, not per order
+            clients: groupOrderClients(clientLinesByOrder[order.id] || [])
           };
         })
       );
@@ -167,7 +195,7 @@ const SupplierReports: React.FC = () => {
   };
 
   const handleSupplierSelect = (supplier: Supplier) => {
-    setSelectedSupplier(supplier);
+    setSelectedSupplierId(supplier.id);
     setShowSupplierModal(false);
     setSearchTerm('');
   };
@@ -210,6 +238,7 @@ const SupplierReports: React.FC = () => {
       'Numéro Commande',
       'Date Commande',
       'Statut',
+      'Clients',
       'Total HT (DH)', 
       'Total Payé (DH)',
       'Solde (DH)',
@@ -222,8 +251,10 @@ const SupplierReports: React.FC = () => {
       order.statut === 'brouillon' ? 'Brouillon' :
       order.statut === 'envoyee' ? 'Envoyée' :
       order.statut === 'confirmee' ? 'Confirmée' :
+      order.statut === 'partiellement_livree' ? 'Partiellement livrée' :
       order.statut === 'livree' ? 'Livrée' :
       order.statut === 'annulee' ? 'Annulée' : order.statut,
+      order.clients.map(client => `${clientShareName(client)}: ${formatQuantities(client.quantites)}`).join(' / '),
       order.total_ht.toFixed(2),
       '', // Empty for individual orders
       '', // Empty for individual orders
@@ -235,6 +266,7 @@ const SupplierReports: React.FC = () => {
       `TOTAUX (${totals.ordersCount} commandes)`,
       '', // Empty date
       '', // Empty status
+      '', // Empty clients
       totals.totalOrders.toFixed(2),
       totals.totalPaid.toFixed(2),
       totals.totalBalance.toFixed(2),
@@ -275,6 +307,7 @@ const SupplierReports: React.FC = () => {
       brouillon: 'bg-gray-100 text-gray-800',
       envoyee: 'bg-blue-100 text-blue-800',
       confirmee: 'bg-green-100 text-green-800',
+      partiellement_livree: 'bg-orange-100 text-orange-800',
       livree: 'bg-purple-100 text-purple-800',
       annulee: 'bg-red-100 text-red-800'
     };
@@ -283,6 +316,7 @@ const SupplierReports: React.FC = () => {
       brouillon: 'Brouillon',
       envoyee: 'Envoyée',
       confirmee: 'Confirmée',
+      partiellement_livree: 'Partiellement livrée',
       livree: 'Livrée',
       annulee: 'Annulée'
     };
@@ -445,7 +479,7 @@ const SupplierReports: React.FC = () => {
       <div className="flex items-center justify-between mb-8 print:hidden">
         <div className="flex items-center gap-4">
           <button
-            onClick={() => setSelectedSupplier(null)}
+            onClick={() => setSelectedSupplierId('')}
             className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors duration-200"
           >
             <ArrowLeft className="w-5 h-5" />
@@ -613,6 +647,9 @@ const SupplierReports: React.FC = () => {
                 <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   Statut
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Clients
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
                   TOTAL HT
                 </th>
@@ -637,6 +674,18 @@ const SupplierReports: React.FC = () => {
                     <td className="px-4 py-3 whitespace-nowrap">
                       {getStatusBadge(order.statut)}
                     </td>
+                    <td className="px-4 py-3 text-sm">
+                      {order.clients.length > 0 ? (
+                        order.clients.map(client => (
+                          <div key={client.client_id}>
+                            <span className="font-medium text-gray-900">{clientShareName(client)}</span>
+                            <span className="text-gray-500"> — {formatQuantities(client.quantites)} ({formatPrice(client.montant_ht)})</span>
+                          </div>
+                        ))
+                      ) : (
+                        <span className="text-gray-400 italic">Non livrée</span>
+                      )}
+                    </td>
                     <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
                       {formatPrice(order.total_ht)}
                     </td>
@@ -654,7 +703,7 @@ const SupplierReports: React.FC = () => {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <FileText className="w-8 h-8 text-gray-300 mb-2" />
                       <p>Aucune commande pour la période sélectionnée</p>
@@ -668,7 +717,7 @@ const SupplierReports: React.FC = () => {
             {orders.length > 0 && (
               <tfoot className="bg-gray-100 border-t-2 border-gray-300">
                 <tr className="font-semibold">
-                  <td className="px-4 py-4 text-sm font-bold text-gray-900" colSpan={3}>
+                  <td className="px-4 py-4 text-sm font-bold text-gray-900" colSpan={4}>
                     TOTAUX ({totals.ordersCount} commandes)
                   </td>
                   <td className="px-4 py-4 text-sm font-bold text-blue-600">
@@ -0,0 +1,362 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useCurrentUser } from '../lib/currentUser';
+
+interface TransportRate {
+  id: string;
+  chauffeur_id: string | null;
+  zone: string | null;
+  unite: string | null;
+  base: 'voyage' | 'quantite';
+  montant: number;
+  chauffeur: {
+    nom: string;
+    prenom: string;
+  } | null;
+}
+
+interface Chauffeur {
+  id: string;
+  nom: string;
+  prenom: string;
+  type_chauffeur: string;
+}
+
+interface TransportRatesProps {
+  chauffeurs: Chauffeur[];
+}
+
+const UNIT_LABELS: Record<string, string> = {
+  unite: 'Unité',
+  ml: 'ML',
+  m2: 'M²',
+  kg: 'KG',
+  l: 'L',
+  pcs: 'PCS',
+  box: 'Boîte',
+  cm: 'CM',
+  m: 'M',
+  g: 'G',
+  t: 'T'
+};
+
+const emptyForm = {
+  chauffeur_id: '',
+  zone: '',
+  unite: '',
+  base: 'voyage' as 'voyage' | 'quantite',
+  montant: ''
+};
+
+const TransportRates: React.FC<TransportRatesProps> = ({ chauffeurs }) => {
+  const { can } = useCurrentUser();
+  const canManage = can('chauffeurs.paie');
+  const [rates, setRates] = useState<TransportRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Trip pricing only applies to external drivers
+  const externalChauffeurs = chauffeurs.filter(c => c.type_chauffeur === 'externe');
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('tarifs_transport')
+        .select(`
+          *,
+          chauffeur:chauffeurs(nom, prenom)
+        `)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setRates(data || []);
+    } catch (err) {
+      console.error('Error fetching transport rates:', err);
+      setError('Erreur lors du chargement de la grille tarifaire');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+      // A price per quantity needs the unit it is counted in
+      ...(name === 'base' && value === 'quantite' && !prev.unite ? { unite: 't' } : {})
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.montant || Number(formData.montant) <= 0) {
+      setFormError('Le montant doit être supérieur à 0');
+      return;
+    }
+    if (formData.base === 'quantite' && !formData.unite) {
+      setFormError('Choisissez l\'unité du tarif à la quantité');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setFormError(null);
+
+      const { error: insertError } = await supabase
+        .from('tarifs_transport')
+        .insert([{
+          chauffeur_id: formData.chauffeur_id || null,
+          zone: formData.zone.trim() || null,
+          unite: formData.unite || null,
+          base: formData.base,
+          montant: Number(formData.montant)
+        }]);
+
+      if (insertError) {
+        throw insertError;
+      }
+
+      setFormData(emptyForm);
+      fetchRates();
+    } catch (err) {
+      console.error('Error creating transport rate:', err);
+      setFormError('Erreur lors de l\'ajout du tarif. Veuillez réessayer.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (rate: TransportRate) => {
+    if (!window.confirm('Supprimer ce tarif ? Les BL déjà valorisés ne changent pas.')) {
+      return;
+    }
+
+    try {
+      setDeletingId(rate.id);
+
+      const { error: deleteError } = await supabase
+        .from('tarifs_transport')
+        .delete()
+        .eq('id', rate.id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      setRates(prev => prev.filter(r => r.id !== rate.id));
+    } catch (err) {
+      console.error('Error deleting transport rate:', err);
+      setError('Erreur lors de la suppression du tarif');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      useGrouping: false
+    }).format(price) + ' DH';
+  };
+
+  const formatRate = (rate: TransportRate) => {
+    if (rate.base === 'quantite') {
+      return `${formatPrice(rate.montant)} / ${UNIT_LABELS[rate.unite || ''] || rate.unite}`;
+    }
+    return `${formatPrice(rate.montant)} / voyage`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+        Le coût de transport d'un BL livré par un chauffeur externe est calculé avec le tarif le plus précis
+        (chauffeur, puis zone du client, puis unité des produits livrés). Sans tarif, le tarif par voyage du chauffeur s'applique.
+      </div>
+
+      {canManage && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Ajouter un tarif</h2>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label htmlFor="chauffeur_id" className="block text-sm font-medium text-gray-700 mb-2">
+                Chauffeur
+              </label>
+              <select
+                id="chauffeur_id"
+                name="chauffeur_id"
+                value={formData.chauffeur_id}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Tous les externes</option>
+                {externalChauffeurs.map(chauffeur => (
+                  <option key={chauffeur.id} value={chauffeur.id}>
+                    {chauffeur.prenom} {chauffeur.nom}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="zone" className="block text-sm font-medium text-gray-700 mb-2">
+                Ville / zone
+              </label>
+              <input
+                type="text"
+                id="zone"
+                name="zone"
+                value={formData.zone}
+                onChange={handleInputChange}
+                placeholder="Toutes"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="base" className="block text-sm font-medium text-gray-700 mb-2">
+                Calcul
+              </label>
+              <select
+                id="base"
+                name="base"
+                value={formData.base}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="voyage">Par voyage</option>
+                <option value="quantite">À la quantité</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="unite" className="block text-sm font-medium text-gray-700 mb-2">
+                Unité
+              </label>
+              <select
+                id="unite"
+                name="unite"
+                value={formData.unite}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {formData.base === 'voyage' && <option value="">Toutes</option>}
+                {Object.entries(UNIT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="montant" className="block text-sm font-medium text-gray-700 mb-2">
+                Montant (DH)
+              </label>
+              <input
+                type="number"
+                id="montant"
+                name="montant"
+                step="0.01"
+                min="0"
+                value={formData.montant}
+                onChange={handleInputChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          {formError && (
+            <p className="text-red-500 text-sm mt-3">{formError}</p>
+          )}
+          <div className="flex justify-end mt-4">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
+            >
+              <Plus className="w-5 h-5" />
+              {isSubmitting ? 'Ajout...' : 'Ajouter le tarif'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Chauffeur</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Ville / zone</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Unité</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">Tarif</th>
+                {canManage && (
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-900 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={canManage ? 5 : 4} className="px-6 py-12 text-center text-gray-500">
+                    Chargement de la grille tarifaire...
+                  </td>
+                </tr>
+              ) : rates.length > 0 ? (
+                rates.map(rate => (
+                  <tr key={rate.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {rate.chauffeur ? `${rate.chauffeur.prenom} ${rate.chauffeur.nom}` : 'Tous les externes'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{rate.zone || 'Toutes'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {rate.unite ? UNIT_LABELS[rate.unite] || rate.unite : 'Toutes'}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{formatRate(rate)}</td>
+                    {canManage && (
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => handleDelete(rate)}
+                          disabled={deletingId === rate.id}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors duration-200"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={canManage ? 5 : 4} className="px-6 py-12 text-center text-gray-500">
+                    Aucun tarif. Le tarif par voyage de chaque chauffeur s'applique.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransportRates;
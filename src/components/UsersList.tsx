@@ -0,0 +1,680 @@
+import React, { useState } from 'react';
+import { Search, UserPlus, KeyRound, UserX, UserCheck, FileText, X, Send } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useQueryState } from '../lib/useQueryState';
+import { useRankedSearch } from '../lib/useRankedSearch';
+import { useCurrentUser } from '../lib/currentUser';
+import { ROLE_LABELS, UserRole } from '../lib/permissions';
+
+interface User {
+  id: string;
+  email: string;
+  nom_complet: string | null;
+  role: UserRole;
+  chauffeur_id: string | null;
+  actif: boolean;
+  created_at: string;
+  last_sign_in_at: string | null;
+  invited_at: string | null;
+  nb_bons_commande: number;
+  nb_bons_livraison: number;
+  nb_factures: number;
+  nb_paiements: number;
+}
+
+interface UserDocument {
+  type_document: string;
+  document_id: string;
+  numero: string | null;
+  date_document: string;
+  montant: number;
+}
+
+interface Chauffeur {
+  id: string;
+  nom: string;
+  prenom: string;
+  numero_chauffeur: string;
+}
+
+const ROLES: UserRole[] = ['admin', 'commercial', 'comptable', 'chauffeur'];
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  bon_de_commande: 'Bon de commande',
+  bon_de_livraison: 'Bon de livraison',
+  facture: 'Facture',
+  paiement_client: 'Paiement client',
+  paiement_fournisseur: 'Paiement fournisseur',
+  paiement_chauffeur: 'Paiement chauffeur'
+};
+
+const emptyInviteForm = {
+  email: '',
+  nom_complet: '',
+  role: 'commercial' as UserRole,
+  chauffeur_id: ''
+};
+
+const UsersList: React.FC = () => {
+  const { profile } = useCurrentUser();
+  const [users, setUsers] = useState<User[]>([]);
+  const [chauffeurs, setChauffeurs] = useState<Chauffeur[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const [searchTerm, setSearchTerm] = useQueryState('q');
+  const [selectedRole, setSelectedRole] = useQueryState('role');
+
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteForm, setInviteForm] = useState(emptyInviteForm);
+  const [inviteErrors, setInviteErrors] = useState<Record<string, string>>({});
+  const [isInviting, setIsInviting] = useState(false);
+
+  const [documentsUser, setDocumentsUser] = useState<User | null>(null);
+  const [documents, setDocuments] = useState<UserDocument[]>([]);
+  const [loadingDocuments, setLoadingDocuments] = useState(false);
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [usersResult, chauffeursResult] = await Promise.all([
+        supabase.rpc('list_users'),
+        supabase
+          .from('chauffeurs')
+          .select('id, nom, prenom, numero_chauffeur')
+          .order('nom')
+      ]);
+
+      if (usersResult.error) throw usersResult.error;
+      if (chauffeursResult.error) throw chauffeursResult.error;
+
+      setUsers(usersResult.data || []);
+      setChauffeurs(chauffeursResult.data || []);
+    } catch (err) {
+      console.error('Error fetching users:', err);
+      setError('Erreur lors du chargement des utilisateurs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  // Account operations that need the service role key
+  const invokeAdmin = async (body: Record<string, unknown>) => {
+    const { data, error: invokeError } = await supabase.functions.invoke('admin-users', {
+      body: { ...body, redirectTo: window.location.origin }
+    });
+
+    if (invokeError) {
+      // The function answers with { error } and a non-2xx status
+      const context = (invokeError as { context?: Response }).context;
+      const payload = context ? await context.json().catch(() => null) : null;
+      throw new Error(payload?.error || invokeError.message);
+    }
+    return data;
+  };
+
+  const showSuccess = (message: string) => {
+    setActionError(null);
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(''), 4000);
+  };
+
+  const updateProfile = async (user: User, changes: Partial<Pick<User, 'role' | 'chauffeur_id'>>) => {
+    setBusyUserId(user.id);
+    setActionError(null);
+
+    try {
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('id', user.id);
+
+      if (updateError) throw updateError;
+
+      setUsers(prev => prev.map(u => (u.id === user.id ? { ...u, ...changes } : u)));
+      showSuccess(`Profil de ${user.nom_complet || user.email} mis à jour`);
+    } catch (err) {
+      console.error('Error updating profile:', err);
+      setActionError('Erreur lors de la mise à jour du profil');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRoleChange = (user: User, role: UserRole) => {
+    updateProfile(user, {
+      role,
+      chauffeur_id: role === 'chauffeur' ? user.chauffeur_id : null
+    });
+  };
+
+  const handleToggleActive = async (user: User) => {
+    const actif = !user.actif;
+    if (!actif && !window.confirm(`Désactiver le compte de ${user.nom_complet || user.email} ?`)) {
+      return;
+    }
+
+    setBusyUserId(user.id);
+    try {
+      await invokeAdmin({ action: 'set_active', user_id: user.id, actif });
+      setUsers(prev => prev.map(u => (u.id === user.id ? { ...u, actif } : u)));
+      showSuccess(actif ? 'Compte réactivé' : 'Compte désactivé');
+    } catch (err) {
+      console.error('Error updating account status:', err);
+      setActionError(err instanceof Error ? err.message : 'Erreur lors de la mise à jour du compte');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    setBusyUserId(user.id);
+    try {
+      await invokeAdmin({ action: 'reset_password', user_id: user.id });
+      showSuccess(`Un email de réinitialisation a été envoyé à ${user.email}`);
+    } catch (err) {
+      console.error('Error resetting password:', err);
+      setActionError(err instanceof Error ? err.message : 'Erreur lors de la réinitialisation du mot de passe');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleInviteChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setInviteForm(prev => ({ ...prev, [name]: value }));
+    if (inviteErrors[name]) {
+      setInviteErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    const email = inviteForm.email.trim().toLowerCase();
+    if (!email) {
+      newErrors.email = 'L\'email est requis';
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      newErrors.email = 'Format d\'email invalide';
+    } else if (users.some(u => u.email.toLowerCase() === email)) {
+      newErrors.email = 'Un utilisateur existe déjà avec cet email';
+    }
+    if (inviteForm.role === 'chauffeur' && !inviteForm.chauffeur_id) {
+      newErrors.chauffeur_id = 'Sélectionnez le chauffeur correspondant';
+    }
+
+    setInviteErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setIsInviting(true);
+    try {
+      await invokeAdmin({
+        action: 'invite',
+        email,
+        nom_complet: inviteForm.nom_complet,
+        role: inviteForm.role,
+        chauffeur_id: inviteForm.chauffeur_id || null
+      });
+
+      setShowInviteModal(false);
+      setInviteForm(emptyInviteForm);
+      showSuccess(`Invitation envoyée à ${email}`);
+      fetchUsers();
+    } catch (err) {
+      console.error('Error inviting user:', err);
+      setInviteErrors({ form: err instanceof Error ? err.message : 'Erreur lors de l\'envoi de l\'invitation' });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const openDocuments = async (user: User) => {
+    setDocumentsUser(user);
+    setDocuments([]);
+    setLoadingDocuments(true);
+
+    try {
+      const { data, error: fetchError } = await supabase.rpc('user_documents', { p_user_id: user.id });
+      if (fetchError) throw fetchError;
+      setDocuments(data || []);
+    } catch (err) {
+      console.error('Error fetching user documents:', err);
+    } finally {
+      setLoadingDocuments(false);
+    }
+  };
+
+  // Users matching the search by email or name, most relevant first
+  const searchedUsers = useRankedSearch('utilisateurs', users, searchTerm);
+
+  const filteredUsers = searchedUsers.filter(user => !selectedRole || user.role === selectedRole);
+
+  const formatDateTime = (date: string | null) =>
+    date
+      ? new Date(date).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })
+      : 'Jamais';
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('fr-MA', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    }).format(price) + ' DH';
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+          <p className="text-gray-500">Chargement des utilisateurs...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-500 mb-4">{error}</p>
+          <button
+            onClick={fetchUsers}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg"
+          >
+            Réessayer
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Utilisateurs</h1>
+          <p className="text-gray-600 mt-1">Invitez vos collaborateurs et gérez leurs accès</p>
+        </div>
+        <button
+          onClick={() => setShowInviteModal(true)}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 font-medium transition-colors duration-200"
+        >
+          <UserPlus className="w-5 h-5" />
+          Inviter un utilisateur
+        </button>
+      </div>
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+          <p className="text-green-700 text-sm">{successMessage}</p>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-700 text-sm">{actionError}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Rechercher par nom ou email..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={selectedRole}
+          onChange={(e) => setSelectedRole(e.target.value)}
+          className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Tous les rôles</option>
+          {ROLES.map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Table */}
+      <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Utilisateur
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Rôle
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Statut
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Dernière connexion
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Documents créés
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-900 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredUsers.length > 0 ? (
+                filteredUsers.map(user => {
+                  const isSelf = user.id === profile?.id;
+                  const isBusy = busyUserId === user.id;
+                  const documentsCount = Number(user.nb_bons_commande) + Number(user.nb_bons_livraison) +
+                    Number(user.nb_factures) + Number(user.nb_paiements);
+
+                  return (
+                    <tr key={user.id} className={user.actif ? '' : 'bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">
+                          {user.nom_complet || user.email}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500">(vous)</span>}
+                        </div>
+                        {user.nom_complet && <div className="text-sm text-gray-500">{user.email}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          value={user.role}
+                          onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                          disabled={isSelf || isBusy}
+                          className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                        >
+                          {ROLES.map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                        {user.role === 'chauffeur' && (
+                          <select
+                            value={user.chauffeur_id || ''}
+                            onChange={(e) => updateProfile(user, { chauffeur_id: e.target.value || null })}
+                            disabled={isBusy}
+                            className={`mt-2 block px-2 py-1 border rounded text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${
+                              user.chauffeur_id ? 'border-gray-300' : 'border-red-500'
+                            }`}
+                          >
+                            <option value="">Chauffeur non lié</option>
+                            {chauffeurs.map(chauffeur => (
+                              <option key={chauffeur.id} value={chauffeur.id}>
+                                {chauffeur.prenom} {chauffeur.nom} ({chauffeur.numero_chauffeur})
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {user.actif ? (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            {user.last_sign_in_at || !user.invited_at ? 'Actif' : 'Invité'}
+                          </span>
+                        ) : (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                            Désactivé
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDateTime(user.last_sign_in_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <button
+                          onClick={() => openDocuments(user)}
+                          className="text-blue-600 hover:text-blue-900 flex items-center gap-1"
+                        >
+                          <FileText className="w-4 h-4" />
+                          {documentsCount}
+                        </button>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {user.nb_bons_commande} BC · {user.nb_bons_livraison} BL · {user.nb_factures} FA · {user.nb_paiements} paiements
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => handleResetPassword(user)}
+                            disabled={isBusy || !user.actif}
+                            className="text-gray-600 hover:text-gray-900 disabled:text-gray-300 flex items-center gap-1"
+                            title="Envoyer un email de réinitialisation du mot de passe"
+                          >
+                            <KeyRound className="w-4 h-4" />
+                            Mot de passe
+                          </button>
+                          {!isSelf && (
+                            <button
+                              onClick={() => handleToggleActive(user)}
+                              disabled={isBusy}
+                              className={`flex items-center gap-1 ${
+                                user.actif ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'
+                              }`}
+                            >
+                              {user.actif ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                              {user.actif ? 'Désactiver' : 'Réactiver'}
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    <div className="flex flex-col items-center">
+                      <Search className="w-8 h-8 text-gray-300 mb-2" />
+                      <p>Aucun utilisateur trouvé</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Invite Modal */}
+      {showInviteModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Inviter un utilisateur</h3>
+                <button
+                  onClick={() => setShowInviteModal(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            <form onSubmit={handleInvite} className="p-6">
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                    Email *
+                  </label>
+                  <input
+                    type="email"
+                    id="email"
+                    name="email"
+                    value={inviteForm.email}
+                    onChange={handleInviteChange}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      inviteErrors.email ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder="prenom.nom@exemple.ma"
+                  />
+                  {inviteErrors.email && (
+                    <p className="text-red-500 text-xs mt-1">{inviteErrors.email}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="nom_complet" className="block text-sm font-medium text-gray-700 mb-1">
+                    Nom complet
+                  </label>
+                  <input
+                    type="text"
+                    id="nom_complet"
+                    name="nom_complet"
+                    value={inviteForm.nom_complet}
+                    onChange={handleInviteChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">
+                    Rôle *
+                  </label>
+                  <select
+                    id="role"
+                    name="role"
+                    value={inviteForm.role}
+                    onChange={handleInviteChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {inviteForm.role === 'chauffeur' && (
+                  <div>
+                    <label htmlFor="chauffeur_id" className="block text-sm font-medium text-gray-700 mb-1">
+                      Chauffeur *
+                    </label>
+                    <select
+                      id="chauffeur_id"
+                      name="chauffeur_id"
+                      value={inviteForm.chauffeur_id}
+                      onChange={handleInviteChange}
+                      className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        inviteErrors.chauffeur_id ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">Sélectionner un chauffeur</option>
+                      {chauffeurs.map(chauffeur => (
+                        <option key={chauffeur.id} value={chauffeur.id}>
+                          {chauffeur.prenom} {chauffeur.nom} ({chauffeur.numero_chauffeur})
+                        </option>
+                      ))}
+                    </select>
+                    {inviteErrors.chauffeur_id && (
+                      <p className="text-red-500 text-xs mt-1">{inviteErrors.chauffeur_id}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {inviteErrors.form && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
+                  <p className="text-red-700 text-sm">{inviteErrors.form}</p>
+                </div>
+              )}
+
+              <div className="flex gap-4 mt-6">
+                <button
+                  type="button"
+                  onClick={() => setShowInviteModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors duration-200"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="submit"
+                  disabled={isInviting}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors duration-200 flex items-center justify-center gap-2"
+                >
+                  <Send className="w-4 h-4" />
+                  {isInviting ? 'Envoi...' : 'Envoyer l\'invitation'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Documents Modal */}
+      {documentsUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Documents créés</h3>
+                  <p className="text-sm text-gray-600 mt-1">{documentsUser.nom_complet || documentsUser.email}</p>
+                </div>
+                <button
+                  onClick={() => setDocumentsUser(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6">
+              {loadingDocuments ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+                  <p className="text-gray-500">Chargement des documents...</p>
+                </div>
+              ) : documents.length > 0 ? (
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Type</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Numéro</th>
+                      <th className="px-4 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Date</th>
+                      <th className="px-4 py-2 text-right text-xs font-semibold text-gray-900 uppercase">Montant</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {documents.map(doc => (
+                      <tr key={`${doc.type_document}-${doc.document_id}`}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{DOCUMENT_LABELS[doc.type_document] || doc.type_document}</td>
+                        <td className="px-4 py-2 text-sm font-mono text-gray-900">{doc.numero || '-'}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">{new Date(doc.date_document).toLocaleDateString('fr-FR')}</td>
+                        <td className="px-4 py-2 text-sm text-right text-gray-900">{formatPrice(doc.montant)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <FileText className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+                  <p>Aucun document créé par cet utilisateur</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsersList;
@@ -0,0 +1,49 @@
+// Aging buckets of the balance âgée reports. Amounts are aged from their due
+// date (document date plus the payment terms of the partner, when it has some)
+// and amounts not yet due fall in the first bucket.
+export type AgingBucket = 'b0_30' | 'b31_60' | 'b61_90' | 'b90';
+
+export const AGING_BUCKETS: AgingBucket[] = ['b0_30', 'b31_60', 'b61_90', 'b90'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  b0_30: '0-30 jours',
+  b31_60: '31-60 jours',
+  b61_90: '61-90 jours',
+  b90: '+90 jours'
+};
+
+export const AGING_BUCKET_STYLES: Record<AgingBucket, string> = {
+  b0_30: 'text-gray-900',
+  b31_60: 'text-yellow-700',
+  b61_90: 'text-orange-700',
+  b90: 'text-red-700'
+};
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export const emptyAgingTotals = (): AgingTotals => ({ b0_30: 0, b31_60: 0, b61_90: 0, b90: 0, total: 0 });
+
+// Due date of a document dated `date` (YYYY-MM-DD) with `terms` days to pay
+export const dueDate = (date: string, terms?: number | null) => {
+  const due = new Date(`${date}T00:00:00`);
+  due.setDate(due.getDate() + (terms || 0));
+  return due;
+};
+
+// Days past the due date, 0 while not yet due
+export const daysPastDue = (date: string, terms?: number | null, today = new Date()) => {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.max(Math.floor((start.getTime() - dueDate(date, terms).getTime()) / 86400000), 0);
+};
+
+export const agingBucket = (days: number): AgingBucket => {
+  if (days <= 30) return 'b0_30';
+  if (days <= 60) return 'b31_60';
+  if (days <= 90) return 'b61_90';
+  return 'b90';
+};
+
+export const addToAging = (totals: AgingTotals, bucket: AgingBucket, amount: number) => {
+  totals[bucket] += amount;
+  totals.total += amount;
+};
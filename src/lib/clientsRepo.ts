@@ -0,0 +1,151 @@
+import { db } from './supabase';
+import { TablesInsert, TablesUpdate } from './database.types';
+import { Client, ClientListItem, ClientListTotals } from './domain';
+import { CreditCheck } from './creditControl';
+import { toRepositoryError } from './dbErrors';
+import { Page, PageRequest, SortOrder, pageRange } from './pagination';
+
+export interface ClientFilters {
+  recherche: string;
+  // Creation date of the client
+  dateDebut: string;
+  dateFin: string;
+}
+
+export const CLIENT_SORT_COLUMNS = [
+  'numero_client',
+  'societe',
+  'chiffre_affaires',
+  'total_paiements',
+  'current_debt',
+  'available_credit',
+  'created_at',
+  'pertinence'
+] as const;
+
+export type ClientSort = typeof CLIENT_SORT_COLUMNS[number];
+
+// Columns of `clients` every role may select. The margin is not one of them:
+// it comes from the `marges_clients` view, which only answers comptables and
+// admins.
+export const CLIENT_COLUMNS = 'id, numero_client, nom, prenom, societe, ice, email, telephone, zone, credit_initial, chiffre_affaires, total_paiements, current_debt, available_credit, total_avoirs, plafond_credit, delai_paiement, created_at, updated_at, recherche';
+
+const clientSearchArgs = (filters: ClientFilters) => ({
+  p_recherche: filters.recherche || undefined,
+  p_date_debut: filters.dateDebut || undefined,
+  p_date_fin: filters.dateFin || undefined
+});
+
+// Clients, sorted by company name
+export const listClients = async (): Promise<Client[]> => {
+  const { data, error } = await db
+    .from('clients')
+    .select(CLIENT_COLUMNS)
+    .order('societe', { ascending: true });
+
+  if (error) throw toRepositoryError(error);
+  return data || [];
+};
+
+// One page of the filtered clients, or all of them without `page`
+export const searchClients = async (
+  filters: ClientFilters,
+  sort: SortOrder<ClientSort>,
+  page?: PageRequest
+): Promise<Page<ClientListItem>> => {
+  let query = db
+    .rpc('search_clients', clientSearchArgs(filters), { count: 'exact' })
+    .select('*');
+  // Sorted by relevance, the rows keep the order of the search function
+  if (sort.column !== 'pertinence') {
+    query = query.order(sort.column, { ascending: sort.ascending }).order('id', { ascending: true });
+  }
+  if (page) {
+    query = query.range(...pageRange(page));
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) throw toRepositoryError(error);
+  return { rows: data || [], total: count || 0 };
+};
+
+export const getClientListTotals = async (filters: ClientFilters): Promise<ClientListTotals> => {
+  const { data, error } = await db.rpc('client_list_totals', clientSearchArgs(filters));
+
+  if (error) throw toRepositoryError(error);
+  return data[0];
+};
+
+export const getClient = async (id: string): Promise<Client | null> => {
+  const { data, error } = await db
+    .from('clients')
+    .select(CLIENT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// Margin of the client, null for the roles that may not see it
+export const getClientMargin = async (id: string): Promise<number | null> => {
+  const { data, error } = await db
+    .from('marges_clients')
+    .select('total_margin')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toRepositoryError(error);
+  return data ? data.total_margin : null;
+};
+
+// Next free CLT-xxx number, after the highest one in use
+export const getNextClientNumber = async (): Promise<string> => {
+  const { data, error } = await db
+    .from('clients')
+    .select('numero_client');
+
+  if (error) throw toRepositoryError(error);
+
+  const numbers = (data || [])
+    .map(item => parseInt(item.numero_client.replace('CLT-', '')))
+    .filter(num => !isNaN(num));
+  const nextNumber = numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+
+  return `CLT-${String(nextNumber).padStart(3, '0')}`;
+};
+
+export const createClient = async (client: TablesInsert<'clients'>): Promise<Client> => {
+  const { data, error } = await db
+    .from('clients')
+    .insert(client)
+    .select(CLIENT_COLUMNS)
+    .single();
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+export const updateClient = async (id: string, changes: TablesUpdate<'clients'>): Promise<Client> => {
+  const { data, error } = await db
+    .from('clients')
+    .update(changes)
+    .eq('id', id)
+    .select(CLIENT_COLUMNS)
+    .single();
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// Outstanding and limit of the client if a new BL of `montant` TTC is added
+export const checkClientCredit = async (clientId: string, montant: number): Promise<CreditCheck | null> => {
+  const { data, error } = await db.rpc('client_credit_check', {
+    p_client_id: clientId,
+    p_montant: montant
+  });
+
+  if (error) throw toRepositoryError(error);
+  return (data || [])[0] || null;
+};
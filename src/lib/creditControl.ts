@@ -0,0 +1,23 @@
+// Credit control of the deliveries, set in Paramètres: a BL that pushes the
+// client over its limit, or for a client with overdue BLs, is either flagged
+// or refused unless an admin overrides it (see create_delivery_note and update_delivery_note).
+export type CreditControlMode = 'avertir' | 'bloquer';
+
+export const CREDIT_CONTROL_LABELS: Record<CreditControlMode, string> = {
+  avertir: 'Avertir seulement',
+  bloquer: 'Bloquer la livraison'
+};
+
+// Row returned by the client_credit_check function
+export interface CreditCheck {
+  controle_credit: CreditControlMode;
+  plafond_credit: number | null;
+  encours: number;
+  nouvel_encours: number;
+  depassement: number;
+  bl_en_retard: number;
+  montant_en_retard: number;
+}
+
+export const isOverCredit = (check: CreditCheck | null) =>
+  !!check && (Number(check.depassement) > 0 || check.bl_en_retard > 0);
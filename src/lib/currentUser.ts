@@ -0,0 +1,40 @@
+import { createContext, useContext } from 'react';
+import { supabase } from './supabase';
+import { hasPermission, Permission, UserRole } from './permissions';
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  nom_complet: string | null;
+  role: UserRole;
+  chauffeur_id: string | null;
+  actif: boolean;
+}
+
+export const CurrentUserContext = createContext<UserProfile | null>(null);
+
+export const loadCurrentProfile = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, nom_complet, role, chauffeur_id, actif')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as UserProfile | null;
+};
+
+// Profile of the connected user, provided by App once the session is known.
+export const useCurrentUser = () => {
+  const profile = useContext(CurrentUserContext);
+  const role = profile?.actif ? profile.role : null;
+
+  return {
+    profile,
+    role,
+    can: (permission: Permission) => hasPermission(role, permission)
+  };
+};
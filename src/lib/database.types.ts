@@ -0,0 +1,889 @@
+// Database types written by hand in the format of `supabase gen types
+// typescript`: they are not generated from the schema, so a migration that
+// changes one of the tables or functions below must update them too.
+// They only cover what the repositories read and write through `db`
+// (clientsRepo, purchaseOrdersRepo, deliveryNotesRepo, invoicesRepo,
+// paymentsRepo, searchRepo, payables); the other screens (products, stock,
+// quotes, reports, dashboard...) still query through the untyped `supabase`
+// client.
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      clients: {
+        Row: {
+          id: string
+          numero_client: string
+          nom: string
+          prenom: string
+          societe: string
+          ice: string
+          email: string
+          telephone: string
+          zone: string | null
+          credit_initial: number
+          chiffre_affaires: number
+          total_paiements: number
+          current_debt: number
+          available_credit: number
+          total_margin: number
+          total_avoirs: number
+          plafond_credit: number | null
+          delai_paiement: number | null
+          created_at: string
+          updated_at: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          numero_client: string
+          nom: string
+          prenom: string
+          societe: string
+          ice?: string
+          email?: string
+          telephone: string
+          zone?: string | null
+          credit_initial?: number
+          plafond_credit?: number | null
+          delai_paiement?: number | null
+          recherche?: never
+        }
+        Update: {
+          numero_client?: string
+          nom?: string
+          prenom?: string
+          societe?: string
+          ice?: string
+          email?: string
+          telephone?: string
+          zone?: string | null
+          credit_initial?: number
+          plafond_credit?: number | null
+          delai_paiement?: number | null
+          recherche?: never
+        }
+        Relationships: []
+      }
+      fournisseurs: {
+        Row: {
+          id: string
+          numero_fournisseur: string
+          nom: string
+          prenom: string
+          societe: string
+          ice: string
+          email: string
+          telephone: string
+          delai_paiement: number | null
+          total_commandes: number
+          total_retours: number
+          total_paiements: number
+          current_debt: number
+          available_credit: number
+          created_at: string
+          updated_at: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          numero_fournisseur: string
+          nom: string
+          prenom: string
+          societe: string
+          ice?: string
+          email?: string
+          telephone: string
+          delai_paiement?: number | null
+          recherche?: never
+        }
+        Update: {
+          numero_fournisseur?: string
+          nom?: string
+          prenom?: string
+          societe?: string
+          ice?: string
+          email?: string
+          telephone?: string
+          delai_paiement?: number | null
+          recherche?: never
+        }
+        Relationships: []
+      }
+      bon_de_commande: {
+        Row: {
+          id: string
+          numero_commande: string
+          fournisseur_id: string
+          devis_id: string | null
+          date_commande: string
+          statut: string
+          total_ht: number
+          total_tva: number
+          total_ttc: number
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          numero_commande?: string
+          fournisseur_id: string
+          devis_id?: string | null
+          date_commande?: string
+          statut?: string
+          notes?: string | null
+          recherche?: never
+        }
+        Update: {
+          fournisseur_id?: string
+          date_commande?: string
+          statut?: string
+          notes?: string | null
+          recherche?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bon_de_commande_fournisseur_id_fkey'
+            columns: ['fournisseur_id']
+            isOneToOne: false
+            referencedRelation: 'fournisseurs'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      bon_de_commande_items: {
+        Row: {
+          id: string
+          commande_id: string
+          produit_id: string
+          quantite: number
+          quantite_pieces: number | null
+          quantite_unitaire: number | null
+          quantite_livree: number
+          prix_unitaire: number
+          taux_tva: number
+          total_ligne: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          commande_id: string
+          produit_id: string
+          quantite: number
+          quantite_pieces?: number | null
+          quantite_unitaire?: number | null
+          prix_unitaire: number
+          taux_tva?: number
+        }
+        Update: {
+          quantite?: number
+          quantite_pieces?: number | null
+          quantite_unitaire?: number | null
+          prix_unitaire?: number
+          taux_tva?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bon_de_commande_items_commande_id_fkey'
+            columns: ['commande_id']
+            isOneToOne: false
+            referencedRelation: 'bon_de_commande'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      bon_de_livraison: {
+        Row: {
+          id: string
+          numero_livraison: string
+          bon_commande_id: string
+          client_id: string
+          chauffeur_id: string
+          depot_id: string | null
+          immatricule_utilise: string | null
+          date_livraison: string
+          statut: string
+          total_ht: number
+          total_tva: number
+          total_ttc: number
+          montant_paye: number
+          statut_paiement: 'impaye' | 'partiel' | 'paye'
+          montant_chauffeur: number | null
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          numero_livraison?: string
+          bon_commande_id: string
+          client_id: string
+          chauffeur_id: string
+          depot_id?: string | null
+          immatricule_utilise?: string | null
+          date_livraison?: string
+          statut?: string
+          notes?: string | null
+          montant_chauffeur?: number | null
+          recherche?: never
+        }
+        Update: {
+          statut?: string
+          notes?: string | null
+          immatricule_utilise?: string | null
+          montant_chauffeur?: number | null
+          recherche?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bon_de_livraison_bon_commande_id_fkey'
+            columns: ['bon_commande_id']
+            isOneToOne: false
+            referencedRelation: 'bon_de_commande'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'bon_de_livraison_client_id_fkey'
+            columns: ['client_id']
+            isOneToOne: false
+            referencedRelation: 'clients'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      bon_de_livraison_items: {
+        Row: {
+          id: string
+          livraison_id: string
+          commande_item_id: string | null
+          produit_id: string
+          quantite_commandee: number
+          quantite_livree: number
+          quantite_pieces: number | null
+          quantite_unitaire: number | null
+          prix_unitaire: number
+          taux_tva: number
+          total_ligne: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          livraison_id: string
+          commande_item_id?: string | null
+          produit_id: string
+          quantite_commandee: number
+          quantite_livree: number
+          quantite_pieces?: number | null
+          quantite_unitaire?: number | null
+          prix_unitaire: number
+          taux_tva?: number
+        }
+        Update: {
+          quantite_livree?: number
+          taux_tva?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'bon_de_livraison_items_livraison_id_fkey'
+            columns: ['livraison_id']
+            isOneToOne: false
+            referencedRelation: 'bon_de_livraison'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      factures: {
+        Row: {
+          id: string
+          numero_facture: string
+          client_id: string
+          date_facture: string
+          statut: 'brouillon' | 'emise' | 'payee' | 'annulee'
+          total_ht: number
+          total_tva: number
+          total_ttc: number
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          numero_facture?: string
+          client_id: string
+          date_facture?: string
+          statut?: 'brouillon' | 'emise' | 'payee' | 'annulee'
+          notes?: string | null
+          recherche?: never
+        }
+        Update: {
+          date_facture?: string
+          statut?: 'brouillon' | 'emise' | 'payee' | 'annulee'
+          notes?: string | null
+          recherche?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'factures_client_id_fkey'
+            columns: ['client_id']
+            isOneToOne: false
+            referencedRelation: 'clients'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      facture_livraisons: {
+        Row: {
+          id: string
+          facture_id: string
+          livraison_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          facture_id: string
+          livraison_id: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'facture_livraisons_facture_id_fkey'
+            columns: ['facture_id']
+            isOneToOne: false
+            referencedRelation: 'factures'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'facture_livraisons_livraison_id_fkey'
+            columns: ['livraison_id']
+            isOneToOne: true
+            referencedRelation: 'bon_de_livraison'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      facture_items: {
+        Row: {
+          id: string
+          facture_id: string
+          livraison_id: string | null
+          produit_id: string | null
+          designation: string
+          quantite: number
+          quantite_pieces: number
+          quantite_unitaire: number
+          prix_unitaire: number
+          taux_tva: number
+          total_ligne: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          facture_id: string
+          livraison_id?: string | null
+          produit_id?: string | null
+          designation: string
+          quantite?: number
+          quantite_pieces?: number
+          quantite_unitaire?: number
+          prix_unitaire?: number
+          taux_tva?: number
+        }
+        Update: {
+          [_ in never]: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'facture_items_facture_id_fkey'
+            columns: ['facture_id']
+            isOneToOne: false
+            referencedRelation: 'factures'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'facture_items_livraison_id_fkey'
+            columns: ['livraison_id']
+            isOneToOne: false
+            referencedRelation: 'bon_de_livraison'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      paiements_clients: {
+        Row: {
+          id: string
+          numero_paiement: string | null
+          client_id: string
+          montant: number
+          mode_paiement: string
+          reference: string | null
+          issuer: string | null
+          date_paiement: string
+          notes: string | null
+          banque: string | null
+          date_echeance: string | null
+          statut_instrument: 'en_portefeuille' | 'remis' | 'encaisse' | 'impaye' | null
+          date_remise: string | null
+          date_encaissement: string | null
+          date_rejet: string | null
+          motif_rejet: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          montant: number
+          mode_paiement: string
+          reference?: string | null
+          issuer?: string | null
+          date_paiement?: string
+          notes?: string | null
+          banque?: string | null
+          date_echeance?: string | null
+          recherche?: never
+        }
+        Update: {
+          montant?: number
+          mode_paiement?: string
+          reference?: string | null
+          issuer?: string | null
+          date_paiement?: string
+          notes?: string | null
+          banque?: string | null
+          date_echeance?: string | null
+          statut_instrument?: 'en_portefeuille' | 'remis' | 'encaisse' | 'impaye' | null
+          date_remise?: string | null
+          date_encaissement?: string | null
+          date_rejet?: string | null
+          motif_rejet?: string | null
+          recherche?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'paiements_clients_client_id_fkey'
+            columns: ['client_id']
+            isOneToOne: false
+            referencedRelation: 'clients'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      paiements_fournisseurs: {
+        Row: {
+          id: string
+          numero_paiement: string | null
+          fournisseur_id: string
+          montant: number
+          mode_paiement: string
+          reference: string | null
+          issuer: string | null
+          date_paiement: string
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          fournisseur_id: string
+          montant: number
+          mode_paiement: string
+          reference?: string | null
+          issuer?: string | null
+          date_paiement?: string
+          notes?: string | null
+          recherche?: never
+        }
+        Update: {
+          montant?: number
+          mode_paiement?: string
+          reference?: string | null
+          issuer?: string | null
+          date_paiement?: string
+          notes?: string | null
+          recherche?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'paiements_fournisseurs_fournisseur_id_fkey'
+            columns: ['fournisseur_id']
+            isOneToOne: false
+            referencedRelation: 'fournisseurs'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      paiements_chauffeurs: {
+        Row: {
+          id: string
+          numero_paiement: string | null
+          chauffeur_id: string
+          montant: number
+          mode_paiement: string
+          reference: string | null
+          issuer: string | null
+          date_paiement: string
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          recherche: string | null
+        }
+        Insert: {
+          id?: string
+          chauffeur_id: string
+          montant: number
+          mode_paiement: string
+          reference?: string | null
+          issuer?: string | null
+          date_paiement?: string
+          notes?: string | null
+          recherche?: never
+        }
+        Update: {
+          montant?: number
+          mode_paiement?: string
+          reference?: string | null
+          issuer?: string | null
+          date_paiement?: string
+          notes?: string | null
+          recherche?: never
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      marges_clients: {
+        Row: {
+          id: string
+          total_margin: number
+        }
+        Relationships: []
+      }
+      bon_de_commande_clients: {
+        Row: {
+          commande_id: string
+          numero_commande: string
+          commande_item_id: string
+          nom_produit: string | null
+          unite: string | null
+          quantite_commandee: number
+          client_id: string
+          client_nom: string
+          client_prenom: string
+          client_societe: string
+          quantite_livree: number
+          montant_ht: number
+        }
+        Relationships: []
+      }
+      paiements: {
+        Row: {
+          id: string
+          type: 'client' | 'fournisseur' | 'chauffeur'
+          numero_paiement: string | null
+          montant: number
+          mode_paiement: string
+          reference: string | null
+          issuer: string | null
+          banque: string | null
+          date_echeance: string | null
+          statut_instrument: 'en_portefeuille' | 'remis' | 'encaisse' | 'impaye' | null
+          date_paiement: string
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+          created_by: string | null
+          updated_by: string | null
+          entity_id: string
+          entity_nom: string
+          entity_prenom: string
+          entity_societe: string | null
+          entity_numero: string
+          recherche: string | null
+          entity_recherche: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      client_credit_check: {
+        Args: { p_client_id: string; p_montant?: number }
+        Returns: {
+          controle_credit: 'avertir' | 'bloquer'
+          plafond_credit: number | null
+          encours: number
+          nouvel_encours: number
+          depassement: number
+          bl_en_retard: number
+          montant_en_retard: number
+        }[]
+      }
+      create_purchase_order: {
+        Args: {
+          p_fournisseur_id: string
+          p_date_commande: string
+          p_notes: string
+          p_items: Json
+          p_devis_id?: string | null
+        }
+        Returns: Database['public']['Tables']['bon_de_commande']['Row']
+      }
+      update_purchase_order: {
+        Args: {
+          p_id: string
+          p_fournisseur_id: string
+          p_statut: string
+          p_notes: string
+          p_items: Json
+        }
+        Returns: Database['public']['Tables']['bon_de_commande']['Row']
+      }
+      receive_purchase_order: {
+        Args: {
+          p_commande_id: string
+          p_depot_id: string
+          p_date: string
+          p_items: Json
+        }
+        Returns: number
+      }
+      create_delivery_note: {
+        Args: {
+          p_bon_commande_id: string
+          p_client_id: string
+          p_chauffeur_id: string
+          p_immatricule_utilise: string | null
+          p_date_livraison: string
+          p_notes: string | null
+          p_items: Json
+          p_montant_chauffeur?: number | null
+          p_depot_id?: string | null
+          p_derogation_motif?: string | null
+        }
+        Returns: Database['public']['Tables']['bon_de_livraison']['Row']
+      }
+      update_delivery_note: {
+        Args: {
+          p_id: string
+          p_statut: string
+          p_notes: string | null
+          p_immatricule_utilise: string | null
+          p_items: Json
+          p_montant_chauffeur?: number | null
+          p_derogation_motif?: string | null
+        }
+        Returns: Database['public']['Tables']['bon_de_livraison']['Row']
+      }
+      create_invoice: {
+        Args: {
+          p_client_id: string
+          p_date_facture: string
+          p_notes: string | null
+          p_livraison_ids: string[]
+        }
+        Returns: Database['public']['Tables']['factures']['Row']
+      }
+      set_payment_allocations: {
+        Args: { p_paiement_id: string; p_allocations: Json }
+        Returns: undefined
+      }
+      reset_payment_allocations: {
+        Args: { p_paiement_id: string }
+        Returns: undefined
+      }
+      search_clients: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+        }
+        Returns: Database['public']['Tables']['clients']['Row'][]
+      }
+      client_list_totals: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+        }
+        Returns: {
+          nombre: number
+          chiffre_affaires: number
+          total_paiements: number
+          current_debt: number
+          available_credit: number
+          total_margin: number | null
+        }[]
+      }
+      search_purchase_orders: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+          p_statut?: string
+        }
+        Returns: Database['public']['Tables']['bon_de_commande']['Row'][]
+      }
+      purchase_order_list_totals: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+          p_statut?: string
+        }
+        Returns: {
+          nombre: number
+          total_ht: number
+          nombre_confirmees: number
+          total_confirmees: number
+          nombre_livrees: number
+          total_livrees: number
+          nombre_envoyees: number
+          total_envoyees: number
+          nombre_brouillons: number
+        }[]
+      }
+      search_delivery_notes: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+          p_statut?: string
+          p_chauffeur_id?: string
+          p_statut_paiement?: string
+        }
+        Returns: Database['public']['Tables']['bon_de_livraison']['Row'][]
+      }
+      delivery_note_list_totals: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+          p_statut?: string
+          p_chauffeur_id?: string
+          p_statut_paiement?: string
+        }
+        Returns: {
+          nombre: number
+          total_ht: number
+          nombre_livrees: number
+          total_livrees: number
+          nombre_en_attente: number
+          total_en_attente: number
+          nombre_en_preparation: number
+          nombre_en_cours: number
+        }[]
+      }
+      search_payments: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+          p_type?: string
+          p_mode_paiement?: string
+        }
+        Returns: Database['public']['Views']['paiements']['Row'][]
+      }
+      payment_list_totals: {
+        Args: {
+          p_recherche?: string
+          p_date_debut?: string
+          p_date_fin?: string
+          p_type?: string
+          p_mode_paiement?: string
+        }
+        Returns: {
+          nombre: number
+          total: number
+          nombre_clients: number
+          total_clients: number
+          nombre_fournisseurs: number
+          total_fournisseurs: number
+          nombre_chauffeurs: number
+          total_chauffeurs: number
+        }[]
+      }
+      search_ranking: {
+        Args: {
+          p_entite: string
+          p_recherche: string
+        }
+        Returns: {
+          id: string
+          rang: number
+        }[]
+      }
+      supplier_payables: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          numero_commande: string
+          date_commande: string
+          total_ttc: number
+          total_retours: number
+          montant_paye: number
+          reste: number
+          date_echeance: string
+          jours_retard: number
+          fournisseur_id: string
+          numero_fournisseur: string
+          nom: string
+          prenom: string
+          societe: string
+          delai_paiement: number | null
+        }[]
+      }
+      global_search: {
+        Args: {
+          p_recherche: string
+          p_limite?: number
+        }
+        Returns: {
+          type: string
+          id: string
+          libelle: string
+          detail: string | null
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
+export type Views<T extends keyof PublicSchema['Views']> = PublicSchema['Views'][T]['Row']
+export type FunctionReturns<T extends keyof PublicSchema['Functions']> = PublicSchema['Functions'][T]['Returns']
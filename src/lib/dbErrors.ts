@@ -0,0 +1,78 @@
+// Error raised by the repositories. Postgres errors are mapped to a French
+// message the screens can show as is; `field` names the form field at fault
+// when the database tells us (unique violations).
+export class RepositoryError extends Error {
+  code: string | null;
+  field: string | null;
+
+  constructor(message: string, code: string | null = null, field: string | null = null) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+interface PostgrestLikeError {
+  code?: string;
+  message?: string;
+  details?: string | null;
+}
+
+const UNIQUE_MESSAGES: Record<string, string> = {
+  numero_client: 'Ce numéro client existe déjà',
+  numero_fournisseur: 'Ce numéro fournisseur existe déjà',
+  ice: 'Ce numéro ICE est déjà utilisé',
+  numero_commande: 'Le numéro de commande attribué existe déjà. Vérifiez la numérotation des bons de commande.',
+  numero_livraison: 'Le numéro de livraison attribué existe déjà. Vérifiez la numérotation des bons de livraison.',
+  numero_paiement: 'Le numéro de paiement attribué existe déjà. Vérifiez la numérotation des paiements.',
+  numero_facture: 'Le numéro de facture attribué existe déjà. Vérifiez la numérotation des factures.',
+  livraison_id: 'Un des bons de livraison sélectionnés a déjà été facturé. Rechargez la page et réessayez.'
+};
+
+const CODE_MESSAGES: Record<string, string> = {
+  '23505': 'Ces informations existent déjà',
+  '23503': 'Un élément lié (client, fournisseur, produit...) n\'existe plus',
+  '23514': 'Données invalides: une règle de validation n\'est pas respectée',
+  '42501': 'Vous n\'avez pas les droits pour effectuer cette opération',
+  'P0001': 'Opération refusée par la base de données',
+  'P0002': 'L\'élément demandé n\'existe plus'
+};
+
+// Messages Postgres generates itself (in English); anything else under these
+// codes was raised by our own functions and is already written in French.
+const GENERATED_MESSAGE = /violates|duplicate key|row-level security|permission denied/i;
+
+export const toRepositoryError = (error: unknown, action: 'save' | 'delete' = 'save'): RepositoryError => {
+  if (error instanceof RepositoryError) return error;
+
+  const { code, message, details } = (error || {}) as PostgrestLikeError;
+
+  if (code === '23505') {
+    const column = details?.match(/Key \(([^)]+)\)=/)?.[1] ?? null;
+    if (column && UNIQUE_MESSAGES[column]) {
+      return new RepositoryError(UNIQUE_MESSAGES[column], code, column);
+    }
+    return new RepositoryError(CODE_MESSAGES[code], code);
+  }
+
+  if (code === '23503' && action === 'delete' && (!message || GENERATED_MESSAGE.test(message))) {
+    return new RepositoryError('Suppression impossible: cet élément est utilisé par d\'autres documents', code);
+  }
+
+  if (code && CODE_MESSAGES[code]) {
+    const useDatabaseMessage = message && !GENERATED_MESSAGE.test(message);
+    return new RepositoryError(useDatabaseMessage ? message : CODE_MESSAGES[code], code);
+  }
+
+  return new RepositoryError(message || 'Erreur inattendue de la base de données', code || null);
+};
+
+// Message for a screen: the mapped message for known database errors, the
+// screen's own wording otherwise
+export const errorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof RepositoryError && error.code && CODE_MESSAGES[error.code]) {
+    return error.message;
+  }
+  return fallback;
+};
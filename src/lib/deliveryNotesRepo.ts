@@ -0,0 +1,188 @@
+import { db } from './supabase';
+import { Json } from './database.types';
+import {
+  ClientDeliveryNote,
+  DeliveryNote,
+  DeliveryNoteDetail,
+  DeliveryNoteItemDetail,
+  DeliveryNoteLineInput,
+  DeliveryNoteLineUpdate,
+  DeliveryNoteListItem,
+  DeliveryNoteListTotals
+} from './domain';
+import { toRepositoryError } from './dbErrors';
+import { Page, PageRequest, SortOrder, pageRange } from './pagination';
+
+export interface DeliveryNoteInput {
+  bon_commande_id: string;
+  client_id: string;
+  chauffeur_id: string;
+  immatricule_utilise: string | null;
+  date_livraison: string;
+  notes: string | null;
+  items: DeliveryNoteLineInput[];
+  montant_chauffeur: number | null;
+  depot_id: string | null;
+  // Admin override of the credit control, see create_delivery_note
+  derogation_motif: string | null;
+}
+
+export interface DeliveryNoteUpdate {
+  statut: string;
+  notes: string | null;
+  immatricule_utilise: string | null;
+  items: DeliveryNoteLineUpdate[];
+  montant_chauffeur: number | null;
+  // Admin override of the credit control, see update_delivery_note
+  derogation_motif: string | null;
+}
+
+export interface DeliveryNoteFilters {
+  recherche: string;
+  dateDebut: string;
+  dateFin: string;
+  statut: string;
+  chauffeurId: string;
+  statutPaiement: string;
+}
+
+export const DELIVERY_NOTE_SORT_COLUMNS = ['numero_livraison', 'date_livraison', 'total_ht', 'created_at', 'pertinence'] as const;
+
+export type DeliveryNoteSort = typeof DELIVERY_NOTE_SORT_COLUMNS[number];
+
+const deliveryNoteSearchArgs = (filters: DeliveryNoteFilters) => ({
+  p_recherche: filters.recherche || undefined,
+  p_date_debut: filters.dateDebut || undefined,
+  p_date_fin: filters.dateFin || undefined,
+  p_statut: filters.statut || undefined,
+  p_chauffeur_id: filters.chauffeurId || undefined,
+  p_statut_paiement: filters.statutPaiement || undefined
+});
+
+// One page of the filtered BLs that are not cancelled, or all of them
+// without `page`
+export const searchDeliveryNotes = async (
+  filters: DeliveryNoteFilters,
+  sort: SortOrder<DeliveryNoteSort>,
+  page?: PageRequest
+): Promise<Page<DeliveryNoteListItem>> => {
+  let query = db
+    .rpc('search_delivery_notes', deliveryNoteSearchArgs(filters), { count: 'exact' })
+    .select(`
+      *,
+      client:clients(nom, prenom, societe),
+      chauffeur:chauffeurs(nom, prenom),
+      bon_commande:bon_de_commande(numero_commande, fournisseur:fournisseurs(nom, prenom, societe, numero_fournisseur))
+    `);
+  // Sorted by relevance, the rows keep the order of the search function
+  if (sort.column !== 'pertinence') {
+    query = query.order(sort.column, { ascending: sort.ascending }).order('id', { ascending: true });
+  }
+  if (page) {
+    query = query.range(...pageRange(page));
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) throw toRepositoryError(error);
+  return { rows: (data || []) as unknown as DeliveryNoteListItem[], total: count || 0 };
+};
+
+export const getDeliveryNoteListTotals = async (filters: DeliveryNoteFilters): Promise<DeliveryNoteListTotals> => {
+  const { data, error } = await db.rpc('delivery_note_list_totals', deliveryNoteSearchArgs(filters));
+
+  if (error) throw toRepositoryError(error);
+  return data[0];
+};
+
+// BLs of one client that are not cancelled, with their lines
+export const listClientDeliveryNotes = async (clientId: string): Promise<ClientDeliveryNote[]> => {
+  const { data, error } = await db
+    .from('bon_de_livraison')
+    .select(`
+      *,
+      client:clients(nom, prenom, societe),
+      chauffeur:chauffeurs(nom, prenom),
+      bon_commande:bon_de_commande(numero_commande, total_ht),
+      items:bon_de_livraison_items(
+        id,
+        quantite_livree,
+        prix_unitaire,
+        total_ligne,
+        produit:produits(nom_produit, prix_vente)
+      )
+    `)
+    .eq('client_id', clientId)
+    .neq('statut', 'annulee')
+    .order('date_livraison', { ascending: false });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as unknown as ClientDeliveryNote[];
+};
+
+export const getDeliveryNote = async (id: string): Promise<DeliveryNoteDetail | null> => {
+  const { data, error } = await db
+    .from('bon_de_livraison')
+    .select(`
+      *,
+      client:clients(nom, prenom, societe, numero_client),
+      chauffeur:chauffeurs(nom, prenom, numero_chauffeur),
+      bon_commande:bon_de_commande(numero_commande)
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toRepositoryError(error);
+  return data as unknown as DeliveryNoteDetail | null;
+};
+
+export const listDeliveryNoteItems = async (noteId: string): Promise<DeliveryNoteItemDetail[]> => {
+  const { data, error } = await db
+    .from('bon_de_livraison_items')
+    .select(`
+      *,
+      produit:produits(nom_produit, prix_vente, unite)
+    `)
+    .eq('livraison_id', noteId)
+    .order('id', { ascending: true });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as unknown as DeliveryNoteItemDetail[];
+};
+
+// Header, lines and the source BC status are written in a single transaction.
+// The credit control of the database has the last word (23514, 42501).
+export const createDeliveryNote = async (note: DeliveryNoteInput): Promise<DeliveryNote> => {
+  const { data, error } = await db.rpc('create_delivery_note', {
+    p_bon_commande_id: note.bon_commande_id,
+    p_client_id: note.client_id,
+    p_chauffeur_id: note.chauffeur_id,
+    p_immatricule_utilise: note.immatricule_utilise,
+    p_date_livraison: note.date_livraison,
+    p_notes: note.notes,
+    p_items: note.items as unknown as Json,
+    p_montant_chauffeur: note.montant_chauffeur,
+    p_depot_id: note.depot_id,
+    p_derogation_motif: note.derogation_motif
+  });
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// Header, lines and the source BC status are written in a single transaction.
+// A BL reopened or increased goes through the credit control (23514, 42501).
+export const updateDeliveryNote = async (id: string, note: DeliveryNoteUpdate): Promise<DeliveryNote> => {
+  const { data, error } = await db.rpc('update_delivery_note', {
+    p_id: id,
+    p_statut: note.statut,
+    p_notes: note.notes,
+    p_immatricule_utilise: note.immatricule_utilise,
+    p_items: note.items as unknown as Json,
+    p_montant_chauffeur: note.montant_chauffeur,
+    p_derogation_motif: note.derogation_motif
+  });
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
@@ -0,0 +1,187 @@
+import { FunctionReturns, Tables } from './database.types';
+import { OrderClientShare } from './orderClients';
+
+// Entities shared by the screens, as returned by the repositories. Row types
+// come from the database types; list items add the embedded relations the
+// list pages select.
+// `total_margin` is not selectable, see getClientMargin
+export type Client = Omit<Tables<'clients'>, 'total_margin'>;
+// Row of `search_clients`, whose margin is NULL for the roles that may not see it
+export type ClientListItem = Client & { total_margin: number | null };
+export type Fournisseur = Tables<'fournisseurs'>;
+export type PurchaseOrder = Tables<'bon_de_commande'>;
+export type PurchaseOrderItem = Tables<'bon_de_commande_items'>;
+export type DeliveryNote = Tables<'bon_de_livraison'>;
+export type DeliveryNoteItem = Tables<'bon_de_livraison_items'>;
+export type Invoice = Tables<'factures'>;
+export type InvoiceItem = Tables<'facture_items'>;
+export type ClientPayment = Tables<'paiements_clients'>;
+export type SupplierPayment = Tables<'paiements_fournisseurs'>;
+export type DriverPayment = Tables<'paiements_chauffeurs'>;
+
+export type PaymentKind = 'client' | 'fournisseur' | 'chauffeur';
+
+// Name columns embedded from clients, fournisseurs and chauffeurs
+export interface PartyName {
+  nom: string;
+  prenom: string;
+  societe: string;
+}
+
+export type PurchaseOrderListItem = PurchaseOrder & {
+  fournisseur: PartyName;
+  items: {
+    quantite: number;
+    quantite_livree: number;
+    produit: { unite: string } | null;
+  }[];
+  // Clients the BC was delivered to, from its BLs
+  clients: OrderClientShare[];
+};
+
+export type PurchaseOrderDetail = PurchaseOrder & {
+  fournisseur: Pick<Fournisseur, 'id' | 'nom' | 'prenom' | 'societe' | 'numero_fournisseur'>;
+};
+
+export type OpenPurchaseOrder = PurchaseOrder & {
+  fournisseur: { societe: string };
+};
+
+export type PurchaseOrderItemDetail = PurchaseOrderItem & {
+  produit: { nom_produit: string; unite: string; dimension_standard?: number | null };
+};
+
+export type DeliveryNoteListItem = DeliveryNote & {
+  client: PartyName;
+  chauffeur: Omit<PartyName, 'societe'>;
+  bon_commande: {
+    numero_commande: string;
+    fournisseur: PartyName & { numero_fournisseur: string };
+  };
+};
+
+export type DeliveryNoteDetail = DeliveryNote & {
+  client: Pick<Client, 'nom' | 'prenom' | 'societe' | 'numero_client'>;
+  chauffeur: { nom: string; prenom: string; numero_chauffeur: string };
+  bon_commande: { numero_commande: string };
+};
+
+export type ClientDeliveryNote = DeliveryNote & {
+  client: PartyName;
+  chauffeur: Omit<PartyName, 'societe'>;
+  bon_commande: { numero_commande: string; total_ht: number };
+  items: {
+    id: string;
+    quantite_livree: number;
+    prix_unitaire: number;
+    total_ligne: number;
+    produit: { nom_produit: string; prix_vente: number };
+  }[];
+};
+
+export type DeliveryNoteItemDetail = DeliveryNoteItem & {
+  produit: { nom_produit: string; prix_vente: number; unite: string };
+};
+
+export type InvoiceListItem = Invoice & {
+  client: PartyName;
+  livraisons: {
+    bon_livraison: { numero_livraison: string };
+  }[];
+};
+
+export type InvoiceDetail = Invoice & {
+  client: Pick<Client, 'nom' | 'prenom' | 'societe' | 'numero_client' | 'ice' | 'email' | 'telephone'>;
+};
+
+export type InvoiceItemDetail = InvoiceItem & {
+  produit: { unite: string } | null;
+};
+
+export type InvoicedDeliveryNote = Pick<DeliveryNote, 'id' | 'numero_livraison' | 'date_livraison'>;
+
+// Payment of any kind with the party it was made to or received from
+export type PaymentListItem = Omit<SupplierPayment, 'fournisseur_id'> &
+  // Cheques and effets received from clients
+  Partial<Pick<ClientPayment, 'banque' | 'date_echeance' | 'statut_instrument'>> & {
+  type: PaymentKind;
+  entity: {
+    id: string;
+    nom: string;
+    prenom: string;
+    societe?: string;
+    numero_client?: string;
+    numero_fournisseur?: string;
+    numero_chauffeur?: string;
+  };
+};
+
+// Totals of a filtered list, for the summary cards of the list pages
+export type ClientListTotals = FunctionReturns<'client_list_totals'>[number];
+export type PurchaseOrderListTotals = FunctionReturns<'purchase_order_list_totals'>[number];
+export type DeliveryNoteListTotals = FunctionReturns<'delivery_note_list_totals'>[number];
+export type PaymentListTotals = FunctionReturns<'payment_list_totals'>[number];
+
+// Result of the search bar of the navbar
+export type SearchResultType =
+  | 'client'
+  | 'fournisseur'
+  | 'chauffeur'
+  | 'produit'
+  | 'bon_de_commande'
+  | 'bon_de_livraison'
+  | 'paiement';
+
+export type SearchResult = Omit<FunctionReturns<'global_search'>[number], 'type'> & {
+  type: SearchResultType;
+};
+
+// Entities the lists and pickers rank with `search_ranking`
+export type SearchEntity =
+  | 'clients'
+  | 'fournisseurs'
+  | 'chauffeurs'
+  | 'produits'
+  | 'bons_de_commande'
+  | 'devis'
+  | 'factures'
+  | 'utilisateurs';
+
+// Lines sent to the document functions
+export interface PurchaseOrderLineInput {
+  // Existing lines keep their deliveries
+  id?: string | null;
+  produit_id: string;
+  quantite: number;
+  quantite_pieces: number | null;
+  quantite_unitaire: number | null;
+  prix_unitaire: number;
+  taux_tva: number;
+}
+
+export interface ReceptionLineInput {
+  commande_item_id: string;
+  quantite: number;
+}
+
+export interface DeliveryNoteLineInput {
+  commande_item_id: string;
+  produit_id: string;
+  quantite_commandee: number;
+  quantite_livree: number;
+  prix_unitaire: number;
+  quantite_pieces: number | null;
+  quantite_unitaire: number | null;
+  taux_tva: number;
+}
+
+export interface DeliveryNoteLineUpdate {
+  id: string;
+  quantite_livree: number;
+  taux_tva: number;
+}
+
+export interface PaymentAllocationInput {
+  livraison_id: string;
+  montant: number;
+}
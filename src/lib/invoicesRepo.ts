@@ -0,0 +1,98 @@
+import { db } from './supabase';
+import { TablesUpdate } from './database.types';
+import {
+  Invoice,
+  InvoiceDetail,
+  InvoiceItemDetail,
+  InvoiceListItem,
+  InvoicedDeliveryNote
+} from './domain';
+import { toRepositoryError } from './dbErrors';
+
+export interface InvoiceInput {
+  client_id: string;
+  date_facture: string;
+  notes: string | null;
+  livraison_ids: string[];
+}
+
+// Every invoice with its client and the BLs it bills, newest first
+export const listInvoices = async (): Promise<InvoiceListItem[]> => {
+  const { data, error } = await db
+    .from('factures')
+    .select(`
+      *,
+      client:clients(nom, prenom, societe),
+      livraisons:facture_livraisons(bon_livraison:bon_de_livraison(numero_livraison))
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as unknown as InvoiceListItem[];
+};
+
+export const getInvoice = async (id: string): Promise<InvoiceDetail | null> => {
+  const { data, error } = await db
+    .from('factures')
+    .select(`
+      *,
+      client:clients(nom, prenom, societe, numero_client, ice, email, telephone)
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toRepositoryError(error);
+  return data as unknown as InvoiceDetail | null;
+};
+
+export const listInvoiceItems = async (invoiceId: string): Promise<InvoiceItemDetail[]> => {
+  const { data, error } = await db
+    .from('facture_items')
+    .select(`
+      *,
+      produit:produits(unite)
+    `)
+    .eq('facture_id', invoiceId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as unknown as InvoiceItemDetail[];
+};
+
+// BLs of the invoice lines, which keep them even after a cancellation
+export const listInvoicedDeliveryNotes = async (items: InvoiceItemDetail[]): Promise<InvoicedDeliveryNote[]> => {
+  const deliveryIds = Array.from(new Set(items.map(item => item.livraison_id).filter((id): id is string => !!id)));
+
+  const { data, error } = await db
+    .from('bon_de_livraison')
+    .select('id, numero_livraison, date_livraison')
+    .in('id', deliveryIds)
+    .order('date_livraison', { ascending: true });
+
+  if (error) throw toRepositoryError(error);
+  return data || [];
+};
+
+// Invoice, BL links and lines are created in a single transaction; a BL that
+// is already invoiced is rejected (23505 on `livraison_id`)
+export const createInvoice = async (invoice: InvoiceInput): Promise<Invoice> => {
+  const { data, error } = await db.rpc('create_invoice', {
+    p_client_id: invoice.client_id,
+    p_date_facture: invoice.date_facture,
+    p_notes: invoice.notes,
+    p_livraison_ids: invoice.livraison_ids
+  });
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// Cancelling an invoice releases its BLs (release_cancelled_invoice_deliveries)
+export const updateInvoice = async (id: string, changes: TablesUpdate<'factures'>): Promise<void> => {
+  const { error } = await db
+    .from('factures')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw toRepositoryError(error);
+};
@@ -0,0 +1,73 @@
+import { supabase } from './supabase';
+import { getClient } from './clientsRepo';
+import { getPurchaseOrder } from './purchaseOrdersRepo';
+import { getDeliveryNote } from './deliveryNotesRepo';
+import { getInvoice } from './invoicesRepo';
+import { PRODUCT_COLUMNS } from './products';
+
+// Single-entity loaders used by the routed detail and edit pages. Each one
+// selects the same shape the matching list page used to hand over in memory.
+
+export const loadClient = getClient;
+
+export const loadFournisseur = async (id: string) => {
+  const { data, error } = await supabase
+    .from('fournisseurs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// With its purchase price, which only the edit page (comptables and admins) needs
+export const loadProduct = async (id: string) => {
+  const [{ data, error }, { data: achat, error: achatError }] = await Promise.all([
+    supabase
+      .from('produits')
+      .select(PRODUCT_COLUMNS)
+      .eq('id', id)
+      .maybeSingle(),
+    supabase
+      .from('prix_achat_produits')
+      .select('prix_achat')
+      .eq('id', id)
+      .maybeSingle()
+  ]);
+
+  if (error) throw error;
+  if (achatError) throw achatError;
+  return data && { ...data, prix_achat: achat?.prix_achat ?? 0 };
+};
+
+export const loadChauffeur = async (id: string) => {
+  const { data, error } = await supabase
+    .from('chauffeurs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const loadPurchaseOrder = getPurchaseOrder;
+
+export const loadDevis = async (id: string) => {
+  const { data, error } = await supabase
+    .from('devis')
+    .select(`
+      *,
+      client:clients(id, nom, prenom, societe, numero_client, ice, email, telephone)
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const loadDeliveryNote = getDeliveryNote;
+
+export const loadFacture = getInvoice;
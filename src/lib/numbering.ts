@@ -0,0 +1,23 @@
+import { supabase } from './supabase';
+
+export type DocumentType =
+  | 'devis'
+  | 'bon_de_commande'
+  | 'bon_de_livraison'
+  | 'facture'
+  | 'avoir'
+  | 'paiement_client'
+  | 'paiement_fournisseur'
+  | 'paiement_chauffeur';
+
+// Next number of a document type, for display in the forms only: the actual
+// number is assigned by the database when the document is inserted.
+export const previewDocumentNumber = async (type: DocumentType, date?: string) => {
+  const { data, error } = await supabase.rpc('preview_document_number', {
+    p_type: type,
+    p_date: date || null
+  });
+
+  if (error) throw error;
+  return data as string;
+};
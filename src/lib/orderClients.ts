@@ -0,0 +1,76 @@
+// Clients a purchase order was delivered to, read from the bon_de_commande_clients
+// view: one row per BC line and client, from the BLs that are not cancelled.
+export interface OrderClientLine {
+  commande_id: string;
+  numero_commande: string;
+  commande_item_id: string;
+  nom_produit: string | null;
+  unite: string | null;
+  quantite_commandee: number;
+  client_id: string;
+  client_nom: string;
+  client_prenom: string;
+  client_societe: string;
+  quantite_livree: number;
+  montant_ht: number;
+}
+
+export interface OrderClientShare {
+  client_id: string;
+  nom: string;
+  prenom: string;
+  societe: string;
+  montant_ht: number;
+  // Delivered quantity per product unit
+  quantites: Record<string, number>;
+}
+
+export const ORDER_CLIENT_COLUMNS =
+  'commande_id, numero_commande, commande_item_id, nom_produit, unite, quantite_commandee, client_id, client_nom, client_prenom, client_societe, quantite_livree, montant_ht';
+
+// Share of each client in the lines of one BC, largest amount first
+export const groupOrderClients = (lines: OrderClientLine[]): OrderClientShare[] => {
+  const byClient: Record<string, OrderClientShare> = {};
+
+  lines.forEach(line => {
+    const share = byClient[line.client_id] || (byClient[line.client_id] = {
+      client_id: line.client_id,
+      nom: line.client_nom,
+      prenom: line.client_prenom,
+      societe: line.client_societe,
+      montant_ht: 0,
+      quantites: {}
+    });
+    const unite = line.unite || 'unite';
+    share.montant_ht += Number(line.montant_ht);
+    share.quantites[unite] = (share.quantites[unite] || 0) + Number(line.quantite_livree);
+  });
+
+  return Object.values(byClient).sort((a, b) => b.montant_ht - a.montant_ht);
+};
+
+// Lines of the view grouped by BC id
+export const linesByOrder = (lines: OrderClientLine[]) => {
+  const byOrder: Record<string, OrderClientLine[]> = {};
+  lines.forEach(line => {
+    (byOrder[line.commande_id] = byOrder[line.commande_id] || []).push(line);
+  });
+  return byOrder;
+};
+
+// "12 T"
+export const formatQuantity = (quantite: number, unite: string | null) => {
+  const label = !unite || unite === 'unite' ? 'u.' : unite === 'm2' ? 'M²' : unite.toUpperCase();
+  return `${Math.round(Number(quantite) * 100) / 100} ${label}`;
+};
+
+// "12 T, 40 M²"
+export const formatQuantities = (quantites: Record<string, number>) => {
+  return Object.entries(quantites)
+    .map(([unite, quantite]) => formatQuantity(quantite, unite))
+    .join(', ');
+};
+
+export const clientShareName = (share: OrderClientShare) => {
+  return share.societe || `${share.prenom} ${share.nom}`;
+};
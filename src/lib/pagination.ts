@@ -0,0 +1,42 @@
+// Server-side pagination of the list pages: the repositories return one page
+// of rows with the total count of the filtered list.
+
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+}
+
+export interface Page<T> {
+  rows: T[];
+  total: number;
+}
+
+export interface SortOrder<C extends string = string> {
+  column: C;
+  ascending: boolean;
+}
+
+// First and last row of a page, as expected by PostgREST `range`
+export const pageRange = ({ page, pageSize }: PageRequest): [number, number] => {
+  const from = (Math.max(page, 1) - 1) * pageSize;
+  return [from, from + pageSize - 1];
+};
+
+// "-date_livraison" <-> { column: 'date_livraison', ascending: false }
+export const parseSort = <C extends string>(value: string, columns: readonly C[], fallback: SortOrder<C>): SortOrder<C> => {
+  const ascending = !value.startsWith('-');
+  const column = (ascending ? value : value.slice(1)) as C;
+  return columns.includes(column) ? { column, ascending } : fallback;
+};
+
+export const formatSort = (sort: SortOrder) => `${sort.ascending ? '' : '-'}${sort.column}`;
+
+// Clicking the sorted column reverses the order, another column starts in
+// the order given for it (amounts and dates first the largest)
+export const nextSort = <C extends string>(sort: SortOrder<C>, column: C, ascending = true): SortOrder<C> => {
+  return sort.column === column ? { column, ascending: !sort.ascending } : { column, ascending };
+};
+
+// Order of the search functions, most relevant rows first: the default sort
+// of a list while it is searched
+export const RELEVANCE_SORT: SortOrder<'pertinence'> = { column: 'pertinence', ascending: false };
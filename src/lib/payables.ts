@@ -0,0 +1,59 @@
+import { db } from './supabase';
+import { toRepositoryError } from './dbErrors';
+
+// What we still owe on each supplier BC, computed by `supplier_payables()` on
+// the same basis as the supplier balance: the BC total (TTC) minus the goods
+// sent back on it, with the supplier payments applied to the oldest BCs first.
+export interface PayableSupplier {
+  id: string;
+  numero_fournisseur: string;
+  nom: string;
+  prenom: string;
+  societe: string;
+  delai_paiement: number | null;
+}
+
+export interface PayableOrder {
+  id: string;
+  numero_commande: string;
+  date_commande: string;
+  total_ttc: number;
+  total_retours: number;
+  montant_paye: number;
+  reste: number;
+  // YYYY-MM-DD
+  date_echeance: string;
+  jours_retard: number;
+  fournisseur: PayableSupplier;
+}
+
+// Open BCs of every supplier, oldest due date first
+export const loadPayables = async (): Promise<PayableOrder[]> => {
+  const { data, error } = await db.rpc('supplier_payables');
+
+  if (error) throw toRepositoryError(error);
+
+  return (data || []).map(row => ({
+    id: row.id,
+    numero_commande: row.numero_commande,
+    date_commande: row.date_commande,
+    total_ttc: Number(row.total_ttc),
+    total_retours: Number(row.total_retours),
+    montant_paye: Number(row.montant_paye),
+    reste: Number(row.reste),
+    date_echeance: row.date_echeance,
+    jours_retard: row.jours_retard,
+    fournisseur: {
+      id: row.fournisseur_id,
+      numero_fournisseur: row.numero_fournisseur,
+      nom: row.nom,
+      prenom: row.prenom,
+      societe: row.societe,
+      delai_paiement: row.delai_paiement
+    }
+  }));
+};
+
+export const supplierName = (supplier: PayableSupplier) => {
+  return supplier.societe || `${supplier.prenom} ${supplier.nom}`;
+};
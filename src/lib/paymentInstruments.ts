@@ -0,0 +1,28 @@
+// Cheques and effets received from clients, followed from the portfolio to
+// the bank. The workflow is enforced by check_payment_instrument() in the
+// database; the transitions below only decide which actions are offered.
+export type InstrumentStatus = 'en_portefeuille' | 'remis' | 'encaisse' | 'impaye';
+
+export const INSTRUMENT_STATUS_LABELS: Record<InstrumentStatus, string> = {
+  en_portefeuille: 'En portefeuille',
+  remis: 'Remis à l\'encaissement',
+  encaisse: 'Encaissé',
+  impaye: 'Impayé'
+};
+
+export const INSTRUMENT_STATUS_STYLES: Record<InstrumentStatus, string> = {
+  en_portefeuille: 'bg-blue-100 text-blue-800',
+  remis: 'bg-yellow-100 text-yellow-800',
+  encaisse: 'bg-green-100 text-green-800',
+  impaye: 'bg-red-100 text-red-800'
+};
+
+export const INSTRUMENT_TRANSITIONS: Record<InstrumentStatus, InstrumentStatus[]> = {
+  en_portefeuille: ['remis', 'encaisse', 'impaye'],
+  remis: ['encaisse', 'impaye', 'en_portefeuille'],
+  encaisse: [],
+  impaye: ['en_portefeuille']
+};
+
+export const isPaymentInstrument = (modePaiement: string) =>
+  modePaiement === 'cheque' || modePaiement === 'effet';
@@ -0,0 +1,15 @@
+// Payment status of a delivery note, derived in the database from its TTC
+// total and the client payments allocated to it (see paiement_affectations).
+export type PaymentStatus = 'impaye' | 'partiel' | 'paye';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  impaye: 'Impayé',
+  partiel: 'Partiellement payé',
+  paye: 'Payé'
+};
+
+export const PAYMENT_STATUS_STYLES: Record<PaymentStatus, string> = {
+  impaye: 'bg-red-100 text-red-800',
+  partiel: 'bg-orange-100 text-orange-800',
+  paye: 'bg-green-100 text-green-800'
+};
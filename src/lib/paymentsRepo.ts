@@ -0,0 +1,182 @@
+import { db } from './supabase';
+import { Json, TablesInsert, TablesUpdate, Views } from './database.types';
+import {
+  ClientPayment,
+  PaymentAllocationInput,
+  PaymentKind,
+  PaymentListItem,
+  PaymentListTotals,
+  SupplierPayment
+} from './domain';
+import { toRepositoryError } from './dbErrors';
+import { Page, PageRequest, SortOrder, pageRange } from './pagination';
+
+export const PAYMENT_TABLES = {
+  client: 'paiements_clients',
+  fournisseur: 'paiements_fournisseurs',
+  chauffeur: 'paiements_chauffeurs'
+} as const;
+
+// Columns every kind of payment has; cheque and effet columns only exist on
+// client payments
+export type PaymentChanges = TablesUpdate<'paiements_fournisseurs'> &
+  Pick<TablesUpdate<'paiements_clients'>, 'banque' | 'date_echeance'>;
+
+export interface PaymentFilters {
+  recherche: string;
+  dateDebut: string;
+  dateFin: string;
+  type: string;
+  modePaiement: string;
+}
+
+export const PAYMENT_SORT_COLUMNS = ['numero_paiement', 'date_paiement', 'montant', 'pertinence'] as const;
+
+export type PaymentSort = typeof PAYMENT_SORT_COLUMNS[number];
+
+const ENTITY_NUMBER_KEYS = {
+  client: 'numero_client',
+  fournisseur: 'numero_fournisseur',
+  chauffeur: 'numero_chauffeur'
+} as const;
+
+const paymentSearchArgs = (filters: PaymentFilters) => ({
+  p_recherche: filters.recherche || undefined,
+  p_date_debut: filters.dateDebut || undefined,
+  p_date_fin: filters.dateFin || undefined,
+  p_type: filters.type || undefined,
+  p_mode_paiement: filters.modePaiement || undefined
+});
+
+// Row of the `paiements` view, with the party flattened in entity_* columns
+const toPaymentListItem = ({
+  entity_id,
+  entity_nom,
+  entity_prenom,
+  entity_societe,
+  entity_numero,
+  ...payment
+}: Views<'paiements'>): PaymentListItem => ({
+  ...payment,
+  entity: {
+    id: entity_id,
+    nom: entity_nom,
+    prenom: entity_prenom,
+    societe: entity_societe ?? undefined,
+    [ENTITY_NUMBER_KEYS[payment.type]]: entity_numero
+  }
+});
+
+// One page of the filtered client, supplier and driver payments, or all of
+// them without `page`
+export const searchPayments = async (
+  filters: PaymentFilters,
+  sort: SortOrder<PaymentSort>,
+  page?: PageRequest
+): Promise<Page<PaymentListItem>> => {
+  let query = db
+    .rpc('search_payments', paymentSearchArgs(filters), { count: 'exact' })
+    .select('*');
+  // Sorted by relevance, the rows keep the order of the search function
+  if (sort.column !== 'pertinence') {
+    query = query.order(sort.column, { ascending: sort.ascending }).order('id', { ascending: true });
+  }
+  if (page) {
+    query = query.range(...pageRange(page));
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) throw toRepositoryError(error);
+  return { rows: (data || []).map(toPaymentListItem), total: count || 0 };
+};
+
+export const getPaymentListTotals = async (filters: PaymentFilters): Promise<PaymentListTotals> => {
+  const { data, error } = await db.rpc('payment_list_totals', paymentSearchArgs(filters));
+
+  if (error) throw toRepositoryError(error);
+  return data[0];
+};
+
+export const listClientPayments = async (clientId: string): Promise<ClientPayment[]> => {
+  const { data, error } = await db
+    .from('paiements_clients')
+    .select('*')
+    .eq('client_id', clientId)
+    .order('date_paiement', { ascending: false });
+
+  if (error) throw toRepositoryError(error);
+  return data || [];
+};
+
+export const createClientPayment = async (payment: TablesInsert<'paiements_clients'>): Promise<ClientPayment> => {
+  const { data, error } = await db
+    .from('paiements_clients')
+    .insert(payment)
+    .select()
+    .single();
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// One or several supplier payments in a single insert
+export const createSupplierPayments = async (
+  payments: TablesInsert<'paiements_fournisseurs'>[]
+): Promise<SupplierPayment[]> => {
+  const { data, error } = await db
+    .from('paiements_fournisseurs')
+    .insert(payments)
+    .select();
+
+  if (error) throw toRepositoryError(error);
+  return data || [];
+};
+
+export const updatePayment = async (kind: PaymentKind, id: string, changes: PaymentChanges): Promise<void> => {
+  const { error } = await db
+    .from(PAYMENT_TABLES[kind])
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw toRepositoryError(error);
+};
+
+// Status change of a cheque or effet; the workflow trigger refuses the
+// invalid transitions with a French message
+export const updateInstrument = async (id: string, changes: TablesUpdate<'paiements_clients'>): Promise<void> => {
+  const { error } = await db
+    .from('paiements_clients')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw toRepositoryError(error);
+};
+
+export const deletePayment = async (kind: PaymentKind, id: string): Promise<void> => {
+  const { error } = await db
+    .from(PAYMENT_TABLES[kind])
+    .delete()
+    .eq('id', id);
+
+  if (error) throw toRepositoryError(error, 'delete');
+};
+
+// Manual allocation of a client payment to BLs of the same client
+export const setPaymentAllocations = async (paymentId: string, allocations: PaymentAllocationInput[]): Promise<void> => {
+  const { error } = await db.rpc('set_payment_allocations', {
+    p_paiement_id: paymentId,
+    p_allocations: allocations as unknown as Json
+  });
+
+  if (error) throw toRepositoryError(error);
+};
+
+// Back to the automatic allocation, oldest BLs first
+export const resetPaymentAllocations = async (paymentId: string): Promise<void> => {
+  const { error } = await db.rpc('reset_payment_allocations', {
+    p_paiement_id: paymentId
+  });
+
+  if (error) throw toRepositoryError(error);
+};
@@ -0,0 +1,60 @@
+export type UserRole = 'admin' | 'commercial' | 'comptable' | 'chauffeur';
+
+export type Permission =
+  | 'dashboard'
+  | 'clients'
+  | 'fournisseurs'
+  | 'produits.voir'
+  | 'produits.gerer'
+  | 'stock.gerer'
+  | 'devis'
+  | 'bonsDeCommande'
+  | 'bonsDeLivraison.voir'
+  | 'bonsDeLivraison.gerer'
+  | 'factures'
+  | 'chauffeurs'
+  | 'chauffeurs.paie'
+  | 'paiements.voir'
+  | 'paiements.creer'
+  | 'paiements.modifier'
+  | 'paiements.affecter'
+  | 'rapports'
+  | 'prixAchat'
+  | 'historique'
+  | 'credit.derogation'
+  | 'parametres'
+  | 'utilisateurs';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrateur',
+  commercial: 'Commercial',
+  comptable: 'Comptable',
+  chauffeur: 'Chauffeur'
+};
+
+// Mirrors the RLS policies of the database: hiding a button here is only a
+// convenience, the policies are what actually refuse the request.
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'dashboard', 'clients', 'fournisseurs', 'produits.voir', 'produits.gerer', 'stock.gerer',
+    'devis', 'bonsDeCommande', 'bonsDeLivraison.voir', 'bonsDeLivraison.gerer', 'factures',
+    'chauffeurs', 'chauffeurs.paie', 'paiements.voir', 'paiements.creer',
+    'paiements.modifier', 'paiements.affecter', 'rapports', 'prixAchat', 'historique',
+    'credit.derogation', 'parametres', 'utilisateurs'
+  ],
+  comptable: [
+    'dashboard', 'clients', 'fournisseurs', 'produits.voir', 'produits.gerer', 'stock.gerer',
+    'devis', 'bonsDeCommande', 'bonsDeLivraison.voir', 'bonsDeLivraison.gerer', 'factures',
+    'chauffeurs', 'chauffeurs.paie', 'paiements.voir', 'paiements.creer',
+    'paiements.modifier', 'paiements.affecter', 'rapports', 'prixAchat', 'historique'
+  ],
+  commercial: [
+    'dashboard', 'clients', 'produits.voir', 'devis', 'bonsDeCommande',
+    'bonsDeLivraison.voir', 'bonsDeLivraison.gerer', 'factures', 'chauffeurs',
+    'paiements.voir', 'paiements.creer', 'historique'
+  ],
+  chauffeur: ['bonsDeLivraison.voir']
+};
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
@@ -0,0 +1,21 @@
+import { supabase } from './supabase';
+
+// Columns of `produits` every role may select. The purchase price is not one
+// of them: it comes from the `prix_achat_produits` view, which only answers
+// comptables and admins.
+export const PRODUCT_COLUMNS = 'id, nom_produit, prix_vente, unite, dimension_standard, taux_tva, created_at';
+
+// Purchase price of each product, by id; empty for the other roles
+export const loadPurchasePrices = async (): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('prix_achat_produits')
+    .select('id, prix_achat');
+
+  if (error) throw error;
+
+  const prices: Record<string, number> = {};
+  (data || []).forEach(row => {
+    prices[row.id] = row.prix_achat;
+  });
+  return prices;
+};
@@ -0,0 +1,196 @@
+import { db } from './supabase';
+import { Json } from './database.types';
+import {
+  OpenPurchaseOrder,
+  PurchaseOrder,
+  PurchaseOrderDetail,
+  PurchaseOrderItemDetail,
+  PurchaseOrderLineInput,
+  PurchaseOrderListItem,
+  PurchaseOrderListTotals,
+  ReceptionLineInput
+} from './domain';
+import { toRepositoryError } from './dbErrors';
+import { Page, PageRequest, SortOrder, pageRange } from './pagination';
+import { ORDER_CLIENT_COLUMNS, OrderClientLine, groupOrderClients, linesByOrder } from './orderClients';
+
+export interface PurchaseOrderInput {
+  fournisseur_id: string;
+  date_commande: string;
+  notes: string;
+  items: PurchaseOrderLineInput[];
+  devis_id?: string | null;
+}
+
+export interface PurchaseOrderUpdate {
+  fournisseur_id: string;
+  statut: string;
+  notes: string;
+  items: PurchaseOrderLineInput[];
+}
+
+export interface PurchaseOrderFilters {
+  recherche: string;
+  dateDebut: string;
+  dateFin: string;
+  statut: string;
+}
+
+export const PURCHASE_ORDER_SORT_COLUMNS = ['numero_commande', 'date_commande', 'total_ht', 'created_at', 'pertinence'] as const;
+
+export type PurchaseOrderSort = typeof PURCHASE_ORDER_SORT_COLUMNS[number];
+
+const purchaseOrderSearchArgs = (filters: PurchaseOrderFilters) => ({
+  p_recherche: filters.recherche || undefined,
+  p_date_debut: filters.dateDebut || undefined,
+  p_date_fin: filters.dateFin || undefined,
+  p_statut: filters.statut || undefined
+});
+
+// One page of the filtered BCs, or all of them without `page`, with the
+// clients they were delivered to
+export const searchPurchaseOrders = async (
+  filters: PurchaseOrderFilters,
+  sort: SortOrder<PurchaseOrderSort>,
+  page?: PageRequest
+): Promise<Page<PurchaseOrderListItem>> => {
+  let query = db
+    .rpc('search_purchase_orders', purchaseOrderSearchArgs(filters), { count: 'exact' })
+    .select(`
+      *,
+      fournisseur:fournisseurs(nom, prenom, societe),
+      items:bon_de_commande_items(quantite, quantite_livree, produit:produits(unite))
+    `);
+  // Sorted by relevance, the rows keep the order of the search function
+  if (sort.column !== 'pertinence') {
+    query = query.order(sort.column, { ascending: sort.ascending }).order('id', { ascending: true });
+  }
+  if (page) {
+    query = query.range(...pageRange(page));
+  }
+
+  const { data, error, count } = await query;
+  if (error) throw toRepositoryError(error);
+
+  const orders = (data || []) as unknown as Omit<PurchaseOrderListItem, 'clients'>[];
+  if (orders.length === 0) {
+    return { rows: [], total: count || 0 };
+  }
+
+  // The whole list is only loaded for exports: its ids would not fit in the URL
+  let clientLinesQuery = db
+    .from('bon_de_commande_clients')
+    .select(ORDER_CLIENT_COLUMNS);
+  if (page) {
+    clientLinesQuery = clientLinesQuery.in('commande_id', orders.map(order => order.id));
+  }
+
+  const { data: clientLines, error: clientLinesError } = await clientLinesQuery;
+
+  if (clientLinesError) throw toRepositoryError(clientLinesError);
+
+  const byOrder = linesByOrder((clientLines || []) as unknown as OrderClientLine[]);
+  return {
+    rows: orders.map(order => ({
+      ...order,
+      clients: groupOrderClients(byOrder[order.id] || [])
+    })),
+    total: count || 0
+  };
+};
+
+export const getPurchaseOrderListTotals = async (filters: PurchaseOrderFilters): Promise<PurchaseOrderListTotals> => {
+  const { data, error } = await db.rpc('purchase_order_list_totals', purchaseOrderSearchArgs(filters));
+
+  if (error) throw toRepositoryError(error);
+  return data[0];
+};
+
+// BCs that can still be delivered
+export const listOpenPurchaseOrders = async (): Promise<OpenPurchaseOrder[]> => {
+  const { data, error } = await db
+    .from('bon_de_commande')
+    .select(`
+      *,
+      fournisseur:fournisseurs(societe)
+    `)
+    .not('statut', 'in', '(annulee,livree)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as unknown as OpenPurchaseOrder[];
+};
+
+export const getPurchaseOrder = async (id: string): Promise<PurchaseOrderDetail | null> => {
+  const { data, error } = await db
+    .from('bon_de_commande')
+    .select(`
+      *,
+      fournisseur:fournisseurs(id, nom, prenom, societe, numero_fournisseur)
+    `)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw toRepositoryError(error);
+  return data as unknown as PurchaseOrderDetail | null;
+};
+
+export const listPurchaseOrderItems = async (orderId: string): Promise<PurchaseOrderItemDetail[]> => {
+  const { data, error } = await db
+    .from('bon_de_commande_items')
+    .select(`
+      *,
+      produit:produits(nom_produit, unite)
+    `)
+    .eq('commande_id', orderId)
+    .order('id', { ascending: true });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as unknown as PurchaseOrderItemDetail[];
+};
+
+// Header and lines are written in a single transaction
+export const createPurchaseOrder = async (order: PurchaseOrderInput): Promise<PurchaseOrder> => {
+  const { data, error } = await db.rpc('create_purchase_order', {
+    p_fournisseur_id: order.fournisseur_id,
+    p_date_commande: order.date_commande,
+    p_notes: order.notes,
+    p_devis_id: order.devis_id ?? null,
+    p_items: order.items as unknown as Json
+  });
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// Header and lines are replaced in a single transaction; a line already
+// delivered cannot be removed (23503 with a French message)
+export const updatePurchaseOrder = async (id: string, order: PurchaseOrderUpdate): Promise<PurchaseOrder> => {
+  const { data, error } = await db.rpc('update_purchase_order', {
+    p_id: id,
+    p_fournisseur_id: order.fournisseur_id,
+    p_statut: order.statut,
+    p_notes: order.notes,
+    p_items: order.items as unknown as Json
+  });
+
+  if (error) throw toRepositoryError(error);
+  return data;
+};
+
+// Reception of BC lines in a warehouse
+export const receivePurchaseOrder = async (
+  id: string,
+  depotId: string,
+  date: string,
+  items: ReceptionLineInput[]
+): Promise<void> => {
+  const { error } = await db.rpc('receive_purchase_order', {
+    p_commande_id: id,
+    p_depot_id: depotId,
+    p_date: date,
+    p_items: items as unknown as Json
+  });
+
+  if (error) throw toRepositoryError(error);
+};
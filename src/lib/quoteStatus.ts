@@ -0,0 +1,22 @@
+// Status of a customer quote (devis). A quote still 'envoye' after its
+// validity date is shown as expired without waiting for someone to update it.
+export type QuoteStatus = 'envoye' | 'accepte' | 'refuse' | 'expire';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  envoye: 'Envoyé',
+  accepte: 'Accepté',
+  refuse: 'Refusé',
+  expire: 'Expiré'
+};
+
+export const QUOTE_STATUS_STYLES: Record<QuoteStatus, string> = {
+  envoye: 'bg-blue-100 text-blue-800',
+  accepte: 'bg-green-100 text-green-800',
+  refuse: 'bg-red-100 text-red-800',
+  expire: 'bg-gray-100 text-gray-800'
+};
+
+export const effectiveQuoteStatus = (quote: { statut: QuoteStatus; date_validite: string }): QuoteStatus => {
+  const today = new Date().toISOString().split('T')[0];
+  return quote.statut === 'envoye' && quote.date_validite < today ? 'expire' : quote.statut;
+};
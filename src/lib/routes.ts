@@ -0,0 +1,55 @@
+// Application URL map. Every page is reachable by URL so it can be bookmarked,
+// shared and navigated with the browser history.
+export const routes = {
+  dashboard: '/tableau-de-bord',
+
+  clients: '/clients',
+  clientAdd: '/clients/nouveau',
+  clientDetails: (id: string) => `/clients/${id}`,
+  clientEdit: (id: string) => `/clients/${id}/edit`,
+
+  fournisseurs: '/fournisseurs',
+  fournisseurAdd: '/fournisseurs/nouveau',
+  fournisseursPlanification: '/fournisseurs/planification-paiements',
+  fournisseurDetails: (id: string) => `/fournisseurs/${id}`,
+  fournisseurEdit: (id: string) => `/fournisseurs/${id}/edit`,
+
+  produits: '/produits',
+  produitAdd: '/produits/nouveau',
+  produitEdit: (id: string) => `/produits/${id}/edit`,
+
+  devis: '/devis',
+  devisAdd: '/devis/nouveau',
+  devisEdit: (id: string) => `/devis/${id}/edit`,
+
+  bonsDeCommande: '/bons-de-commande',
+  bonDeCommandeAdd: (devisId?: string) =>
+    devisId ? `/bons-de-commande/nouveau?devis=${devisId}` : '/bons-de-commande/nouveau',
+  bonDeCommandeEdit: (id: string) => `/bons-de-commande/${id}/edit`,
+
+  bonsDeLivraison: '/bons-de-livraison',
+  bonDeLivraisonAdd: (bonCommandeId?: string) =>
+    bonCommandeId ? `/bons-de-livraison/nouveau?bc=${bonCommandeId}` : '/bons-de-livraison/nouveau',
+  bonDeLivraisonEdit: (id: string) => `/bons-de-livraison/${id}/edit`,
+
+  factures: '/factures',
+  factureAdd: (bonLivraisonId?: string) =>
+    bonLivraisonId ? `/factures/nouveau?bl=${bonLivraisonId}` : '/factures/nouveau',
+  factureEdit: (id: string) => `/factures/${id}/edit`,
+
+  chauffeurs: '/chauffeurs',
+  chauffeurAdd: '/chauffeurs/nouveau',
+  chauffeurDetails: (id: string) => `/chauffeurs/${id}`,
+  chauffeurEdit: (id: string) => `/chauffeurs/${id}/edit`,
+
+  paiements: '/paiements',
+
+  rapportsFournisseurs: '/rapports/fournisseurs',
+  rapportsClients: '/rapports/clients',
+  rapportsChauffeurs: '/rapports/chauffeurs',
+  rapportsBalanceAgeeClients: '/rapports/balance-agee-clients',
+  rapportsBalanceAgeeFournisseurs: '/rapports/balance-agee-fournisseurs',
+
+  parametres: '/parametres',
+  utilisateurs: '/utilisateurs'
+};
@@ -0,0 +1,36 @@
+// Accent-insensitive matching on the screen, the same as `search_normalize` in
+// the database: used to highlight what matched the search in the results.
+
+// Lower case without accents. Each character stays a single character, so
+// that positions in the normalized text are positions in the original one.
+export const normalizeSearch = (text: string) =>
+  Array.from(text, char => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().charAt(0) || char)
+    .join('');
+
+// [start, end) ranges of the words of the search found in the text, sorted
+// and merged. Rows found by similarity only (typos) have none.
+export const highlightRanges = (text: string, search: string): Array<[number, number]> => {
+  const normalized = normalizeSearch(text);
+  const words = normalizeSearch(search).split(/\s+/).filter(Boolean);
+  const ranges: Array<[number, number]> = [];
+
+  words.forEach(word => {
+    let index = normalized.indexOf(word);
+    while (index !== -1) {
+      ranges.push([index, index + word.length]);
+      index = normalized.indexOf(word, index + word.length);
+    }
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Array<[number, number]>>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
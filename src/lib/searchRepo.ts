@@ -0,0 +1,21 @@
+import { db } from './supabase';
+import { SearchEntity, SearchResult } from './domain';
+import { toRepositoryError } from './dbErrors';
+
+// Clients, suppliers, drivers, products, BCs, BLs and payments matching the
+// search, at most `limit` of each type
+export const globalSearch = async (search: string, limit = 5): Promise<SearchResult[]> => {
+  const { data, error } = await db.rpc('global_search', { p_recherche: search, p_limite: limit });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []) as SearchResult[];
+};
+
+// Ids of the clients, suppliers, drivers or products matching the search
+// (accents, word order and typos aside), most relevant first
+export const rankSearch = async (entity: SearchEntity, search: string): Promise<string[]> => {
+  const { data, error } = await db.rpc('search_ranking', { p_entite: entity, p_recherche: search });
+
+  if (error) throw toRepositoryError(error);
+  return (data || []).map(row => row.id);
+};
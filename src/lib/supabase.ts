@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Database } from './database.types'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -7,4 +8,9 @@ if (!supabaseUrl || !supabaseKey) {
   throw new Error('Missing Supabase environment variables')
 }
 
-export const supabase = createClient(supabaseUrl, supabaseKey)
\ No newline at end of file
+// Client typed with the database types, used by the repositories
+export const db = createClient<Database>(supabaseUrl, supabaseKey)
+
+// The same client without the types, for the screens that still query tables
+// database.types.ts does not describe (products, stock, quotes, reports...)
+export const supabase: SupabaseClient = db
@@ -0,0 +1,56 @@
+// Moroccan VAT rates, in percent. 0 means the line is exonérée.
+export const TVA_RATES = [20, 14, 10, 7, 0];
+
+export const DEFAULT_TVA_RATE = 20;
+
+export interface TvaLine {
+  montant_ht: number;
+  taux_tva: number;
+}
+
+export interface TvaRateTotal {
+  taux_tva: number;
+  base_ht: number;
+  montant_tva: number;
+}
+
+export interface TvaTotals {
+  total_ht: number;
+  total_tva: number;
+  total_ttc: number;
+  par_taux: TvaRateTotal[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const formatTvaRate = (taux: number) => (taux === 0 ? 'Exonéré' : `${taux}%`);
+
+/**
+ * Groups lines by rate and computes the VAT on each rate base, the way it is
+ * printed on a BL or an invoice. Rates are sorted from highest to lowest.
+ */
+export const computeTvaTotals = (lines: TvaLine[]): TvaTotals => {
+  const bases = new Map<number, number>();
+  lines.forEach(line => {
+    const taux = Number(line.taux_tva ?? DEFAULT_TVA_RATE);
+    bases.set(taux, (bases.get(taux) || 0) + (Number(line.montant_ht) || 0));
+  });
+
+  const par_taux = Array.from(bases.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([taux_tva, base]) => ({
+      taux_tva,
+      base_ht: round2(base),
+      montant_tva: round2(base * taux_tva / 100)
+    }));
+
+  const total_ht = round2(par_taux.reduce((sum, row) => sum + row.base_ht, 0));
+  const total_tva = round2(par_taux.reduce((sum, row) => sum + row.montant_tva, 0));
+
+  return {
+    total_ht,
+    total_tva,
+    total_ttc: round2(total_ht + total_tva),
+    par_taux
+  };
+};
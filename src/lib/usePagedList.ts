@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Page } from './pagination';
+
+// One page of a server-side list with the totals of the whole filtered list.
+// `queryKey` identifies the request (filters, page, sort): a new key reloads
+// after a short pause, so that typing a search does not send one request per
+// key, and the answers of outdated requests are dropped. The rows already
+// shown stay on screen while the next page loads.
+export const usePagedList = <T, S>(
+  queryKey: string,
+  load: () => Promise<[Page<T>, S]>,
+  errorText: string
+) => {
+  const [rows, setRows] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totals, setTotals] = useState<S | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRef = useRef(load);
+  useEffect(() => {
+    loadRef.current = load;
+  });
+
+  const requestRef = useRef(0);
+
+  const reload = useCallback(async () => {
+    const request = ++requestRef.current;
+    setError(null);
+
+    try {
+      const [page, pageTotals] = await loadRef.current();
+      if (request !== requestRef.current) return;
+
+      setRows(page.rows);
+      setTotal(page.total);
+      setTotals(pageTotals);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+
+      console.error('Error fetching list:', err);
+      setError(errorText);
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [errorText]);
+
+  useEffect(() => {
+    const timer = setTimeout(reload, 250);
+    return () => clearTimeout(timer);
+  }, [queryKey, reload]);
+
+  return { rows, total, totals, loading, error, reload };
+};
+
+// Rows of the whole filtered list for printing: they are loaded on demand and
+// the print dialog opens once they are rendered.
+export const usePrintRows = <T>(loadAll: () => Promise<T[]>) => {
+  const [rows, setRows] = useState<T[]>([]);
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    if (!pending) return;
+    setPending(false);
+    window.print();
+  }, [pending]);
+
+  const print = async () => {
+    try {
+      setRows(await loadAll());
+      setPending(true);
+    } catch (err) {
+      console.error('Error fetching rows to print:', err);
+    }
+  };
+
+  return [rows, print] as const;
+};
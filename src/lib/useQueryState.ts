@@ -0,0 +1,111 @@
+import { useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { SortOrder, formatSort, parseSort } from './pagination';
+
+type Updater<T> = T | ((prev: T) => T);
+
+// Several setters often run in the same handler (e.g. a filter and the page
+// reset), before React re-renders with the new location, so writes always
+// start from the live query string rather than the rendered one.
+const useWriteParams = () => {
+  const navigate = useNavigate();
+
+  return useCallback((apply: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(window.location.search);
+    apply(params);
+    const search = params.toString();
+    navigate(
+      { pathname: window.location.pathname, search: search ? `?${search}` : '' },
+      { replace: true }
+    );
+  }, [navigate]);
+};
+
+const writeParam = (params: URLSearchParams, key: string, value: string, defaultValue: string) => {
+  if (value === defaultValue || value === '') {
+    params.delete(key);
+  } else {
+    params.set(key, value);
+  }
+};
+
+// useState-like hook backed by a query string parameter. Default values are
+// kept out of the URL.
+export const useQueryState = (key: string, defaultValue = ''): [string, (next: Updater<string>) => void] => {
+  const { search } = useLocation();
+  const writeParams = useWriteParams();
+  const value = new URLSearchParams(search).get(key) ?? defaultValue;
+
+  const setValue = useCallback((next: Updater<string>) => {
+    writeParams(params => {
+      const prev = params.get(key) ?? defaultValue;
+      const resolved = typeof next === 'function' ? next(prev) : next;
+      writeParam(params, key, resolved, defaultValue);
+    });
+  }, [writeParams, key, defaultValue]);
+
+  return [value, setValue];
+};
+
+export const useQueryNumber = (key: string, defaultValue: number): [number, (next: Updater<number>) => void] => {
+  const [raw, setRaw] = useQueryState(key, String(defaultValue));
+  const parsed = Number(raw);
+  const value = Number.isFinite(parsed) ? parsed : defaultValue;
+
+  const setValue = useCallback((next: Updater<number>) => {
+    setRaw(prev => {
+      const prevNumber = Number.isFinite(Number(prev)) ? Number(prev) : defaultValue;
+      return String(typeof next === 'function' ? next(prevNumber) : next);
+    });
+  }, [setRaw, defaultValue]);
+
+  return [value, setValue];
+};
+
+// Object variant for grouped filters such as { dateFrom, dateTo }: each key is
+// stored as its own query parameter, optionally renamed through `paramNames`.
+export const useQueryStates = <T extends Record<string, string>>(
+  defaults: T,
+  paramNames: Partial<Record<keyof T, string>> = {}
+): [T, (next: Updater<T>) => void] => {
+  const { search } = useLocation();
+  const writeParams = useWriteParams();
+  const paramName = (key: keyof T) => paramNames[key] ?? String(key);
+
+  const read = (params: URLSearchParams) =>
+    Object.fromEntries(
+      Object.entries(defaults).map(([key, defaultValue]) => [key, params.get(paramName(key)) ?? defaultValue])
+    ) as T;
+
+  // Keep the object identity stable between renders so it can be used as an
+  // effect dependency.
+  const serialized = JSON.stringify(read(new URLSearchParams(search)));
+  const values = useMemo(() => JSON.parse(serialized) as T, [serialized]);
+
+  const setValues = (next: Updater<T>) => {
+    writeParams(params => {
+      const resolved = typeof next === 'function' ? next(read(params)) : next;
+      Object.entries(defaults).forEach(([key, defaultValue]) => {
+        writeParam(params, paramName(key), resolved[key] ?? defaultValue, defaultValue);
+      });
+    });
+  };
+
+  return [values, setValues];
+};
+
+// Sort order of a list, stored as "column" or "-column" (descending). Unknown
+// columns fall back to the default order.
+export const useQuerySort = <C extends string>(
+  key: string,
+  columns: readonly C[],
+  defaultSort: SortOrder<C>
+): [SortOrder<C>, (sort: SortOrder<C>) => void] => {
+  const [raw, setRaw] = useQueryState(key, formatSort(defaultSort));
+  const { column, ascending } = parseSort(raw, columns, defaultSort);
+  const sort = useMemo(() => ({ column, ascending }), [column, ascending]);
+
+  const setSort = useCallback((next: SortOrder<C>) => setRaw(formatSort(next)), [setRaw]);
+
+  return [sort, setSort];
+};
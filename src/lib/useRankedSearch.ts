@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { SearchEntity } from './domain';
+import { rankSearch } from './searchRepo';
+
+// Rows of a list loaded in full (or of a picker) that match the search, most
+// relevant first. The database ranks them (see `search_ranking`); all rows are
+// returned unchanged while the search is empty, and the previous results stay
+// on screen while the next search runs.
+export const useRankedSearch = <T extends { id: string }>(
+  entity: SearchEntity,
+  rows: T[],
+  search: string
+): T[] => {
+  const [ranking, setRanking] = useState<string[]>([]);
+  const requestRef = useRef(0);
+  const term = search.trim();
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    if (!term) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const ids = await rankSearch(entity, term);
+        if (request === requestRef.current) {
+          setRanking(ids);
+        }
+      } catch (err) {
+        console.error('Error ranking search results:', err);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [entity, term]);
+
+  return useMemo(() => {
+    if (!term) return rows;
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return ranking.flatMap(id => byId.get(id) ?? []);
+  }, [rows, ranking, term]);
+};
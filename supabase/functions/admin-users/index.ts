@@ -0,0 +1,132 @@
+/*
+  # admin-users
+
+  Account operations that need the service role key, called from the
+  "Utilisateurs" page with the admin's session:
+    - `invite`         - sends an invitation email and sets the new profile (role, name, driver)
+    - `reset_password` - sends a password reset email
+    - `set_active`     - bans or unbans the account and flags the profile
+
+  The caller must be an active admin (checked against `profiles`).
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const ROLES = ['admin', 'commercial', 'comptable', 'chauffeur'];
+
+// Long enough to be permanent, Supabase has no "forever" ban
+const BAN_DURATION = '876000h';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  // Identify the caller from their own token
+  const token = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+  const { data: { user: caller } } = await admin.auth.getUser(token);
+  if (!caller) {
+    return json({ error: 'Session invalide' }, 401);
+  }
+
+  const { data: callerProfile } = await admin
+    .from('profiles')
+    .select('role, actif')
+    .eq('id', caller.id)
+    .maybeSingle();
+
+  if (!callerProfile || callerProfile.role !== 'admin' || !callerProfile.actif) {
+    return json({ error: 'Réservé aux administrateurs' }, 403);
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    switch (body.action) {
+      case 'invite': {
+        const email = String(body.email || '').trim().toLowerCase();
+        const role = ROLES.includes(body.role) ? body.role : 'commercial';
+        if (!email) {
+          return json({ error: 'L\'email est requis' }, 400);
+        }
+
+        const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+          redirectTo: body.redirectTo || undefined
+        });
+        if (error) throw error;
+
+        // The auth trigger has created the profile with the default role
+        const { error: profileError } = await admin
+          .from('profiles')
+          .update({
+            role,
+            nom_complet: String(body.nom_complet || '').trim() || null,
+            chauffeur_id: role === 'chauffeur' ? body.chauffeur_id || null : null
+          })
+          .eq('id', data.user.id);
+        if (profileError) throw profileError;
+
+        return json({ id: data.user.id });
+      }
+
+      case 'reset_password': {
+        const { data: profile } = await admin
+          .from('profiles')
+          .select('email')
+          .eq('id', body.user_id)
+          .maybeSingle();
+        if (!profile) {
+          return json({ error: 'Utilisateur introuvable' }, 404);
+        }
+
+        const { error } = await admin.auth.resetPasswordForEmail(profile.email, {
+          redirectTo: body.redirectTo || undefined
+        });
+        if (error) throw error;
+
+        return json({ ok: true });
+      }
+
+      case 'set_active': {
+        if (body.user_id === caller.id) {
+          return json({ error: 'Vous ne pouvez pas désactiver votre propre compte' }, 400);
+        }
+
+        const actif = !!body.actif;
+        const { error } = await admin.auth.admin.updateUserById(body.user_id, {
+          ban_duration: actif ? 'none' : BAN_DURATION
+        });
+        if (error) throw error;
+
+        const { error: profileError } = await admin
+          .from('profiles')
+          .update({ actif })
+          .eq('id', body.user_id);
+        if (profileError) throw profileError;
+
+        return json({ ok: true });
+      }
+
+      default:
+        return json({ error: 'Action inconnue' }, 400);
+    }
+  } catch (error) {
+    console.error('admin-users error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Erreur inattendue' }, 500);
+  }
+});
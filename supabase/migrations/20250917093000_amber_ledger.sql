@@ -0,0 +1,137 @@
+/*
+  # Add customer invoices (factures)
+
+  1. New Tables
+    - `factures`
+      - `numero_facture` (text, unique) - Invoice number, format FA-YYYY-NNNN
+      - `client_id` (uuid) - Invoiced client
+      - `date_facture` (date) - Invoice date
+      - `statut` (text) - brouillon, emise, payee, annulee
+      - `total_ht` (numeric) - Sum of the invoice lines
+      - `notes` (text)
+    - `facture_livraisons`
+      - Links an invoice to the delivery notes (BL) it bills
+      - `livraison_id` is unique: a BL can only belong to one active invoice
+    - `facture_items`
+      - Invoice lines copied from `bon_de_livraison_items` when the invoice is generated
+      - `total_ligne` is computed from quantity and unit price
+
+  2. Triggers
+    - User tracking (`set_user_tracking`) on `factures`
+    - Cancelling an invoice releases its delivery notes so they can be invoiced again
+
+  3. Security
+    - Enable RLS on the new tables
+    - Authenticated users can manage invoices
+*/
+
+-- Invoices
+CREATE TABLE IF NOT EXISTS factures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  numero_facture text UNIQUE NOT NULL,
+  client_id uuid NOT NULL REFERENCES clients(id),
+  date_facture date NOT NULL DEFAULT CURRENT_DATE,
+  statut text NOT NULL DEFAULT 'brouillon',
+  total_ht numeric(12,2) NOT NULL DEFAULT 0,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id),
+  updated_by uuid REFERENCES auth.users(id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'factures' AND constraint_name = 'factures_statut_check'
+  ) THEN
+    ALTER TABLE factures ADD CONSTRAINT factures_statut_check
+    CHECK (statut IN ('brouillon', 'emise', 'payee', 'annulee'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_factures_client_id ON factures(client_id);
+CREATE INDEX IF NOT EXISTS idx_factures_date_facture ON factures(date_facture);
+
+-- Delivery notes billed by an invoice
+CREATE TABLE IF NOT EXISTS facture_livraisons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  facture_id uuid NOT NULL REFERENCES factures(id) ON DELETE CASCADE,
+  livraison_id uuid NOT NULL UNIQUE REFERENCES bon_de_livraison(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_facture_livraisons_facture_id ON facture_livraisons(facture_id);
+
+-- Invoice lines
+CREATE TABLE IF NOT EXISTS facture_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  facture_id uuid NOT NULL REFERENCES factures(id) ON DELETE CASCADE,
+  livraison_id uuid REFERENCES bon_de_livraison(id),
+  produit_id uuid REFERENCES produits(id),
+  designation text NOT NULL,
+  quantite numeric(10,2) NOT NULL DEFAULT 1,
+  quantite_pieces numeric(10,2) NOT NULL DEFAULT 1,
+  quantite_unitaire numeric(10,2) NOT NULL DEFAULT 1,
+  prix_unitaire numeric(10,2) NOT NULL DEFAULT 0,
+  total_ligne numeric(12,2) GENERATED ALWAYS AS (quantite * prix_unitaire) STORED,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_facture_items_facture_id ON facture_items(facture_id);
+
+COMMENT ON COLUMN facture_items.designation IS 'Product name at invoicing time';
+COMMENT ON COLUMN facture_items.quantite IS 'Delivered quantity copied from the BL line';
+
+-- User tracking
+DROP TRIGGER IF EXISTS trigger_user_tracking_factures ON factures;
+CREATE TRIGGER trigger_user_tracking_factures
+  BEFORE INSERT OR UPDATE ON factures
+  FOR EACH ROW EXECUTE FUNCTION set_user_tracking();
+
+-- Release the delivery notes of a cancelled invoice
+CREATE OR REPLACE FUNCTION release_cancelled_invoice_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.statut = 'annulee' AND OLD.statut IS DISTINCT FROM 'annulee' THEN
+    DELETE FROM facture_livraisons WHERE facture_id = NEW.id;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_release_cancelled_invoice_deliveries ON factures;
+CREATE TRIGGER trigger_release_cancelled_invoice_deliveries
+  BEFORE UPDATE ON factures
+  FOR EACH ROW EXECUTE FUNCTION release_cancelled_invoice_deliveries();
+
+-- Enable RLS
+ALTER TABLE factures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facture_livraisons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facture_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage factures" ON factures;
+CREATE POLICY "Authenticated users can manage factures"
+  ON factures
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage facture_livraisons" ON facture_livraisons;
+CREATE POLICY "Authenticated users can manage facture_livraisons"
+  ON facture_livraisons
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage facture_items" ON facture_items;
+CREATE POLICY "Authenticated users can manage facture_items"
+  ON facture_items
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,129 @@
+/*
+  # Add TVA (VAT) rates and totals
+
+  1. Schema Changes
+    - Add `taux_tva` to `produits` - default VAT rate of the product
+    - Add `taux_tva` to `bon_de_commande_items`, `bon_de_livraison_items` and `facture_items`
+      - Copied from the product when the line is created, can be overridden per line
+    - Add `total_tva` and `total_ttc` to `bon_de_commande`, `bon_de_livraison` and `factures`
+      - `total_ht` keeps its meaning (sum of the lines before tax)
+    - Allowed rates: 20, 14, 10, 7 and 0 (exonéré)
+
+  2. Data Migration
+    - Existing products and lines default to 20%
+    - Existing document totals are recomputed from their lines
+*/
+
+-- Product default rate
+ALTER TABLE produits
+ADD COLUMN IF NOT EXISTS taux_tva numeric(5,2) NOT NULL DEFAULT 20;
+
+-- Line rates
+ALTER TABLE bon_de_commande_items
+ADD COLUMN IF NOT EXISTS taux_tva numeric(5,2) NOT NULL DEFAULT 20;
+
+ALTER TABLE bon_de_livraison_items
+ADD COLUMN IF NOT EXISTS taux_tva numeric(5,2) NOT NULL DEFAULT 20;
+
+ALTER TABLE facture_items
+ADD COLUMN IF NOT EXISTS taux_tva numeric(5,2) NOT NULL DEFAULT 20;
+
+-- Document totals
+ALTER TABLE bon_de_commande
+ADD COLUMN IF NOT EXISTS total_tva numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_ttc numeric(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bon_de_livraison
+ADD COLUMN IF NOT EXISTS total_tva numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_ttc numeric(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE factures
+ADD COLUMN IF NOT EXISTS total_tva numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_ttc numeric(12,2) NOT NULL DEFAULT 0;
+
+-- Allowed rates
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'produits' AND constraint_name = 'produits_taux_tva_check'
+  ) THEN
+    ALTER TABLE produits ADD CONSTRAINT produits_taux_tva_check
+    CHECK (taux_tva IN (0, 7, 10, 14, 20));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'bon_de_commande_items' AND constraint_name = 'bon_de_commande_items_taux_tva_check'
+  ) THEN
+    ALTER TABLE bon_de_commande_items ADD CONSTRAINT bon_de_commande_items_taux_tva_check
+    CHECK (taux_tva IN (0, 7, 10, 14, 20));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'bon_de_livraison_items' AND constraint_name = 'bon_de_livraison_items_taux_tva_check'
+  ) THEN
+    ALTER TABLE bon_de_livraison_items ADD CONSTRAINT bon_de_livraison_items_taux_tva_check
+    CHECK (taux_tva IN (0, 7, 10, 14, 20));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'facture_items' AND constraint_name = 'facture_items_taux_tva_check'
+  ) THEN
+    ALTER TABLE facture_items ADD CONSTRAINT facture_items_taux_tva_check
+    CHECK (taux_tva IN (0, 7, 10, 14, 20));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN produits.taux_tva IS 'Default VAT rate in percent, 0 = exonéré';
+COMMENT ON COLUMN bon_de_commande_items.taux_tva IS 'VAT rate applied to the line, defaults to the product rate';
+COMMENT ON COLUMN bon_de_livraison_items.taux_tva IS 'VAT rate applied to the line, copied from the BC line';
+COMMENT ON COLUMN facture_items.taux_tva IS 'VAT rate copied from the BL line';
+
+-- Recompute existing totals (VAT is computed per rate, then summed)
+UPDATE bon_de_commande bc
+SET
+  total_tva = t.total_tva,
+  total_ttc = bc.total_ht + t.total_tva
+FROM (
+  SELECT commande_id, SUM(tva) AS total_tva
+  FROM (
+    SELECT commande_id, ROUND(SUM(total_ligne) * taux_tva / 100, 2) AS tva
+    FROM bon_de_commande_items
+    GROUP BY commande_id, taux_tva
+  ) per_rate
+  GROUP BY commande_id
+) t
+WHERE t.commande_id = bc.id;
+
+UPDATE bon_de_livraison bl
+SET
+  total_tva = t.total_tva,
+  total_ttc = bl.total_ht + t.total_tva
+FROM (
+  SELECT livraison_id, SUM(tva) AS total_tva
+  FROM (
+    SELECT livraison_id, ROUND(SUM(total_ligne) * taux_tva / 100, 2) AS tva
+    FROM bon_de_livraison_items
+    GROUP BY livraison_id, taux_tva
+  ) per_rate
+  GROUP BY livraison_id
+) t
+WHERE t.livraison_id = bl.id;
+
+UPDATE factures f
+SET
+  total_tva = t.total_tva,
+  total_ttc = f.total_ht + t.total_tva
+FROM (
+  SELECT facture_id, SUM(tva) AS total_tva
+  FROM (
+    SELECT facture_id, ROUND(SUM(total_ligne) * taux_tva / 100, 2) AS tva
+    FROM facture_items
+    GROUP BY facture_id, taux_tva
+  ) per_rate
+  GROUP BY facture_id
+) t
+WHERE t.facture_id = f.id;
@@ -0,0 +1,343 @@
+/*
+  # Atomic creation and update of purchase orders and delivery notes
+
+  1. New Functions
+    - `refresh_purchase_order_totals(uuid)` / `refresh_delivery_note_totals(uuid)`
+      - Recompute `total_ht`, `total_tva` and `total_ttc` of a document from its lines
+      - VAT is computed on each rate base, then summed (same rule as the UI)
+    - `create_purchase_order(...)` - Inserts a BC header and its lines
+    - `update_purchase_order(...)` - Updates a BC header and replaces its lines
+    - `create_delivery_note(...)` - Inserts a BL header and its lines, marks the source BC as delivered
+    - `update_delivery_note(...)` - Updates a BL header and its lines, marks the source BC as delivered
+      when the BL is delivered
+    - `create_invoice(...)` - Inserts an invoice for delivered BLs of a client, links the BLs and
+      copies their lines; the totals are computed from the copied lines
+
+  2. Behaviour
+    - Each function runs in a single transaction: any error rolls back the whole document
+    - Lines are passed as a JSON array, one object per line
+    - Functions run with the caller's rights, so RLS and user tracking still apply
+*/
+
+-- Totals of a purchase order
+CREATE OR REPLACE FUNCTION refresh_purchase_order_totals(p_commande_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_total_ht numeric(12,2);
+  v_total_tva numeric(12,2);
+BEGIN
+  SELECT COALESCE(SUM(base_ht), 0), COALESCE(SUM(ROUND(base_ht * taux_tva / 100, 2)), 0)
+  INTO v_total_ht, v_total_tva
+  FROM (
+    SELECT taux_tva, ROUND(SUM(quantite * prix_unitaire), 2) AS base_ht
+    FROM bon_de_commande_items
+    WHERE commande_id = p_commande_id
+    GROUP BY taux_tva
+  ) per_rate;
+
+  UPDATE bon_de_commande
+  SET
+    total_ht = v_total_ht,
+    total_tva = v_total_tva,
+    total_ttc = v_total_ht + v_total_tva
+  WHERE id = p_commande_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Totals of a delivery note
+CREATE OR REPLACE FUNCTION refresh_delivery_note_totals(p_livraison_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_total_ht numeric(12,2);
+  v_total_tva numeric(12,2);
+BEGIN
+  SELECT COALESCE(SUM(base_ht), 0), COALESCE(SUM(ROUND(base_ht * taux_tva / 100, 2)), 0)
+  INTO v_total_ht, v_total_tva
+  FROM (
+    SELECT taux_tva, ROUND(SUM(quantite_livree * prix_unitaire), 2) AS base_ht
+    FROM bon_de_livraison_items
+    WHERE livraison_id = p_livraison_id
+    GROUP BY taux_tva
+  ) per_rate;
+
+  UPDATE bon_de_livraison
+  SET
+    total_ht = v_total_ht,
+    total_tva = v_total_tva,
+    total_ttc = v_total_ht + v_total_tva
+  WHERE id = p_livraison_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a purchase order with its lines
+-- p_items: [{ produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva }]
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_numero_commande text,
+  p_fournisseur_id uuid,
+  p_date_commande date,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS bon_de_commande AS $$
+DECLARE
+  v_order bon_de_commande;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de commande doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_commande (numero_commande, fournisseur_id, date_commande, notes, statut, total_ht)
+  VALUES (p_numero_commande, p_fournisseur_id, p_date_commande, NULLIF(trim(p_notes), ''), 'confirmee', 0)
+  RETURNING * INTO v_order;
+
+  INSERT INTO bon_de_commande_items (commande_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT v_order.id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_purchase_order_totals(v_order.id);
+
+  SELECT * INTO v_order FROM bon_de_commande WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update a purchase order and replace its lines
+CREATE OR REPLACE FUNCTION update_purchase_order(
+  p_id uuid,
+  p_fournisseur_id uuid,
+  p_statut text,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS bon_de_commande AS $$
+DECLARE
+  v_order bon_de_commande;
+BEGIN
+  UPDATE bon_de_commande
+  SET
+    fournisseur_id = p_fournisseur_id,
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_id
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de commande introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM bon_de_commande_items WHERE commande_id = p_id;
+
+  INSERT INTO bon_de_commande_items (commande_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT p_id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_purchase_order_totals(p_id);
+
+  SELECT * INTO v_order FROM bon_de_commande WHERE id = p_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a delivery note from a purchase order
+-- p_items: [{ produit_id, quantite_commandee, quantite_livree, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva }]
+CREATE OR REPLACE FUNCTION create_delivery_note(
+  p_numero_livraison text,
+  p_bon_commande_id uuid,
+  p_client_id uuid,
+  p_chauffeur_id uuid,
+  p_immatricule_utilise text,
+  p_date_livraison date,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de livraison doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_livraison (
+    numero_livraison, bon_commande_id, client_id, chauffeur_id,
+    immatricule_utilise, date_livraison, notes, statut, total_ht
+  )
+  VALUES (
+    p_numero_livraison, p_bon_commande_id, p_client_id, p_chauffeur_id,
+    p_immatricule_utilise, p_date_livraison, p_notes, 'livree', 0
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO bon_de_livraison_items (
+    livraison_id, produit_id, quantite_commandee, quantite_livree,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_note.id, i.produit_id, i.quantite_commandee, COALESCE(i.quantite_livree, i.quantite_commandee),
+    i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite_commandee numeric,
+    quantite_livree numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_delivery_note_totals(v_note.id);
+
+  -- The source BC is delivered to this client
+  UPDATE bon_de_commande
+  SET statut = 'livree', client_id = p_client_id
+  WHERE id = p_bon_commande_id;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = v_note.id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update a delivery note and its delivered quantities
+-- p_items: [{ id, quantite_livree, taux_tva }]
+CREATE OR REPLACE FUNCTION update_delivery_note(
+  p_id uuid,
+  p_statut text,
+  p_notes text,
+  p_immatricule_utilise text,
+  p_items jsonb
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  UPDATE bon_de_livraison
+  SET
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), ''),
+    immatricule_utilise = trim(p_immatricule_utilise)
+  WHERE id = p_id
+  RETURNING * INTO v_note;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE bon_de_livraison_items bli
+  SET
+    quantite_livree = i.quantite_livree,
+    taux_tva = COALESCE(i.taux_tva, bli.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    quantite_livree numeric,
+    taux_tva numeric
+  )
+  WHERE bli.id = i.id AND bli.livraison_id = p_id;
+
+  PERFORM refresh_delivery_note_totals(p_id);
+
+  IF p_statut = 'livree' THEN
+    UPDATE bon_de_commande
+    SET statut = 'livree', client_id = v_note.client_id
+    WHERE id = v_note.bon_commande_id;
+  END IF;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an invoice billing delivered BLs of a client
+-- p_livraison_ids: the BLs, their lines are copied as they were delivered
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_client_id uuid,
+  p_date_facture date,
+  p_notes text,
+  p_livraison_ids uuid[]
+)
+RETURNS factures AS $$
+DECLARE
+  v_invoice factures;
+  v_total_ht numeric(12,2);
+  v_total_tva numeric(12,2);
+BEGIN
+  IF COALESCE(array_length(p_livraison_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Une facture doit contenir au moins un bon de livraison'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_livraison_ids) AS l(id)
+    LEFT JOIN bon_de_livraison bl ON bl.id = l.id
+    WHERE bl.id IS NULL OR bl.client_id <> p_client_id OR bl.statut <> 'livree'
+  ) THEN
+    RAISE EXCEPTION 'Seuls les bons de livraison livrés du client peuvent être facturés'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO factures (client_id, date_facture, statut, notes)
+  VALUES (p_client_id, p_date_facture, 'brouillon', NULLIF(trim(p_notes), ''))
+  RETURNING * INTO v_invoice;
+
+  -- The unique livraison_id rejects a BL that is already invoiced
+  INSERT INTO facture_livraisons (facture_id, livraison_id)
+  SELECT v_invoice.id, l.id
+  FROM (SELECT DISTINCT unnest(p_livraison_ids) AS id) l;
+
+  INSERT INTO facture_items (
+    facture_id, livraison_id, produit_id, designation, quantite,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_invoice.id, bli.livraison_id, bli.produit_id, p.nom_produit, bli.quantite_livree,
+    bli.quantite_pieces, bli.quantite_unitaire, bli.prix_unitaire, bli.taux_tva
+  FROM bon_de_livraison_items bli
+  JOIN bon_de_livraison bl ON bl.id = bli.livraison_id
+  JOIN produits p ON p.id = bli.produit_id
+  WHERE bli.livraison_id = ANY(p_livraison_ids)
+  ORDER BY bl.date_livraison, bli.id;
+
+  SELECT COALESCE(SUM(base_ht), 0), COALESCE(SUM(ROUND(base_ht * taux_tva / 100, 2)), 0)
+  INTO v_total_ht, v_total_tva
+  FROM (
+    SELECT taux_tva, ROUND(SUM(quantite * prix_unitaire), 2) AS base_ht
+    FROM facture_items
+    WHERE facture_id = v_invoice.id
+    GROUP BY taux_tva
+  ) per_rate;
+
+  UPDATE factures
+  SET
+    total_ht = v_total_ht,
+    total_tva = v_total_tva,
+    total_ttc = v_total_ht + v_total_tva
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION refresh_purchase_order_totals(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_delivery_note_totals(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_purchase_order(text, uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_purchase_order(uuid, uuid, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_delivery_note(text, uuid, uuid, uuid, text, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_delivery_note(uuid, text, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_invoice(uuid, date, text, uuid[]) TO authenticated;
@@ -0,0 +1,354 @@
+/*
+  # Server-side document numbering
+
+  1. New Tables
+    - `document_sequences` - Numbering settings, one row per document type
+      - `type_document` (text, primary key) - bon_de_commande, bon_de_livraison, facture,
+        paiement_client, paiement_fournisseur, paiement_chauffeur
+      - `prefixe` (text) - e.g. BC
+      - `longueur` (integer) - Zero padding of the counter, e.g. 4 gives 0001
+      - `remise_annuelle` (boolean) - Restart the counter every year and put the year in the number,
+        e.g. BC-2026-0001 instead of BC-0001
+    - `document_sequence_counters` - Last number used per document type and year
+      - `annee` is 0 for sequences without yearly reset
+
+  2. New Functions
+    - `next_document_number(type, date)` - Reserves and returns the next number
+      - The counter row is locked until the transaction ends, so concurrent inserts
+        never get the same number and a rolled back insert does not burn one
+    - `preview_document_number(type, date)` - Next number, without reserving it (form preview)
+
+  3. Schema Changes
+    - Add `numero_paiement` to `paiements_clients`, `paiements_fournisseurs` and `paiements_chauffeurs`
+    - Numbers of BC, BL, invoices and payments are assigned by a BEFORE INSERT trigger
+      when the insert does not provide one
+    - `create_purchase_order` and `create_delivery_note` no longer take a number
+
+  4. Data Migration
+    - Counters start after the highest existing number
+    - Existing payments are numbered in date order
+
+  5. Security
+    - Authenticated users can read and change the settings, counters are only written
+      through `next_document_number`
+*/
+
+-- Settings
+CREATE TABLE IF NOT EXISTS document_sequences (
+  type_document text PRIMARY KEY,
+  prefixe text NOT NULL,
+  longueur integer NOT NULL DEFAULT 4 CHECK (longueur BETWEEN 1 AND 10),
+  remise_annuelle boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO document_sequences (type_document, prefixe, longueur, remise_annuelle) VALUES
+  ('bon_de_commande', 'BC', 4, false),
+  ('bon_de_livraison', 'BL', 4, false),
+  ('facture', 'FA', 4, true),
+  ('paiement_client', 'RC', 4, true),
+  ('paiement_fournisseur', 'PF', 4, true),
+  ('paiement_chauffeur', 'PCH', 4, true)
+ON CONFLICT (type_document) DO NOTHING;
+
+-- Counters
+CREATE TABLE IF NOT EXISTS document_sequence_counters (
+  type_document text NOT NULL REFERENCES document_sequences(type_document) ON DELETE CASCADE,
+  annee integer NOT NULL DEFAULT 0,
+  dernier_numero integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (type_document, annee)
+);
+
+-- Number formatting
+CREATE OR REPLACE FUNCTION format_document_number(
+  p_sequence document_sequences,
+  p_annee integer,
+  p_numero integer
+)
+RETURNS text AS $$
+BEGIN
+  IF p_sequence.remise_annuelle THEN
+    RETURN p_sequence.prefixe || '-' || p_annee || '-' || lpad(p_numero::text, p_sequence.longueur, '0');
+  END IF;
+  RETURN p_sequence.prefixe || '-' || lpad(p_numero::text, p_sequence.longueur, '0');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Reserve the next number
+CREATE OR REPLACE FUNCTION next_document_number(p_type text, p_date date DEFAULT CURRENT_DATE)
+RETURNS text AS $$
+DECLARE
+  v_sequence document_sequences;
+  v_annee integer;
+  v_numero integer;
+BEGIN
+  SELECT * INTO v_sequence FROM document_sequences WHERE type_document = p_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Séquence de numérotation inconnue: %', p_type USING ERRCODE = 'P0002';
+  END IF;
+
+  v_annee := CASE WHEN v_sequence.remise_annuelle
+    THEN EXTRACT(YEAR FROM COALESCE(p_date, CURRENT_DATE))::integer
+    ELSE 0
+  END;
+
+  INSERT INTO document_sequence_counters (type_document, annee, dernier_numero)
+  VALUES (p_type, v_annee, 1)
+  ON CONFLICT (type_document, annee)
+  DO UPDATE SET dernier_numero = document_sequence_counters.dernier_numero + 1
+  RETURNING dernier_numero INTO v_numero;
+
+  RETURN format_document_number(v_sequence, v_annee, v_numero);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Preview the next number without reserving it
+CREATE OR REPLACE FUNCTION preview_document_number(p_type text, p_date date DEFAULT CURRENT_DATE)
+RETURNS text AS $$
+DECLARE
+  v_sequence document_sequences;
+  v_annee integer;
+  v_dernier integer;
+BEGIN
+  SELECT * INTO v_sequence FROM document_sequences WHERE type_document = p_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Séquence de numérotation inconnue: %', p_type USING ERRCODE = 'P0002';
+  END IF;
+
+  v_annee := CASE WHEN v_sequence.remise_annuelle
+    THEN EXTRACT(YEAR FROM COALESCE(p_date, CURRENT_DATE))::integer
+    ELSE 0
+  END;
+
+  SELECT dernier_numero INTO v_dernier
+  FROM document_sequence_counters
+  WHERE type_document = p_type AND annee = v_annee;
+
+  RETURN format_document_number(v_sequence, v_annee, COALESCE(v_dernier, 0) + 1);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Trigger: assign the number when the insert does not provide one
+-- Arguments: document type, number column, date column
+CREATE OR REPLACE FUNCTION assign_document_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row jsonb := to_jsonb(NEW);
+BEGIN
+  IF COALESCE(v_row->>TG_ARGV[1], '') = '' THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+      TG_ARGV[1],
+      next_document_number(TG_ARGV[0], (v_row->>TG_ARGV[2])::date)
+    ));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Payment numbers
+ALTER TABLE paiements_clients ADD COLUMN IF NOT EXISTS numero_paiement text UNIQUE;
+ALTER TABLE paiements_fournisseurs ADD COLUMN IF NOT EXISTS numero_paiement text UNIQUE;
+ALTER TABLE paiements_chauffeurs ADD COLUMN IF NOT EXISTS numero_paiement text UNIQUE;
+
+-- Start the counters after the existing numbers
+INSERT INTO document_sequence_counters (type_document, annee, dernier_numero)
+SELECT 'bon_de_commande', 0, MAX(substring(numero_commande FROM '^BC-(\d+)$')::integer)
+FROM bon_de_commande
+HAVING MAX(substring(numero_commande FROM '^BC-(\d+)$')::integer) IS NOT NULL
+ON CONFLICT (type_document, annee) DO UPDATE
+  SET dernier_numero = GREATEST(document_sequence_counters.dernier_numero, EXCLUDED.dernier_numero);
+
+INSERT INTO document_sequence_counters (type_document, annee, dernier_numero)
+SELECT 'bon_de_livraison', 0, MAX(substring(numero_livraison FROM '^BL-(\d+)$')::integer)
+FROM bon_de_livraison
+HAVING MAX(substring(numero_livraison FROM '^BL-(\d+)$')::integer) IS NOT NULL
+ON CONFLICT (type_document, annee) DO UPDATE
+  SET dernier_numero = GREATEST(document_sequence_counters.dernier_numero, EXCLUDED.dernier_numero);
+
+INSERT INTO document_sequence_counters (type_document, annee, dernier_numero)
+SELECT 'facture', annee, MAX(numero)
+FROM (
+  SELECT
+    substring(numero_facture FROM '^FA-(\d{4})-\d+$')::integer AS annee,
+    substring(numero_facture FROM '^FA-\d{4}-(\d+)$')::integer AS numero
+  FROM factures
+) f
+WHERE annee IS NOT NULL AND numero IS NOT NULL
+GROUP BY annee
+ON CONFLICT (type_document, annee) DO UPDATE
+  SET dernier_numero = GREATEST(document_sequence_counters.dernier_numero, EXCLUDED.dernier_numero);
+
+-- Number the existing payments in date order
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id, date_paiement FROM paiements_clients WHERE numero_paiement IS NULL ORDER BY date_paiement, id LOOP
+    UPDATE paiements_clients SET numero_paiement = next_document_number('paiement_client', r.date_paiement) WHERE id = r.id;
+  END LOOP;
+
+  FOR r IN SELECT id, date_paiement FROM paiements_fournisseurs WHERE numero_paiement IS NULL ORDER BY date_paiement, id LOOP
+    UPDATE paiements_fournisseurs SET numero_paiement = next_document_number('paiement_fournisseur', r.date_paiement) WHERE id = r.id;
+  END LOOP;
+
+  FOR r IN SELECT id, date_paiement FROM paiements_chauffeurs WHERE numero_paiement IS NULL ORDER BY date_paiement, id LOOP
+    UPDATE paiements_chauffeurs SET numero_paiement = next_document_number('paiement_chauffeur', r.date_paiement) WHERE id = r.id;
+  END LOOP;
+END $$;
+
+-- Numbering triggers
+DROP TRIGGER IF EXISTS trigger_document_number_bon_de_commande ON bon_de_commande;
+CREATE TRIGGER trigger_document_number_bon_de_commande
+  BEFORE INSERT ON bon_de_commande
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('bon_de_commande', 'numero_commande', 'date_commande');
+
+DROP TRIGGER IF EXISTS trigger_document_number_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_document_number_bon_de_livraison
+  BEFORE INSERT ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('bon_de_livraison', 'numero_livraison', 'date_livraison');
+
+DROP TRIGGER IF EXISTS trigger_document_number_factures ON factures;
+CREATE TRIGGER trigger_document_number_factures
+  BEFORE INSERT ON factures
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('facture', 'numero_facture', 'date_facture');
+
+DROP TRIGGER IF EXISTS trigger_document_number_paiements_clients ON paiements_clients;
+CREATE TRIGGER trigger_document_number_paiements_clients
+  BEFORE INSERT ON paiements_clients
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('paiement_client', 'numero_paiement', 'date_paiement');
+
+DROP TRIGGER IF EXISTS trigger_document_number_paiements_fournisseurs ON paiements_fournisseurs;
+CREATE TRIGGER trigger_document_number_paiements_fournisseurs
+  BEFORE INSERT ON paiements_fournisseurs
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('paiement_fournisseur', 'numero_paiement', 'date_paiement');
+
+DROP TRIGGER IF EXISTS trigger_document_number_paiements_chauffeurs ON paiements_chauffeurs;
+CREATE TRIGGER trigger_document_number_paiements_chauffeurs
+  BEFORE INSERT ON paiements_chauffeurs
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('paiement_chauffeur', 'numero_paiement', 'date_paiement');
+
+-- Document creation no longer takes a number
+DROP FUNCTION IF EXISTS create_purchase_order(text, uuid, date, text, jsonb);
+
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_fournisseur_id uuid,
+  p_date_commande date,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS bon_de_commande AS $$
+DECLARE
+  v_order bon_de_commande;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de commande doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_commande (fournisseur_id, date_commande, notes, statut, total_ht)
+  VALUES (p_fournisseur_id, p_date_commande, NULLIF(trim(p_notes), ''), 'confirmee', 0)
+  RETURNING * INTO v_order;
+
+  INSERT INTO bon_de_commande_items (commande_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT v_order.id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_purchase_order_totals(v_order.id);
+
+  SELECT * INTO v_order FROM bon_de_commande WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS create_delivery_note(text, uuid, uuid, uuid, text, date, text, jsonb);
+
+CREATE OR REPLACE FUNCTION create_delivery_note(
+  p_bon_commande_id uuid,
+  p_client_id uuid,
+  p_chauffeur_id uuid,
+  p_immatricule_utilise text,
+  p_date_livraison date,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de livraison doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_livraison (
+    bon_commande_id, client_id, chauffeur_id,
+    immatricule_utilise, date_livraison, notes, statut, total_ht
+  )
+  VALUES (
+    p_bon_commande_id, p_client_id, p_chauffeur_id,
+    p_immatricule_utilise, p_date_livraison, p_notes, 'livree', 0
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO bon_de_livraison_items (
+    livraison_id, produit_id, quantite_commandee, quantite_livree,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_note.id, i.produit_id, i.quantite_commandee, COALESCE(i.quantite_livree, i.quantite_commandee),
+    i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite_commandee numeric,
+    quantite_livree numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_delivery_note_totals(v_note.id);
+
+  -- The source BC is delivered to this client
+  UPDATE bon_de_commande
+  SET statut = 'livree', client_id = p_client_id
+  WHERE id = p_bon_commande_id;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = v_note.id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_sequence_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage document_sequences" ON document_sequences;
+CREATE POLICY "Authenticated users can manage document_sequences"
+  ON document_sequences
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read document_sequence_counters" ON document_sequence_counters;
+CREATE POLICY "Authenticated users can read document_sequence_counters"
+  ON document_sequence_counters
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+GRANT EXECUTE ON FUNCTION next_document_number(text, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_document_number(text, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_purchase_order(uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_delivery_note(uuid, uuid, uuid, text, date, text, jsonb) TO authenticated;
@@ -0,0 +1,504 @@
+/*
+  # User roles and role-based access
+
+  1. New Tables
+    - `profiles` - one row per auth user
+      - `id` (uuid, primary key, references auth.users)
+      - `email` (text)
+      - `nom_complet` (text, nullable)
+      - `role` (text) - 'admin', 'commercial', 'comptable' or 'chauffeur'
+      - `chauffeur_id` (uuid, nullable) - driver record of a 'chauffeur' user
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `handle_new_user()` - now creates a `profiles` row (role 'commercial') for every new auth user
+      (the previous version still targeted the dropped `public.users` table)
+    - `current_user_role()` - role of the connected user, NULL when there is no profile
+    - `current_chauffeur_id()` - driver record of the connected user
+    - `has_role(text[])` - true when the connected user has one of the given roles
+
+  3. Views
+    - `prix_achat_produits` - purchase price of each product, empty for the other roles
+    - `marges_clients` - margin of each client, empty for the other roles
+
+  4. Security
+    - Users read their own profile, admins read and manage every profile
+    - Payments (`paiements_clients`, `paiements_fournisseurs`, `paiements_chauffeurs`)
+      - Read and recorded by every role except 'chauffeur'
+      - A 'chauffeur' only reads their own driver payments
+      - Updated and deleted by 'comptable' (and 'admin') only
+    - Delivery notes (`bon_de_livraison`, `bon_de_livraison_items`)
+      - A 'chauffeur' only reads the BLs assigned to their driver record and cannot change them
+      - Every other role keeps full access
+    - Clients, orders (`bon_de_commande`, `bon_de_commande_items`), drivers and invoices
+      (`factures`, `facture_items`, `facture_livraisons`)
+      - Read and managed by every role except 'chauffeur'
+    - Suppliers and products (`fournisseurs`, `produits`)
+      - Read by every role except 'chauffeur', managed by 'comptable' (and 'admin') only
+    - A 'chauffeur' reads the clients, orders, suppliers and products of their own BLs,
+      and their own driver record
+    - Numbering (`document_sequences`, `document_sequence_counters`)
+      - Read by every role except 'chauffeur', formats managed by 'admin' only
+    - Purchase prices
+      - `produits.prix_achat` is left out of the columns `authenticated` may select
+        (so are the cost columns added to `produits` later)
+      - `prix_achat_produits` serves it to 'comptable' and 'admin' users only
+      - `clients.total_margin` is left out the same way, `marges_clients` serves it
+        (the columns added to `clients` later are granted by their migration)
+
+  5. Data Migration
+    - Existing auth users get a profile with the 'admin' role so nobody is locked out
+*/
+
+-- Profiles
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  nom_complet text,
+  role text NOT NULL DEFAULT 'commercial'
+    CHECK (role IN ('admin', 'commercial', 'comptable', 'chauffeur')),
+  chauffeur_id uuid REFERENCES chauffeurs(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_chauffeur_id ON profiles(chauffeur_id);
+
+COMMENT ON COLUMN profiles.role IS 'Application role: admin, commercial, comptable or chauffeur';
+COMMENT ON COLUMN profiles.chauffeur_id IS 'Driver record of a chauffeur user, used to filter their BLs';
+
+CREATE OR REPLACE FUNCTION set_profile_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_profiles_updated_at ON profiles;
+CREATE TRIGGER trigger_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION set_profile_updated_at();
+
+-- New auth users get a profile
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email)
+  VALUES (NEW.id, NEW.email)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Existing users keep full access
+INSERT INTO profiles (id, email, role)
+SELECT id, COALESCE(email, ''), 'admin'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Role helpers. SECURITY DEFINER so policies can call them without
+-- going through the RLS of `profiles` itself.
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_chauffeur_id()
+RETURNS uuid AS $$
+  SELECT chauffeur_id FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_role(p_roles text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(current_user_role() = ANY(p_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION current_chauffeur_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_role(text[]) TO authenticated;
+
+-- Profiles policies
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own profile" ON profiles;
+CREATE POLICY "Users can read own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR has_role(ARRAY['admin']));
+
+DROP POLICY IF EXISTS "Admins can manage profiles" ON profiles;
+CREATE POLICY "Admins can manage profiles"
+  ON profiles
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- Replace the permissive policies of the business tables
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename IN (
+      'paiements_clients', 'paiements_fournisseurs', 'paiements_chauffeurs',
+      'bon_de_livraison', 'bon_de_livraison_items',
+      'clients', 'fournisseurs', 'produits', 'chauffeurs',
+      'bon_de_commande', 'bon_de_commande_items',
+      'factures', 'facture_items', 'facture_livraisons',
+      'document_sequences', 'document_sequence_counters'
+    )
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', r.policyname, r.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE paiements_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE paiements_fournisseurs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE paiements_chauffeurs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bon_de_livraison ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bon_de_livraison_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fournisseurs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE produits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chauffeurs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bon_de_commande ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bon_de_commande_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE factures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facture_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE facture_livraisons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_sequence_counters ENABLE ROW LEVEL SECURITY;
+
+-- Client payments
+CREATE POLICY "Staff can read paiements_clients"
+  ON paiements_clients
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Staff can record paiements_clients"
+  ON paiements_clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Comptables can update paiements_clients"
+  ON paiements_clients
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
+
+CREATE POLICY "Comptables can delete paiements_clients"
+  ON paiements_clients
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']));
+
+-- Supplier payments
+CREATE POLICY "Staff can read paiements_fournisseurs"
+  ON paiements_fournisseurs
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Staff can record paiements_fournisseurs"
+  ON paiements_fournisseurs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Comptables can update paiements_fournisseurs"
+  ON paiements_fournisseurs
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
+
+CREATE POLICY "Comptables can delete paiements_fournisseurs"
+  ON paiements_fournisseurs
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']));
+
+-- Driver payments
+CREATE POLICY "Staff and own driver can read paiements_chauffeurs"
+  ON paiements_chauffeurs
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR (has_role(ARRAY['chauffeur']) AND chauffeur_id = current_chauffeur_id())
+  );
+
+CREATE POLICY "Staff can record paiements_chauffeurs"
+  ON paiements_chauffeurs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Comptables can update paiements_chauffeurs"
+  ON paiements_chauffeurs
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
+
+CREATE POLICY "Comptables can delete paiements_chauffeurs"
+  ON paiements_chauffeurs
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']));
+
+-- Delivery notes
+CREATE POLICY "Staff and assigned driver can read bon_de_livraison"
+  ON bon_de_livraison
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR (has_role(ARRAY['chauffeur']) AND chauffeur_id = current_chauffeur_id())
+  );
+
+CREATE POLICY "Staff can manage bon_de_livraison"
+  ON bon_de_livraison
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Staff and assigned driver can read bon_de_livraison_items"
+  ON bon_de_livraison_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR EXISTS (
+      SELECT 1 FROM bon_de_livraison bl
+      WHERE bl.id = bon_de_livraison_items.livraison_id
+      AND bl.chauffeur_id = current_chauffeur_id()
+      AND has_role(ARRAY['chauffeur'])
+    )
+  );
+
+CREATE POLICY "Staff can manage bon_de_livraison_items"
+  ON bon_de_livraison_items
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+-- Clients
+CREATE POLICY "Staff and drivers of their BLs can read clients"
+  ON clients
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR EXISTS (
+      SELECT 1 FROM bon_de_livraison bl
+      WHERE bl.client_id = clients.id
+      AND bl.chauffeur_id = current_chauffeur_id()
+      AND has_role(ARRAY['chauffeur'])
+    )
+  );
+
+CREATE POLICY "Staff can manage clients"
+  ON clients
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+-- Suppliers
+CREATE POLICY "Staff and drivers of their BLs can read fournisseurs"
+  ON fournisseurs
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR EXISTS (
+      SELECT 1 FROM bon_de_livraison bl
+      JOIN bon_de_commande bc ON bc.id = bl.bon_commande_id
+      WHERE bc.fournisseur_id = fournisseurs.id
+      AND bl.chauffeur_id = current_chauffeur_id()
+      AND has_role(ARRAY['chauffeur'])
+    )
+  );
+
+CREATE POLICY "Comptables can manage fournisseurs"
+  ON fournisseurs
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
+
+-- Products
+CREATE POLICY "Staff and drivers of their BLs can read produits"
+  ON produits
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR EXISTS (
+      SELECT 1 FROM bon_de_livraison_items bli
+      JOIN bon_de_livraison bl ON bl.id = bli.livraison_id
+      WHERE bli.produit_id = produits.id
+      AND bl.chauffeur_id = current_chauffeur_id()
+      AND has_role(ARRAY['chauffeur'])
+    )
+  );
+
+CREATE POLICY "Comptables can manage produits"
+  ON produits
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
+
+-- Purchase prices: every column of `produits` but `prix_achat` can be
+-- selected, and only comptables and admins get it, through the view below.
+-- The view runs with the rights of its owner, so it reads the column anyway.
+DO $$
+DECLARE
+  v_colonnes text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ')
+  INTO v_colonnes
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+  AND table_name = 'produits'
+  AND column_name <> 'prix_achat';
+
+  REVOKE SELECT ON produits FROM anon, authenticated;
+  EXECUTE format('GRANT SELECT (%s) ON produits TO authenticated', v_colonnes);
+END $$;
+
+CREATE OR REPLACE VIEW prix_achat_produits AS
+SELECT id, prix_achat
+FROM produits
+WHERE has_role(ARRAY['admin', 'comptable']);
+
+GRANT SELECT ON prix_achat_produits TO authenticated;
+
+-- Margins: same rule for `clients.total_margin`
+DO $$
+DECLARE
+  v_colonnes text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ')
+  INTO v_colonnes
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+  AND table_name = 'clients'
+  AND column_name <> 'total_margin';
+
+  REVOKE SELECT ON clients FROM anon, authenticated;
+  EXECUTE format('GRANT SELECT (%s) ON clients TO authenticated', v_colonnes);
+END $$;
+
+CREATE OR REPLACE VIEW marges_clients AS
+SELECT id, total_margin
+FROM clients
+WHERE has_role(ARRAY['admin', 'comptable']);
+
+GRANT SELECT ON marges_clients TO authenticated;
+
+-- Drivers
+CREATE POLICY "Staff and own driver can read chauffeurs"
+  ON chauffeurs
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR (has_role(ARRAY['chauffeur']) AND id = current_chauffeur_id())
+  );
+
+CREATE POLICY "Staff can manage chauffeurs"
+  ON chauffeurs
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+-- Purchase orders
+CREATE POLICY "Staff and drivers of their BLs can read bon_de_commande"
+  ON bon_de_commande
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'commercial', 'comptable'])
+    OR EXISTS (
+      SELECT 1 FROM bon_de_livraison bl
+      WHERE bl.bon_commande_id = bon_de_commande.id
+      AND bl.chauffeur_id = current_chauffeur_id()
+      AND has_role(ARRAY['chauffeur'])
+    )
+  );
+
+CREATE POLICY "Staff can manage bon_de_commande"
+  ON bon_de_commande
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Staff can manage bon_de_commande_items"
+  ON bon_de_commande_items
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+-- Invoices
+CREATE POLICY "Staff can manage factures"
+  ON factures
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Staff can manage facture_items"
+  ON facture_items
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Staff can manage facture_livraisons"
+  ON facture_livraisons
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+-- Numbering. Numbers themselves are handed out by next_document_number().
+CREATE POLICY "Staff can read document_sequences"
+  ON document_sequences
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+CREATE POLICY "Admins can manage document_sequences"
+  ON document_sequences
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+CREATE POLICY "Staff can read document_sequence_counters"
+  ON document_sequence_counters
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']));
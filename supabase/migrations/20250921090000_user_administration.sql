@@ -0,0 +1,115 @@
+/*
+  # User administration
+
+  1. Schema Changes
+    - Add `actif` to `profiles` - deactivated users lose every role-based access,
+      even while an already issued session token is still valid
+
+  2. Functions
+    - `current_user_role()` - now returns NULL for deactivated users
+    - `list_users()` - every profile with its last sign-in date and the number of
+      documents it created (`created_by` of BC, BL, factures and payments)
+    - `user_documents(uuid)` - documents created by a user, most recent first
+    - Both functions are reserved to admins
+
+  3. Notes
+    - Inviting users, resetting passwords and banning accounts need the service role key:
+      they go through the `admin-users` edge function
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS actif boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN profiles.actif IS 'False when an admin has deactivated the account';
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid() AND actif;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users with their activity
+CREATE OR REPLACE FUNCTION list_users()
+RETURNS TABLE (
+  id uuid,
+  email text,
+  nom_complet text,
+  role text,
+  chauffeur_id uuid,
+  actif boolean,
+  created_at timestamptz,
+  last_sign_in_at timestamptz,
+  invited_at timestamptz,
+  nb_bons_commande bigint,
+  nb_bons_livraison bigint,
+  nb_factures bigint,
+  nb_paiements bigint
+) AS $$
+BEGIN
+  IF NOT has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Réservé aux administrateurs' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.email,
+    p.nom_complet,
+    p.role,
+    p.chauffeur_id,
+    p.actif,
+    p.created_at,
+    u.last_sign_in_at,
+    u.invited_at,
+    (SELECT count(*) FROM bon_de_commande d WHERE d.created_by = p.id),
+    (SELECT count(*) FROM bon_de_livraison d WHERE d.created_by = p.id),
+    (SELECT count(*) FROM factures d WHERE d.created_by = p.id),
+    (SELECT count(*) FROM paiements_clients d WHERE d.created_by = p.id)
+      + (SELECT count(*) FROM paiements_fournisseurs d WHERE d.created_by = p.id)
+      + (SELECT count(*) FROM paiements_chauffeurs d WHERE d.created_by = p.id)
+  FROM profiles p
+  LEFT JOIN auth.users u ON u.id = p.id
+  ORDER BY p.actif DESC, p.email;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Documents created by a user
+CREATE OR REPLACE FUNCTION user_documents(p_user_id uuid, p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  type_document text,
+  document_id uuid,
+  numero text,
+  date_document date,
+  montant numeric
+) AS $$
+BEGIN
+  IF NOT has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Réservé aux administrateurs' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT 'bon_de_commande'::text, d.id, d.numero_commande, d.date_commande, d.total_ttc
+    FROM bon_de_commande d WHERE d.created_by = p_user_id
+    UNION ALL
+    SELECT 'bon_de_livraison'::text, d.id, d.numero_livraison, d.date_livraison, d.total_ttc
+    FROM bon_de_livraison d WHERE d.created_by = p_user_id
+    UNION ALL
+    SELECT 'facture'::text, d.id, d.numero_facture, d.date_facture, d.total_ttc
+    FROM factures d WHERE d.created_by = p_user_id
+    UNION ALL
+    SELECT 'paiement_client'::text, d.id, d.numero_paiement, d.date_paiement, d.montant
+    FROM paiements_clients d WHERE d.created_by = p_user_id
+    UNION ALL
+    SELECT 'paiement_fournisseur'::text, d.id, d.numero_paiement, d.date_paiement, d.montant
+    FROM paiements_fournisseurs d WHERE d.created_by = p_user_id
+    UNION ALL
+    SELECT 'paiement_chauffeur'::text, d.id, d.numero_paiement, d.date_paiement, d.montant
+    FROM paiements_chauffeurs d WHERE d.created_by = p_user_id
+  ) docs
+  ORDER BY 4 DESC, 3 DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION list_users() TO authenticated;
+GRANT EXECUTE ON FUNCTION user_documents(uuid, integer) TO authenticated;
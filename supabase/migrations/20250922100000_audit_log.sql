@@ -0,0 +1,166 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log` - one row per insert, update or delete on a business table
+      - `table_name` (text) - audited table
+      - `record_id` (uuid) - id of the changed row
+      - `parent_id` (uuid, nullable) - owning record, so a history can include related rows:
+        lines of a BC, BL or invoice, payments of a client, supplier or driver,
+        BLs and invoices of a client, BCs of a supplier
+      - `action` (text) - INSERT, UPDATE or DELETE
+      - `old_data` / `new_data` (jsonb) - row before and after the change
+      - `user_id` / `user_email` - who made the change (NULL for service operations)
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - `audit_changes()` - generic AFTER trigger, the parent column is passed as argument
+    - Updates that only touch `updated_at` / `updated_by` are not logged
+
+  3. Views
+    - `historique` - the audit log as the history panels show it
+      - read by admin, comptable and commercial users
+      - 'commercial' users only see the changes of the tables they can read: not the
+        users, driver salaries and payments, credit overrides or settings
+      - for 'commercial' users, the purchase costs (`prix_achat`, `cout_moyen`, `cout_unitaire`)
+        and margins (`total_margin`) are removed from `old_data` / `new_data`
+
+  4. Security
+    - `audit_log` itself is read by admin and comptable users only
+    - No write policy: rows are only written by the trigger and cannot be altered
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigserial PRIMARY KEY,
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  parent_id uuid,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  user_id uuid,
+  user_email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_parent ON audit_log(parent_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at);
+
+CREATE OR REPLACE FUNCTION audit_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_parent_column text := TG_ARGV[0];
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND v_old - ARRAY['updated_at', 'updated_by'] = v_new - ARRAY['updated_at', 'updated_by'] THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := COALESCE(v_new, v_old);
+
+  INSERT INTO audit_log (table_name, record_id, parent_id, action, old_data, new_data, user_id, user_email)
+  VALUES (
+    TG_TABLE_NAME,
+    (v_row->>'id')::uuid,
+    CASE WHEN v_parent_column IS NOT NULL THEN (v_row->>v_parent_column)::uuid END,
+    TG_OP,
+    v_old,
+    v_new,
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Audited tables and the column pointing to their owning record
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT * FROM (VALUES
+      ('clients', NULL),
+      ('fournisseurs', NULL),
+      ('produits', NULL),
+      ('chauffeurs', NULL),
+      ('bon_de_commande', 'fournisseur_id'),
+      ('bon_de_commande_items', 'commande_id'),
+      ('bon_de_livraison', 'client_id'),
+      ('bon_de_livraison_items', 'livraison_id'),
+      ('factures', 'client_id'),
+      ('facture_items', 'facture_id'),
+      ('facture_livraisons', 'facture_id'),
+      ('paiements_clients', 'client_id'),
+      ('paiements_fournisseurs', 'fournisseur_id'),
+      ('paiements_chauffeurs', 'chauffeur_id'),
+      ('profiles', NULL)
+    ) AS t(table_name, parent_column)
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS trigger_audit_%s ON %I', r.table_name, r.table_name);
+    IF r.parent_column IS NULL THEN
+      EXECUTE format(
+        'CREATE TRIGGER trigger_audit_%s AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_changes()',
+        r.table_name, r.table_name
+      );
+    ELSE
+      EXECUTE format(
+        'CREATE TRIGGER trigger_audit_%s AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION audit_changes(%L)',
+        r.table_name, r.table_name, r.parent_column
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- Enable RLS
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Comptables can read audit_log" ON audit_log;
+CREATE POLICY "Comptables can read audit_log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']));
+
+-- Runs with the rights of its owner, so that commercial users see the log
+-- without the purchase costs they cannot read anywhere else. Their rows are
+-- limited to the audited tables of their screens, including the ones of the
+-- later migrations: a newly audited table stays hidden until it is listed here
+CREATE OR REPLACE VIEW historique AS
+SELECT
+  id, table_name, record_id, parent_id, action,
+  CASE WHEN has_role(ARRAY['admin', 'comptable']) THEN old_data
+    ELSE old_data - ARRAY['prix_achat', 'cout_moyen', 'cout_unitaire', 'total_margin']
+  END AS old_data,
+  CASE WHEN has_role(ARRAY['admin', 'comptable']) THEN new_data
+    ELSE new_data - ARRAY['prix_achat', 'cout_moyen', 'cout_unitaire', 'total_margin']
+  END AS new_data,
+  user_id, user_email, created_at
+FROM audit_log
+WHERE has_role(ARRAY['admin', 'comptable'])
+  OR (
+    has_role(ARRAY['commercial'])
+    AND table_name IN (
+      'clients', 'fournisseurs', 'produits', 'chauffeurs',
+      'bon_de_commande', 'bon_de_commande_items',
+      'bon_de_livraison', 'bon_de_livraison_items',
+      'factures', 'facture_items', 'facture_livraisons',
+      'paiements_clients', 'paiements_fournisseurs',
+      'tarifs_transport', 'depots', 'devis', 'devis_items',
+      'avoirs', 'avoir_items', 'retours_fournisseurs', 'retour_fournisseur_items'
+    )
+  );
+
+GRANT SELECT ON historique TO authenticated;
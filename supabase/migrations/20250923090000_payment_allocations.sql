@@ -0,0 +1,379 @@
+/*
+  # Client payment allocation (lettrage)
+
+  1. New Tables
+    - `paiement_affectations` - part of a client payment applied to a delivery note
+      - `paiement_id` (uuid) - client payment
+      - `livraison_id` (uuid) - BL being paid
+      - `montant` (numeric) - allocated amount, > 0
+      - `mode` (text) - 'auto' (FIFO) or 'manuel' (chosen by a comptable)
+      - Invoices are paid through their BLs (`facture_livraisons`)
+
+  2. Schema Changes
+    - Add `montant_paye` and `statut_paiement` to `bon_de_livraison`
+      - `statut_paiement`: 'impaye', 'partiel' or 'paye', derived from `total_ttc` and `montant_paye`
+
+  3. Functions
+    - `allocate_client_payments(uuid)` - rebuilds the automatic allocations of a client:
+      payments by date are applied to the oldest open BLs first, around the manual allocations
+    - `set_payment_allocations(uuid, jsonb)` - manual allocation of one payment
+    - `reset_payment_allocations(uuid)` - drops the manual allocation of a payment (back to FIFO)
+
+  4. Triggers
+    - Allocations refresh the paid amount of their BL (once per run for the functions above)
+    - Creating, changing or deleting a payment or a BL re-runs the FIFO allocation of the client
+    - Manual allocations that no longer fit (payment reduced, BL cancelled or reduced) are dropped
+
+  5. Security
+    - Allocations are read by staff and written only through the functions above
+    - Manual allocation is reserved to admin and comptable users
+*/
+
+-- Derived payment status of delivery notes
+ALTER TABLE bon_de_livraison
+ADD COLUMN IF NOT EXISTS montant_paye numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS statut_paiement text NOT NULL DEFAULT 'impaye';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'bon_de_livraison' AND constraint_name = 'bon_de_livraison_statut_paiement_check'
+  ) THEN
+    ALTER TABLE bon_de_livraison ADD CONSTRAINT bon_de_livraison_statut_paiement_check
+    CHECK (statut_paiement IN ('impaye', 'partiel', 'paye'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bon_de_livraison_statut_paiement ON bon_de_livraison(statut_paiement);
+
+COMMENT ON COLUMN bon_de_livraison.montant_paye IS 'Sum of the client payment allocations of the BL';
+COMMENT ON COLUMN bon_de_livraison.statut_paiement IS 'impaye, partiel or paye, derived from total_ttc and montant_paye';
+
+-- Allocations
+CREATE TABLE IF NOT EXISTS paiement_affectations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  paiement_id uuid NOT NULL REFERENCES paiements_clients(id) ON DELETE CASCADE,
+  livraison_id uuid NOT NULL REFERENCES bon_de_livraison(id) ON DELETE CASCADE,
+  montant numeric(12,2) NOT NULL CHECK (montant > 0),
+  mode text NOT NULL DEFAULT 'auto' CHECK (mode IN ('auto', 'manuel')),
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  UNIQUE (paiement_id, livraison_id, mode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_paiement_affectations_paiement_id ON paiement_affectations(paiement_id);
+CREATE INDEX IF NOT EXISTS idx_paiement_affectations_livraison_id ON paiement_affectations(livraison_id);
+
+CREATE OR REPLACE FUNCTION payment_status(p_du numeric, p_paye numeric)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN COALESCE(p_du, 0) <= 0 OR COALESCE(p_paye, 0) >= p_du THEN 'paye'
+    WHEN COALESCE(p_paye, 0) > 0 THEN 'partiel'
+    ELSE 'impaye'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep the status in line with the total and the paid amount
+CREATE OR REPLACE FUNCTION set_delivery_note_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.statut_paiement := payment_status(NEW.total_ttc, NEW.montant_paye);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_delivery_note_payment_status ON bon_de_livraison;
+CREATE TRIGGER trigger_delivery_note_payment_status
+  BEFORE INSERT OR UPDATE ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION set_delivery_note_payment_status();
+
+-- Paid amount of a BL
+CREATE OR REPLACE FUNCTION refresh_delivery_note_payment(p_livraison_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE bon_de_livraison
+  SET montant_paye = COALESCE((
+    SELECT SUM(montant) FROM paiement_affectations WHERE livraison_id = p_livraison_id
+  ), 0)
+  WHERE id = p_livraison_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_allocated_delivery_note()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Allocation runs refresh their BLs once at the end
+  IF current_setting('app.allocation_en_cours', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_delivery_note_payment(OLD.livraison_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.livraison_id IS DISTINCT FROM OLD.livraison_id OR NEW.montant <> OLD.montant) THEN
+    PERFORM refresh_delivery_note_payment(NEW.livraison_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_refresh_allocated_delivery_note ON paiement_affectations;
+CREATE TRIGGER trigger_refresh_allocated_delivery_note
+  AFTER INSERT OR UPDATE OR DELETE ON paiement_affectations
+  FOR EACH ROW EXECUTE FUNCTION refresh_allocated_delivery_note();
+
+-- FIFO allocation of a client's payments
+CREATE OR REPLACE FUNCTION allocate_client_payments(p_client_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_payment record;
+  v_note record;
+  v_reste numeric(12,2);
+  v_montant numeric(12,2);
+BEGIN
+  IF p_client_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- One allocation run at a time per client
+  PERFORM pg_advisory_xact_lock(hashtext('allocate_client_payments:' || p_client_id::text));
+  PERFORM set_config('app.allocation_en_cours', 'on', true);
+
+  DELETE FROM paiement_affectations a
+  USING paiements_clients p
+  WHERE a.paiement_id = p.id AND p.client_id = p_client_id AND a.mode = 'auto';
+
+  -- Manual allocations that no longer fit
+  DELETE FROM paiement_affectations a
+  USING bon_de_livraison bl
+  WHERE a.livraison_id = bl.id
+  AND (bl.statut = 'annulee' OR bl.client_id IS DISTINCT FROM p_client_id)
+  AND a.paiement_id IN (SELECT id FROM paiements_clients WHERE client_id = p_client_id);
+
+  DELETE FROM paiement_affectations a
+  WHERE a.paiement_id IN (
+    SELECT p.id
+    FROM paiements_clients p
+    JOIN paiement_affectations pa ON pa.paiement_id = p.id
+    WHERE p.client_id = p_client_id
+    GROUP BY p.id, p.montant
+    HAVING SUM(pa.montant) > p.montant
+  );
+
+  DELETE FROM paiement_affectations a
+  WHERE a.livraison_id IN (
+    SELECT bl.id
+    FROM bon_de_livraison bl
+    JOIN paiement_affectations pa ON pa.livraison_id = bl.id
+    WHERE bl.client_id = p_client_id
+    GROUP BY bl.id, bl.total_ttc
+    HAVING SUM(pa.montant) > bl.total_ttc
+  );
+
+  FOR v_payment IN
+    SELECT p.id, p.montant - COALESCE((
+      SELECT SUM(a.montant) FROM paiement_affectations a WHERE a.paiement_id = p.id
+    ), 0) AS reste
+    FROM paiements_clients p
+    WHERE p.client_id = p_client_id
+    ORDER BY p.date_paiement, p.id
+  LOOP
+    v_reste := v_payment.reste;
+    CONTINUE WHEN v_reste <= 0;
+
+    FOR v_note IN
+      SELECT bl.id, bl.total_ttc - COALESCE((
+        SELECT SUM(a.montant) FROM paiement_affectations a WHERE a.livraison_id = bl.id
+      ), 0) AS du
+      FROM bon_de_livraison bl
+      WHERE bl.client_id = p_client_id AND bl.statut <> 'annulee'
+      ORDER BY bl.date_livraison, bl.numero_livraison
+    LOOP
+      EXIT WHEN v_reste <= 0;
+      CONTINUE WHEN v_note.du <= 0;
+
+      v_montant := LEAST(v_reste, v_note.du);
+
+      INSERT INTO paiement_affectations (paiement_id, livraison_id, montant, mode)
+      VALUES (v_payment.id, v_note.id, v_montant, 'auto');
+
+      v_reste := v_reste - v_montant;
+    END LOOP;
+  END LOOP;
+
+  UPDATE bon_de_livraison bl
+  SET montant_paye = s.total
+  FROM (
+    SELECT n.id, COALESCE(SUM(a.montant), 0) AS total
+    FROM bon_de_livraison n
+    LEFT JOIN paiement_affectations a ON a.livraison_id = n.id
+    WHERE n.client_id = p_client_id
+    GROUP BY n.id
+  ) s
+  WHERE bl.id = s.id AND bl.montant_paye IS DISTINCT FROM s.total;
+
+  PERFORM set_config('app.allocation_en_cours', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Re-run the allocation when payments change
+CREATE OR REPLACE FUNCTION reallocate_on_payment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM allocate_client_payments(OLD.client_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM allocate_client_payments(NEW.client_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_reallocate_paiements_clients ON paiements_clients;
+CREATE TRIGGER trigger_reallocate_paiements_clients
+  AFTER INSERT OR DELETE ON paiements_clients
+  FOR EACH ROW EXECUTE FUNCTION reallocate_on_payment_change();
+
+DROP TRIGGER IF EXISTS trigger_reallocate_paiements_clients_update ON paiements_clients;
+CREATE TRIGGER trigger_reallocate_paiements_clients_update
+  AFTER UPDATE ON paiements_clients
+  FOR EACH ROW
+  WHEN (
+    OLD.montant IS DISTINCT FROM NEW.montant
+    OR OLD.client_id IS DISTINCT FROM NEW.client_id
+    OR OLD.date_paiement IS DISTINCT FROM NEW.date_paiement
+  )
+  EXECUTE FUNCTION reallocate_on_payment_change();
+
+-- Re-run the allocation when a BL amount, status or client changes
+DROP TRIGGER IF EXISTS trigger_reallocate_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_reallocate_bon_de_livraison
+  AFTER INSERT OR DELETE ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION reallocate_on_payment_change();
+
+DROP TRIGGER IF EXISTS trigger_reallocate_bon_de_livraison_update ON bon_de_livraison;
+CREATE TRIGGER trigger_reallocate_bon_de_livraison_update
+  AFTER UPDATE ON bon_de_livraison
+  FOR EACH ROW
+  WHEN (
+    OLD.total_ttc IS DISTINCT FROM NEW.total_ttc
+    OR OLD.statut IS DISTINCT FROM NEW.statut
+    OR OLD.client_id IS DISTINCT FROM NEW.client_id
+    OR OLD.date_livraison IS DISTINCT FROM NEW.date_livraison
+  )
+  EXECUTE FUNCTION reallocate_on_payment_change();
+
+-- Manual allocation of a payment
+-- p_allocations: [{ livraison_id, montant }]
+CREATE OR REPLACE FUNCTION set_payment_allocations(p_paiement_id uuid, p_allocations jsonb)
+RETURNS void AS $$
+DECLARE
+  v_payment paiements_clients;
+  v_total numeric(12,2);
+BEGIN
+  IF NOT has_role(ARRAY['admin', 'comptable']) THEN
+    RAISE EXCEPTION 'Réservé aux comptables' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_payment FROM paiements_clients WHERE id = p_paiement_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paiement introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('allocate_client_payments:' || v_payment.client_id::text));
+  PERFORM set_config('app.allocation_en_cours', 'on', true);
+
+  -- Automatic allocations are rebuilt around the manual ones below
+  DELETE FROM paiement_affectations a
+  USING paiements_clients p
+  WHERE a.paiement_id = p.id AND p.client_id = v_payment.client_id AND a.mode = 'auto';
+
+  DELETE FROM paiement_affectations WHERE paiement_id = p_paiement_id;
+
+  INSERT INTO paiement_affectations (paiement_id, livraison_id, montant, mode)
+  SELECT p_paiement_id, i.livraison_id, ROUND(i.montant, 2), 'manuel'
+  FROM jsonb_to_recordset(COALESCE(p_allocations, '[]'::jsonb)) AS i(livraison_id uuid, montant numeric)
+  WHERE ROUND(i.montant, 2) > 0;
+
+  IF EXISTS (
+    SELECT 1
+    FROM paiement_affectations a
+    JOIN bon_de_livraison bl ON bl.id = a.livraison_id
+    WHERE a.paiement_id = p_paiement_id
+    AND (bl.client_id IS DISTINCT FROM v_payment.client_id OR bl.statut = 'annulee')
+  ) THEN
+    RAISE EXCEPTION 'Un paiement ne peut être affecté qu''aux bons de livraison actifs du même client'
+      USING ERRCODE = '23514';
+  END IF;
+
+  SELECT COALESCE(SUM(montant), 0) INTO v_total FROM paiement_affectations WHERE paiement_id = p_paiement_id;
+  IF v_total > v_payment.montant THEN
+    RAISE EXCEPTION 'Le total affecté dépasse le montant du paiement' USING ERRCODE = '23514';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM bon_de_livraison bl
+    JOIN paiement_affectations a ON a.livraison_id = bl.id
+    WHERE bl.id IN (SELECT livraison_id FROM paiement_affectations WHERE paiement_id = p_paiement_id)
+    GROUP BY bl.id, bl.total_ttc
+    HAVING SUM(a.montant) > bl.total_ttc
+  ) THEN
+    RAISE EXCEPTION 'Le montant affecté dépasse le reste dû d''un bon de livraison' USING ERRCODE = '23514';
+  END IF;
+
+  PERFORM allocate_client_payments(v_payment.client_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Back to automatic allocation for a payment
+CREATE OR REPLACE FUNCTION reset_payment_allocations(p_paiement_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_client_id uuid;
+BEGIN
+  IF NOT has_role(ARRAY['admin', 'comptable']) THEN
+    RAISE EXCEPTION 'Réservé aux comptables' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT client_id INTO v_client_id FROM paiements_clients WHERE id = p_paiement_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paiement introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.allocation_en_cours', 'on', true);
+  DELETE FROM paiement_affectations WHERE paiement_id = p_paiement_id AND mode = 'manuel';
+  PERFORM allocate_client_payments(v_client_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE paiement_affectations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read paiement_affectations" ON paiement_affectations;
+CREATE POLICY "Staff can read paiement_affectations"
+  ON paiement_affectations
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+GRANT EXECUTE ON FUNCTION set_payment_allocations(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_payment_allocations(uuid) TO authenticated;
+-- Helpers of the triggers, running with the rights of their owner: Supabase
+-- grants EXECUTE to anon and authenticated by default, not only to PUBLIC
+REVOKE EXECUTE ON FUNCTION allocate_client_payments(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_delivery_note_payment(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Allocate existing payments
+UPDATE bon_de_livraison SET statut_paiement = payment_status(total_ttc, montant_paye);
+
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT DISTINCT client_id FROM paiements_clients WHERE client_id IS NOT NULL LOOP
+    PERFORM allocate_client_payments(r.client_id);
+  END LOOP;
+END $$;
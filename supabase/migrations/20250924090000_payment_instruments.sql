@@ -0,0 +1,280 @@
+/*
+  # Cheque and effet lifecycle
+
+  1. Schema Changes
+    - Add to `paiements_clients`, for payments by cheque or effet:
+      - `date_echeance` (date) - due date, defaults to the payment date
+      - `banque` (text) - bank of the instrument
+      - `statut_instrument` (text) - 'en_portefeuille', 'remis', 'encaisse' or 'impaye'
+      - `date_remise`, `date_encaissement`, `date_rejet` (date) - stamped on each status change
+      - `motif_rejet` (text)
+    - The instrument columns are cleared for cash and transfer payments
+
+  2. Workflow
+    - en_portefeuille -> remis (à l'encaissement) -> encaisse | impaye
+    - A rejected (impayé) instrument can be put back in the portfolio to be presented again
+    - Any other change of status is refused
+
+  3. Client balance
+    - Rejected instruments no longer count in `total_paiements`; `current_debt` and
+      `available_credit` (avance) are recomputed from it so the rejection reverses the payment
+    - The balance is kept TTC, like the allocations: `credit_initial` plus the `total_ttc` of the
+      BLs that are not cancelled, minus the payments (`chiffre_affaires` stays HT)
+    - Existing balances are recomputed on that basis
+    - Rejected instruments are removed from the allocation (lettrage) of the client
+*/
+
+ALTER TABLE paiements_clients
+ADD COLUMN IF NOT EXISTS date_echeance date,
+ADD COLUMN IF NOT EXISTS banque text,
+ADD COLUMN IF NOT EXISTS statut_instrument text,
+ADD COLUMN IF NOT EXISTS date_remise date,
+ADD COLUMN IF NOT EXISTS date_encaissement date,
+ADD COLUMN IF NOT EXISTS date_rejet date,
+ADD COLUMN IF NOT EXISTS motif_rejet text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'paiements_clients' AND constraint_name = 'paiements_clients_statut_instrument_check'
+  ) THEN
+    ALTER TABLE paiements_clients ADD CONSTRAINT paiements_clients_statut_instrument_check
+    CHECK (statut_instrument IN ('en_portefeuille', 'remis', 'encaisse', 'impaye'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_paiements_clients_date_echeance ON paiements_clients(date_echeance);
+CREATE INDEX IF NOT EXISTS idx_paiements_clients_statut_instrument ON paiements_clients(statut_instrument);
+
+-- Existing cheques and effets start in the portfolio
+UPDATE paiements_clients
+SET statut_instrument = 'en_portefeuille',
+    date_echeance = COALESCE(date_echeance, date_paiement)
+WHERE mode_paiement IN ('cheque', 'effet') AND statut_instrument IS NULL;
+
+-- Instrument defaults and status workflow
+CREATE OR REPLACE FUNCTION check_payment_instrument()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mode_paiement NOT IN ('cheque', 'effet') THEN
+    NEW.date_echeance := NULL;
+    NEW.banque := NULL;
+    NEW.statut_instrument := NULL;
+    NEW.date_remise := NULL;
+    NEW.date_encaissement := NULL;
+    NEW.date_rejet := NULL;
+    NEW.motif_rejet := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.date_echeance := COALESCE(NEW.date_echeance, NEW.date_paiement);
+
+  IF TG_OP = 'INSERT' OR OLD.statut_instrument IS NULL THEN
+    NEW.statut_instrument := COALESCE(NEW.statut_instrument, 'en_portefeuille');
+    RETURN NEW;
+  END IF;
+
+  IF NEW.statut_instrument IS DISTINCT FROM OLD.statut_instrument THEN
+    IF NOT (
+      (OLD.statut_instrument = 'en_portefeuille' AND NEW.statut_instrument IN ('remis', 'encaisse', 'impaye'))
+      OR (OLD.statut_instrument = 'remis' AND NEW.statut_instrument IN ('encaisse', 'impaye', 'en_portefeuille'))
+      OR (OLD.statut_instrument = 'impaye' AND NEW.statut_instrument = 'en_portefeuille')
+    ) THEN
+      RAISE EXCEPTION 'Changement de statut impossible: % -> %', OLD.statut_instrument, NEW.statut_instrument
+        USING ERRCODE = '23514';
+    END IF;
+
+    CASE NEW.statut_instrument
+      WHEN 'remis' THEN
+        NEW.date_remise := COALESCE(NEW.date_remise, CURRENT_DATE);
+      WHEN 'encaisse' THEN
+        NEW.date_encaissement := COALESCE(NEW.date_encaissement, CURRENT_DATE);
+      WHEN 'impaye' THEN
+        NEW.date_rejet := COALESCE(NEW.date_rejet, CURRENT_DATE);
+      ELSE
+        -- Back in the portfolio, to be presented again
+        NEW.date_remise := NULL;
+        NEW.date_encaissement := NULL;
+        NEW.date_rejet := NULL;
+        NEW.motif_rejet := NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_payment_instrument ON paiements_clients;
+CREATE TRIGGER trigger_check_payment_instrument
+  BEFORE INSERT OR UPDATE ON paiements_clients
+  FOR EACH ROW EXECUTE FUNCTION check_payment_instrument();
+
+-- Client balance (TTC) without the rejected instruments
+CREATE OR REPLACE FUNCTION refresh_client_payment_balance(p_client_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE clients c
+  SET total_paiements = s.total,
+      current_debt = GREATEST(COALESCE(c.credit_initial, 0) + s.du - s.total, 0),
+      available_credit = GREATEST(s.total - COALESCE(c.credit_initial, 0) - s.du, 0)
+  FROM (
+    SELECT
+      COALESCE((
+        SELECT SUM(montant) FROM paiements_clients
+        WHERE client_id = p_client_id AND statut_instrument IS DISTINCT FROM 'impaye'
+      ), 0) AS total,
+      COALESCE((
+        SELECT SUM(total_ttc) FROM bon_de_livraison
+        WHERE client_id = p_client_id AND statut <> 'annulee'
+      ), 0) AS du
+  ) s
+  WHERE c.id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only run by the balance triggers
+REVOKE EXECUTE ON FUNCTION refresh_client_payment_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_client_balance_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_client_payment_balance(OLD.client_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM refresh_client_payment_balance(NEW.client_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_balances_paiements_clients ON paiements_clients;
+CREATE TRIGGER trigger_balances_paiements_clients
+  AFTER INSERT OR UPDATE OR DELETE ON paiements_clients
+  FOR EACH ROW EXECUTE FUNCTION refresh_client_balance_on_change();
+
+-- The only balance trigger of bon_de_livraison: the later migrations point it
+-- at a function that also refreshes the other totals a BL counts in. The TTC
+-- of a BL changes with its TVA rates even when its HT does not.
+DROP TRIGGER IF EXISTS trigger_balances_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_balances_bon_de_livraison
+  AFTER INSERT OR UPDATE OF total_ttc, statut, client_id OR DELETE ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION refresh_client_balance_on_change();
+
+-- Rejected instruments do not pay any BL
+CREATE OR REPLACE FUNCTION allocate_client_payments(p_client_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_payment record;
+  v_note record;
+  v_reste numeric(12,2);
+  v_montant numeric(12,2);
+BEGIN
+  IF p_client_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- One allocation run at a time per client
+  PERFORM pg_advisory_xact_lock(hashtext('allocate_client_payments:' || p_client_id::text));
+  PERFORM set_config('app.allocation_en_cours', 'on', true);
+
+  DELETE FROM paiement_affectations a
+  USING paiements_clients p
+  WHERE a.paiement_id = p.id AND p.client_id = p_client_id
+  AND (a.mode = 'auto' OR p.statut_instrument = 'impaye');
+
+  -- Manual allocations that no longer fit
+  DELETE FROM paiement_affectations a
+  USING bon_de_livraison bl
+  WHERE a.livraison_id = bl.id
+  AND (bl.statut = 'annulee' OR bl.client_id IS DISTINCT FROM p_client_id)
+  AND a.paiement_id IN (SELECT id FROM paiements_clients WHERE client_id = p_client_id);
+
+  DELETE FROM paiement_affectations a
+  WHERE a.paiement_id IN (
+    SELECT p.id
+    FROM paiements_clients p
+    JOIN paiement_affectations pa ON pa.paiement_id = p.id
+    WHERE p.client_id = p_client_id
+    GROUP BY p.id, p.montant
+    HAVING SUM(pa.montant) > p.montant
+  );
+
+  DELETE FROM paiement_affectations a
+  WHERE a.livraison_id IN (
+    SELECT bl.id
+    FROM bon_de_livraison bl
+    JOIN paiement_affectations pa ON pa.livraison_id = bl.id
+    WHERE bl.client_id = p_client_id
+    GROUP BY bl.id, bl.total_ttc
+    HAVING SUM(pa.montant) > bl.total_ttc
+  );
+
+  FOR v_payment IN
+    SELECT p.id, p.montant - COALESCE((
+      SELECT SUM(a.montant) FROM paiement_affectations a WHERE a.paiement_id = p.id
+    ), 0) AS reste
+    FROM paiements_clients p
+    WHERE p.client_id = p_client_id AND p.statut_instrument IS DISTINCT FROM 'impaye'
+    ORDER BY p.date_paiement, p.id
+  LOOP
+    v_reste := v_payment.reste;
+    CONTINUE WHEN v_reste <= 0;
+
+    FOR v_note IN
+      SELECT bl.id, bl.total_ttc - COALESCE((
+        SELECT SUM(a.montant) FROM paiement_affectations a WHERE a.livraison_id = bl.id
+      ), 0) AS du
+      FROM bon_de_livraison bl
+      WHERE bl.client_id = p_client_id AND bl.statut <> 'annulee'
+      ORDER BY bl.date_livraison, bl.numero_livraison
+    LOOP
+      EXIT WHEN v_reste <= 0;
+      CONTINUE WHEN v_note.du <= 0;
+
+      v_montant := LEAST(v_reste, v_note.du);
+
+      INSERT INTO paiement_affectations (paiement_id, livraison_id, montant, mode)
+      VALUES (v_payment.id, v_note.id, v_montant, 'auto');
+
+      v_reste := v_reste - v_montant;
+    END LOOP;
+  END LOOP;
+
+  UPDATE bon_de_livraison bl
+  SET montant_paye = s.total
+  FROM (
+    SELECT n.id, COALESCE(SUM(a.montant), 0) AS total
+    FROM bon_de_livraison n
+    LEFT JOIN paiement_affectations a ON a.livraison_id = n.id
+    WHERE n.client_id = p_client_id
+    GROUP BY n.id
+  ) s
+  WHERE bl.id = s.id AND bl.montant_paye IS DISTINCT FROM s.total;
+
+  PERFORM set_config('app.allocation_en_cours', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_reallocate_paiements_clients_update ON paiements_clients;
+CREATE TRIGGER trigger_reallocate_paiements_clients_update
+  AFTER UPDATE ON paiements_clients
+  FOR EACH ROW
+  WHEN (
+    OLD.montant IS DISTINCT FROM NEW.montant
+    OR OLD.client_id IS DISTINCT FROM NEW.client_id
+    OR OLD.date_paiement IS DISTINCT FROM NEW.date_paiement
+    OR OLD.statut_instrument IS DISTINCT FROM NEW.statut_instrument
+  )
+  EXECUTE FUNCTION reallocate_on_payment_change();
+
+-- Balances on the TTC basis
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id FROM clients LOOP
+    PERFORM refresh_client_payment_balance(r.id);
+  END LOOP;
+END $$;
@@ -0,0 +1,169 @@
+/*
+  # Driver payroll
+
+  1. Schema Changes
+    - Add to `chauffeurs`:
+      - `tarif_voyage` (numeric) - amount owed per delivery to an 'externe' driver
+      - `salaire_mensuel` (numeric) - fixed monthly salary of an 'interne' driver
+    - Add `montant_chauffeur` (numeric, nullable) to `bon_de_livraison`
+      - Amount owed to the driver for this delivery, frozen when the driver is assigned
+      - 0 for 'interne' drivers, NULL while an 'externe' driver has no trip rate yet
+
+  2. New Tables
+    - `salaires_chauffeurs` - monthly salaries owed to 'interne' drivers
+      - `chauffeur_id` (uuid) - driver
+      - `periode` (date) - first day of the month
+      - `montant` (numeric) - salary owed for the month, > 0
+      - `notes` (text, nullable)
+      - One salary per driver and month
+
+  3. Functions
+    - `generate_salary_run(date)` - creates the salary of the month for every 'interne' driver
+      with a fixed salary; months already generated are kept. Returns the number of salaries created
+
+  4. Triggers
+    - Assigning a driver to a BL freezes `montant_chauffeur` from their current trip rate
+    - Setting the trip rate of a driver fills their BLs that had no amount yet;
+      later rate changes do not touch BLs already valued
+
+  5. Balance
+    - Owed to a driver: `montant_chauffeur` of their BLs that are not cancelled, plus their salaries
+    - Paid: their `paiements_chauffeurs`
+
+  6. Security
+    - Salaries are read by staff, and by a 'chauffeur' for their own driver record
+    - Salaries are created, changed and deleted by 'comptable' (and 'admin') only
+*/
+
+ALTER TABLE chauffeurs
+ADD COLUMN IF NOT EXISTS tarif_voyage numeric(12,2) NOT NULL DEFAULT 0 CHECK (tarif_voyage >= 0),
+ADD COLUMN IF NOT EXISTS salaire_mensuel numeric(12,2) NOT NULL DEFAULT 0 CHECK (salaire_mensuel >= 0);
+
+ALTER TABLE bon_de_livraison
+ADD COLUMN IF NOT EXISTS montant_chauffeur numeric(12,2);
+
+COMMENT ON COLUMN chauffeurs.tarif_voyage IS 'Amount owed per delivery to an externe driver';
+COMMENT ON COLUMN chauffeurs.salaire_mensuel IS 'Fixed monthly salary of an interne driver';
+COMMENT ON COLUMN bon_de_livraison.montant_chauffeur IS 'Amount owed to the driver for this delivery, frozen when the driver is assigned';
+
+-- Monthly salaries
+CREATE TABLE IF NOT EXISTS salaires_chauffeurs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chauffeur_id uuid NOT NULL REFERENCES chauffeurs(id) ON DELETE CASCADE,
+  periode date NOT NULL CHECK (periode = date_trunc('month', periode)::date),
+  montant numeric(12,2) NOT NULL CHECK (montant > 0),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (chauffeur_id, periode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_salaires_chauffeurs_chauffeur_id ON salaires_chauffeurs(chauffeur_id);
+CREATE INDEX IF NOT EXISTS idx_salaires_chauffeurs_periode ON salaires_chauffeurs(periode);
+
+-- Amount owed per BL
+CREATE OR REPLACE FUNCTION set_delivery_driver_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Amount given explicitly, or same driver kept
+  IF TG_OP = 'INSERT' AND NEW.montant_chauffeur IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.chauffeur_id IS NOT DISTINCT FROM OLD.chauffeur_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.chauffeur_id IS NULL THEN
+    NEW.montant_chauffeur := NULL;
+  ELSE
+    SELECT CASE
+      WHEN type_chauffeur = 'interne' THEN 0
+      ELSE NULLIF(tarif_voyage, 0)
+    END
+    INTO NEW.montant_chauffeur
+    FROM chauffeurs
+    WHERE id = NEW.chauffeur_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_delivery_driver_amount ON bon_de_livraison;
+CREATE TRIGGER trigger_set_delivery_driver_amount
+  BEFORE INSERT OR UPDATE OF chauffeur_id ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION set_delivery_driver_amount();
+
+CREATE OR REPLACE FUNCTION fill_delivery_driver_amounts()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE bon_de_livraison
+  SET montant_chauffeur = CASE WHEN NEW.type_chauffeur = 'interne' THEN 0 ELSE NEW.tarif_voyage END
+  WHERE chauffeur_id = NEW.id AND montant_chauffeur IS NULL;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_fill_delivery_driver_amounts ON chauffeurs;
+CREATE TRIGGER trigger_fill_delivery_driver_amounts
+  AFTER UPDATE OF tarif_voyage, type_chauffeur ON chauffeurs
+  FOR EACH ROW
+  WHEN (NEW.type_chauffeur = 'interne' OR NEW.tarif_voyage > 0)
+  EXECUTE FUNCTION fill_delivery_driver_amounts();
+
+-- Existing BLs of interne drivers owe nothing per trip
+UPDATE bon_de_livraison bl
+SET montant_chauffeur = 0
+FROM chauffeurs c
+WHERE bl.chauffeur_id = c.id AND c.type_chauffeur = 'interne' AND bl.montant_chauffeur IS NULL;
+
+-- Monthly salary run
+CREATE OR REPLACE FUNCTION generate_salary_run(p_periode date)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT has_role(ARRAY['admin', 'comptable']) THEN
+    RAISE EXCEPTION 'Réservé aux comptables' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO salaires_chauffeurs (chauffeur_id, periode, montant)
+  SELECT id, date_trunc('month', p_periode)::date, salaire_mensuel
+  FROM chauffeurs
+  WHERE type_chauffeur = 'interne' AND salaire_mensuel > 0
+  ON CONFLICT (chauffeur_id, periode) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION generate_salary_run(date) TO authenticated;
+
+-- Audit
+DROP TRIGGER IF EXISTS trigger_audit_salaires_chauffeurs ON salaires_chauffeurs;
+CREATE TRIGGER trigger_audit_salaires_chauffeurs
+  AFTER INSERT OR UPDATE OR DELETE ON salaires_chauffeurs
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('chauffeur_id');
+
+-- Enable RLS
+ALTER TABLE salaires_chauffeurs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read salaires_chauffeurs" ON salaires_chauffeurs;
+CREATE POLICY "Staff can read salaires_chauffeurs"
+  ON salaires_chauffeurs
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role(ARRAY['admin', 'comptable', 'commercial'])
+    OR chauffeur_id = current_chauffeur_id()
+  );
+
+DROP POLICY IF EXISTS "Comptables can manage salaires_chauffeurs" ON salaires_chauffeurs;
+CREATE POLICY "Comptables can manage salaires_chauffeurs"
+  ON salaires_chauffeurs
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
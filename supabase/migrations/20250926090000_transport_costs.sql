@@ -0,0 +1,378 @@
+/*
+  # Transport cost of delivery notes
+
+  1. Schema Changes
+    - Add `zone` (text) to `clients` - city or delivery zone used by the rate grid
+    - `bon_de_livraison.montant_chauffeur` is the transport cost of the BL: it is now
+      defaulted from the rate grid and can be changed on the BL
+
+  2. New Tables
+    - `tarifs_transport` - transport rate grid
+      - `chauffeur_id` (uuid, nullable) - rate of one driver, every driver when empty
+      - `zone` (text, nullable) - client zone, every zone when empty
+      - `unite` (text, nullable) - product unit ('t', 'm2'...), required for a rate per quantity
+      - `base` (text) - 'voyage' (fixed amount per BL) or 'quantite' (amount per delivered unit)
+      - `montant` (numeric) - rate, > 0
+
+  3. Functions
+    - `estimate_transport_cost(uuid, uuid, jsonb)` - transport cost of a delivery for a driver,
+      a client and its lines ([{ produit_id, quantite_livree }])
+      - 0 for 'interne' drivers, who are paid a salary
+      - The most specific matching grid line wins (driver, then zone, then unit)
+      - Without a matching line, the trip rate of the driver (`tarif_voyage`); NULL when there is none
+    - `create_delivery_note(...)` / `update_delivery_note(...)` take the transport cost
+      (`p_montant_chauffeur`); when it is NULL on creation, the estimate is used
+
+  4. Margins
+    - `clients.total_margin` = sum over the BLs that are not cancelled of
+      (prix_unitaire - prix_achat) x quantite_livree - montant_chauffeur, same rule as the dashboard
+      - Refreshed by the balance trigger of `bon_de_livraison`, after the client balance
+    - View `marges_produits` - delivered quantity, sales, purchase cost, transport cost and margin
+      of each product; the transport cost of a BL is shared between its lines by amount
+      - Reads `produits.prix_achat` with the rights of its owner, and so only returns rows
+        to 'comptable' and 'admin' users
+
+  5. Security
+    - The rate grid is read by staff and managed by 'comptable' (and 'admin') users
+*/
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS zone text;
+
+-- SELECT on clients is granted column by column since the user roles
+GRANT SELECT (zone) ON clients TO authenticated;
+
+COMMENT ON COLUMN clients.zone IS 'City or delivery zone, used by the transport rate grid';
+COMMENT ON COLUMN bon_de_livraison.montant_chauffeur IS 'Transport cost of the BL, owed to the driver';
+
+-- Rate grid
+CREATE TABLE IF NOT EXISTS tarifs_transport (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  chauffeur_id uuid REFERENCES chauffeurs(id) ON DELETE CASCADE,
+  zone text,
+  unite text,
+  base text NOT NULL DEFAULT 'voyage' CHECK (base IN ('voyage', 'quantite')),
+  montant numeric(12,2) NOT NULL CHECK (montant > 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK (base = 'voyage' OR unite IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tarifs_transport_chauffeur_id ON tarifs_transport(chauffeur_id);
+
+-- Transport cost of a delivery
+CREATE OR REPLACE FUNCTION estimate_transport_cost(
+  p_chauffeur_id uuid,
+  p_client_id uuid,
+  p_items jsonb
+)
+RETURNS numeric AS $$
+DECLARE
+  v_chauffeur chauffeurs;
+  v_zone text;
+  v_tarif tarifs_transport;
+  v_quantite numeric;
+BEGIN
+  SELECT * INTO v_chauffeur FROM chauffeurs WHERE id = p_chauffeur_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  IF v_chauffeur.type_chauffeur = 'interne' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT lower(trim(zone)) INTO v_zone FROM clients WHERE id = p_client_id;
+
+  SELECT t.* INTO v_tarif
+  FROM tarifs_transport t
+  WHERE (t.chauffeur_id IS NULL OR t.chauffeur_id = p_chauffeur_id)
+  AND (t.zone IS NULL OR lower(trim(t.zone)) = v_zone)
+  AND (t.unite IS NULL OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(produit_id uuid, quantite_livree numeric)
+    JOIN produits p ON p.id = i.produit_id
+    WHERE p.unite = t.unite
+  ))
+  ORDER BY
+    (t.chauffeur_id IS NOT NULL) DESC,
+    (t.zone IS NOT NULL) DESC,
+    (t.unite IS NOT NULL) DESC,
+    t.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULLIF(v_chauffeur.tarif_voyage, 0);
+  END IF;
+
+  IF v_tarif.base = 'voyage' THEN
+    RETURN v_tarif.montant;
+  END IF;
+
+  SELECT COALESCE(SUM(i.quantite_livree), 0) INTO v_quantite
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(produit_id uuid, quantite_livree numeric)
+  JOIN produits p ON p.id = i.produit_id
+  WHERE p.unite = v_tarif.unite;
+  RETURN ROUND(v_tarif.montant * v_quantite, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION estimate_transport_cost(uuid, uuid, jsonb) TO authenticated;
+
+-- Driver changed on a BL: cost from the grid with the lines already delivered
+CREATE OR REPLACE FUNCTION set_delivery_driver_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Amount given explicitly, or same driver kept
+  IF TG_OP = 'INSERT' AND NEW.montant_chauffeur IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.chauffeur_id IS NOT DISTINCT FROM OLD.chauffeur_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.chauffeur_id IS NULL THEN
+    NEW.montant_chauffeur := NULL;
+  ELSE
+    NEW.montant_chauffeur := estimate_transport_cost(
+      NEW.chauffeur_id,
+      NEW.client_id,
+      (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('produit_id', produit_id, 'quantite_livree', quantite_livree)), '[]'::jsonb)
+        FROM bon_de_livraison_items
+        WHERE livraison_id = NEW.id
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delivery notes with their transport cost
+DROP FUNCTION IF EXISTS create_delivery_note(uuid, uuid, uuid, text, date, text, jsonb);
+
+CREATE OR REPLACE FUNCTION create_delivery_note(
+  p_bon_commande_id uuid,
+  p_client_id uuid,
+  p_chauffeur_id uuid,
+  p_immatricule_utilise text,
+  p_date_livraison date,
+  p_notes text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de livraison doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_livraison (
+    bon_commande_id, client_id, chauffeur_id,
+    immatricule_utilise, date_livraison, notes, statut, total_ht
+  )
+  VALUES (
+    p_bon_commande_id, p_client_id, p_chauffeur_id,
+    p_immatricule_utilise, p_date_livraison, p_notes, 'livree', 0
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO bon_de_livraison_items (
+    livraison_id, produit_id, quantite_commandee, quantite_livree,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_note.id, i.produit_id, i.quantite_commandee, COALESCE(i.quantite_livree, i.quantite_commandee),
+    i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite_commandee numeric,
+    quantite_livree numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_delivery_note_totals(v_note.id);
+
+  UPDATE bon_de_livraison
+  SET montant_chauffeur = COALESCE(
+    p_montant_chauffeur,
+    estimate_transport_cost(p_chauffeur_id, p_client_id, p_items)
+  )
+  WHERE id = v_note.id;
+
+  -- The source BC is delivered to this client
+  UPDATE bon_de_commande
+  SET statut = 'livree', client_id = p_client_id
+  WHERE id = p_bon_commande_id;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = v_note.id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS update_delivery_note(uuid, text, text, text, jsonb);
+
+-- p_montant_chauffeur: NULL keeps the current transport cost
+CREATE OR REPLACE FUNCTION update_delivery_note(
+  p_id uuid,
+  p_statut text,
+  p_notes text,
+  p_immatricule_utilise text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  UPDATE bon_de_livraison
+  SET
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), ''),
+    immatricule_utilise = trim(p_immatricule_utilise),
+    montant_chauffeur = COALESCE(p_montant_chauffeur, montant_chauffeur)
+  WHERE id = p_id
+  RETURNING * INTO v_note;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE bon_de_livraison_items bli
+  SET
+    quantite_livree = i.quantite_livree,
+    taux_tva = COALESCE(i.taux_tva, bli.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    quantite_livree numeric,
+    taux_tva numeric
+  )
+  WHERE bli.id = i.id AND bli.livraison_id = p_id;
+
+  PERFORM refresh_delivery_note_totals(p_id);
+
+  IF p_statut = 'livree' THEN
+    UPDATE bon_de_commande
+    SET statut = 'livree', client_id = v_note.client_id
+    WHERE id = v_note.bon_commande_id;
+  END IF;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION create_delivery_note(uuid, uuid, uuid, text, date, text, jsonb, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_delivery_note(uuid, text, text, text, jsonb, numeric) TO authenticated;
+
+-- Client margin net of transport
+CREATE OR REPLACE FUNCTION refresh_client_margin(p_client_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE clients c
+  SET total_margin = COALESCE((
+    SELECT SUM(
+      COALESCE((
+        SELECT SUM((bli.prix_unitaire - COALESCE(p.prix_achat, 0)) * bli.quantite_livree)
+        FROM bon_de_livraison_items bli
+        LEFT JOIN produits p ON p.id = bli.produit_id
+        WHERE bli.livraison_id = bl.id
+      ), 0) - COALESCE(bl.montant_chauffeur, 0)
+    )
+    FROM bon_de_livraison bl
+    WHERE bl.client_id = p_client_id AND bl.statut <> 'annulee'
+  ), 0)
+  WHERE c.id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only run by the balance triggers
+REVOKE EXECUTE ON FUNCTION refresh_client_margin(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Totals of the client of a BL, balance first, then margin
+CREATE OR REPLACE FUNCTION refresh_delivery_note_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_client_payment_balance(OLD.client_id);
+    PERFORM refresh_client_margin(OLD.client_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM refresh_client_payment_balance(NEW.client_id);
+    PERFORM refresh_client_margin(NEW.client_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Line changes always end with refresh_delivery_note_totals(), which updates total_ht
+DROP TRIGGER IF EXISTS trigger_balances_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_balances_bon_de_livraison
+  AFTER INSERT OR UPDATE OF total_ht, total_ttc, montant_chauffeur, statut, client_id OR DELETE ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION refresh_delivery_note_balances();
+
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id FROM clients LOOP
+    PERFORM refresh_client_margin(r.id);
+  END LOOP;
+END $$;
+
+-- Product margin net of transport
+CREATE OR REPLACE VIEW marges_produits AS
+SELECT
+  bli.produit_id,
+  SUM(bli.quantite_livree) AS quantite_livree,
+  SUM(bli.prix_unitaire * bli.quantite_livree) AS chiffre_affaires,
+  SUM(COALESCE(p.prix_achat, 0) * bli.quantite_livree) AS cout_achat,
+  ROUND(SUM(
+    CASE WHEN bl.total_ht > 0
+      THEN COALESCE(bl.montant_chauffeur, 0) * bli.prix_unitaire * bli.quantite_livree / bl.total_ht
+      ELSE 0
+    END
+  ), 2) AS cout_transport,
+  ROUND(SUM((bli.prix_unitaire - COALESCE(p.prix_achat, 0)) * bli.quantite_livree) - SUM(
+    CASE WHEN bl.total_ht > 0
+      THEN COALESCE(bl.montant_chauffeur, 0) * bli.prix_unitaire * bli.quantite_livree / bl.total_ht
+      ELSE 0
+    END
+  ), 2) AS marge
+FROM bon_de_livraison_items bli
+JOIN bon_de_livraison bl ON bl.id = bli.livraison_id
+LEFT JOIN produits p ON p.id = bli.produit_id
+WHERE bl.statut <> 'annulee'
+AND has_role(ARRAY['admin', 'comptable'])
+GROUP BY bli.produit_id;
+
+GRANT SELECT ON marges_produits TO authenticated;
+
+-- Audit
+DROP TRIGGER IF EXISTS trigger_audit_tarifs_transport ON tarifs_transport;
+CREATE TRIGGER trigger_audit_tarifs_transport
+  AFTER INSERT OR UPDATE OR DELETE ON tarifs_transport
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('chauffeur_id');
+
+-- Enable RLS
+ALTER TABLE tarifs_transport ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read tarifs_transport" ON tarifs_transport;
+CREATE POLICY "Staff can read tarifs_transport"
+  ON tarifs_transport
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DROP POLICY IF EXISTS "Comptables can manage tarifs_transport" ON tarifs_transport;
+CREATE POLICY "Comptables can manage tarifs_transport"
+  ON tarifs_transport
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable']));
@@ -0,0 +1,439 @@
+/*
+  # Partial and multiple deliveries per purchase order
+
+  1. Schema Changes
+    - Add `quantite_livree` (numeric) to `bon_de_commande_items` - quantity delivered by the BLs
+      of the BC that are not cancelled; the remaining quantity is `quantite - quantite_livree`
+    - Add `commande_item_id` (uuid, nullable) to `bon_de_livraison_items` - BC line delivered
+      by the BL line; existing BL lines are linked to the BC line of the same product
+    - `bon_de_commande.statut` accepts 'partiellement_livree'
+    - A BC can have several BLs
+
+  2. Functions
+    - `refresh_purchase_order_deliveries(uuid)` - recomputes the delivered quantity of each BC line
+      and the BC status:
+      - every line delivered: 'livree'
+      - part of the quantity delivered: 'partiellement_livree'
+      - nothing delivered any more (BL cancelled or deleted): back to 'confirmee'
+      - a cancelled BC keeps its status
+    - `check_delivery_quantities(uuid)` - refuses (23514) a BL that takes a BC line beyond its
+      ordered quantity, counting every BL of the line that is not cancelled; the BC lines are
+      locked first, so two BLs saved at the same time cannot both take what remains
+    - `create_delivery_note(...)` stores the BC line of each BL line (`commande_item_id`) and no
+      longer marks the whole BC as delivered
+    - `update_delivery_note(...)` no longer marks the BC as delivered
+    - Both check the delivered quantities against the BC
+    - `update_purchase_order(...)` updates the lines in place (by `id`) so that deliveries stay
+      linked to them; a line already delivered cannot be removed, change product or go below
+      its delivered quantity (23514); it runs with the rights of its owner, for staff users only,
+      so that it can refresh the delivered quantities
+
+  3. Triggers
+    - A change to the lines of a BL, or to the status of a BL, refreshes the BC it delivers
+
+  4. Security
+    - `refresh_purchase_order_deliveries(uuid)` cannot be called by `anon` or `authenticated`
+*/
+
+ALTER TABLE bon_de_commande_items
+ADD COLUMN IF NOT EXISTS quantite_livree numeric(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bon_de_livraison_items
+ADD COLUMN IF NOT EXISTS commande_item_id uuid REFERENCES bon_de_commande_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bon_de_livraison_items_commande_item_id ON bon_de_livraison_items(commande_item_id);
+
+COMMENT ON COLUMN bon_de_commande_items.quantite_livree IS 'Quantity delivered by the BLs of the BC that are not cancelled';
+COMMENT ON COLUMN bon_de_livraison_items.commande_item_id IS 'BC line delivered by this BL line';
+
+-- One BC, several BLs
+ALTER TABLE bon_de_livraison DROP CONSTRAINT IF EXISTS bon_de_livraison_bon_commande_id_key;
+
+ALTER TABLE bon_de_commande DROP CONSTRAINT IF EXISTS bon_de_commande_statut_check;
+ALTER TABLE bon_de_commande ADD CONSTRAINT bon_de_commande_statut_check
+  CHECK (statut IN ('brouillon', 'envoyee', 'confirmee', 'partiellement_livree', 'livree', 'annulee'));
+
+-- Existing BL lines deliver the BC line of the same product
+UPDATE bon_de_livraison_items bli
+SET commande_item_id = m.commande_item_id
+FROM (
+  SELECT DISTINCT ON (i.id) i.id, bci.id AS commande_item_id
+  FROM bon_de_livraison_items i
+  JOIN bon_de_livraison bl ON bl.id = i.livraison_id
+  JOIN bon_de_commande_items bci ON bci.commande_id = bl.bon_commande_id AND bci.produit_id = i.produit_id
+  WHERE i.commande_item_id IS NULL
+  ORDER BY i.id, abs(bci.quantite - i.quantite_commandee), bci.id
+) m
+WHERE bli.id = m.id;
+
+-- Delivered quantities and status of a BC
+CREATE OR REPLACE FUNCTION refresh_purchase_order_deliveries(p_commande_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_livre numeric;
+  v_complet boolean;
+  v_statut text;
+BEGIN
+  IF p_commande_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE bon_de_commande_items bci
+  SET quantite_livree = s.total
+  FROM (
+    SELECT c.id, COALESCE((
+      SELECT SUM(bli.quantite_livree)
+      FROM bon_de_livraison_items bli
+      JOIN bon_de_livraison bl ON bl.id = bli.livraison_id
+      WHERE bli.commande_item_id = c.id AND bl.statut <> 'annulee'
+    ), 0) AS total
+    FROM bon_de_commande_items c
+    WHERE c.commande_id = p_commande_id
+  ) s
+  WHERE bci.id = s.id AND bci.quantite_livree IS DISTINCT FROM s.total;
+
+  SELECT COALESCE(SUM(quantite_livree), 0), COALESCE(bool_and(quantite_livree >= quantite), false)
+  INTO v_livre, v_complet
+  FROM bon_de_commande_items
+  WHERE commande_id = p_commande_id;
+
+  SELECT CASE
+    WHEN statut = 'annulee' THEN statut
+    WHEN v_livre > 0 AND v_complet THEN 'livree'
+    WHEN v_livre > 0 THEN 'partiellement_livree'
+    WHEN statut IN ('livree', 'partiellement_livree') THEN 'confirmee'
+    ELSE statut
+  END
+  INTO v_statut
+  FROM bon_de_commande
+  WHERE id = p_commande_id;
+
+  UPDATE bon_de_commande
+  SET statut = v_statut
+  WHERE id = p_commande_id AND statut IS DISTINCT FROM v_statut;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_purchase_order_on_delivery_item()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_purchase_order_deliveries(commande_id)
+    FROM bon_de_commande_items
+    WHERE id = OLD.commande_item_id;
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.commande_item_id IS DISTINCT FROM OLD.commande_item_id) THEN
+    PERFORM refresh_purchase_order_deliveries(commande_id)
+    FROM bon_de_commande_items
+    WHERE id = NEW.commande_item_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_purchase_order_on_delivery_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_purchase_order_deliveries(c.commande_id)
+  FROM (
+    SELECT DISTINCT bci.commande_id
+    FROM bon_de_livraison_items bli
+    JOIN bon_de_commande_items bci ON bci.id = bli.commande_item_id
+    WHERE bli.livraison_id = NEW.id
+  ) c;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The BC is recomputed from all its BL lines, so these do not depend on the
+-- other triggers of the tables
+DROP TRIGGER IF EXISTS trigger_purchase_order_bon_de_livraison_items ON bon_de_livraison_items;
+CREATE TRIGGER trigger_purchase_order_bon_de_livraison_items
+  AFTER INSERT OR UPDATE OF quantite_livree, commande_item_id OR DELETE ON bon_de_livraison_items
+  FOR EACH ROW EXECUTE FUNCTION refresh_purchase_order_on_delivery_item();
+
+DROP TRIGGER IF EXISTS trigger_purchase_order_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_purchase_order_bon_de_livraison
+  AFTER UPDATE OF statut ON bon_de_livraison
+  FOR EACH ROW
+  WHEN (OLD.statut IS DISTINCT FROM NEW.statut)
+  EXECUTE FUNCTION refresh_purchase_order_on_delivery_status();
+
+-- A BL cannot deliver more than what remains on its BC lines
+CREATE OR REPLACE FUNCTION check_delivery_quantities(p_livraison_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_ligne record;
+BEGIN
+  PERFORM 1
+  FROM bon_de_commande_items
+  WHERE id IN (
+    SELECT commande_item_id FROM bon_de_livraison_items WHERE livraison_id = p_livraison_id
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT p.nom_produit, bci.quantite, SUM(bli.quantite_livree) AS quantite_livree
+  INTO v_ligne
+  FROM bon_de_commande_items bci
+  JOIN bon_de_livraison_items bli ON bli.commande_item_id = bci.id
+  JOIN bon_de_livraison bl ON bl.id = bli.livraison_id AND bl.statut <> 'annulee'
+  LEFT JOIN produits p ON p.id = bci.produit_id
+  WHERE bci.id IN (
+    SELECT commande_item_id FROM bon_de_livraison_items WHERE livraison_id = p_livraison_id
+  )
+  GROUP BY bci.id, bci.quantite, p.nom_produit
+  HAVING SUM(bli.quantite_livree) > bci.quantite
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Quantité livrée supérieure au reste à livrer pour %: % livrés pour % commandés',
+      COALESCE(v_ligne.nom_produit, 'un produit'), v_ligne.quantite_livree, v_ligne.quantite
+      USING ERRCODE = '23514';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delivery notes deliver BC lines
+-- p_items: [{ commande_item_id, produit_id, quantite_commandee, quantite_livree, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva }]
+CREATE OR REPLACE FUNCTION create_delivery_note(
+  p_bon_commande_id uuid,
+  p_client_id uuid,
+  p_chauffeur_id uuid,
+  p_immatricule_utilise text,
+  p_date_livraison date,
+  p_notes text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de livraison doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_livraison (
+    bon_commande_id, client_id, chauffeur_id,
+    immatricule_utilise, date_livraison, notes, statut, total_ht
+  )
+  VALUES (
+    p_bon_commande_id, p_client_id, p_chauffeur_id,
+    p_immatricule_utilise, p_date_livraison, p_notes, 'livree', 0
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO bon_de_livraison_items (
+    livraison_id, commande_item_id, produit_id, quantite_commandee, quantite_livree,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_note.id, i.commande_item_id, i.produit_id, i.quantite_commandee, COALESCE(i.quantite_livree, i.quantite_commandee),
+    i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    commande_item_id uuid,
+    produit_id uuid,
+    quantite_commandee numeric,
+    quantite_livree numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM check_delivery_quantities(v_note.id);
+  PERFORM refresh_delivery_note_totals(v_note.id);
+
+  UPDATE bon_de_livraison
+  SET montant_chauffeur = COALESCE(
+    p_montant_chauffeur,
+    estimate_transport_cost(p_chauffeur_id, p_client_id, p_items)
+  )
+  WHERE id = v_note.id;
+
+  -- The source BC is delivered to this client; its status follows the delivered lines
+  UPDATE bon_de_commande
+  SET client_id = p_client_id
+  WHERE id = p_bon_commande_id;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = v_note.id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_delivery_note(
+  p_id uuid,
+  p_statut text,
+  p_notes text,
+  p_immatricule_utilise text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  UPDATE bon_de_livraison
+  SET
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), ''),
+    immatricule_utilise = trim(p_immatricule_utilise),
+    montant_chauffeur = COALESCE(p_montant_chauffeur, montant_chauffeur)
+  WHERE id = p_id
+  RETURNING * INTO v_note;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE bon_de_livraison_items bli
+  SET
+    quantite_livree = i.quantite_livree,
+    taux_tva = COALESCE(i.taux_tva, bli.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    quantite_livree numeric,
+    taux_tva numeric
+  )
+  WHERE bli.id = i.id AND bli.livraison_id = p_id;
+
+  PERFORM check_delivery_quantities(p_id);
+  PERFORM refresh_delivery_note_totals(p_id);
+
+  IF p_statut = 'livree' THEN
+    UPDATE bon_de_commande
+    SET client_id = v_note.client_id
+    WHERE id = v_note.bon_commande_id;
+  END IF;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update a purchase order, keeping the lines already delivered
+-- p_items: [{ id (null for a new line), produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva }]
+CREATE OR REPLACE FUNCTION update_purchase_order(
+  p_id uuid,
+  p_fournisseur_id uuid,
+  p_statut text,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS bon_de_commande AS $$
+DECLARE
+  v_order bon_de_commande;
+BEGIN
+  IF NOT has_role(ARRAY['admin', 'commercial', 'comptable']) THEN
+    RAISE EXCEPTION 'Accès refusé' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE bon_de_commande
+  SET
+    fournisseur_id = p_fournisseur_id,
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_id
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de commande introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM bon_de_commande_items bci
+    WHERE bci.commande_id = p_id AND bci.quantite_livree > 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(id uuid)
+      WHERE i.id = bci.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Une ligne déjà livrée ne peut pas être supprimée' USING ERRCODE = '23503';
+  END IF;
+
+  -- The BL lines of a delivered line keep pointing at it: its product stays
+  -- and its quantity cannot go below what was delivered
+  IF EXISTS (
+    SELECT 1
+    FROM bon_de_commande_items bci
+    JOIN jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(id uuid, produit_id uuid) ON i.id = bci.id
+    WHERE bci.commande_id = p_id AND bci.quantite_livree > 0
+    AND i.produit_id IS DISTINCT FROM bci.produit_id
+  ) THEN
+    RAISE EXCEPTION 'Le produit d''une ligne déjà livrée ne peut pas être changé' USING ERRCODE = '23514';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM bon_de_commande_items bci
+    JOIN jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(id uuid, quantite numeric) ON i.id = bci.id
+    WHERE bci.commande_id = p_id
+    AND i.quantite < bci.quantite_livree
+  ) THEN
+    RAISE EXCEPTION 'La quantité d''une ligne ne peut pas être inférieure à la quantité déjà livrée' USING ERRCODE = '23514';
+  END IF;
+
+  DELETE FROM bon_de_commande_items bci
+  WHERE bci.commande_id = p_id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(id uuid)
+    WHERE i.id = bci.id
+  );
+
+  UPDATE bon_de_commande_items bci
+  SET
+    produit_id = i.produit_id,
+    quantite = i.quantite,
+    quantite_pieces = i.quantite_pieces,
+    quantite_unitaire = i.quantite_unitaire,
+    prix_unitaire = i.prix_unitaire,
+    taux_tva = COALESCE(i.taux_tva, bci.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  )
+  WHERE bci.id = i.id AND bci.commande_id = p_id;
+
+  INSERT INTO bon_de_commande_items (commande_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT p_id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  )
+  WHERE i.id IS NULL
+  OR i.id NOT IN (SELECT id FROM bon_de_commande_items WHERE commande_id = p_id);
+
+  PERFORM refresh_purchase_order_totals(p_id);
+  PERFORM refresh_purchase_order_deliveries(p_id);
+
+  SELECT * INTO v_order FROM bon_de_commande WHERE id = p_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_purchase_order_deliveries(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Delivered quantities of the existing BCs
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT DISTINCT bon_commande_id AS id FROM bon_de_livraison WHERE bon_commande_id IS NOT NULL LOOP
+    PERFORM refresh_purchase_order_deliveries(r.id);
+  END LOOP;
+END $$;
@@ -0,0 +1,157 @@
+/*
+  # Purchase orders sold to several clients
+
+  1. Behaviour
+    - The BLs of one BC can be for different clients, each drawing from the same BC lines
+    - `create_delivery_note(...)` / `update_delivery_note(...)` no longer write
+      `bon_de_commande.client_id`, which only held the client of the last BL
+    - `bon_de_commande.client_id` is kept for history but no longer maintained
+
+  2. New Views
+    - `bon_de_commande_clients` - quantity of each BC line received by each client, from the
+      BLs that are not cancelled
+      - `commande_id`, `numero_commande`, `fournisseur_id`
+      - `commande_item_id`, `produit_id`, `nom_produit`, `unite`, `quantite_commandee`
+      - `client_id`, `client_nom`, `client_prenom`, `client_societe`
+      - `quantite_livree` (numeric) - quantity delivered to the client
+      - `montant_ht` (numeric) - amount invoiced on the BLs of the client for this line
+*/
+
+COMMENT ON COLUMN bon_de_commande.client_id IS 'No longer maintained: a BC can be delivered to several clients, see bon_de_commande_clients';
+
+CREATE OR REPLACE VIEW bon_de_commande_clients
+WITH (security_invoker = true)
+AS
+SELECT
+  bc.id AS commande_id,
+  bc.numero_commande,
+  bc.fournisseur_id,
+  bci.id AS commande_item_id,
+  bci.produit_id,
+  p.nom_produit,
+  p.unite,
+  bci.quantite AS quantite_commandee,
+  c.id AS client_id,
+  c.nom AS client_nom,
+  c.prenom AS client_prenom,
+  c.societe AS client_societe,
+  SUM(bli.quantite_livree) AS quantite_livree,
+  ROUND(SUM(bli.quantite_livree * bli.prix_unitaire), 2) AS montant_ht
+FROM bon_de_livraison_items bli
+JOIN bon_de_livraison bl ON bl.id = bli.livraison_id
+JOIN bon_de_commande_items bci ON bci.id = bli.commande_item_id
+JOIN bon_de_commande bc ON bc.id = bci.commande_id
+JOIN clients c ON c.id = bl.client_id
+LEFT JOIN produits p ON p.id = bci.produit_id
+WHERE bl.statut <> 'annulee'
+GROUP BY bc.id, bc.numero_commande, bc.fournisseur_id, bci.id, bci.produit_id, p.nom_produit, p.unite,
+  bci.quantite, c.id, c.nom, c.prenom, c.societe;
+
+GRANT SELECT ON bon_de_commande_clients TO authenticated;
+
+-- Delivery notes no longer assign the BC to their client
+CREATE OR REPLACE FUNCTION create_delivery_note(
+  p_bon_commande_id uuid,
+  p_client_id uuid,
+  p_chauffeur_id uuid,
+  p_immatricule_utilise text,
+  p_date_livraison date,
+  p_notes text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de livraison doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO bon_de_livraison (
+    bon_commande_id, client_id, chauffeur_id,
+    immatricule_utilise, date_livraison, notes, statut, total_ht
+  )
+  VALUES (
+    p_bon_commande_id, p_client_id, p_chauffeur_id,
+    p_immatricule_utilise, p_date_livraison, p_notes, 'livree', 0
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO bon_de_livraison_items (
+    livraison_id, commande_item_id, produit_id, quantite_commandee, quantite_livree,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_note.id, i.commande_item_id, i.produit_id, i.quantite_commandee, COALESCE(i.quantite_livree, i.quantite_commandee),
+    i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    commande_item_id uuid,
+    produit_id uuid,
+    quantite_commandee numeric,
+    quantite_livree numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM check_delivery_quantities(v_note.id);
+  PERFORM refresh_delivery_note_totals(v_note.id);
+
+  UPDATE bon_de_livraison
+  SET montant_chauffeur = COALESCE(
+    p_montant_chauffeur,
+    estimate_transport_cost(p_chauffeur_id, p_client_id, p_items)
+  )
+  WHERE id = v_note.id;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = v_note.id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_delivery_note(
+  p_id uuid,
+  p_statut text,
+  p_notes text,
+  p_immatricule_utilise text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  UPDATE bon_de_livraison
+  SET
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), ''),
+    immatricule_utilise = trim(p_immatricule_utilise),
+    montant_chauffeur = COALESCE(p_montant_chauffeur, montant_chauffeur)
+  WHERE id = p_id
+  RETURNING * INTO v_note;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE bon_de_livraison_items bli
+  SET
+    quantite_livree = i.quantite_livree,
+    taux_tva = COALESCE(i.taux_tva, bli.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    quantite_livree numeric,
+    taux_tva numeric
+  )
+  WHERE bli.id = i.id AND bli.livraison_id = p_id;
+
+  PERFORM check_delivery_quantities(p_id);
+  PERFORM refresh_delivery_note_totals(p_id);
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
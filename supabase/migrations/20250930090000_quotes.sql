@@ -0,0 +1,291 @@
+/*
+  # Customer quotes (devis)
+
+  1. New Tables
+    - `devis` - price quote sent to a client before any BC exists
+      - `numero_devis` (text, unique) - assigned on insert, e.g. DEV-2026-0001
+      - `client_id`, `date_devis`, `date_validite` (date) - the quote is valid until this date
+      - `statut` (text) - 'envoye', 'accepte', 'refuse' or 'expire'
+      - `total_ht`, `total_tva`, `total_ttc`, `notes`
+    - `devis_items` - quote lines, same quantity columns as the BC lines
+      - `produit_id`, `quantite`, `quantite_pieces`, `quantite_unitaire`, `prix_unitaire`,
+        `taux_tva`, `total_ligne`
+
+  2. Schema Changes
+    - Add `devis_id` (uuid, nullable) to `bon_de_commande` - quote the BC was converted from
+    - New numbering sequence 'devis' (prefix DEV, yearly reset)
+
+  3. Functions
+    - `refresh_quote_totals(uuid)` - totals of a quote, same VAT rule as the other documents
+    - `create_quote(...)` / `update_quote(...)` - header and lines in a single transaction
+    - `create_purchase_order(...)` takes the source quote (`p_devis_id`): the BC is linked to it
+      and the quote becomes 'accepte'; only a sent quote that is still valid and was not
+      converted yet can be converted
+
+  4. Security
+    - Quotes are read and managed by staff
+    - `authenticated` may execute the functions above; the new `create_purchase_order`
+      replaces the 4 argument version and its grant
+*/
+
+CREATE TABLE IF NOT EXISTS devis (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  numero_devis text UNIQUE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  date_devis date NOT NULL DEFAULT CURRENT_DATE,
+  date_validite date NOT NULL,
+  statut text NOT NULL DEFAULT 'envoye' CHECK (statut IN ('envoye', 'accepte', 'refuse', 'expire')),
+  total_ht numeric(12,2) NOT NULL DEFAULT 0,
+  total_tva numeric(12,2) NOT NULL DEFAULT 0,
+  total_ttc numeric(12,2) NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (date_validite >= date_devis)
+);
+
+CREATE TABLE IF NOT EXISTS devis_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  devis_id uuid NOT NULL REFERENCES devis(id) ON DELETE CASCADE,
+  produit_id uuid NOT NULL REFERENCES produits(id) ON DELETE RESTRICT,
+  quantite numeric(12,2) NOT NULL CHECK (quantite > 0),
+  quantite_pieces numeric(12,2),
+  quantite_unitaire numeric(12,2),
+  prix_unitaire numeric(12,2) NOT NULL DEFAULT 0,
+  taux_tva numeric(5,2) NOT NULL DEFAULT 20,
+  total_ligne numeric(12,2) GENERATED ALWAYS AS (ROUND(quantite * prix_unitaire, 2)) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_devis_client_id ON devis(client_id);
+CREATE INDEX IF NOT EXISTS idx_devis_items_devis_id ON devis_items(devis_id);
+
+ALTER TABLE bon_de_commande
+ADD COLUMN IF NOT EXISTS devis_id uuid REFERENCES devis(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bon_de_commande_devis_id ON bon_de_commande(devis_id);
+
+-- Numbering
+INSERT INTO document_sequences (type_document, prefixe, longueur, remise_annuelle)
+VALUES ('devis', 'DEV', 4, true)
+ON CONFLICT (type_document) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trigger_document_number_devis ON devis;
+CREATE TRIGGER trigger_document_number_devis
+  BEFORE INSERT ON devis
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('devis', 'numero_devis', 'date_devis');
+
+-- Totals of a quote
+CREATE OR REPLACE FUNCTION refresh_quote_totals(p_devis_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_total_ht numeric(12,2);
+  v_total_tva numeric(12,2);
+BEGIN
+  SELECT COALESCE(SUM(base_ht), 0), COALESCE(SUM(ROUND(base_ht * taux_tva / 100, 2)), 0)
+  INTO v_total_ht, v_total_tva
+  FROM (
+    SELECT taux_tva, ROUND(SUM(quantite * prix_unitaire), 2) AS base_ht
+    FROM devis_items
+    WHERE devis_id = p_devis_id
+    GROUP BY taux_tva
+  ) per_rate;
+
+  UPDATE devis
+  SET
+    total_ht = v_total_ht,
+    total_tva = v_total_tva,
+    total_ttc = v_total_ht + v_total_tva
+  WHERE id = p_devis_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a quote with its lines
+-- p_items: [{ produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva }]
+CREATE OR REPLACE FUNCTION create_quote(
+  p_client_id uuid,
+  p_date_devis date,
+  p_date_validite date,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS devis AS $$
+DECLARE
+  v_quote devis;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un devis doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO devis (client_id, date_devis, date_validite, notes, statut)
+  VALUES (p_client_id, p_date_devis, p_date_validite, NULLIF(trim(p_notes), ''), 'envoye')
+  RETURNING * INTO v_quote;
+
+  INSERT INTO devis_items (devis_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT v_quote.id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_quote_totals(v_quote.id);
+
+  SELECT * INTO v_quote FROM devis WHERE id = v_quote.id;
+  RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update a quote and replace its lines
+CREATE OR REPLACE FUNCTION update_quote(
+  p_id uuid,
+  p_client_id uuid,
+  p_date_validite date,
+  p_statut text,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS devis AS $$
+DECLARE
+  v_quote devis;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un devis doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE devis
+  SET
+    client_id = p_client_id,
+    date_validite = p_date_validite,
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_id
+  RETURNING * INTO v_quote;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Devis introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM devis_items WHERE devis_id = p_id;
+
+  INSERT INTO devis_items (devis_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT p_id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_quote_totals(p_id);
+
+  SELECT * INTO v_quote FROM devis WHERE id = p_id;
+  RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Purchase orders converted from a quote. The previous signature is dropped
+-- so that a call without p_devis_id is not ambiguous between the two.
+DROP FUNCTION IF EXISTS create_purchase_order(uuid, date, text, jsonb);
+
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_fournisseur_id uuid,
+  p_date_commande date,
+  p_notes text,
+  p_items jsonb,
+  p_devis_id uuid DEFAULT NULL
+)
+RETURNS bon_de_commande AS $$
+DECLARE
+  v_order bon_de_commande;
+  v_quote devis;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de commande doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  -- Locked, so that the same quote cannot be converted twice at the same time
+  IF p_devis_id IS NOT NULL THEN
+    SELECT * INTO v_quote FROM devis WHERE id = p_devis_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Devis introuvable' USING ERRCODE = 'P0002';
+    END IF;
+    IF EXISTS (SELECT 1 FROM bon_de_commande WHERE devis_id = p_devis_id) THEN
+      RAISE EXCEPTION 'Ce devis a déjà été converti en bon de commande' USING ERRCODE = '23514';
+    END IF;
+    IF v_quote.statut <> 'envoye' THEN
+      RAISE EXCEPTION 'Seul un devis envoyé peut être converti en bon de commande' USING ERRCODE = '23514';
+    END IF;
+    IF v_quote.date_validite < CURRENT_DATE THEN
+      RAISE EXCEPTION 'Ce devis a expiré le %', to_char(v_quote.date_validite, 'DD/MM/YYYY')
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  INSERT INTO bon_de_commande (fournisseur_id, date_commande, notes, statut, total_ht, devis_id)
+  VALUES (p_fournisseur_id, p_date_commande, NULLIF(trim(p_notes), ''), 'confirmee', 0, p_devis_id)
+  RETURNING * INTO v_order;
+
+  INSERT INTO bon_de_commande_items (commande_id, produit_id, quantite, quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva)
+  SELECT v_order.id, i.produit_id, i.quantite, i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    produit_id uuid,
+    quantite numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM refresh_purchase_order_totals(v_order.id);
+
+  IF p_devis_id IS NOT NULL THEN
+    UPDATE devis SET statut = 'accepte' WHERE id = p_devis_id;
+  END IF;
+
+  SELECT * INTO v_order FROM bon_de_commande WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_audit_devis ON devis;
+CREATE TRIGGER trigger_audit_devis
+  AFTER INSERT OR UPDATE OR DELETE ON devis
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('client_id');
+
+DROP TRIGGER IF EXISTS trigger_audit_devis_items ON devis_items;
+CREATE TRIGGER trigger_audit_devis_items
+  AFTER INSERT OR UPDATE OR DELETE ON devis_items
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('devis_id');
+
+-- Enable RLS
+ALTER TABLE devis ENABLE ROW LEVEL SECURITY;
+ALTER TABLE devis_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can manage devis" ON devis;
+CREATE POLICY "Staff can manage devis"
+  ON devis
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DROP POLICY IF EXISTS "Staff can manage devis_items" ON devis_items;
+CREATE POLICY "Staff can manage devis_items"
+  ON devis_items
+  FOR ALL
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']))
+  WITH CHECK (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+GRANT EXECUTE ON FUNCTION create_quote(uuid, date, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_quote(uuid, uuid, date, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_purchase_order(uuid, date, text, jsonb, uuid) TO authenticated;
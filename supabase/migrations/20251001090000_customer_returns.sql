@@ -0,0 +1,576 @@
+/*
+  # Customer returns and credit notes (avoirs)
+
+  1. New Tables
+    - `avoirs` - credit note issued when a client sends back part of a delivered BL
+      - `numero_avoir` (text, unique) - assigned on insert, e.g. AV-2026-0001
+      - `client_id`, `livraison_id` - client and BL the goods were returned from
+      - `date_avoir` (date), `motif` (text) - reason of the return
+      - `total_ht`, `total_tva`, `total_ttc`, `notes`
+    - `avoir_items` - returned quantities, priced like the BL line they come from
+      - `livraison_item_id`, `produit_id`, `quantite`, `prix_unitaire`, `taux_tva`, `total_ligne`
+    - `retours_fournisseurs` - goods sent back to the supplier of the source BC
+      - `fournisseur_id`, `bon_commande_id`, `avoir_id` (customer return it comes from)
+      - `date_retour` (date), `motif` (text), `total_ht`, `total_tva`, `total_ttc` - at the BC
+        purchase prices and VAT rates
+    - `retour_fournisseur_items` - `commande_item_id`, `produit_id`, `quantite`, `prix_unitaire`,
+      `taux_tva`, `total_ligne`
+
+  2. Schema Changes
+    - Add `total_avoirs` (numeric) to `clients` - sum of the credit notes (HT)
+    - Add `avoir_id` (uuid, nullable) to `mouvements_stock`, and the movement type 'retour'
+      (goods returned by a client to the warehouse of the BL)
+    - New numbering sequence 'avoir' (prefix AV, yearly reset)
+
+  3. Functions
+    - `refresh_client_sales(uuid)` - recomputes `chiffre_affaires` as the non-cancelled BLs minus
+      the credit notes, then the debt and advance of the client
+    - `refresh_client_payment_balance(uuid)` - the debt (TTC) is reduced by the `total_ttc` of the
+      credit notes
+    - `refresh_client_margin(uuid)` - the margin of the returned lines is taken back
+    - The balance triggers of `bon_de_livraison` and `avoirs` refresh the sales, then the margin
+      of the client; the client triggers created outside of the migrations are dropped by name
+      (`update_client_balance_trigger`, `trigger_update_client_balance`,
+      `update_client_totals_trigger`, `trigger_update_client_totals`), so these are the only
+      ones writing the client totals
+    - `create_customer_return(uuid, date, text, jsonb, boolean)` - creates the credit note of a
+      return ([{ livraison_item_id, quantite }]) in a single transaction:
+      - the quantities cannot exceed what was delivered minus earlier returns; several entries
+        for the same BL line are added up first
+      - goods returned to the supplier generate a supplier return against the source BC,
+        other goods go back to the warehouse of the BL (if any)
+    - `update_delivery_note(...)` refuses to change the delivered quantities of a BL that is
+      already 'livree': they are corrected by a return
+
+  4. Security
+    - Returns and credit notes are read by staff and only written by `create_customer_return`
+    - Delivery lines are never changed: the BL keeps what was actually delivered
+    - The delivered quantity of a BL line cannot go below what was returned from it
+*/
+
+CREATE TABLE IF NOT EXISTS avoirs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  numero_avoir text UNIQUE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  livraison_id uuid NOT NULL REFERENCES bon_de_livraison(id) ON DELETE RESTRICT,
+  date_avoir date NOT NULL DEFAULT CURRENT_DATE,
+  motif text NOT NULL CHECK (trim(motif) <> ''),
+  total_ht numeric(12,2) NOT NULL DEFAULT 0,
+  total_tva numeric(12,2) NOT NULL DEFAULT 0,
+  total_ttc numeric(12,2) NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS avoir_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  avoir_id uuid NOT NULL REFERENCES avoirs(id) ON DELETE CASCADE,
+  livraison_item_id uuid NOT NULL REFERENCES bon_de_livraison_items(id) ON DELETE RESTRICT,
+  produit_id uuid REFERENCES produits(id) ON DELETE RESTRICT,
+  quantite numeric(12,2) NOT NULL CHECK (quantite > 0),
+  prix_unitaire numeric(12,2) NOT NULL DEFAULT 0,
+  taux_tva numeric(5,2) NOT NULL DEFAULT 20,
+  total_ligne numeric(12,2) GENERATED ALWAYS AS (ROUND(quantite * prix_unitaire, 2)) STORED
+);
+
+CREATE TABLE IF NOT EXISTS retours_fournisseurs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  fournisseur_id uuid NOT NULL REFERENCES fournisseurs(id) ON DELETE RESTRICT,
+  bon_commande_id uuid NOT NULL REFERENCES bon_de_commande(id) ON DELETE RESTRICT,
+  avoir_id uuid REFERENCES avoirs(id) ON DELETE CASCADE,
+  date_retour date NOT NULL DEFAULT CURRENT_DATE,
+  motif text,
+  total_ht numeric(12,2) NOT NULL DEFAULT 0,
+  total_tva numeric(12,2) NOT NULL DEFAULT 0,
+  total_ttc numeric(12,2) NOT NULL DEFAULT 0,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS retour_fournisseur_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  retour_id uuid NOT NULL REFERENCES retours_fournisseurs(id) ON DELETE CASCADE,
+  commande_item_id uuid REFERENCES bon_de_commande_items(id) ON DELETE SET NULL,
+  produit_id uuid REFERENCES produits(id) ON DELETE RESTRICT,
+  quantite numeric(12,2) NOT NULL CHECK (quantite > 0),
+  prix_unitaire numeric(12,2) NOT NULL DEFAULT 0,
+  taux_tva numeric(5,2) NOT NULL DEFAULT 20,
+  total_ligne numeric(12,2) GENERATED ALWAYS AS (ROUND(quantite * prix_unitaire, 2)) STORED
+);
+
+CREATE INDEX IF NOT EXISTS idx_avoirs_client_id ON avoirs(client_id);
+CREATE INDEX IF NOT EXISTS idx_avoirs_livraison_id ON avoirs(livraison_id);
+CREATE INDEX IF NOT EXISTS idx_avoir_items_avoir_id ON avoir_items(avoir_id);
+CREATE INDEX IF NOT EXISTS idx_avoir_items_livraison_item_id ON avoir_items(livraison_item_id);
+CREATE INDEX IF NOT EXISTS idx_retours_fournisseurs_fournisseur_id ON retours_fournisseurs(fournisseur_id);
+CREATE INDEX IF NOT EXISTS idx_retours_fournisseurs_bon_commande_id ON retours_fournisseurs(bon_commande_id);
+CREATE INDEX IF NOT EXISTS idx_retours_fournisseurs_avoir_id ON retours_fournisseurs(avoir_id);
+CREATE INDEX IF NOT EXISTS idx_retour_fournisseur_items_retour_id ON retour_fournisseur_items(retour_id);
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS total_avoirs numeric(12,2) NOT NULL DEFAULT 0;
+
+-- SELECT on clients is granted column by column since the user roles
+GRANT SELECT (total_avoirs) ON clients TO authenticated;
+
+COMMENT ON COLUMN clients.total_avoirs IS 'Sum of the credit notes of the client (HT), already deducted from chiffre_affaires';
+
+-- Goods returned by a client to the warehouse
+ALTER TABLE mouvements_stock
+ADD COLUMN IF NOT EXISTS avoir_id uuid REFERENCES avoirs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_mouvements_stock_avoir_id ON mouvements_stock(avoir_id);
+
+ALTER TABLE mouvements_stock DROP CONSTRAINT IF EXISTS mouvements_stock_type_check;
+ALTER TABLE mouvements_stock ADD CONSTRAINT mouvements_stock_type_check
+  CHECK (type IN ('reception', 'livraison', 'retour', 'ajustement', 'inventaire'));
+
+ALTER TABLE mouvements_stock DROP CONSTRAINT IF EXISTS mouvements_stock_retour_check;
+ALTER TABLE mouvements_stock ADD CONSTRAINT mouvements_stock_retour_check
+  CHECK (type <> 'retour' OR quantite > 0);
+
+-- Numbering
+INSERT INTO document_sequences (type_document, prefixe, longueur, remise_annuelle)
+VALUES ('avoir', 'AV', 4, true)
+ON CONFLICT (type_document) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trigger_document_number_avoirs ON avoirs;
+CREATE TRIGGER trigger_document_number_avoirs
+  BEFORE INSERT ON avoirs
+  FOR EACH ROW EXECUTE FUNCTION assign_document_number('avoir', 'numero_avoir', 'date_avoir');
+
+-- Totals of a credit note
+CREATE OR REPLACE FUNCTION refresh_credit_note_totals(p_avoir_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_total_ht numeric(12,2);
+  v_total_tva numeric(12,2);
+BEGIN
+  SELECT COALESCE(SUM(base_ht), 0), COALESCE(SUM(ROUND(base_ht * taux_tva / 100, 2)), 0)
+  INTO v_total_ht, v_total_tva
+  FROM (
+    SELECT taux_tva, ROUND(SUM(quantite * prix_unitaire), 2) AS base_ht
+    FROM avoir_items
+    WHERE avoir_id = p_avoir_id
+    GROUP BY taux_tva
+  ) per_rate;
+
+  UPDATE avoirs
+  SET
+    total_ht = v_total_ht,
+    total_tva = v_total_tva,
+    total_ttc = v_total_ht + v_total_tva
+  WHERE id = p_avoir_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Client balance (TTC) net of the credit notes
+CREATE OR REPLACE FUNCTION refresh_client_payment_balance(p_client_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE clients c
+  SET total_paiements = s.total,
+      current_debt = GREATEST(COALESCE(c.credit_initial, 0) + s.du - s.total, 0),
+      available_credit = GREATEST(s.total - COALESCE(c.credit_initial, 0) - s.du, 0)
+  FROM (
+    SELECT
+      COALESCE((
+        SELECT SUM(montant) FROM paiements_clients
+        WHERE client_id = p_client_id AND statut_instrument IS DISTINCT FROM 'impaye'
+      ), 0) AS total,
+      COALESCE((
+        SELECT SUM(total_ttc) FROM bon_de_livraison
+        WHERE client_id = p_client_id AND statut <> 'annulee'
+      ), 0) - COALESCE((
+        SELECT SUM(total_ttc) FROM avoirs
+        WHERE client_id = p_client_id
+      ), 0) AS du
+  ) s
+  WHERE c.id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sales of a client net of its credit notes
+CREATE OR REPLACE FUNCTION refresh_client_sales(p_client_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_client_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE clients c
+  SET chiffre_affaires = s.livre - s.avoirs,
+      total_avoirs = s.avoirs
+  FROM (
+    SELECT
+      COALESCE((
+        SELECT SUM(total_ht) FROM bon_de_livraison
+        WHERE client_id = p_client_id AND statut <> 'annulee'
+      ), 0) AS livre,
+      COALESCE((
+        SELECT SUM(total_ht) FROM avoirs
+        WHERE client_id = p_client_id
+      ), 0) AS avoirs
+  ) s
+  WHERE c.id = p_client_id;
+
+  PERFORM refresh_client_payment_balance(p_client_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only run by the balance triggers
+REVOKE EXECUTE ON FUNCTION refresh_client_sales(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Client margin net of transport and of the returned lines
+CREATE OR REPLACE FUNCTION refresh_client_margin(p_client_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE clients c
+  SET total_margin = COALESCE((
+    SELECT SUM(
+      COALESCE((
+        SELECT SUM((bli.prix_unitaire - COALESCE(p.prix_achat, 0)) * bli.quantite_livree)
+        FROM bon_de_livraison_items bli
+        LEFT JOIN produits p ON p.id = bli.produit_id
+        WHERE bli.livraison_id = bl.id
+      ), 0) - COALESCE(bl.montant_chauffeur, 0)
+    )
+    FROM bon_de_livraison bl
+    WHERE bl.client_id = p_client_id AND bl.statut <> 'annulee'
+  ), 0) - COALESCE((
+    SELECT SUM((ai.prix_unitaire - COALESCE(p.prix_achat, 0)) * ai.quantite)
+    FROM avoir_items ai
+    JOIN avoirs a ON a.id = ai.avoir_id
+    LEFT JOIN produits p ON p.id = ai.produit_id
+    WHERE a.client_id = p_client_id
+  ), 0)
+  WHERE c.id = p_client_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION refresh_client_sales_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_client_sales(OLD.client_id);
+    PERFORM refresh_client_margin(OLD.client_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM refresh_client_sales(NEW.client_id);
+    PERFORM refresh_client_margin(NEW.client_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Totals of the client of a BL: sales, which refresh the balance, then margin
+CREATE OR REPLACE FUNCTION refresh_delivery_note_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_client_sales(OLD.client_id);
+    PERFORM refresh_client_margin(OLD.client_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM refresh_client_sales(NEW.client_id);
+    PERFORM refresh_client_margin(NEW.client_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The client totals are only written by the balance triggers of these
+-- migrations: the triggers that kept them before (created from the dashboard,
+-- outside of the migrations, and unaware of TTC balances and credit notes) are
+-- dropped by name. A database with another client trigger on these tables must
+-- have it added here.
+DROP TRIGGER IF EXISTS update_client_balance_trigger ON bon_de_livraison;
+DROP TRIGGER IF EXISTS update_client_balance_trigger ON paiements_clients;
+DROP TRIGGER IF EXISTS trigger_update_client_balance ON bon_de_livraison;
+DROP TRIGGER IF EXISTS trigger_update_client_balance ON paiements_clients;
+DROP TRIGGER IF EXISTS update_client_totals_trigger ON bon_de_livraison;
+DROP TRIGGER IF EXISTS update_client_totals_trigger ON paiements_clients;
+DROP TRIGGER IF EXISTS trigger_update_client_totals ON bon_de_livraison;
+DROP TRIGGER IF EXISTS trigger_update_client_totals ON paiements_clients;
+
+DROP TRIGGER IF EXISTS trigger_balances_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_balances_bon_de_livraison
+  AFTER INSERT OR UPDATE OF total_ht, total_ttc, montant_chauffeur, statut, client_id OR DELETE ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION refresh_delivery_note_balances();
+
+-- Credit note totals are written once their lines exist
+DROP TRIGGER IF EXISTS trigger_balances_avoirs ON avoirs;
+CREATE TRIGGER trigger_balances_avoirs
+  AFTER INSERT OR UPDATE OF total_ht, total_ttc, client_id OR DELETE ON avoirs
+  FOR EACH ROW EXECUTE FUNCTION refresh_client_sales_on_change();
+
+-- Create the credit note of a customer return
+-- p_items: [{ livraison_item_id, quantite }]
+CREATE OR REPLACE FUNCTION create_customer_return(
+  p_livraison_id uuid,
+  p_date date,
+  p_motif text,
+  p_items jsonb,
+  p_retour_fournisseur boolean DEFAULT false
+)
+RETURNS avoirs AS $$
+DECLARE
+  v_note bon_de_livraison;
+  v_avoir avoirs;
+  v_retour_id uuid;
+  v_fournisseur_id uuid;
+  v_count integer;
+BEGIN
+  IF NOT has_role(ARRAY['admin', 'comptable', 'commercial']) THEN
+    RAISE EXCEPTION 'Accès refusé' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_motif), '') IS NULL THEN
+    RAISE EXCEPTION 'Le motif du retour est obligatoire' USING ERRCODE = '23514';
+  END IF;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_livraison_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_note.statut <> 'livree' THEN
+    RAISE EXCEPTION 'Seul un bon de livraison livré peut faire l''objet d''un retour' USING ERRCODE = '23514';
+  END IF;
+
+  -- Returned quantities, checked against what is still held by the client
+  DROP TABLE IF EXISTS tmp_retour;
+  CREATE TEMP TABLE tmp_retour ON COMMIT DROP AS
+  SELECT
+    bli.id AS livraison_item_id, bli.commande_item_id, bli.produit_id, i.quantite,
+    bli.prix_unitaire, bli.taux_tva,
+    bli.quantite_livree - COALESCE((
+      SELECT SUM(ai.quantite) FROM avoir_items ai WHERE ai.livraison_item_id = bli.id
+    ), 0) AS disponible
+  FROM (
+    SELECT livraison_item_id, SUM(quantite) AS quantite
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(livraison_item_id uuid, quantite numeric)
+    WHERE quantite > 0
+    GROUP BY livraison_item_id
+  ) i
+  JOIN bon_de_livraison_items bli ON bli.id = i.livraison_item_id AND bli.livraison_id = p_livraison_id;
+
+  SELECT COUNT(*) INTO v_count FROM tmp_retour;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Aucune quantité à retourner' USING ERRCODE = '23514';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM tmp_retour WHERE quantite > disponible) THEN
+    RAISE EXCEPTION 'La quantité retournée dépasse la quantité livrée restante' USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO avoirs (client_id, livraison_id, date_avoir, motif)
+  VALUES (v_note.client_id, p_livraison_id, COALESCE(p_date, CURRENT_DATE), trim(p_motif))
+  RETURNING * INTO v_avoir;
+
+  INSERT INTO avoir_items (avoir_id, livraison_item_id, produit_id, quantite, prix_unitaire, taux_tva)
+  SELECT v_avoir.id, livraison_item_id, produit_id, quantite, prix_unitaire, taux_tva
+  FROM tmp_retour;
+
+  PERFORM refresh_credit_note_totals(v_avoir.id);
+
+  IF p_retour_fournisseur THEN
+    SELECT fournisseur_id INTO v_fournisseur_id
+    FROM bon_de_commande
+    WHERE id = v_note.bon_commande_id;
+
+    IF v_fournisseur_id IS NULL THEN
+      RAISE EXCEPTION 'Le bon de commande source est introuvable' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO retours_fournisseurs (fournisseur_id, bon_commande_id, avoir_id, date_retour, motif)
+    VALUES (v_fournisseur_id, v_note.bon_commande_id, v_avoir.id, v_avoir.date_avoir, v_avoir.motif)
+    RETURNING id INTO v_retour_id;
+
+    INSERT INTO retour_fournisseur_items (retour_id, commande_item_id, produit_id, quantite, prix_unitaire, taux_tva)
+    SELECT v_retour_id, t.commande_item_id, t.produit_id, t.quantite, COALESCE(bci.prix_unitaire, 0),
+      COALESCE(bci.taux_tva, 20)
+    FROM tmp_retour t
+    LEFT JOIN bon_de_commande_items bci ON bci.id = t.commande_item_id;
+
+    -- Same VAT rule as the BC: rounded per rate
+    UPDATE retours_fournisseurs r
+    SET
+      total_ht = s.total_ht,
+      total_tva = s.total_tva,
+      total_ttc = s.total_ht + s.total_tva
+    FROM (
+      SELECT COALESCE(SUM(base_ht), 0) AS total_ht, COALESCE(SUM(ROUND(base_ht * taux_tva / 100, 2)), 0) AS total_tva
+      FROM (
+        SELECT taux_tva, ROUND(SUM(quantite * prix_unitaire), 2) AS base_ht
+        FROM retour_fournisseur_items
+        WHERE retour_id = v_retour_id
+        GROUP BY taux_tva
+      ) per_rate
+    ) s
+    WHERE r.id = v_retour_id;
+  ELSIF v_note.depot_id IS NOT NULL THEN
+    -- Goods kept by us go back to the warehouse they were shipped from
+    INSERT INTO mouvements_stock (
+      produit_id, depot_id, type, quantite, avoir_id, date_mouvement, notes, created_by
+    )
+    SELECT produit_id, v_note.depot_id, 'retour', quantite, v_avoir.id, v_avoir.date_avoir,
+      v_avoir.numero_avoir, auth.uid()
+    FROM tmp_retour
+    WHERE produit_id IS NOT NULL;
+  END IF;
+
+  SELECT * INTO v_avoir FROM avoirs WHERE id = v_avoir.id;
+  RETURN v_avoir;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_customer_return(uuid, date, text, jsonb, boolean) TO authenticated;
+
+-- What was returned from a BL line stays delivered
+CREATE OR REPLACE FUNCTION check_delivery_item_returns()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_retourne numeric;
+BEGIN
+  SELECT COALESCE(SUM(quantite), 0) INTO v_retourne
+  FROM avoir_items
+  WHERE livraison_item_id = NEW.id;
+
+  IF NEW.quantite_livree < v_retourne THEN
+    RAISE EXCEPTION 'La quantité livrée ne peut pas être inférieure à la quantité déjà retournée (%)', v_retourne
+      USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_returns_bon_de_livraison_items ON bon_de_livraison_items;
+CREATE TRIGGER trigger_check_returns_bon_de_livraison_items
+  BEFORE UPDATE OF quantite_livree ON bon_de_livraison_items
+  FOR EACH ROW
+  WHEN (NEW.quantite_livree < OLD.quantite_livree)
+  EXECUTE FUNCTION check_delivery_item_returns();
+
+-- The quantities of a delivered BL are corrected by a return
+CREATE OR REPLACE FUNCTION update_delivery_note(
+  p_id uuid,
+  p_statut text,
+  p_notes text,
+  p_immatricule_utilise text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+BEGIN
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_note.statut = 'livree' AND EXISTS (
+    SELECT 1
+    FROM bon_de_livraison_items bli
+    JOIN jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(id uuid, quantite_livree numeric)
+      ON i.id = bli.id
+    WHERE bli.livraison_id = p_id
+    AND bli.quantite_livree IS DISTINCT FROM i.quantite_livree
+  ) THEN
+    RAISE EXCEPTION 'Les quantités d''un bon de livraison livré se corrigent par un retour client'
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE bon_de_livraison
+  SET
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), ''),
+    immatricule_utilise = trim(p_immatricule_utilise),
+    montant_chauffeur = COALESCE(p_montant_chauffeur, montant_chauffeur)
+  WHERE id = p_id;
+
+  UPDATE bon_de_livraison_items bli
+  SET
+    quantite_livree = i.quantite_livree,
+    taux_tva = COALESCE(i.taux_tva, bli.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    quantite_livree numeric,
+    taux_tva numeric
+  )
+  WHERE bli.id = i.id AND bli.livraison_id = p_id;
+
+  PERFORM check_delivery_quantities(p_id);
+  PERFORM refresh_delivery_note_totals(p_id);
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_audit_avoirs ON avoirs;
+CREATE TRIGGER trigger_audit_avoirs
+  AFTER INSERT OR UPDATE OR DELETE ON avoirs
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('livraison_id');
+
+DROP TRIGGER IF EXISTS trigger_audit_avoir_items ON avoir_items;
+CREATE TRIGGER trigger_audit_avoir_items
+  AFTER INSERT OR UPDATE OR DELETE ON avoir_items
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('avoir_id');
+
+DROP TRIGGER IF EXISTS trigger_audit_retours_fournisseurs ON retours_fournisseurs;
+CREATE TRIGGER trigger_audit_retours_fournisseurs
+  AFTER INSERT OR UPDATE OR DELETE ON retours_fournisseurs
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('bon_commande_id');
+
+DROP TRIGGER IF EXISTS trigger_audit_retour_fournisseur_items ON retour_fournisseur_items;
+CREATE TRIGGER trigger_audit_retour_fournisseur_items
+  AFTER INSERT OR UPDATE OR DELETE ON retour_fournisseur_items
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('retour_id');
+
+-- Enable RLS
+ALTER TABLE avoirs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE avoir_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retours_fournisseurs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retour_fournisseur_items ENABLE ROW LEVEL SECURITY;
+
+-- Written only by create_customer_return
+DROP POLICY IF EXISTS "Staff can read avoirs" ON avoirs;
+CREATE POLICY "Staff can read avoirs"
+  ON avoirs
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DROP POLICY IF EXISTS "Staff can read avoir_items" ON avoir_items;
+CREATE POLICY "Staff can read avoir_items"
+  ON avoir_items
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DROP POLICY IF EXISTS "Staff can read retours_fournisseurs" ON retours_fournisseurs;
+CREATE POLICY "Staff can read retours_fournisseurs"
+  ON retours_fournisseurs
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DROP POLICY IF EXISTS "Staff can read retour_fournisseur_items" ON retour_fournisseur_items;
+CREATE POLICY "Staff can read retour_fournisseur_items"
+  ON retour_fournisseur_items
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id FROM clients LOOP
+    PERFORM refresh_client_sales(r.id);
+    PERFORM refresh_client_margin(r.id);
+  END LOOP;
+END $$;
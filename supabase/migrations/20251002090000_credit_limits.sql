@@ -0,0 +1,400 @@
+/*
+  # Customer credit limits and payment terms
+
+  1. Schema Changes
+    - Add `plafond_credit` (numeric, nullable) to `clients` - maximum amount the client may owe,
+      no limit when empty
+    - Add `delai_paiement` (integer, nullable) to `clients` - payment terms in days from the
+      delivery date; without terms no BL of the client is ever overdue
+
+  2. New Tables
+    - `parametres` - application settings, a single row
+      - `controle_credit` (text) - 'avertir' (a BL over the limit or for a client with overdue
+        BLs is only flagged) or 'bloquer' (it is refused unless an admin overrides it)
+    - `derogations_credit` - BLs created past the credit control by an admin
+      - `livraison_id`, `client_id`, `motif` (text) - reason given by the admin
+      - `depassement` (numeric) - amount over the limit, `montant_en_retard` (numeric)
+
+  3. Functions
+    - `client_credit_check(uuid, numeric)` - debt of the client once a BL of the given amount (TTC,
+      like the debt) is delivered, compared to its limit, and its overdue BLs
+    - `create_delivery_note(...)` applies the credit control and takes the override reason
+      (`p_derogation_motif`); it locks the client row, so that two BLs created at the same time
+      are checked one after the other
+    - `update_delivery_note(...)` applies the same control, with the same override, when a BL
+      is reopened or its TTC grows
+
+  4. Security
+    - Settings are read by staff and changed by admins
+    - Overrides are read by staff and only written by `create_delivery_note` and
+      `update_delivery_note`
+    - BLs and their lines are only created by `create_delivery_note` (which runs with the
+      rights of its owner): staff keep direct updates and deletes, not inserts
+*/
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS plafond_credit numeric(12,2) CHECK (plafond_credit >= 0),
+ADD COLUMN IF NOT EXISTS delai_paiement integer CHECK (delai_paiement >= 0);
+
+COMMENT ON COLUMN clients.plafond_credit IS 'Maximum debt of the client, no limit when null';
+COMMENT ON COLUMN clients.delai_paiement IS 'Payment terms in days from the delivery date';
+
+-- SELECT on clients is granted column by column since the user roles
+GRANT SELECT (plafond_credit, delai_paiement) ON clients TO authenticated;
+
+-- Settings
+-- A single row: `unique_ligne` is always true. The id is a uuid like every
+-- table going through `audit_changes`.
+CREATE TABLE IF NOT EXISTS parametres (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  unique_ligne boolean NOT NULL DEFAULT true UNIQUE CHECK (unique_ligne),
+  controle_credit text NOT NULL DEFAULT 'avertir' CHECK (controle_credit IN ('avertir', 'bloquer'))
+);
+
+INSERT INTO parametres (unique_ligne)
+VALUES (true)
+ON CONFLICT (unique_ligne) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS derogations_credit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  livraison_id uuid NOT NULL REFERENCES bon_de_livraison(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  motif text NOT NULL CHECK (trim(motif) <> ''),
+  depassement numeric(12,2) NOT NULL DEFAULT 0,
+  montant_en_retard numeric(12,2) NOT NULL DEFAULT 0,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_derogations_credit_livraison_id ON derogations_credit(livraison_id);
+CREATE INDEX IF NOT EXISTS idx_derogations_credit_client_id ON derogations_credit(client_id);
+
+-- Credit position of a client for a new BL of p_montant (TTC)
+CREATE OR REPLACE FUNCTION client_credit_check(p_client_id uuid, p_montant numeric DEFAULT 0)
+RETURNS TABLE (
+  controle_credit text,
+  plafond_credit numeric,
+  encours numeric,
+  nouvel_encours numeric,
+  depassement numeric,
+  bl_en_retard integer,
+  montant_en_retard numeric
+) AS $$
+  SELECT
+    (SELECT p.controle_credit FROM parametres p LIMIT 1),
+    c.plafond_credit,
+    COALESCE(c.current_debt, 0),
+    -- An advance of the client is consumed first
+    GREATEST(COALESCE(c.current_debt, 0) - COALESCE(c.available_credit, 0) + COALESCE(p_montant, 0), 0),
+    CASE
+      WHEN c.plafond_credit IS NULL THEN 0
+      ELSE GREATEST(
+        GREATEST(COALESCE(c.current_debt, 0) - COALESCE(c.available_credit, 0) + COALESCE(p_montant, 0), 0)
+          - c.plafond_credit,
+        0
+      )
+    END,
+    COALESCE(r.nombre, 0)::integer,
+    COALESCE(r.montant, 0)
+  FROM clients c
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS nombre, SUM(bl.total_ttc - bl.montant_paye) AS montant
+    FROM bon_de_livraison bl
+    WHERE bl.client_id = c.id
+    AND bl.statut <> 'annulee'
+    AND bl.statut_paiement <> 'paye'
+    AND c.delai_paiement IS NOT NULL
+    AND bl.date_livraison + c.delai_paiement < CURRENT_DATE
+  ) r ON true
+  WHERE c.id = p_client_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION client_credit_check(uuid, numeric) TO authenticated;
+
+-- Delivery notes checked against the credit of the client
+DROP FUNCTION IF EXISTS create_delivery_note(uuid, uuid, uuid, text, date, text, jsonb, numeric, uuid);
+
+CREATE OR REPLACE FUNCTION create_delivery_note(
+  p_bon_commande_id uuid,
+  p_client_id uuid,
+  p_chauffeur_id uuid,
+  p_immatricule_utilise text,
+  p_date_livraison date,
+  p_notes text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL,
+  p_depot_id uuid DEFAULT NULL,
+  p_derogation_motif text DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+  v_check record;
+  v_montant numeric;
+  v_derogation text := NULLIF(trim(p_derogation_motif), '');
+BEGIN
+  IF NOT has_role(ARRAY['admin', 'commercial', 'comptable']) THEN
+    RAISE EXCEPTION 'Accès refusé' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Un bon de livraison doit contenir au moins un produit'
+      USING ERRCODE = '23514';
+  END IF;
+
+  -- TTC of the BL, computed per rate like refresh_delivery_note_totals()
+  SELECT COALESCE(SUM(base_ht + ROUND(base_ht * taux_tva / 100, 2)), 0)
+  INTO v_montant
+  FROM (
+    SELECT COALESCE(i.taux_tva, 20) AS taux_tva,
+      ROUND(SUM(COALESCE(i.quantite_livree, i.quantite_commandee) * i.prix_unitaire), 2) AS base_ht
+    FROM jsonb_to_recordset(p_items) AS i(
+      quantite_commandee numeric, quantite_livree numeric, prix_unitaire numeric, taux_tva numeric
+    )
+    GROUP BY COALESCE(i.taux_tva, 20)
+  ) per_rate;
+
+  -- Two BLs of the client are checked one after the other, each one seeing
+  -- the debt of the other once committed
+  PERFORM 1 FROM clients WHERE id = p_client_id FOR UPDATE;
+
+  SELECT * INTO v_check FROM client_credit_check(p_client_id, v_montant);
+
+  IF v_check.depassement > 0 OR v_check.bl_en_retard > 0 THEN
+    IF v_derogation IS NOT NULL THEN
+      IF NOT has_role(ARRAY['admin']) THEN
+        RAISE EXCEPTION 'Seul un administrateur peut forcer une livraison hors crédit' USING ERRCODE = '42501';
+      END IF;
+    ELSIF v_check.controle_credit = 'bloquer' THEN
+      RAISE EXCEPTION 'Livraison bloquée : %',
+        CASE
+          WHEN v_check.depassement > 0 THEN format('le plafond de crédit du client est dépassé de %s DH', v_check.depassement)
+          ELSE format('le client a %s BL en retard de paiement', v_check.bl_en_retard)
+        END
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  INSERT INTO bon_de_livraison (
+    bon_commande_id, client_id, chauffeur_id, depot_id,
+    immatricule_utilise, date_livraison, notes, statut, total_ht
+  )
+  VALUES (
+    p_bon_commande_id, p_client_id, p_chauffeur_id, p_depot_id,
+    p_immatricule_utilise, p_date_livraison, p_notes, 'livree', 0
+  )
+  RETURNING * INTO v_note;
+
+  INSERT INTO bon_de_livraison_items (
+    livraison_id, commande_item_id, produit_id, quantite_commandee, quantite_livree,
+    quantite_pieces, quantite_unitaire, prix_unitaire, taux_tva
+  )
+  SELECT
+    v_note.id, i.commande_item_id, i.produit_id, i.quantite_commandee, COALESCE(i.quantite_livree, i.quantite_commandee),
+    i.quantite_pieces, i.quantite_unitaire, i.prix_unitaire, COALESCE(i.taux_tva, 20)
+  FROM jsonb_to_recordset(p_items) AS i(
+    commande_item_id uuid,
+    produit_id uuid,
+    quantite_commandee numeric,
+    quantite_livree numeric,
+    quantite_pieces numeric,
+    quantite_unitaire numeric,
+    prix_unitaire numeric,
+    taux_tva numeric
+  );
+
+  PERFORM check_delivery_quantities(v_note.id);
+  PERFORM refresh_delivery_note_totals(v_note.id);
+
+  UPDATE bon_de_livraison
+  SET montant_chauffeur = COALESCE(
+    p_montant_chauffeur,
+    estimate_transport_cost(p_chauffeur_id, p_client_id, p_items)
+  )
+  WHERE id = v_note.id;
+
+  IF v_derogation IS NOT NULL AND (v_check.depassement > 0 OR v_check.bl_en_retard > 0) THEN
+    INSERT INTO derogations_credit (livraison_id, client_id, motif, depassement, montant_en_retard)
+    VALUES (v_note.id, p_client_id, v_derogation, v_check.depassement, v_check.montant_en_retard);
+  END IF;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = v_note.id;
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_delivery_note(uuid, uuid, uuid, text, date, text, jsonb, numeric, uuid, text) TO authenticated;
+
+-- A BL that is reopened or delivers more goes through the same credit control
+DROP FUNCTION IF EXISTS update_delivery_note(uuid, text, text, text, jsonb, numeric);
+
+CREATE OR REPLACE FUNCTION update_delivery_note(
+  p_id uuid,
+  p_statut text,
+  p_notes text,
+  p_immatricule_utilise text,
+  p_items jsonb,
+  p_montant_chauffeur numeric DEFAULT NULL,
+  p_derogation_motif text DEFAULT NULL
+)
+RETURNS bon_de_livraison AS $$
+DECLARE
+  v_note bon_de_livraison;
+  v_client_id uuid;
+  v_montant_avant numeric;
+  v_check record;
+  v_derogation text := NULLIF(trim(p_derogation_motif), '');
+BEGIN
+  -- The client is locked before the BL, in the order of create_delivery_note
+  SELECT client_id INTO v_client_id FROM bon_de_livraison WHERE id = p_id;
+  PERFORM 1 FROM clients WHERE id = v_client_id FOR UPDATE;
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bon de livraison introuvable' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_note.statut = 'livree' AND EXISTS (
+    SELECT 1
+    FROM bon_de_livraison_items bli
+    JOIN jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(id uuid, quantite_livree numeric)
+      ON i.id = bli.id
+    WHERE bli.livraison_id = p_id
+    AND bli.quantite_livree IS DISTINCT FROM i.quantite_livree
+  ) THEN
+    RAISE EXCEPTION 'Les quantités d''un bon de livraison livré se corrigent par un retour client'
+      USING ERRCODE = '23514';
+  END IF;
+
+  v_montant_avant := CASE WHEN v_note.statut = 'annulee' THEN 0 ELSE v_note.total_ttc END;
+
+  UPDATE bon_de_livraison
+  SET
+    statut = p_statut,
+    notes = NULLIF(trim(p_notes), ''),
+    immatricule_utilise = trim(p_immatricule_utilise),
+    montant_chauffeur = COALESCE(p_montant_chauffeur, montant_chauffeur)
+  WHERE id = p_id;
+
+  UPDATE bon_de_livraison_items bli
+  SET
+    quantite_livree = i.quantite_livree,
+    taux_tva = COALESCE(i.taux_tva, bli.taux_tva)
+  FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+    id uuid,
+    quantite_livree numeric,
+    taux_tva numeric
+  )
+  WHERE bli.id = i.id AND bli.livraison_id = p_id;
+
+  PERFORM check_delivery_quantities(p_id);
+  PERFORM refresh_delivery_note_totals(p_id);
+
+  SELECT * INTO v_note FROM bon_de_livraison WHERE id = p_id;
+
+  -- The balance triggers have already added the BL to the debt of the client
+  IF v_note.statut <> 'annulee' AND v_note.total_ttc > v_montant_avant THEN
+    SELECT * INTO v_check FROM client_credit_check(v_note.client_id, 0);
+
+    IF v_check.depassement > 0 OR v_check.bl_en_retard > 0 THEN
+      IF v_derogation IS NOT NULL THEN
+        IF NOT has_role(ARRAY['admin']) THEN
+          RAISE EXCEPTION 'Seul un administrateur peut forcer une livraison hors crédit' USING ERRCODE = '42501';
+        END IF;
+
+        INSERT INTO derogations_credit (livraison_id, client_id, motif, depassement, montant_en_retard)
+        VALUES (p_id, v_note.client_id, v_derogation, v_check.depassement, v_check.montant_en_retard);
+      ELSIF v_check.controle_credit = 'bloquer' THEN
+        RAISE EXCEPTION 'Livraison bloquée : %',
+          CASE
+            WHEN v_check.depassement > 0 THEN format('le plafond de crédit du client est dépassé de %s DH', v_check.depassement)
+            ELSE format('le client a %s BL en retard de paiement', v_check.bl_en_retard)
+          END
+          USING ERRCODE = '23514';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION update_delivery_note(uuid, text, text, text, jsonb, numeric, text) TO authenticated;
+
+DROP TRIGGER IF EXISTS trigger_audit_parametres ON parametres;
+CREATE TRIGGER trigger_audit_parametres
+  AFTER INSERT OR UPDATE OR DELETE ON parametres
+  FOR EACH ROW EXECUTE FUNCTION audit_changes();
+
+DROP TRIGGER IF EXISTS trigger_audit_derogations_credit ON derogations_credit;
+CREATE TRIGGER trigger_audit_derogations_credit
+  AFTER INSERT OR UPDATE OR DELETE ON derogations_credit
+  FOR EACH ROW EXECUTE FUNCTION audit_changes('livraison_id');
+
+-- Enable RLS
+ALTER TABLE parametres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE derogations_credit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read parametres" ON parametres;
+CREATE POLICY "Staff can read parametres"
+  ON parametres
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+DROP POLICY IF EXISTS "Admins can update parametres" ON parametres;
+CREATE POLICY "Admins can update parametres"
+  ON parametres
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin']))
+  WITH CHECK (has_role(ARRAY['admin']));
+
+DROP POLICY IF EXISTS "Staff can read derogations_credit" ON derogations_credit;
+CREATE POLICY "Staff can read derogations_credit"
+  ON derogations_credit
+  FOR SELECT
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'comptable', 'commercial']));
+
+-- Written by create_delivery_note and update_delivery_note, on behalf of an admin
+DROP POLICY IF EXISTS "Admins can insert derogations_credit" ON derogations_credit;
+CREATE POLICY "Admins can insert derogations_credit"
+  ON derogations_credit
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_role(ARRAY['admin']));
+
+-- BLs are only created by create_delivery_note, past the credit control
+DROP POLICY IF EXISTS "Staff can manage bon_de_livraison" ON bon_de_livraison;
+DROP POLICY IF EXISTS "Staff can update bon_de_livraison" ON bon_de_livraison;
+CREATE POLICY "Staff can update bon_de_livraison"
+  ON bon_de_livraison
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+DROP POLICY IF EXISTS "Staff can delete bon_de_livraison" ON bon_de_livraison;
+CREATE POLICY "Staff can delete bon_de_livraison"
+  ON bon_de_livraison
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+DROP POLICY IF EXISTS "Staff can manage bon_de_livraison_items" ON bon_de_livraison_items;
+DROP POLICY IF EXISTS "Staff can update bon_de_livraison_items" ON bon_de_livraison_items;
+CREATE POLICY "Staff can update bon_de_livraison_items"
+  ON bon_de_livraison_items
+  FOR UPDATE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']))
+  WITH CHECK (has_role(ARRAY['admin', 'commercial', 'comptable']));
+
+DROP POLICY IF EXISTS "Staff can delete bon_de_livraison_items" ON bon_de_livraison_items;
+CREATE POLICY "Staff can delete bon_de_livraison_items"
+  ON bon_de_livraison_items
+  FOR DELETE
+  TO authenticated
+  USING (has_role(ARRAY['admin', 'commercial', 'comptable']));
@@ -0,0 +1,105 @@
+/*
+  # Supplier payment terms
+
+  1. Schema Changes
+    - Add `delai_paiement` (integer, nullable) to `fournisseurs` - payment terms in days from the
+      order date (`bon_de_commande.date_commande`); without terms a BC is due on its order date
+    - Used by the payables aging report and the supplier payment planning
+
+  2. Functions
+    - `supplier_payables()` - the BCs that are not fully paid, oldest due date first
+      - a BC owes its `total_ttc` minus the goods sent back on it (`retours_fournisseurs`, TTC),
+        the amounts the supplier payments settle
+      - supplier payments are not tied to a BC: they pay the oldest BCs of the supplier first, so
+        the open amounts of a supplier add up to what `fournisseurs.current_debt` reports
+      - `date_echeance` and `jours_retard` follow the payment terms of the supplier
+
+  3. Security
+    - Runs with the rights of the caller: the RLS of the underlying tables still applies
+*/
+
+ALTER TABLE fournisseurs
+ADD COLUMN IF NOT EXISTS delai_paiement integer CHECK (delai_paiement >= 0);
+
+COMMENT ON COLUMN fournisseurs.delai_paiement IS 'Payment terms in days from the order date';
+
+-- The returned columns changed (`total_ttc` instead of `total_ht`)
+DROP FUNCTION IF EXISTS supplier_payables();
+
+CREATE OR REPLACE FUNCTION supplier_payables()
+RETURNS TABLE (
+  id uuid,
+  numero_commande text,
+  date_commande date,
+  total_ttc numeric,
+  total_retours numeric,
+  montant_paye numeric,
+  reste numeric,
+  date_echeance date,
+  jours_retard integer,
+  fournisseur_id uuid,
+  numero_fournisseur text,
+  nom text,
+  prenom text,
+  societe text,
+  delai_paiement integer
+) AS $$
+  WITH commandes AS (
+    SELECT
+      bc.id,
+      bc.numero_commande,
+      bc.date_commande,
+      bc.fournisseur_id,
+      bc.total_ttc,
+      COALESCE(r.total, 0) AS total_retours,
+      bc.total_ttc - COALESCE(r.total, 0) AS du,
+      -- What the supplier is owed up to this BC included, oldest BCs first
+      SUM(bc.total_ttc - COALESCE(r.total, 0)) OVER (
+        PARTITION BY bc.fournisseur_id
+        ORDER BY bc.date_commande, bc.numero_commande
+        ROWS UNBOUNDED PRECEDING
+      ) AS cumul
+    FROM bon_de_commande bc
+    LEFT JOIN (
+      SELECT bon_commande_id, SUM(total_ttc) AS total
+      FROM retours_fournisseurs
+      GROUP BY bon_commande_id
+    ) r ON r.bon_commande_id = bc.id
+    WHERE bc.statut <> 'annulee'
+  ),
+  paiements AS (
+    SELECT pf.fournisseur_id, SUM(pf.montant) AS total
+    FROM paiements_fournisseurs pf
+    GROUP BY pf.fournisseur_id
+  ),
+  affectes AS (
+    SELECT
+      c.*,
+      -- The payments left once the older BCs are paid, up to what this one owes
+      LEAST(GREATEST(COALESCE(p.total, 0) - (c.cumul - c.du), 0), c.du) AS paye
+    FROM commandes c
+    LEFT JOIN paiements p ON p.fournisseur_id = c.fournisseur_id
+  )
+  SELECT
+    a.id,
+    a.numero_commande,
+    a.date_commande,
+    a.total_ttc,
+    a.total_retours,
+    a.paye,
+    a.du - a.paye,
+    a.date_commande + COALESCE(f.delai_paiement, 0),
+    GREATEST(CURRENT_DATE - (a.date_commande + COALESCE(f.delai_paiement, 0)), 0),
+    f.id,
+    f.numero_fournisseur,
+    f.nom,
+    f.prenom,
+    f.societe,
+    f.delai_paiement
+  FROM affectes a
+  JOIN fournisseurs f ON f.id = a.fournisseur_id
+  WHERE a.du - a.paye > 0
+  ORDER BY a.date_commande + COALESCE(f.delai_paiement, 0), a.date_commande, a.numero_commande;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION supplier_payables() TO authenticated;
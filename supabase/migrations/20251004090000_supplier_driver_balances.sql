@@ -0,0 +1,206 @@
+/*
+  # Supplier and driver balances
+
+  1. Schema Changes
+    - Add to `fournisseurs`:
+      - `total_commandes` (numeric) - BCs that are not cancelled (TTC)
+      - `total_retours` (numeric) - goods sent back to the supplier (TTC)
+      - `total_paiements` (numeric) - payments made to the supplier
+      - `current_debt` (numeric) - what we still owe the supplier
+      - `available_credit` (numeric) - advance the supplier has received
+    - Add to `chauffeurs`:
+      - `total_du` (numeric) - `montant_chauffeur` of their BLs that are not cancelled, plus their salaries
+      - `total_paiements` (numeric) - payments made to the driver
+      - `current_debt` (numeric) - what we still owe the driver
+      - `available_credit` (numeric) - advance the driver has received
+
+  2. Functions
+    - `refresh_supplier_balance(uuid)` - recomputes the totals and balance of a supplier
+    - `refresh_driver_balance(uuid)` - recomputes the totals and balance of a driver
+
+  3. Triggers
+    - Supplier balance: `bon_de_commande`, `retours_fournisseurs`, `paiements_fournisseurs`
+    - Driver balance: `salaires_chauffeurs`, `paiements_chauffeurs`, and the balance trigger of
+      `bon_de_livraison`, which refreshes the driver after the client totals
+    - A document moved to another supplier or driver refreshes both of them
+
+  4. Data
+    - The balances of existing suppliers and drivers are computed once
+*/
+
+ALTER TABLE fournisseurs
+ADD COLUMN IF NOT EXISTS total_commandes numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_retours numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_paiements numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS current_debt numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS available_credit numeric(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE chauffeurs
+ADD COLUMN IF NOT EXISTS total_du numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS total_paiements numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS current_debt numeric(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS available_credit numeric(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN fournisseurs.current_debt IS 'Orders minus returns minus payments, when positive';
+COMMENT ON COLUMN fournisseurs.available_credit IS 'Payments beyond orders minus returns';
+COMMENT ON COLUMN chauffeurs.current_debt IS 'Trips and salaries owed minus payments, when positive';
+COMMENT ON COLUMN chauffeurs.available_credit IS 'Payments beyond trips and salaries owed';
+
+CREATE OR REPLACE FUNCTION refresh_supplier_balance(p_fournisseur_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_fournisseur_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE fournisseurs f
+  SET total_commandes = s.commandes,
+      total_retours = s.retours,
+      total_paiements = s.paiements,
+      current_debt = GREATEST(s.commandes - s.retours - s.paiements, 0),
+      available_credit = GREATEST(s.paiements - s.commandes + s.retours, 0)
+  FROM (
+    SELECT
+      COALESCE((
+        SELECT SUM(total_ttc) FROM bon_de_commande
+        WHERE fournisseur_id = p_fournisseur_id AND statut <> 'annulee'
+      ), 0) AS commandes,
+      COALESCE((
+        SELECT SUM(total_ttc) FROM retours_fournisseurs
+        WHERE fournisseur_id = p_fournisseur_id
+      ), 0) AS retours,
+      COALESCE((
+        SELECT SUM(montant) FROM paiements_fournisseurs
+        WHERE fournisseur_id = p_fournisseur_id
+      ), 0) AS paiements
+  ) s
+  WHERE f.id = p_fournisseur_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only run by the balance triggers
+REVOKE EXECUTE ON FUNCTION refresh_supplier_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_driver_balance(p_chauffeur_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_chauffeur_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE chauffeurs c
+  SET total_du = s.du,
+      total_paiements = s.paiements,
+      current_debt = GREATEST(s.du - s.paiements, 0),
+      available_credit = GREATEST(s.paiements - s.du, 0)
+  FROM (
+    SELECT
+      COALESCE((
+        SELECT SUM(montant_chauffeur) FROM bon_de_livraison
+        WHERE chauffeur_id = p_chauffeur_id AND statut <> 'annulee'
+      ), 0) + COALESCE((
+        SELECT SUM(montant) FROM salaires_chauffeurs
+        WHERE chauffeur_id = p_chauffeur_id
+      ), 0) AS du,
+      COALESCE((
+        SELECT SUM(montant) FROM paiements_chauffeurs
+        WHERE chauffeur_id = p_chauffeur_id
+      ), 0) AS paiements
+  ) s
+  WHERE c.id = p_chauffeur_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only run by the balance triggers
+REVOKE EXECUTE ON FUNCTION refresh_driver_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Shared by every table with a `fournisseur_id`
+CREATE OR REPLACE FUNCTION refresh_supplier_balance_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_supplier_balance(OLD.fournisseur_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.fournisseur_id IS DISTINCT FROM OLD.fournisseur_id) THEN
+    PERFORM refresh_supplier_balance(NEW.fournisseur_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Shared by every table with a `chauffeur_id`
+CREATE OR REPLACE FUNCTION refresh_driver_balance_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_driver_balance(OLD.chauffeur_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.chauffeur_id IS DISTINCT FROM OLD.chauffeur_id) THEN
+    PERFORM refresh_driver_balance(NEW.chauffeur_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Totals of the client of a BL (sales, which refresh the balance, then
+-- margin) and balance of its driver
+CREATE OR REPLACE FUNCTION refresh_delivery_note_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_client_sales(OLD.client_id);
+    PERFORM refresh_client_margin(OLD.client_id);
+    PERFORM refresh_driver_balance(OLD.chauffeur_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM refresh_client_sales(NEW.client_id);
+    PERFORM refresh_client_margin(NEW.client_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.chauffeur_id IS DISTINCT FROM OLD.chauffeur_id) THEN
+    PERFORM refresh_driver_balance(NEW.chauffeur_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_balances_bon_de_commande ON bon_de_commande;
+CREATE TRIGGER trigger_balances_bon_de_commande
+  AFTER INSERT OR UPDATE OF total_ttc, statut, fournisseur_id OR DELETE ON bon_de_commande
+  FOR EACH ROW EXECUTE FUNCTION refresh_supplier_balance_on_change();
+
+DROP TRIGGER IF EXISTS trigger_balances_retours_fournisseurs ON retours_fournisseurs;
+CREATE TRIGGER trigger_balances_retours_fournisseurs
+  AFTER INSERT OR UPDATE OF total_ttc, fournisseur_id OR DELETE ON retours_fournisseurs
+  FOR EACH ROW EXECUTE FUNCTION refresh_supplier_balance_on_change();
+
+DROP TRIGGER IF EXISTS trigger_balances_paiements_fournisseurs ON paiements_fournisseurs;
+CREATE TRIGGER trigger_balances_paiements_fournisseurs
+  AFTER INSERT OR UPDATE OF montant, fournisseur_id OR DELETE ON paiements_fournisseurs
+  FOR EACH ROW EXECUTE FUNCTION refresh_supplier_balance_on_change();
+
+DROP TRIGGER IF EXISTS trigger_balances_bon_de_livraison ON bon_de_livraison;
+CREATE TRIGGER trigger_balances_bon_de_livraison
+  AFTER INSERT OR UPDATE OF total_ht, total_ttc, montant_chauffeur, statut, client_id, chauffeur_id OR DELETE ON bon_de_livraison
+  FOR EACH ROW EXECUTE FUNCTION refresh_delivery_note_balances();
+
+DROP TRIGGER IF EXISTS trigger_balances_salaires_chauffeurs ON salaires_chauffeurs;
+CREATE TRIGGER trigger_balances_salaires_chauffeurs
+  AFTER INSERT OR UPDATE OF montant, chauffeur_id OR DELETE ON salaires_chauffeurs
+  FOR EACH ROW EXECUTE FUNCTION refresh_driver_balance_on_change();
+
+DROP TRIGGER IF EXISTS trigger_balances_paiements_chauffeurs ON paiements_chauffeurs;
+CREATE TRIGGER trigger_balances_paiements_chauffeurs
+  AFTER INSERT OR UPDATE OF montant, chauffeur_id OR DELETE ON paiements_chauffeurs
+  FOR EACH ROW EXECUTE FUNCTION refresh_driver_balance_on_change();
+
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id FROM fournisseurs LOOP
+    PERFORM refresh_supplier_balance(r.id);
+  END LOOP;
+  FOR r IN SELECT id FROM chauffeurs LOOP
+    PERFORM refresh_driver_balance(r.id);
+  END LOOP;
+END $$;
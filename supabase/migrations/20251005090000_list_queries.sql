@@ -0,0 +1,334 @@
+/*
+  # Server-side list queries
+
+  1. New Views
+    - `paiements` - client, supplier and driver payments in one list
+      - the columns shared by the three tables, plus `type` ('client', 'fournisseur', 'chauffeur')
+      - `banque`, `date_echeance`, `statut_instrument` - only set for client payments
+      - `entity_id`, `entity_nom`, `entity_prenom`, `entity_societe`, `entity_numero` - the party
+        the payment was made to or received from
+
+  2. Functions
+    - `search_matches(text, VARIADIC text[])` - true when the search is empty or contained in one
+      of the values, case-insensitive
+    - Filtered lists, returning the rows of the table (or view) so that PostgREST can embed their
+      relations, sort them and return one page with the total count:
+      - `search_clients(recherche, date_debut, date_fin)` - on the creation date
+      - `search_purchase_orders(recherche, date_debut, date_fin, statut)`
+      - `search_delivery_notes(recherche, date_debut, date_fin, statut, chauffeur_id, statut_paiement)`
+        - cancelled BLs are left out
+      - `search_payments(recherche, date_debut, date_fin, type, mode_paiement)`
+    - Totals of the same filtered lists for the summary cards:
+      `client_list_totals`, `purchase_order_list_totals`, `delivery_note_list_totals`,
+      `payment_list_totals`
+      - the margin total of `client_list_totals` is NULL for the roles that may not see margins
+
+  3. Security
+    - The view and the functions run with the rights of the caller: the RLS of the underlying
+      tables still applies (a 'chauffeur' only sees their own BLs and payments)
+
+  4. Indexes
+    - On the dates the lists are filtered and sorted on
+*/
+
+CREATE OR REPLACE VIEW paiements
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  'client'::text AS type,
+  p.numero_paiement,
+  p.montant,
+  p.mode_paiement,
+  p.reference,
+  p.issuer,
+  p.banque,
+  p.date_echeance,
+  p.statut_instrument,
+  p.date_paiement,
+  p.notes,
+  p.created_at,
+  p.updated_at,
+  p.created_by,
+  p.updated_by,
+  c.id AS entity_id,
+  c.nom AS entity_nom,
+  c.prenom AS entity_prenom,
+  c.societe AS entity_societe,
+  c.numero_client AS entity_numero
+FROM paiements_clients p
+JOIN clients c ON c.id = p.client_id
+UNION ALL
+SELECT
+  p.id,
+  'fournisseur'::text,
+  p.numero_paiement,
+  p.montant,
+  p.mode_paiement,
+  p.reference,
+  p.issuer,
+  NULL::text,
+  NULL::date,
+  NULL::text,
+  p.date_paiement,
+  p.notes,
+  p.created_at,
+  p.updated_at,
+  p.created_by,
+  p.updated_by,
+  f.id,
+  f.nom,
+  f.prenom,
+  f.societe,
+  f.numero_fournisseur
+FROM paiements_fournisseurs p
+JOIN fournisseurs f ON f.id = p.fournisseur_id
+UNION ALL
+SELECT
+  p.id,
+  'chauffeur'::text,
+  p.numero_paiement,
+  p.montant,
+  p.mode_paiement,
+  p.reference,
+  p.issuer,
+  NULL::text,
+  NULL::date,
+  NULL::text,
+  p.date_paiement,
+  p.notes,
+  p.created_at,
+  p.updated_at,
+  p.created_by,
+  p.updated_by,
+  ch.id,
+  ch.nom,
+  ch.prenom,
+  NULL::text,
+  ch.numero_chauffeur
+FROM paiements_chauffeurs p
+JOIN chauffeurs ch ON ch.id = p.chauffeur_id;
+
+GRANT SELECT ON paiements TO authenticated;
+
+CREATE OR REPLACE FUNCTION search_matches(p_recherche text, VARIADIC p_valeurs text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(trim(p_recherche), '') = ''
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_valeurs) v
+      WHERE strpos(lower(v), lower(trim(p_recherche))) > 0
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Clients
+CREATE OR REPLACE FUNCTION search_clients(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL
+)
+RETURNS SETOF clients AS $$
+  SELECT c.*
+  FROM clients c
+  WHERE search_matches(p_recherche, c.nom, c.prenom, c.societe, c.numero_client, c.email)
+  AND (p_date_debut IS NULL OR c.created_at::date >= p_date_debut)
+  AND (p_date_fin IS NULL OR c.created_at::date <= p_date_fin);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION client_list_totals(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL
+)
+RETURNS TABLE (
+  nombre bigint,
+  chiffre_affaires numeric,
+  total_paiements numeric,
+  current_debt numeric,
+  available_credit numeric,
+  total_margin numeric
+) AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(c.chiffre_affaires), 0),
+    COALESCE(SUM(c.total_paiements), 0),
+    COALESCE(SUM(c.current_debt), 0),
+    COALESCE(SUM(c.available_credit), 0),
+    -- Margins are only summed for the roles that may see them
+    CASE WHEN has_role(ARRAY['admin', 'comptable']) THEN COALESCE(SUM(c.total_margin), 0) END
+  FROM search_clients(p_recherche, p_date_debut, p_date_fin) c;
+$$ LANGUAGE sql STABLE;
+
+-- Purchase orders: the search also covers the clients the BC was delivered to
+CREATE OR REPLACE FUNCTION search_purchase_orders(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_statut text DEFAULT NULL
+)
+RETURNS SETOF bon_de_commande AS $$
+  SELECT bc.*
+  FROM bon_de_commande bc
+  LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+  WHERE (p_date_debut IS NULL OR bc.date_commande >= p_date_debut)
+  AND (p_date_fin IS NULL OR bc.date_commande <= p_date_fin)
+  AND (COALESCE(p_statut, '') = '' OR bc.statut = p_statut)
+  AND (
+    search_matches(p_recherche, bc.numero_commande, f.nom, f.prenom, f.societe, f.prenom || ' ' || f.nom)
+    OR EXISTS (
+      SELECT 1
+      FROM bon_de_livraison bl
+      JOIN clients c ON c.id = bl.client_id
+      WHERE bl.bon_commande_id = bc.id AND bl.statut <> 'annulee'
+      AND search_matches(p_recherche, c.nom, c.prenom, c.societe, c.prenom || ' ' || c.nom)
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION purchase_order_list_totals(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_statut text DEFAULT NULL
+)
+RETURNS TABLE (
+  nombre bigint,
+  total_ht numeric,
+  nombre_confirmees bigint,
+  total_confirmees numeric,
+  nombre_livrees bigint,
+  total_livrees numeric,
+  nombre_envoyees bigint,
+  total_envoyees numeric,
+  nombre_brouillons bigint
+) AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(bc.total_ht), 0),
+    COUNT(*) FILTER (WHERE bc.statut = 'confirmee'),
+    COALESCE(SUM(bc.total_ht) FILTER (WHERE bc.statut = 'confirmee'), 0),
+    COUNT(*) FILTER (WHERE bc.statut = 'livree'),
+    COALESCE(SUM(bc.total_ht) FILTER (WHERE bc.statut = 'livree'), 0),
+    COUNT(*) FILTER (WHERE bc.statut = 'envoyee'),
+    COALESCE(SUM(bc.total_ht) FILTER (WHERE bc.statut = 'envoyee'), 0),
+    COUNT(*) FILTER (WHERE bc.statut = 'brouillon')
+  FROM search_purchase_orders(p_recherche, p_date_debut, p_date_fin, p_statut) bc;
+$$ LANGUAGE sql STABLE;
+
+-- Delivery notes that are not cancelled
+CREATE OR REPLACE FUNCTION search_delivery_notes(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_statut text DEFAULT NULL,
+  p_chauffeur_id uuid DEFAULT NULL,
+  p_statut_paiement text DEFAULT NULL
+)
+RETURNS SETOF bon_de_livraison AS $$
+  SELECT bl.*
+  FROM bon_de_livraison bl
+  LEFT JOIN clients c ON c.id = bl.client_id
+  LEFT JOIN chauffeurs ch ON ch.id = bl.chauffeur_id
+  LEFT JOIN bon_de_commande bc ON bc.id = bl.bon_commande_id
+  LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+  WHERE bl.statut <> 'annulee'
+  AND (p_date_debut IS NULL OR bl.date_livraison >= p_date_debut)
+  AND (p_date_fin IS NULL OR bl.date_livraison <= p_date_fin)
+  AND (COALESCE(p_statut, '') = '' OR bl.statut = p_statut)
+  AND (p_chauffeur_id IS NULL OR bl.chauffeur_id = p_chauffeur_id)
+  AND (COALESCE(p_statut_paiement, '') = '' OR bl.statut_paiement = p_statut_paiement)
+  AND search_matches(
+    p_recherche,
+    bl.numero_livraison, bc.numero_commande,
+    c.nom, c.prenom, c.societe, c.prenom || ' ' || c.nom, c.nom || ' ' || c.prenom,
+    ch.nom, ch.prenom, ch.prenom || ' ' || ch.nom, ch.nom || ' ' || ch.prenom,
+    f.nom, f.prenom, f.societe, f.numero_fournisseur, f.prenom || ' ' || f.nom, f.nom || ' ' || f.prenom
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION delivery_note_list_totals(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_statut text DEFAULT NULL,
+  p_chauffeur_id uuid DEFAULT NULL,
+  p_statut_paiement text DEFAULT NULL
+)
+RETURNS TABLE (
+  nombre bigint,
+  total_ht numeric,
+  nombre_livrees bigint,
+  total_livrees numeric,
+  nombre_en_attente bigint,
+  total_en_attente numeric,
+  nombre_en_preparation bigint,
+  nombre_en_cours bigint
+) AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(bl.total_ht), 0),
+    COUNT(*) FILTER (WHERE bl.statut = 'livree'),
+    COALESCE(SUM(bl.total_ht) FILTER (WHERE bl.statut = 'livree'), 0),
+    COUNT(*) FILTER (WHERE bl.statut <> 'livree'),
+    COALESCE(SUM(bl.total_ht) FILTER (WHERE bl.statut <> 'livree'), 0),
+    COUNT(*) FILTER (WHERE bl.statut = 'en_preparation'),
+    COUNT(*) FILTER (WHERE bl.statut = 'en_cours')
+  FROM search_delivery_notes(p_recherche, p_date_debut, p_date_fin, p_statut, p_chauffeur_id, p_statut_paiement) bl;
+$$ LANGUAGE sql STABLE;
+
+-- Payments of every kind
+CREATE OR REPLACE FUNCTION search_payments(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_mode_paiement text DEFAULT NULL
+)
+RETURNS SETOF paiements AS $$
+  SELECT p.*
+  FROM paiements p
+  WHERE (p_date_debut IS NULL OR p.date_paiement >= p_date_debut)
+  AND (p_date_fin IS NULL OR p.date_paiement <= p_date_fin)
+  AND (COALESCE(p_type, '') = '' OR p.type = p_type)
+  AND (COALESCE(p_mode_paiement, '') = '' OR p.mode_paiement = p_mode_paiement)
+  AND search_matches(
+    p_recherche,
+    p.numero_paiement, p.reference, p.issuer,
+    p.entity_nom, p.entity_prenom, p.entity_societe, p.entity_numero,
+    p.entity_prenom || ' ' || p.entity_nom, p.entity_nom || ' ' || p.entity_prenom
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION payment_list_totals(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_mode_paiement text DEFAULT NULL
+)
+RETURNS TABLE (
+  nombre bigint,
+  total numeric,
+  nombre_clients bigint,
+  total_clients numeric,
+  nombre_fournisseurs bigint,
+  total_fournisseurs numeric,
+  nombre_chauffeurs bigint,
+  total_chauffeurs numeric
+) AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(p.montant), 0),
+    COUNT(*) FILTER (WHERE p.type = 'client'),
+    COALESCE(SUM(p.montant) FILTER (WHERE p.type = 'client'), 0),
+    COUNT(*) FILTER (WHERE p.type = 'fournisseur'),
+    COALESCE(SUM(p.montant) FILTER (WHERE p.type = 'fournisseur'), 0),
+    COUNT(*) FILTER (WHERE p.type = 'chauffeur'),
+    COALESCE(SUM(p.montant) FILTER (WHERE p.type = 'chauffeur'), 0)
+  FROM search_payments(p_recherche, p_date_debut, p_date_fin, p_type, p_mode_paiement) p;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_bon_de_livraison_date_livraison ON bon_de_livraison(date_livraison);
+CREATE INDEX IF NOT EXISTS idx_bon_de_commande_date_commande ON bon_de_commande(date_commande);
+CREATE INDEX IF NOT EXISTS idx_paiements_clients_date_paiement ON paiements_clients(date_paiement);
+CREATE INDEX IF NOT EXISTS idx_paiements_fournisseurs_date_paiement ON paiements_fournisseurs(date_paiement);
+CREATE INDEX IF NOT EXISTS idx_paiements_chauffeurs_date_paiement ON paiements_chauffeurs(date_paiement);
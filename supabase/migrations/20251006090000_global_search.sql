@@ -0,0 +1,108 @@
+/*
+  # Global search
+
+  1. Functions
+    - `global_search(recherche, limite)` - the clients, suppliers, drivers, products, BCs, BLs
+      and payments matching the search, at most `limite` of each type
+      - `type` - 'client', 'fournisseur', 'chauffeur', 'produit', 'bon_de_commande',
+        'bon_de_livraison' or 'paiement'
+      - `id` - the matching row (for payments, the id in their own table)
+      - `libelle` - number or name shown as the result title
+      - `detail` - second line: the party of the document, the ICE of the client...
+      - searches shorter than 2 characters return nothing
+    - Matched columns:
+      - clients and suppliers: name, société, ICE, number, email, phone
+      - drivers: name, number, phone, registration
+      - products: name
+      - BCs and BLs: number, supplier or client
+      - payments: number, reference, issuer
+
+  2. Security
+    - Runs with the rights of the caller: the RLS of the underlying tables still applies
+*/
+
+CREATE OR REPLACE FUNCTION global_search(
+  p_recherche text,
+  p_limite integer DEFAULT 5
+)
+RETURNS TABLE (
+  type text,
+  id uuid,
+  libelle text,
+  detail text
+) AS $$
+  WITH recherche AS (
+    SELECT trim(p_recherche) AS terme
+    WHERE length(trim(COALESCE(p_recherche, ''))) >= 2
+  )
+  (
+    SELECT 'client', c.id, COALESCE(NULLIF(c.societe, ''), c.prenom || ' ' || c.nom),
+      c.numero_client || COALESCE(' · ICE ' || NULLIF(c.ice, ''), '')
+    FROM clients c, recherche r
+    WHERE search_matches(r.terme, c.nom, c.prenom, c.prenom || ' ' || c.nom, c.societe, c.ice,
+      c.numero_client, c.email, c.telephone)
+    ORDER BY c.societe, c.nom
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'fournisseur', f.id, COALESCE(NULLIF(f.societe, ''), f.prenom || ' ' || f.nom),
+      f.numero_fournisseur || COALESCE(' · ICE ' || NULLIF(f.ice, ''), '')
+    FROM fournisseurs f, recherche r
+    WHERE search_matches(r.terme, f.nom, f.prenom, f.prenom || ' ' || f.nom, f.societe, f.ice,
+      f.numero_fournisseur, f.email, f.telephone)
+    ORDER BY f.societe, f.nom
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'chauffeur', ch.id, ch.prenom || ' ' || ch.nom,
+      ch.numero_chauffeur || COALESCE(' · ' || NULLIF(ch.immatricule, ''), '')
+    FROM chauffeurs ch, recherche r
+    WHERE search_matches(r.terme, ch.nom, ch.prenom, ch.prenom || ' ' || ch.nom,
+      ch.numero_chauffeur, ch.telephone, ch.immatricule)
+    ORDER BY ch.nom, ch.prenom
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'produit', p.id, p.nom_produit, p.unite
+    FROM produits p, recherche r
+    WHERE search_matches(r.terme, p.nom_produit)
+    ORDER BY p.nom_produit
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'bon_de_commande', bc.id, bc.numero_commande,
+      COALESCE(NULLIF(f.societe, ''), f.prenom || ' ' || f.nom) || ' · ' || to_char(bc.date_commande, 'DD/MM/YYYY')
+    FROM bon_de_commande bc
+    LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+    CROSS JOIN recherche r
+    WHERE search_matches(r.terme, bc.numero_commande)
+    ORDER BY bc.date_commande DESC, bc.numero_commande DESC
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'bon_de_livraison', bl.id, bl.numero_livraison,
+      COALESCE(NULLIF(c.societe, ''), c.prenom || ' ' || c.nom) || ' · ' || to_char(bl.date_livraison, 'DD/MM/YYYY')
+    FROM bon_de_livraison bl
+    LEFT JOIN clients c ON c.id = bl.client_id
+    CROSS JOIN recherche r
+    WHERE search_matches(r.terme, bl.numero_livraison)
+    ORDER BY bl.date_livraison DESC, bl.numero_livraison DESC
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'paiement', pa.id, pa.numero_paiement,
+      COALESCE(NULLIF(pa.entity_societe, ''), pa.entity_prenom || ' ' || pa.entity_nom)
+        || COALESCE(' · ' || NULLIF(pa.reference, ''), '')
+        || COALESCE(' · ' || NULLIF(pa.issuer, ''), '')
+    FROM paiements pa, recherche r
+    WHERE search_matches(r.terme, pa.numero_paiement, pa.reference, pa.issuer)
+    ORDER BY pa.date_paiement DESC, pa.numero_paiement DESC
+    LIMIT p_limite
+  );
+$$ LANGUAGE sql STABLE;
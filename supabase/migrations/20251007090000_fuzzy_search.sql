@@ -0,0 +1,576 @@
+/*
+  # Accent-insensitive and fuzzy search
+
+  1. Extensions
+    - `unaccent` - "Société Générale" is found with "societe generale"
+    - `pg_trgm` - trigram similarity, so that a typo still finds the row
+
+  2. Schema Changes
+    - Add `recherche` (text, generated) to the searched tables - their searched columns, lower
+      case and without accents, kept up to date by Postgres:
+      - `clients`, `fournisseurs` - name, société, number, email, ICE, phone
+      - `chauffeurs` - name, number, phone, registration
+      - `produits` - name
+      - `bon_de_commande`, `bon_de_livraison`, `devis`, `factures` - number
+      - `paiements_clients`, `paiements_fournisseurs`, `paiements_chauffeurs` - number, reference,
+        issuer
+      - `profiles` - email, full name
+    - Each `recherche` has a trigram index (substrings and typos) and a full-text index (words in
+      any order), so the searches no longer read every row
+    - The `paiements` view exposes the `recherche` of the payment and of its party
+
+  3. Functions
+    - `search_normalize(text)` - lower case, without accents
+    - `search_document(VARIADIC valeurs)` - the values as one normalized text, as stored in
+      `recherche`
+    - `search_score(recherche, document)` - relevance of a normalized document for the search, 0
+      when it does not match:
+      - 3 - a word of the document starts with the search
+      - 2 - the document contains the search
+      - 1 - it contains every word of the search, in any order (full-text)
+      - plus the trigram similarity of the search to the closest words, counted alone when it
+        is at least 0.4 (typos)
+    - `search_candidate(recherche, document)` - the same conditions written so that the indexes
+      of `recherche` answer them; the searches filter on it before computing the score
+    - `search_rank(recherche, VARIADIC valeurs)` - `search_score` of the values
+    - `search_matches` - now true when `search_rank` is above 0
+    - `search_clients`, `search_purchase_orders`, `search_delivery_notes`, `search_payments` and
+      `global_search` - filter on the `recherche` columns and return the most relevant rows
+      first, the caller can still sort them on another column
+    - `search_clients` runs with the rights of its owner, since `clients.total_margin` cannot be
+      selected by `authenticated`; the margin is NULL for the roles that may not see it
+    - `search_ranking(entite, recherche)` - ids and relevance of the clients, suppliers, drivers,
+      products, BCs, quotes, invoices or users matching the search, for the lists and pickers
+      that load every row
+    - The searches run with `pg_trgm.word_similarity_threshold` at 0.4, the similarity counted by
+      `search_score`
+
+  4. Security
+    - `produits.recherche` is granted to the authenticated users, like the other columns of
+      `produits` except the purchase price
+*/
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION search_normalize(p_texte text)
+RETURNS text AS $$
+  SELECT lower(extensions.unaccent('extensions.unaccent'::regdictionary, COALESCE(p_texte, '')));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Used by the generated columns: qualified so that it does not depend on the search_path
+CREATE OR REPLACE FUNCTION search_document(VARIADIC p_valeurs text[])
+RETURNS text AS $$
+  SELECT public.search_normalize(array_to_string(p_valeurs, ' '));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Searched text of each table
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (
+  search_document(nom, prenom, societe, numero_client, email, ice, telephone)
+) STORED;
+
+ALTER TABLE fournisseurs
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (
+  search_document(nom, prenom, societe, numero_fournisseur, email, ice, telephone)
+) STORED;
+
+ALTER TABLE chauffeurs
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (
+  search_document(nom, prenom, numero_chauffeur, telephone, immatricule)
+) STORED;
+
+ALTER TABLE produits
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (search_document(nom_produit)) STORED;
+
+ALTER TABLE bon_de_commande
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (search_document(numero_commande)) STORED;
+
+ALTER TABLE bon_de_livraison
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (search_document(numero_livraison)) STORED;
+
+ALTER TABLE devis
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (search_document(numero_devis)) STORED;
+
+ALTER TABLE factures
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (search_document(numero_facture)) STORED;
+
+ALTER TABLE paiements_clients
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (
+  search_document(numero_paiement, reference, issuer)
+) STORED;
+
+ALTER TABLE paiements_fournisseurs
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (
+  search_document(numero_paiement, reference, issuer)
+) STORED;
+
+ALTER TABLE paiements_chauffeurs
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (
+  search_document(numero_paiement, reference, issuer)
+) STORED;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS recherche text GENERATED ALWAYS AS (search_document(email, nom_complet)) STORED;
+
+-- Substrings and typos (trigrams), words in any order (full-text)
+CREATE INDEX IF NOT EXISTS idx_clients_recherche_trgm ON clients USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_clients_recherche_fts ON clients USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_fournisseurs_recherche_trgm ON fournisseurs USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_fournisseurs_recherche_fts ON fournisseurs USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_chauffeurs_recherche_trgm ON chauffeurs USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_chauffeurs_recherche_fts ON chauffeurs USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_produits_recherche_trgm ON produits USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_produits_recherche_fts ON produits USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_bon_de_commande_recherche_trgm ON bon_de_commande USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_bon_de_commande_recherche_fts ON bon_de_commande USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_bon_de_livraison_recherche_trgm ON bon_de_livraison USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_bon_de_livraison_recherche_fts ON bon_de_livraison USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_devis_recherche_trgm ON devis USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_devis_recherche_fts ON devis USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_factures_recherche_trgm ON factures USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_factures_recherche_fts ON factures USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_paiements_clients_recherche_trgm ON paiements_clients USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_paiements_clients_recherche_fts ON paiements_clients USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_paiements_fournisseurs_recherche_trgm ON paiements_fournisseurs USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_paiements_fournisseurs_recherche_fts ON paiements_fournisseurs USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_paiements_chauffeurs_recherche_trgm ON paiements_chauffeurs USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_paiements_chauffeurs_recherche_fts ON paiements_chauffeurs USING gin (to_tsvector('simple', recherche));
+CREATE INDEX IF NOT EXISTS idx_profiles_recherche_trgm ON profiles USING gin (recherche extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_profiles_recherche_fts ON profiles USING gin (to_tsvector('simple', recherche));
+
+-- SELECT on produits and clients is granted column by column since the user roles
+GRANT SELECT (recherche) ON produits TO authenticated;
+GRANT SELECT (recherche) ON clients TO authenticated;
+
+-- The payments with their searched text and the one of their party
+CREATE OR REPLACE VIEW paiements
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id,
+  'client'::text AS type,
+  p.numero_paiement,
+  p.montant,
+  p.mode_paiement,
+  p.reference,
+  p.issuer,
+  p.banque,
+  p.date_echeance,
+  p.statut_instrument,
+  p.date_paiement,
+  p.notes,
+  p.created_at,
+  p.updated_at,
+  p.created_by,
+  p.updated_by,
+  c.id AS entity_id,
+  c.nom AS entity_nom,
+  c.prenom AS entity_prenom,
+  c.societe AS entity_societe,
+  c.numero_client AS entity_numero,
+  p.recherche,
+  c.recherche AS entity_recherche
+FROM paiements_clients p
+JOIN clients c ON c.id = p.client_id
+UNION ALL
+SELECT
+  p.id,
+  'fournisseur'::text,
+  p.numero_paiement,
+  p.montant,
+  p.mode_paiement,
+  p.reference,
+  p.issuer,
+  NULL::text,
+  NULL::date,
+  NULL::text,
+  p.date_paiement,
+  p.notes,
+  p.created_at,
+  p.updated_at,
+  p.created_by,
+  p.updated_by,
+  f.id,
+  f.nom,
+  f.prenom,
+  f.societe,
+  f.numero_fournisseur,
+  p.recherche,
+  f.recherche
+FROM paiements_fournisseurs p
+JOIN fournisseurs f ON f.id = p.fournisseur_id
+UNION ALL
+SELECT
+  p.id,
+  'chauffeur'::text,
+  p.numero_paiement,
+  p.montant,
+  p.mode_paiement,
+  p.reference,
+  p.issuer,
+  NULL::text,
+  NULL::date,
+  NULL::text,
+  p.date_paiement,
+  p.notes,
+  p.created_at,
+  p.updated_at,
+  p.created_by,
+  p.updated_by,
+  ch.id,
+  ch.nom,
+  ch.prenom,
+  NULL::text,
+  ch.numero_chauffeur,
+  p.recherche,
+  ch.recherche
+FROM paiements_chauffeurs p
+JOIN chauffeurs ch ON ch.id = p.chauffeur_id;
+
+CREATE OR REPLACE FUNCTION search_score(p_recherche text, p_document text)
+RETURNS real AS $$
+  SELECT COALESCE((
+    SELECT
+      CASE
+        WHEN strpos(' ' || s.document, ' ' || s.terme) > 0 THEN 3
+        WHEN strpos(s.document, s.terme) > 0 THEN 2
+        WHEN to_tsvector('simple', s.document) @@ plainto_tsquery('simple', s.terme) THEN 1
+        ELSE 0
+      END
+      + CASE WHEN s.similarite >= 0.4 THEN s.similarite ELSE 0 END
+    FROM (
+      SELECT
+        t.terme,
+        t.document,
+        extensions.word_similarity(t.terme, t.document) AS similarite
+      FROM (
+        SELECT search_normalize(trim(p_recherche)) AS terme, COALESCE(p_document, '') AS document
+      ) t
+      WHERE t.terme <> ''
+    ) s
+  ), 0)::real;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Inlined by the planner, so each condition can use an index of `recherche`;
+-- `<%` follows pg_trgm.word_similarity_threshold, set by the searches
+CREATE OR REPLACE FUNCTION search_candidate(p_recherche text, p_document text)
+RETURNS boolean AS $$
+  SELECT p_document LIKE '%' || search_normalize(trim(p_recherche)) || '%'
+    OR to_tsvector('simple', p_document) @@ plainto_tsquery('simple', search_normalize(trim(p_recherche)))
+    OR search_normalize(trim(p_recherche)) OPERATOR(extensions.<%) p_document;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION search_rank(p_recherche text, VARIADIC p_valeurs text[])
+RETURNS real AS $$
+  SELECT search_score(p_recherche, search_document(VARIADIC p_valeurs));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION search_matches(p_recherche text, VARIADIC p_valeurs text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(trim(p_recherche), '') = ''
+    OR search_rank(p_recherche, VARIADIC p_valeurs) > 0;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Clients
+-- Runs with the rights of its owner to return whole client rows: the margin,
+-- which `authenticated` may not select, is blanked for the roles that may not
+-- see it, and the rows are limited to the staff like the clients policy
+CREATE OR REPLACE FUNCTION search_clients(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL
+)
+RETURNS SETOF clients AS $$
+  SELECT m.*
+  FROM clients c
+  CROSS JOIN LATERAL (SELECT search_score(p_recherche, c.recherche) AS rang) r
+  CROSS JOIN LATERAL jsonb_populate_record(
+    c,
+    CASE WHEN has_role(ARRAY['admin', 'comptable']) THEN '{}'::jsonb ELSE '{"total_margin": null}'::jsonb END
+  ) m
+  WHERE has_role(ARRAY['admin', 'commercial', 'comptable'])
+  AND (p_date_debut IS NULL OR c.created_at::date >= p_date_debut)
+  AND (p_date_fin IS NULL OR c.created_at::date <= p_date_fin)
+  AND search_candidate(p_recherche, c.recherche)
+  AND (COALESCE(trim(p_recherche), '') = '' OR r.rang > 0)
+  ORDER BY r.rang DESC, c.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- Purchase orders: the search also covers the clients the BC was delivered to
+CREATE OR REPLACE FUNCTION search_purchase_orders(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_statut text DEFAULT NULL
+)
+RETURNS SETOF bon_de_commande AS $$
+  SELECT bc.*
+  FROM bon_de_commande bc
+  LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+  CROSS JOIN LATERAL (
+    SELECT GREATEST(
+      search_score(p_recherche, bc.recherche),
+      search_score(p_recherche, f.recherche),
+      COALESCE((
+        SELECT MAX(search_score(p_recherche, c.recherche))
+        FROM bon_de_livraison bl
+        JOIN clients c ON c.id = bl.client_id
+        WHERE bl.bon_commande_id = bc.id AND bl.statut <> 'annulee'
+      ), 0)
+    ) AS rang
+  ) r
+  WHERE (p_date_debut IS NULL OR bc.date_commande >= p_date_debut)
+  AND (p_date_fin IS NULL OR bc.date_commande <= p_date_fin)
+  AND (COALESCE(p_statut, '') = '' OR bc.statut = p_statut)
+  AND (
+    search_candidate(p_recherche, bc.recherche)
+    OR search_candidate(p_recherche, f.recherche)
+    OR EXISTS (
+      SELECT 1
+      FROM bon_de_livraison bl
+      JOIN clients c ON c.id = bl.client_id
+      WHERE bl.bon_commande_id = bc.id AND bl.statut <> 'annulee'
+      AND search_candidate(p_recherche, c.recherche)
+    )
+  )
+  AND (COALESCE(trim(p_recherche), '') = '' OR r.rang > 0)
+  ORDER BY r.rang DESC, bc.id;
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- Delivery notes that are not cancelled
+CREATE OR REPLACE FUNCTION search_delivery_notes(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_statut text DEFAULT NULL,
+  p_chauffeur_id uuid DEFAULT NULL,
+  p_statut_paiement text DEFAULT NULL
+)
+RETURNS SETOF bon_de_livraison AS $$
+  SELECT bl.*
+  FROM bon_de_livraison bl
+  LEFT JOIN clients c ON c.id = bl.client_id
+  LEFT JOIN chauffeurs ch ON ch.id = bl.chauffeur_id
+  LEFT JOIN bon_de_commande bc ON bc.id = bl.bon_commande_id
+  LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+  CROSS JOIN LATERAL (
+    SELECT GREATEST(
+      search_score(p_recherche, bl.recherche),
+      search_score(p_recherche, bc.recherche),
+      search_score(p_recherche, c.recherche),
+      search_score(p_recherche, ch.recherche),
+      search_score(p_recherche, f.recherche)
+    ) AS rang
+  ) r
+  WHERE bl.statut <> 'annulee'
+  AND (p_date_debut IS NULL OR bl.date_livraison >= p_date_debut)
+  AND (p_date_fin IS NULL OR bl.date_livraison <= p_date_fin)
+  AND (COALESCE(p_statut, '') = '' OR bl.statut = p_statut)
+  AND (p_chauffeur_id IS NULL OR bl.chauffeur_id = p_chauffeur_id)
+  AND (COALESCE(p_statut_paiement, '') = '' OR bl.statut_paiement = p_statut_paiement)
+  AND (
+    search_candidate(p_recherche, bl.recherche)
+    OR search_candidate(p_recherche, bc.recherche)
+    OR search_candidate(p_recherche, c.recherche)
+    OR search_candidate(p_recherche, ch.recherche)
+    OR search_candidate(p_recherche, f.recherche)
+  )
+  AND (COALESCE(trim(p_recherche), '') = '' OR r.rang > 0)
+  ORDER BY r.rang DESC, bl.id;
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- Payments of every kind
+CREATE OR REPLACE FUNCTION search_payments(
+  p_recherche text DEFAULT NULL,
+  p_date_debut date DEFAULT NULL,
+  p_date_fin date DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_mode_paiement text DEFAULT NULL
+)
+RETURNS SETOF paiements AS $$
+  SELECT p.*
+  FROM paiements p
+  CROSS JOIN LATERAL (
+    SELECT GREATEST(
+      search_score(p_recherche, p.recherche),
+      search_score(p_recherche, p.entity_recherche)
+    ) AS rang
+  ) r
+  WHERE (p_date_debut IS NULL OR p.date_paiement >= p_date_debut)
+  AND (p_date_fin IS NULL OR p.date_paiement <= p_date_fin)
+  AND (COALESCE(p_type, '') = '' OR p.type = p_type)
+  AND (COALESCE(p_mode_paiement, '') = '' OR p.mode_paiement = p_mode_paiement)
+  AND (search_candidate(p_recherche, p.recherche) OR search_candidate(p_recherche, p.entity_recherche))
+  AND (COALESCE(trim(p_recherche), '') = '' OR r.rang > 0)
+  ORDER BY r.rang DESC, p.id;
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- Rows of the lists and pickers loaded in full, most relevant first
+CREATE OR REPLACE FUNCTION search_ranking(p_entite text, p_recherche text)
+RETURNS TABLE (
+  id uuid,
+  rang real
+) AS $$
+  SELECT e.id, e.rang
+  FROM (
+    SELECT c.id, search_score(p_recherche, c.recherche) AS rang
+    FROM clients c
+    WHERE p_entite = 'clients' AND search_candidate(p_recherche, c.recherche)
+    UNION ALL
+    SELECT f.id, search_score(p_recherche, f.recherche)
+    FROM fournisseurs f
+    WHERE p_entite = 'fournisseurs' AND search_candidate(p_recherche, f.recherche)
+    UNION ALL
+    SELECT ch.id, search_score(p_recherche, ch.recherche)
+    FROM chauffeurs ch
+    WHERE p_entite = 'chauffeurs' AND search_candidate(p_recherche, ch.recherche)
+    UNION ALL
+    SELECT p.id, search_score(p_recherche, p.recherche)
+    FROM produits p
+    WHERE p_entite = 'produits' AND search_candidate(p_recherche, p.recherche)
+    UNION ALL
+    -- BCs by number or supplier
+    SELECT bc.id, GREATEST(search_score(p_recherche, bc.recherche), search_score(p_recherche, f.recherche))
+    FROM bon_de_commande bc
+    LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+    WHERE p_entite = 'bons_de_commande'
+    AND (search_candidate(p_recherche, bc.recherche) OR search_candidate(p_recherche, f.recherche))
+    UNION ALL
+    -- Quotes by number or client
+    SELECT d.id, GREATEST(search_score(p_recherche, d.recherche), search_score(p_recherche, c.recherche))
+    FROM devis d
+    LEFT JOIN clients c ON c.id = d.client_id
+    WHERE p_entite = 'devis'
+    AND (search_candidate(p_recherche, d.recherche) OR search_candidate(p_recherche, c.recherche))
+    UNION ALL
+    -- Invoices by number, client or invoiced BL
+    SELECT fa.id, GREATEST(
+      search_score(p_recherche, fa.recherche),
+      search_score(p_recherche, c.recherche),
+      COALESCE((
+        SELECT MAX(search_score(p_recherche, bl.recherche))
+        FROM facture_livraisons fl
+        JOIN bon_de_livraison bl ON bl.id = fl.livraison_id
+        WHERE fl.facture_id = fa.id
+      ), 0)
+    )
+    FROM factures fa
+    LEFT JOIN clients c ON c.id = fa.client_id
+    WHERE p_entite = 'factures'
+    AND (
+      search_candidate(p_recherche, fa.recherche)
+      OR search_candidate(p_recherche, c.recherche)
+      OR EXISTS (
+        SELECT 1
+        FROM facture_livraisons fl
+        JOIN bon_de_livraison bl ON bl.id = fl.livraison_id
+        WHERE fl.facture_id = fa.id AND search_candidate(p_recherche, bl.recherche)
+      )
+    )
+    UNION ALL
+    SELECT pr.id, search_score(p_recherche, pr.recherche)
+    FROM profiles pr
+    WHERE p_entite = 'utilisateurs' AND search_candidate(p_recherche, pr.recherche)
+  ) e
+  WHERE e.rang > 0
+  ORDER BY e.rang DESC, e.id;
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- Global search: the most relevant rows of each type
+CREATE OR REPLACE FUNCTION global_search(
+  p_recherche text,
+  p_limite integer DEFAULT 5
+)
+RETURNS TABLE (
+  type text,
+  id uuid,
+  libelle text,
+  detail text
+) AS $$
+  WITH recherche AS (
+    SELECT trim(p_recherche) AS terme
+    WHERE length(trim(COALESCE(p_recherche, ''))) >= 2
+  )
+  (
+    SELECT 'client', c.id, COALESCE(NULLIF(c.societe, ''), c.prenom || ' ' || c.nom),
+      c.numero_client || COALESCE(' · ICE ' || NULLIF(c.ice, ''), '')
+    FROM clients c, recherche r,
+      LATERAL (SELECT search_score(r.terme, c.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, c.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, c.societe, c.nom
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'fournisseur', f.id, COALESCE(NULLIF(f.societe, ''), f.prenom || ' ' || f.nom),
+      f.numero_fournisseur || COALESCE(' · ICE ' || NULLIF(f.ice, ''), '')
+    FROM fournisseurs f, recherche r,
+      LATERAL (SELECT search_score(r.terme, f.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, f.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, f.societe, f.nom
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'chauffeur', ch.id, ch.prenom || ' ' || ch.nom,
+      ch.numero_chauffeur || COALESCE(' · ' || NULLIF(ch.immatricule, ''), '')
+    FROM chauffeurs ch, recherche r,
+      LATERAL (SELECT search_score(r.terme, ch.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, ch.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, ch.nom, ch.prenom
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'produit', p.id, p.nom_produit, p.unite
+    FROM produits p, recherche r,
+      LATERAL (SELECT search_score(r.terme, p.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, p.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, p.nom_produit
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'bon_de_commande', bc.id, bc.numero_commande,
+      COALESCE(NULLIF(f.societe, ''), f.prenom || ' ' || f.nom) || ' · ' || to_char(bc.date_commande, 'DD/MM/YYYY')
+    FROM bon_de_commande bc
+    LEFT JOIN fournisseurs f ON f.id = bc.fournisseur_id
+    CROSS JOIN recherche r
+    CROSS JOIN LATERAL (SELECT search_score(r.terme, bc.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, bc.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, bc.date_commande DESC, bc.numero_commande DESC
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'bon_de_livraison', bl.id, bl.numero_livraison,
+      COALESCE(NULLIF(c.societe, ''), c.prenom || ' ' || c.nom) || ' · ' || to_char(bl.date_livraison, 'DD/MM/YYYY')
+    FROM bon_de_livraison bl
+    LEFT JOIN clients c ON c.id = bl.client_id
+    CROSS JOIN recherche r
+    CROSS JOIN LATERAL (SELECT search_score(r.terme, bl.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, bl.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, bl.date_livraison DESC, bl.numero_livraison DESC
+    LIMIT p_limite
+  )
+  UNION ALL
+  (
+    SELECT 'paiement', pa.id, pa.numero_paiement,
+      COALESCE(NULLIF(pa.entity_societe, ''), pa.entity_prenom || ' ' || pa.entity_nom)
+        || COALESCE(' · ' || NULLIF(pa.reference, ''), '')
+        || COALESCE(' · ' || NULLIF(pa.issuer, ''), '')
+    FROM paiements pa, recherche r,
+      LATERAL (SELECT search_score(r.terme, pa.recherche) AS rang) s
+    WHERE search_candidate(p_recherche, pa.recherche) AND s.rang > 0
+    ORDER BY s.rang DESC, pa.date_paiement DESC, pa.numero_paiement DESC
+    LIMIT p_limite
+  );
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;